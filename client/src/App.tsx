@@ -5,6 +5,10 @@ import { DynamicSpriteControls } from './components/DynamicSpriteControls';
 import PerformanceMonitor from './components/PerformanceMonitor';
 import { Light, ShadowConfig, AmbientOcclusionConfig, loadLightsConfig, loadAmbientLight, saveLightsConfig, convertLightToConfig, rgbToHex } from '@/lib/lights';
 import { detectDevice, getOptimalSettings, PerformanceSettings } from './utils/performance';
+import { LightTileStats } from '@/lib/lightTiles';
+import { ShadowAtlasStats } from '@/lib/shadowAtlas';
+import { IBLConfig, ReflectionConfig, ToneMappingConfig, BloomConfig, ColorGradingConfig } from './components/SceneStateManager';
+import { ParallaxLayer } from './components/Sprite';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
@@ -58,6 +62,8 @@ function App() {
     strength: 0.7,
     maxLength: 120,
     height: 10,
+    penumbraScale: 1.0,
+    technique: 'raymarch',
   });
 
   // Ambient Occlusion configuration state - DEMO MODE: All features ON by default
@@ -72,7 +78,12 @@ function App() {
   // Scene configuration state
   const [sceneConfig, setSceneConfig] = useState<{ 
     sprites: Record<string, any>; 
-    iblConfig?: { enabled: boolean; intensity: number; environmentMap: string } 
+    iblConfig?: IBLConfig;
+    reflectionConfig?: ReflectionConfig;
+    toneMappingConfig?: ToneMappingConfig;
+    bloomConfig?: BloomConfig;
+    colorGradingConfig?: ColorGradingConfig;
+    layers?: Record<string, ParallaxLayer>;
   }>({ sprites: {} });
   const [isLoaded, setSceneLoaded] = useState<boolean>(false);
   
@@ -85,6 +96,13 @@ function App() {
   const [deviceInfo] = useState(() => detectDevice());
   const [fpsData, setFpsData] = useState({ current: 60, average: 60 });
   
+  // Tiled light culling debug state (not persisted)
+  const [lightTileStats, setLightTileStats] = useState<LightTileStats | null>(null);
+  const [showLightTileHeatmap, setShowLightTileHeatmap] = useState<boolean>(false);
+  
+  // Polar shadow atlas rebuild stats (null unless the polar shadow technique is active)
+  const [shadowAtlasStats, setShadowAtlasStats] = useState<ShadowAtlasStats | null>(null);
+  
 
   // CENTRALIZED SAVE - Gathers ALL current state automatically
   // No controller needs to know about other configs!
@@ -113,7 +131,12 @@ function App() {
           shadowConfig,
           ambientOcclusionConfig,
           performanceSettings,
-          iblConfig: sceneConfig.iblConfig
+          iblConfig: sceneConfig.iblConfig,
+          reflectionConfig: sceneConfig.reflectionConfig,
+          toneMappingConfig: sceneConfig.toneMappingConfig,
+          bloomConfig: sceneConfig.bloomConfig,
+          colorGradingConfig: sceneConfig.colorGradingConfig,
+          layers: sceneConfig.layers
         };
         
         const response = await fetch('/api/save-scene-config', {
@@ -203,7 +226,7 @@ function App() {
 
         // Load performance settings from scene.json
         if (sceneResult.performanceSettings) {
-          setPerformanceSettings(sceneResult.performanceSettings);
+          setPerformanceSettings(prev => ({ ...prev, ...sceneResult.performanceSettings })); // Keep defaults for settings missing from older scene files
         }
         
         setLightsLoaded(true);
@@ -246,7 +269,12 @@ function App() {
   // Handler for scene configuration changes
   const handleSceneConfigChange = useCallback((newSceneConfig: { 
     sprites: Record<string, any>; 
-    iblConfig?: { enabled: boolean; intensity: number; environmentMap: string } 
+    iblConfig?: IBLConfig;
+    reflectionConfig?: ReflectionConfig;
+    toneMappingConfig?: ToneMappingConfig;
+    bloomConfig?: BloomConfig;
+    colorGradingConfig?: ColorGradingConfig;
+    layers?: Record<string, ParallaxLayer>;
   }) => {
     console.log('🔄 App: Scene config changed, triggering update...', newSceneConfig);
     setSceneConfig(newSceneConfig);
@@ -273,7 +301,12 @@ function App() {
           shadowConfig,
           ambientOcclusionConfig,
           performanceSettings,
-          iblConfig: newSceneConfig.iblConfig // Use NEW value directly
+          iblConfig: newSceneConfig.iblConfig, // Use NEW value directly
+          reflectionConfig: newSceneConfig.reflectionConfig,
+          toneMappingConfig: newSceneConfig.toneMappingConfig,
+          bloomConfig: newSceneConfig.bloomConfig,
+          colorGradingConfig: newSceneConfig.colorGradingConfig,
+          layers: newSceneConfig.layers
         };
         
         const response = await fetch('/api/save-scene-config', {
@@ -318,7 +351,12 @@ function App() {
           shadowConfig,
           ambientOcclusionConfig,
           performanceSettings: settingsWithOverride, // Use NEW value directly
-          iblConfig: sceneConfig.iblConfig
+          iblConfig: sceneConfig.iblConfig,
+          reflectionConfig: sceneConfig.reflectionConfig,
+          toneMappingConfig: sceneConfig.toneMappingConfig,
+          bloomConfig: sceneConfig.bloomConfig,
+          colorGradingConfig: sceneConfig.colorGradingConfig,
+          layers: sceneConfig.layers
         };
         
         const response = await fetch('/api/save-scene-config', {
@@ -336,6 +374,12 @@ function App() {
     }, 300);
   }, [lightsConfig, ambientLight, sceneConfig, shadowConfig, ambientOcclusionConfig]);
 
+  // Bloom lives in the scene config (saved with it) - the optimization tab edits it through the scene handler
+  const bloomConfig: BloomConfig = sceneConfig.bloomConfig || { enabled: false, threshold: 0.8, intensity: 0.6, radius: 1.0 };
+  const handleBloomConfigChange = useCallback((updates: Partial<BloomConfig>) => {
+    handleSceneConfigChange({ ...sceneConfig, bloomConfig: { ...bloomConfig, ...updates } });
+  }, [sceneConfig, bloomConfig, handleSceneConfigChange]);
+
   // Handler for immediate sprite changes (bypass React state for instant feedback)
   const handleImmediateSpriteChange = useCallback((spriteId: string, updates: any) => {
     console.log(`🚀 App: Immediate sprite change for ${spriteId}:`, Object.keys(updates));
@@ -398,6 +442,9 @@ function App() {
                     onShaderUpdate={setShaderStatus}
                     onMeshUpdate={setMeshStatus}
                     onImmediateSpriteChange={handleImmediateSpriteChange}
+                    showLightTileHeatmap={showLightTileHeatmap}
+                    onLightTileStatsUpdate={setLightTileStats}
+                    onShadowAtlasStatsUpdate={setShadowAtlasStats}
                     onPerformanceUpdate={(fps, settings) => {
                       setFpsData(fps);
                       // Only update performance settings if not manually overridden
@@ -449,12 +496,26 @@ function App() {
                     sceneConfig={sceneConfig}
                     onSceneConfigChange={handleSceneConfigChange}
                     onImmediateSpriteChange={handleImmediateSpriteChange}
+                    shadowTechnique={shadowConfig.technique}
                   />
                 )}
               </TabsContent>
 
               <TabsContent value="optimization" className="mt-4">
                 <div className="space-y-6">
+                  {/* Floating performance monitor with per-tile light culling stats */}
+                  <PerformanceMonitor
+                    fps={fpsData}
+                    deviceInfo={deviceInfo}
+                    performanceSettings={performanceSettings}
+                    onSettingsChange={handlePerformanceSettingsChange}
+                    lightTileStats={lightTileStats}
+                    showLightTileHeatmap={showLightTileHeatmap}
+                    onToggleLightTileHeatmap={setShowLightTileHeatmap}
+                    shadowTechnique={shadowConfig.technique}
+                    shadowAtlasStats={shadowAtlasStats}
+                  />
+                  
                   {/* Device Information Section */}
                   <Card>
                     <CardHeader>
@@ -602,6 +663,66 @@ function App() {
                                 />
                               </label>
                             </div>
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm">Tiled Light Culling</span>
+                              <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={performanceSettings.enableTiledLighting}
+                                  onChange={(e) => handlePerformanceSettingsChange({
+                                    ...performanceSettings,
+                                    enableTiledLighting: e.target.checked
+                                  })}
+                                  className="w-4 h-4 text-primary focus:ring-primary border-gray-300 rounded"
+                                  data-testid="toggle-tiled-lighting"
+                                />
+                              </label>
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm">Reflections (SSR + Planar)</span>
+                              <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={performanceSettings.enableReflections}
+                                  onChange={(e) => handlePerformanceSettingsChange({
+                                    ...performanceSettings,
+                                    enableReflections: e.target.checked
+                                  })}
+                                  className="w-4 h-4 text-primary focus:ring-primary border-gray-300 rounded"
+                                  data-testid="toggle-reflections"
+                                />
+                              </label>
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm">Bloom</span>
+                              <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                  type="checkbox"
+                                  checked={performanceSettings.enableBloom}
+                                  onChange={(e) => handlePerformanceSettingsChange({
+                                    ...performanceSettings,
+                                    enableBloom: e.target.checked
+                                  })}
+                                  className="w-4 h-4 text-primary focus:ring-primary border-gray-300 rounded"
+                                  data-testid="toggle-bloom"
+                                />
+                              </label>
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm">Rendering Path</span>
+                              <select
+                                value={performanceSettings.renderingPath}
+                                onChange={(e) => handlePerformanceSettingsChange({
+                                  ...performanceSettings,
+                                  renderingPath: e.target.value as 'forward' | 'deferred'
+                                })}
+                                className="bg-input border border-border rounded px-2 py-1 text-xs text-foreground"
+                                data-testid="dropdown-rendering-path"
+                              >
+                                <option value="forward">Forward</option>
+                                <option value="deferred">Deferred (WebGL2)</option>
+                              </select>
+                            </div>
                             <div className="flex items-center justify-between">
                               <span className="text-sm">Cap FPS to 60</span>
                               <label className="flex items-center gap-2 cursor-pointer">
@@ -632,6 +753,10 @@ function App() {
                                 enableAmbientOcclusion: false,
                                 enableNormalMapping: false,
                                 enableLightMasks: false,
+                                enableTiledLighting: true,
+                                enableReflections: false,
+                                enableBloom: false,
+                                renderingPath: 'forward',
                                 textureScale: 0.5,
                                 fpsTarget: 30,
                                 capFpsTo60: true
@@ -650,6 +775,10 @@ function App() {
                                 enableAmbientOcclusion: false,
                                 enableNormalMapping: true,
                                 enableLightMasks: false,
+                                enableTiledLighting: true,
+                                enableReflections: false,
+                                enableBloom: false,
+                                renderingPath: 'forward',
                                 textureScale: 0.75,
                                 fpsTarget: 45,
                                 capFpsTo60: true
@@ -668,6 +797,10 @@ function App() {
                                 enableAmbientOcclusion: true,
                                 enableNormalMapping: true,
                                 enableLightMasks: true,
+                                enableTiledLighting: true,
+                                enableReflections: true,
+                                enableBloom: true,
+                                renderingPath: 'forward',
                                 textureScale: 1.0,
                                 fpsTarget: 60,
                                 capFpsTo60: true
@@ -701,6 +834,76 @@ function App() {
                       </div>
                     </CardContent>
                   </Card>
+
+                  {/* Bloom Section - glow settings, the pass itself is gated by the Bloom feature toggle above */}
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        🌟 Bloom
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm">Enable Bloom</span>
+                          <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={bloomConfig.enabled}
+                              onChange={(e) => handleBloomConfigChange({ enabled: e.target.checked })}
+                              className="w-4 h-4 text-primary focus:ring-primary border-gray-300 rounded"
+                              data-testid="toggle-bloom-config"
+                            />
+                          </label>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm min-w-[110px]">Threshold: {bloomConfig.threshold.toFixed(2)}</span>
+                          <input
+                            type="range"
+                            min="0"
+                            max="2"
+                            step="0.05"
+                            value={bloomConfig.threshold}
+                            onChange={(e) => handleBloomConfigChange({ threshold: parseFloat(e.target.value) })}
+                            className="flex-1"
+                            data-testid="slider-bloom-threshold"
+                          />
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm min-w-[110px]">Intensity: {bloomConfig.intensity.toFixed(2)}</span>
+                          <input
+                            type="range"
+                            min="0"
+                            max="3"
+                            step="0.05"
+                            value={bloomConfig.intensity}
+                            onChange={(e) => handleBloomConfigChange({ intensity: parseFloat(e.target.value) })}
+                            className="flex-1"
+                            data-testid="slider-bloom-intensity"
+                          />
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-sm min-w-[110px]">Radius: {bloomConfig.radius.toFixed(2)}</span>
+                          <input
+                            type="range"
+                            min="0.5"
+                            max="3"
+                            step="0.1"
+                            value={bloomConfig.radius}
+                            onChange={(e) => handleBloomConfigChange({ radius: parseFloat(e.target.value) })}
+                            className="flex-1"
+                            data-testid="slider-bloom-radius"
+                          />
+                        </div>
+                        {!performanceSettings.enableBloom && (
+                          <p className="text-xs text-muted-foreground">• Bloom is switched off in Feature Controls - settings apply once it is on</p>
+                        )}
+                        {performanceSettings.enableBloom && bloomConfig.enabled && bloomConfig.threshold >= 1 && (
+                          <p className="text-xs text-muted-foreground">• Thresholds at or above 1.0 only catch lighting above white, which needs a half-float target (WebGL2)</p>
+                        )}
+                      </div>
+                    </CardContent>
+                  </Card>
                 </div>
               </TabsContent>
             </Tabs>
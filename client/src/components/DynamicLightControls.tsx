@@ -3,6 +3,7 @@ import {
   Light,
   MaskConfig,
   ShadowConfig,
+  ShadowTechnique,
   AmbientOcclusionConfig,
   saveLightsConfig,
 } from "@/lib/lights";
@@ -16,13 +17,27 @@ import {
   EyeOff,
   Moon,
   Contrast,
+  Sparkles,
+  Aperture,
+  Palette,
 } from "lucide-react";
-import { SceneConfig } from "./SceneStateManager";
+import {
+  SceneConfig,
+  IBLConfig,
+  ReflectionConfig,
+  ToneMappingConfig,
+  ColorGradingConfig,
+} from "./SceneStateManager";
+import { ToneMappingOperator } from "@/lib/toneMapping";
+import {
+  DEFAULT_VOLUMETRIC_DENSITY,
+  DEFAULT_VOLUMETRIC_DECAY,
+} from "@/lib/volumetricLight";
 
 /**
  * Dynamic lighting control panel supporting unlimited lights with real-time editing.
  * Manages light creation, configuration, masking, and auto-save to external JSON.
- * Handles all three light types: point, directional, and spotlight.
+ * Handles all light types: point, directional, spotlight, area (rectangle) and line (tube).
  */
 
 interface DynamicLightControlsProps {
@@ -70,12 +85,7 @@ const DynamicLightControls = ({
     },
   );
 
-  const [localIBLConfig, setLocalIBLConfig] = useState<{
-    enabled: boolean;
-    intensity: number;
-    environmentMap: string;
-    pixelStep: number;
-  }>(
+  const [localIBLConfig, setLocalIBLConfig] = useState<IBLConfig>(
     (sceneConfig as any).iblConfig || {
       enabled: false,
       intensity: 1.0,
@@ -83,9 +93,44 @@ const DynamicLightControls = ({
       pixelStep: 1.0,
     },
   );
+  const [localReflectionConfig, setLocalReflectionConfig] =
+    useState<ReflectionConfig>(
+      sceneConfig.reflectionConfig || {
+        enabled: false,
+        intensity: 0.5,
+        normalInfluence: 0.3,
+        blur: 0.5,
+      },
+    );
+  const [localToneMappingConfig, setLocalToneMappingConfig] =
+    useState<ToneMappingConfig>(
+      sceneConfig.toneMappingConfig || {
+        operator: "none",
+        exposure: 0,
+        autoExposure: false,
+        adaptationSpeed: 1.5,
+      },
+    );
+  const [localColorGradingConfig, setLocalColorGradingConfig] =
+    useState<ColorGradingConfig>(
+      sceneConfig.colorGradingConfig || {
+        enabled: false,
+        lut: "",
+        lutStrength: 1,
+        lift: 0,
+        gamma: 1,
+        gain: 1,
+        saturation: 1,
+        contrast: 1,
+      },
+    );
+  // LUT path being typed - only committed on Enter / blur so every keystroke doesn't trigger a load
+  const [lutPathDraft, setLutPathDraft] = useState<string>(
+    localColorGradingConfig.lut,
+  );
   const [availableSkyBoxes, setAvailableSkyBoxes] = useState<string[]>([]);
   const [newLightType, setNewLightType] = useState<
-    "point" | "directional" | "spotlight"
+    "point" | "directional" | "spotlight" | "area" | "line"
   >("point");
   const [editingLightId, setEditingLightId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState<string>("");
@@ -167,6 +212,149 @@ const DynamicLightControls = ({
     setLocalShadowConfig(shadowConfig);
   }, [shadowConfig]);
 
+  // IBL settings live in the scene config - immediate update + auto-save
+  const updateIBLConfig = (updates: Partial<IBLConfig>) => {
+    const newConfig = { ...localIBLConfig, ...updates };
+    setLocalIBLConfig(newConfig);
+    const updatedScene = {
+      ...sceneConfig,
+      iblConfig: newConfig,
+    };
+    onSceneConfigChange(updatedScene);
+    debouncedSave(
+      localLights,
+      localAmbient,
+      localShadowConfig,
+      localAOConfig,
+      updatedScene,
+    );
+  };
+
+  // Screen-space reflection settings live in the scene config - immediate update + auto-save
+  const updateReflectionConfig = (updates: Partial<ReflectionConfig>) => {
+    const newConfig = { ...localReflectionConfig, ...updates };
+    setLocalReflectionConfig(newConfig);
+    const updatedScene = {
+      ...sceneConfig,
+      reflectionConfig: newConfig,
+    };
+    onSceneConfigChange(updatedScene);
+    debouncedSave(
+      localLights,
+      localAmbient,
+      localShadowConfig,
+      localAOConfig,
+      updatedScene,
+    );
+  };
+
+  // Tone mapping settings live in the scene config - immediate update + auto-save
+  const updateToneMappingConfig = (updates: Partial<ToneMappingConfig>) => {
+    const newConfig = { ...localToneMappingConfig, ...updates };
+    setLocalToneMappingConfig(newConfig);
+    const updatedScene = {
+      ...sceneConfig,
+      toneMappingConfig: newConfig,
+    };
+    onSceneConfigChange(updatedScene);
+    debouncedSave(
+      localLights,
+      localAmbient,
+      localShadowConfig,
+      localAOConfig,
+      updatedScene,
+    );
+  };
+
+  // Color grading settings live in the scene config - immediate update + auto-save
+  const updateColorGradingConfig = (updates: Partial<ColorGradingConfig>) => {
+    const newConfig = { ...localColorGradingConfig, ...updates };
+    setLocalColorGradingConfig(newConfig);
+    const updatedScene = {
+      ...sceneConfig,
+      colorGradingConfig: newConfig,
+    };
+    onSceneConfigChange(updatedScene);
+    debouncedSave(
+      localLights,
+      localAmbient,
+      localShadowConfig,
+      localAOConfig,
+      updatedScene,
+    );
+  };
+
+  const commitLutPath = () => {
+    const lut = lutPathDraft.trim();
+    if (lut !== localColorGradingConfig.lut) {
+      updateColorGradingConfig({ lut });
+    }
+  };
+
+  // Light shaft controls shared by point, spot and directional lights
+  const renderLightShaftControls = (light: Light) => (
+    <div className="mt-2 pt-2 border-t border-border/50">
+      <div className="flex items-center space-x-1 mb-1">
+        <input
+          type="checkbox"
+          checked={!!light.volumetric}
+          onChange={(e) =>
+            updateLight(light.id, { volumetric: e.target.checked })
+          }
+          className="w-3 h-3"
+          data-testid={`checkbox-${light.id}-volumetric`}
+        />
+        <label className="text-xs text-muted-foreground">
+          Light Shafts
+        </label>
+      </div>
+      {light.volumetric && (
+        <>
+          <div className="flex items-center space-x-1">
+            <label className="text-xs text-muted-foreground min-w-[80px]">
+              Density:{" "}
+              {(light.volumetricDensity ?? DEFAULT_VOLUMETRIC_DENSITY).toFixed(2)}
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="2"
+              step="0.05"
+              value={light.volumetricDensity ?? DEFAULT_VOLUMETRIC_DENSITY}
+              onChange={(e) =>
+                updateLight(light.id, {
+                  volumetricDensity: parseFloat(e.target.value),
+                })
+              }
+              className="flex-1"
+              data-testid={`slider-${light.id}-volumetric-density`}
+            />
+          </div>
+          <div className="flex items-center space-x-1">
+            <label className="text-xs text-muted-foreground min-w-[80px]">
+              Decay:{" "}
+              {(light.volumetricDecay ?? DEFAULT_VOLUMETRIC_DECAY).toFixed(3)}
+            </label>
+            <input
+              type="range"
+              min="0.8"
+              max="1"
+              step="0.005"
+              value={light.volumetricDecay ?? DEFAULT_VOLUMETRIC_DECAY}
+              onChange={(e) =>
+                updateLight(light.id, {
+                  volumetricDecay: parseFloat(e.target.value),
+                })
+              }
+              className="flex-1"
+              data-testid={`slider-${light.id}-volumetric-decay`}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+
   // Core light mutation function - immediate update + auto-save
   const updateLight = (lightId: string, updates: Partial<Light>) => {
     const updatedLights = localLights.map((light) =>
@@ -329,6 +517,16 @@ const DynamicLightControls = ({
       baseLight.radius = 150;
       baseLight.coneAngle = 30;
       baseLight.softness = 0.5;
+    } else if (newLightType === "area") {
+      baseLight.radius = 250;
+      baseLight.width = 160;
+      baseLight.height = 40;
+      baseLight.rotation = 0;
+    } else if (newLightType === "line") {
+      baseLight.position = { x: 320, y: 300, z: 50 };
+      baseLight.endPosition = { x: 480, y: 300, z: 50 };
+      baseLight.radius = 200;
+      baseLight.width = 12;
     }
 
     const updatedLights = [...localLights, baseLight];
@@ -385,7 +583,7 @@ const DynamicLightControls = ({
             value={newLightType}
             onChange={(e) =>
               setNewLightType(
-                e.target.value as "point" | "directional" | "spotlight",
+                e.target.value as "point" | "directional" | "spotlight" | "area" | "line",
               )
             }
             className="bg-input border border-border rounded px-2 py-1 text-xs text-foreground"
@@ -393,6 +591,8 @@ const DynamicLightControls = ({
           >
             <option value="point">Point</option>
             <option value="spotlight">Spotlight</option>
+            <option value="area">Area</option>
+            <option value="line">Line</option>
           </select>
           <button
             onClick={addNewLight}
@@ -572,6 +772,8 @@ const DynamicLightControls = ({
                 Cast Shadows
               </label>
             </div>
+
+            {renderLightShaftControls(directionalLight)}
           </div>
         );
       })()}
@@ -616,6 +818,36 @@ const DynamicLightControls = ({
 
         {localShadowConfig.enabled && (
           <>
+            <div className="flex items-center space-x-2 mb-1">
+              <label className="text-xs text-muted-foreground min-w-[80px]">
+                Technique:
+              </label>
+              <select
+                value={localShadowConfig.technique || "raymarch"}
+                onChange={(e) => {
+                  const newConfig = {
+                    ...localShadowConfig,
+                    technique: e.target.value as ShadowTechnique,
+                  };
+                  setLocalShadowConfig(newConfig);
+                  onShadowConfigChange(newConfig); // Immediate visual update
+                  debouncedSave(
+                    localLights,
+                    localAmbient,
+                    newConfig,
+                    localAOConfig,
+                    sceneConfig,
+                  );
+                }}
+                className="flex-1 bg-background border border-border rounded px-2 py-1 text-xs text-foreground"
+                data-testid="select-shadow-technique"
+              >
+                <option value="raymarch">Ray March</option>
+                <option value="sdf">Distance Field</option>
+                <option value="polar">Polar Atlas</option>
+              </select>
+            </div>
+
             <div className="flex items-center space-x-2 mb-1">
               <label className="text-xs text-muted-foreground min-w-[80px]">
                 Strength: {localShadowConfig.strength.toFixed(2)}
@@ -678,6 +910,37 @@ const DynamicLightControls = ({
               />
             </div>
 
+            <div className="flex items-center space-x-2 mb-1">
+              <label className="text-xs text-muted-foreground min-w-[80px]">
+                Penumbra: {(localShadowConfig.penumbraScale ?? 1).toFixed(1)}
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="3"
+                step="0.1"
+                value={localShadowConfig.penumbraScale ?? 1}
+                onChange={(e) => {
+                  const newScale = parseFloat(e.target.value);
+                  const newConfig = {
+                    ...localShadowConfig,
+                    penumbraScale: newScale,
+                  };
+                  setLocalShadowConfig(newConfig);
+                  onShadowConfigChange(newConfig); // Immediate visual update
+                  debouncedSave(
+                    localLights,
+                    localAmbient,
+                    newConfig,
+                    localAOConfig,
+                    sceneConfig,
+                  );
+                }}
+                className="flex-1"
+                data-testid="slider-shadow-penumbra"
+              />
+            </div>
+
             {/* Removed shadow sharpness and shadow bias sliders - bias is redundant with self-interval skipping */}
 
             {/* Ambient Occlusion Controls - part of shadow system */}
@@ -1001,152 +1264,573 @@ const DynamicLightControls = ({
                       data-testid="slider-ibl-pixel-step"
                     />
                   </div>
-                </>
-              )}
-            </div>
-          </>
-        )}
-      </div>
 
-      {/* Compact Light Controls - exclude directional lights (they have their own section) */}
-      {localLights
-        .filter((light) => light.type !== "directional")
-        .map((light) => {
-          // Calculate angle from direction for directional lights
-          const directionAngle =
-            light.type === "directional"
-              ? (Math.atan2(light.direction.y, light.direction.x) * 180) /
-                  Math.PI +
-                180
-              : 0;
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Rotation: {(localIBLConfig.rotation ?? 0).toFixed(0)}°
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="360"
+                      step="1"
+                      value={localIBLConfig.rotation ?? 0}
+                      onChange={(e) =>
+                        updateIBLConfig({ rotation: parseFloat(e.target.value) })
+                      }
+                      className="flex-1"
+                      data-testid="slider-ibl-rotation"
+                    />
+                  </div>
 
-          return (
-            <div
-              key={light.id}
-              className="border border-border rounded p-2 bg-muted/5"
-            >
-              {/* Compact Header */}
-              <div className="flex items-center justify-between mb-2">
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    checked={light.enabled}
-                    onChange={(e) =>
-                      updateLight(light.id, { enabled: e.target.checked })
-                    }
-                    className="w-3 h-3"
-                    data-testid={`checkbox-${light.id}-enabled`}
-                  />
-                  {editingLightId === light.id ? (
-                    <div className="flex items-center space-x-1">
-                      <input
-                        type="text"
-                        value={editingName}
-                        onChange={(e) => setEditingName(e.target.value)}
-                        onBlur={() => finishRename(light.id)}
-                        onKeyDown={(e) => {
-                          if (e.key === "Enter") finishRename(light.id);
-                          if (e.key === "Escape") cancelRename();
-                        }}
-                        className="text-xs font-medium bg-input border border-border rounded px-1 py-0.5 w-20 text-foreground"
-                        placeholder="No spaces"
-                        autoFocus
-                        data-testid={`input-rename-${light.id}`}
-                      />
-                      <span className="text-xs text-muted-foreground">
-                        ({light.type})
-                      </span>
-                    </div>
-                  ) : (
-                    <>
-                      <span
-                        className="text-xs font-medium text-foreground cursor-pointer hover:text-primary flex items-center space-x-1"
-                        onClick={() => startRename(light.id, light.id)}
-                        data-testid={`text-light-name-${light.id}`}
-                      >
-                        <span>{light.id}</span>
-                        <Edit3 size={10} className="opacity-50" />
-                      </span>
-                      <span className="text-xs text-muted-foreground">
-                        ({light.type})
-                      </span>
-                    </>
-                  )}
-                </div>
-                <div className="flex items-center space-x-1">
-                  {!light.mask &&
-                    (light.type === "point" || light.type === "spotlight") && (
-                      <button
-                        onClick={() => addMask(light.id)}
-                        className="bg-purple-600 hover:bg-purple-700 text-white p-1 rounded text-xs flex items-center"
-                        data-testid={`button-add-mask-${light.id}`}
-                        title="Add Mask"
-                      >
-                        <ImageIcon size={12} />
-                      </button>
-                    )}
-                  <button
-                    onClick={() => duplicateLight(light.id)}
-                    className="bg-blue-600 hover:bg-blue-700 text-white p-1 rounded text-xs flex items-center"
-                    data-testid={`button-duplicate-${light.id}`}
-                  >
-                    <Copy size={12} />
-                  </button>
-                  <button
-                    onClick={() => deleteLight(light.id)}
-                    className="bg-red-600 hover:bg-red-700 text-white p-1 rounded text-xs flex items-center"
-                    data-testid={`button-delete-${light.id}`}
-                  >
-                    <Trash2 size={12} />
-                  </button>
-                </div>
-              </div>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Exposure: {(localIBLConfig.exposure ?? 0).toFixed(1)} EV
+                    </label>
+                    <input
+                      type="range"
+                      min="-4"
+                      max="4"
+                      step="0.1"
+                      value={localIBLConfig.exposure ?? 0}
+                      onChange={(e) =>
+                        updateIBLConfig({ exposure: parseFloat(e.target.value) })
+                      }
+                      className="flex-1"
+                      data-testid="slider-ibl-exposure"
+                    />
+                  </div>
 
-              {light.enabled && (
-                <div className="space-y-2">
-                  {/* Row 1: Intensity & Color */}
-                  <div className="grid grid-cols-2 gap-2">
-                    <div className="flex items-center space-x-1">
-                      <label className="text-xs text-muted-foreground min-w-[40px]">
-                        I: {light.intensity.toFixed(1)}
-                      </label>
-                      <input
-                        type="range"
-                        min="0"
-                        max="10"
-                        step="0.1"
-                        value={light.intensity}
-                        onChange={(e) =>
-                          updateLight(light.id, {
-                            intensity: parseFloat(e.target.value),
-                          })
-                        }
-                        className="flex-1"
-                        data-testid={`slider-${light.id}-intensity`}
-                      />
-                    </div>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Tint:
+                    </label>
                     <input
                       type="color"
                       value={rgbToHex(
-                        light.color.r,
-                        light.color.g,
-                        light.color.b,
+                        localIBLConfig.tint?.r ?? 1,
+                        localIBLConfig.tint?.g ?? 1,
+                        localIBLConfig.tint?.b ?? 1,
                       )}
-                      onChange={(e) => {
-                        const rgb = hexToRgb(e.target.value);
-                        updateLight(light.id, { color: rgb });
-                      }}
-                      className="w-full h-6 rounded border border-border cursor-pointer"
-                      data-testid={`color-${light.id}`}
+                      onChange={(e) =>
+                        updateIBLConfig({ tint: hexToRgb(e.target.value) })
+                      }
+                      className="w-20 h-6 rounded border border-border cursor-pointer"
+                      data-testid="color-ibl-tint"
                     />
                   </div>
 
-                  {/* Point Light Controls */}
-                  {light.type === "point" && (
-                    <>
-                      {/* Row 2: Position X, Y, Z */}
-                      <div className="grid grid-cols-3 gap-1">
-                        {["x", "y", "z"].map((axis, idx) => {
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={localIBLConfig.showBackground || false}
+                      onChange={(e) =>
+                        updateIBLConfig({ showBackground: e.target.checked })
+                      }
+                      className="w-3 h-3"
+                      data-testid="checkbox-ibl-background"
+                    />
+                    <label className="text-xs text-muted-foreground">
+                      Show Sky Box as Background
+                    </label>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Screen-Space Reflections - smooth/metallic sprites mirror the lit sprites above them */}
+            <div className="mt-3 pt-2 border-t border-border/50">
+              <div className="flex items-center space-x-2 mb-2">
+                <Sparkles size={12} className="text-muted-foreground" />
+                <h5 className="text-xs font-medium text-muted-foreground">
+                  Screen-Space Reflections
+                </h5>
+                <button
+                  onClick={() =>
+                    updateReflectionConfig({
+                      enabled: !localReflectionConfig.enabled,
+                    })
+                  }
+                  className={`ml-auto p-1 rounded text-xs ${
+                    localReflectionConfig.enabled
+                      ? "bg-accent text-accent-foreground"
+                      : "bg-muted text-muted-foreground"
+                  }`}
+                  data-testid="button-toggle-reflections"
+                >
+                  {localReflectionConfig.enabled ? (
+                    <Eye size={10} />
+                  ) : (
+                    <EyeOff size={10} />
+                  )}
+                </button>
+              </div>
+
+              {localReflectionConfig.enabled && (
+                <>
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Intensity: {localReflectionConfig.intensity.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="2"
+                      step="0.05"
+                      value={localReflectionConfig.intensity}
+                      onChange={(e) =>
+                        updateReflectionConfig({
+                          intensity: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                      data-testid="slider-reflection-intensity"
+                    />
+                  </div>
+
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Normals: {localReflectionConfig.normalInfluence.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={localReflectionConfig.normalInfluence}
+                      onChange={(e) =>
+                        updateReflectionConfig({
+                          normalInfluence: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                      data-testid="slider-reflection-normal-influence"
+                    />
+                  </div>
+
+                  {/* Blur scales with (1 - smoothness) per pixel - mirror-smooth surfaces stay sharp */}
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Blur: {localReflectionConfig.blur.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={localReflectionConfig.blur}
+                      onChange={(e) =>
+                        updateReflectionConfig({
+                          blur: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                      data-testid="slider-reflection-blur"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Tone Mapping - HDR scene target resolved to the screen ('none' at 0 EV skips the pass) */}
+            <div className="mt-3 pt-2 border-t border-border/50">
+              <div className="flex items-center space-x-2 mb-2">
+                <Aperture size={12} className="text-muted-foreground" />
+                <h5 className="text-xs font-medium text-muted-foreground">
+                  Tone Mapping
+                </h5>
+              </div>
+
+              <div className="flex items-center space-x-2 mb-2">
+                <label className="text-xs text-muted-foreground min-w-[70px]">
+                  Operator:
+                </label>
+                <select
+                  value={localToneMappingConfig.operator}
+                  onChange={(e) =>
+                    updateToneMappingConfig({
+                      operator: e.target.value as ToneMappingOperator,
+                    })
+                  }
+                  className="flex-1 bg-background border border-border rounded px-2 py-1 text-xs text-foreground"
+                  data-testid="select-tone-mapping-operator"
+                >
+                  <option value="none">None (clip)</option>
+                  <option value="reinhard">Reinhard</option>
+                  <option value="aces">ACES Filmic</option>
+                  <option value="agx">AgX</option>
+                </select>
+              </div>
+
+              <div className="flex items-center space-x-2 mb-1">
+                <label className="text-xs text-muted-foreground min-w-[70px]">
+                  Exposure: {localToneMappingConfig.exposure.toFixed(1)} EV
+                </label>
+                <input
+                  type="range"
+                  min="-4"
+                  max="4"
+                  step="0.1"
+                  value={localToneMappingConfig.exposure}
+                  onChange={(e) =>
+                    updateToneMappingConfig({
+                      exposure: parseFloat(e.target.value),
+                    })
+                  }
+                  className="flex-1"
+                  data-testid="slider-tone-mapping-exposure"
+                />
+              </div>
+
+              <div className="flex items-center space-x-2 mb-1">
+                <input
+                  type="checkbox"
+                  checked={localToneMappingConfig.autoExposure}
+                  onChange={(e) =>
+                    updateToneMappingConfig({ autoExposure: e.target.checked })
+                  }
+                  className="w-3 h-3"
+                  data-testid="checkbox-auto-exposure"
+                />
+                <label className="text-xs text-muted-foreground">
+                  Auto Exposure (average luminance)
+                </label>
+              </div>
+
+              {localToneMappingConfig.autoExposure && (
+                <div className="flex items-center space-x-2 mb-1">
+                  <label className="text-xs text-muted-foreground min-w-[70px]">
+                    Adaptation: {localToneMappingConfig.adaptationSpeed.toFixed(1)}/s
+                  </label>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="5"
+                    step="0.1"
+                    value={localToneMappingConfig.adaptationSpeed}
+                    onChange={(e) =>
+                      updateToneMappingConfig({
+                        adaptationSpeed: parseFloat(e.target.value),
+                      })
+                    }
+                    className="flex-1"
+                    data-testid="slider-auto-exposure-speed"
+                  />
+                </div>
+              )}
+            </div>
+
+            {/* Color Grading - LUT and basic grade applied after tone mapping (enabling it turns the HDR pass on) */}
+            <div className="mt-3 pt-2 border-t border-border/50">
+              <div className="flex items-center space-x-2 mb-2">
+                <Palette size={12} className="text-muted-foreground" />
+                <h5 className="text-xs font-medium text-muted-foreground">
+                  Color Grading
+                </h5>
+              </div>
+
+              <div className="flex items-center space-x-2 mb-2">
+                <input
+                  type="checkbox"
+                  checked={localColorGradingConfig.enabled}
+                  onChange={(e) =>
+                    updateColorGradingConfig({ enabled: e.target.checked })
+                  }
+                  className="w-3 h-3"
+                  data-testid="checkbox-color-grading-enabled"
+                />
+                <label className="text-xs text-muted-foreground">
+                  Enable Color Grading
+                </label>
+              </div>
+
+              {localColorGradingConfig.enabled && (
+                <>
+                  <div className="flex items-center space-x-2 mb-2">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      LUT:
+                    </label>
+                    <input
+                      type="text"
+                      value={lutPathDraft}
+                      placeholder="/luts/look.cube or strip .png"
+                      onChange={(e) => setLutPathDraft(e.target.value)}
+                      onBlur={commitLutPath}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitLutPath();
+                      }}
+                      className="flex-1 bg-background border border-border rounded px-2 py-1 text-xs text-foreground"
+                      data-testid="input-color-grading-lut"
+                    />
+                  </div>
+
+                  {localColorGradingConfig.lut && (
+                    <div className="flex items-center space-x-2 mb-1">
+                      <label className="text-xs text-muted-foreground min-w-[70px]">
+                        Strength: {localColorGradingConfig.lutStrength.toFixed(2)}
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1"
+                        step="0.01"
+                        value={localColorGradingConfig.lutStrength}
+                        onChange={(e) =>
+                          updateColorGradingConfig({
+                            lutStrength: parseFloat(e.target.value),
+                          })
+                        }
+                        className="flex-1"
+                        data-testid="slider-color-grading-strength"
+                      />
+                    </div>
+                  )}
+
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Lift: {localColorGradingConfig.lift.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="-0.5"
+                      max="0.5"
+                      step="0.01"
+                      value={localColorGradingConfig.lift}
+                      onChange={(e) =>
+                        updateColorGradingConfig({
+                          lift: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                      data-testid="slider-color-grading-lift"
+                    />
+                  </div>
+
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Gamma: {localColorGradingConfig.gamma.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0.2"
+                      max="3"
+                      step="0.01"
+                      value={localColorGradingConfig.gamma}
+                      onChange={(e) =>
+                        updateColorGradingConfig({
+                          gamma: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                      data-testid="slider-color-grading-gamma"
+                    />
+                  </div>
+
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Gain: {localColorGradingConfig.gain.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="2"
+                      step="0.01"
+                      value={localColorGradingConfig.gain}
+                      onChange={(e) =>
+                        updateColorGradingConfig({
+                          gain: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                      data-testid="slider-color-grading-gain"
+                    />
+                  </div>
+
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Saturation: {localColorGradingConfig.saturation.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="2"
+                      step="0.01"
+                      value={localColorGradingConfig.saturation}
+                      onChange={(e) =>
+                        updateColorGradingConfig({
+                          saturation: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                      data-testid="slider-color-grading-saturation"
+                    />
+                  </div>
+
+                  <div className="flex items-center space-x-2 mb-1">
+                    <label className="text-xs text-muted-foreground min-w-[70px]">
+                      Contrast: {localColorGradingConfig.contrast.toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="2"
+                      step="0.01"
+                      value={localColorGradingConfig.contrast}
+                      onChange={(e) =>
+                        updateColorGradingConfig({
+                          contrast: parseFloat(e.target.value),
+                        })
+                      }
+                      className="flex-1"
+                      data-testid="slider-color-grading-contrast"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Compact Light Controls - exclude directional lights (they have their own section) */}
+      {localLights
+        .filter((light) => light.type !== "directional")
+        .map((light) => {
+          // Calculate angle from direction for directional lights
+          const directionAngle =
+            light.type === "directional"
+              ? (Math.atan2(light.direction.y, light.direction.x) * 180) /
+                  Math.PI +
+                180
+              : 0;
+
+          return (
+            <div
+              key={light.id}
+              className="border border-border rounded p-2 bg-muted/5"
+            >
+              {/* Compact Header */}
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={light.enabled}
+                    onChange={(e) =>
+                      updateLight(light.id, { enabled: e.target.checked })
+                    }
+                    className="w-3 h-3"
+                    data-testid={`checkbox-${light.id}-enabled`}
+                  />
+                  {editingLightId === light.id ? (
+                    <div className="flex items-center space-x-1">
+                      <input
+                        type="text"
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onBlur={() => finishRename(light.id)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") finishRename(light.id);
+                          if (e.key === "Escape") cancelRename();
+                        }}
+                        className="text-xs font-medium bg-input border border-border rounded px-1 py-0.5 w-20 text-foreground"
+                        placeholder="No spaces"
+                        autoFocus
+                        data-testid={`input-rename-${light.id}`}
+                      />
+                      <span className="text-xs text-muted-foreground">
+                        ({light.type})
+                      </span>
+                    </div>
+                  ) : (
+                    <>
+                      <span
+                        className="text-xs font-medium text-foreground cursor-pointer hover:text-primary flex items-center space-x-1"
+                        onClick={() => startRename(light.id, light.id)}
+                        data-testid={`text-light-name-${light.id}`}
+                      >
+                        <span>{light.id}</span>
+                        <Edit3 size={10} className="opacity-50" />
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        ({light.type})
+                      </span>
+                    </>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1">
+                  {!light.mask &&
+                    (light.type === "point" || light.type === "spotlight") && (
+                      <button
+                        onClick={() => addMask(light.id)}
+                        className="bg-purple-600 hover:bg-purple-700 text-white p-1 rounded text-xs flex items-center"
+                        data-testid={`button-add-mask-${light.id}`}
+                        title="Add Mask"
+                      >
+                        <ImageIcon size={12} />
+                      </button>
+                    )}
+                  <button
+                    onClick={() => duplicateLight(light.id)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white p-1 rounded text-xs flex items-center"
+                    data-testid={`button-duplicate-${light.id}`}
+                  >
+                    <Copy size={12} />
+                  </button>
+                  <button
+                    onClick={() => deleteLight(light.id)}
+                    className="bg-red-600 hover:bg-red-700 text-white p-1 rounded text-xs flex items-center"
+                    data-testid={`button-delete-${light.id}`}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+
+              {light.enabled && (
+                <div className="space-y-2">
+                  {/* Row 1: Intensity & Color */}
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="flex items-center space-x-1">
+                      <label className="text-xs text-muted-foreground min-w-[40px]">
+                        I: {light.intensity.toFixed(1)}
+                      </label>
+                      <input
+                        type="range"
+                        min="0"
+                        max="10"
+                        step="0.1"
+                        value={light.intensity}
+                        onChange={(e) =>
+                          updateLight(light.id, {
+                            intensity: parseFloat(e.target.value),
+                          })
+                        }
+                        className="flex-1"
+                        data-testid={`slider-${light.id}-intensity`}
+                      />
+                    </div>
+                    <input
+                      type="color"
+                      value={rgbToHex(
+                        light.color.r,
+                        light.color.g,
+                        light.color.b,
+                      )}
+                      onChange={(e) => {
+                        const rgb = hexToRgb(e.target.value);
+                        updateLight(light.id, { color: rgb });
+                      }}
+                      className="w-full h-6 rounded border border-border cursor-pointer"
+                      data-testid={`color-${light.id}`}
+                    />
+                  </div>
+
+                  {/* Point Light Controls */}
+                  {light.type === "point" && (
+                    <>
+                      {/* Row 2: Position X, Y, Z */}
+                      <div className="grid grid-cols-3 gap-1">
+                        {["x", "y", "z"].map((axis, idx) => {
                           const value =
                             axis === "x"
                               ? light.position.x
@@ -1243,6 +1927,26 @@ const DynamicLightControls = ({
                           Z: {light.position.z}
                         </span>
                       </div>
+                      {/* Light Size - source radius driving the soft shadow penumbra */}
+                      <div className="flex items-center space-x-1">
+                        <label className="text-xs text-muted-foreground min-w-[40px]">
+                          Size: {(light.sourceRadius || 0).toFixed(0)}
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="50"
+                          step="1"
+                          value={light.sourceRadius || 0}
+                          onChange={(e) =>
+                            updateLight(light.id, {
+                              sourceRadius: parseFloat(e.target.value),
+                            })
+                          }
+                          className="flex-1"
+                          data-testid={`slider-${light.id}-source-radius`}
+                        />
+                      </div>
                     </>
                   )}
 
@@ -1458,11 +2162,316 @@ const DynamicLightControls = ({
                           Z: {light.position.z}
                         </span>
                       </div>
+                      {/* Light Size - source radius driving the soft shadow penumbra */}
+                      <div className="flex items-center space-x-1">
+                        <label className="text-xs text-muted-foreground min-w-[40px]">
+                          Size: {(light.sourceRadius || 0).toFixed(0)}
+                        </label>
+                        <input
+                          type="range"
+                          min="0"
+                          max="50"
+                          step="1"
+                          value={light.sourceRadius || 0}
+                          onChange={(e) =>
+                            updateLight(light.id, {
+                              sourceRadius: parseFloat(e.target.value),
+                            })
+                          }
+                          className="flex-1"
+                          data-testid={`slider-${light.id}-source-radius`}
+                        />
+                      </div>
+                    </>
+                  )}
+
+                  {/* Area Light Controls - rectangle centred on position */}
+                  {light.type === "area" && (
+                    <>
+                      <div className="grid grid-cols-3 gap-1">
+                        {["x", "y", "z"].map((axis) => {
+                          const point = light.position;
+                          const value = point[axis as "x" | "y" | "z"];
+                          const max =
+                            axis === "z" ? 300 : axis === "x" ? 800 : 600;
+                          const min = axis === "z" ? -100 : 0;
+                          return (
+                            <div
+                              key={`position-${axis}`}
+                              className="flex items-center space-x-1"
+                            >
+                              <label className="text-xs text-muted-foreground min-w-[25px]">
+                                {axis.toUpperCase()}: {value.toFixed(0)}
+                              </label>
+                              <input
+                                type="range"
+                                min={min}
+                                max={max}
+                                step="10"
+                                value={value}
+                                onChange={(e) =>
+                                  updateLight(light.id, {
+                                    position: {
+                                      ...point,
+                                      [axis]: parseFloat(e.target.value),
+                                    },
+                                  })
+                                }
+                                className="flex-1"
+                                data-testid={`slider-${light.id}-${axis}`}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      {/* Rectangle size, rotation & range */}
+                      <div className="grid grid-cols-2 gap-1">
+                        <div className="flex items-center space-x-1">
+                          <label className="text-xs text-muted-foreground min-w-[20px]">
+                            W: {light.width?.toFixed(0)}
+                          </label>
+                          <input
+                            type="range"
+                            min="4"
+                            max="800"
+                            step="4"
+                            value={light.width || 160}
+                            onChange={(e) =>
+                              updateLight(light.id, {
+                                width: parseFloat(e.target.value),
+                              })
+                            }
+                            className="flex-1"
+                            data-testid={`slider-${light.id}-width`}
+                          />
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <label className="text-xs text-muted-foreground min-w-[20px]">
+                            H: {light.height?.toFixed(0)}
+                          </label>
+                          <input
+                            type="range"
+                            min="4"
+                            max="600"
+                            step="4"
+                            value={light.height || 40}
+                            onChange={(e) =>
+                              updateLight(light.id, {
+                                height: parseFloat(e.target.value),
+                              })
+                            }
+                            className="flex-1"
+                            data-testid={`slider-${light.id}-height`}
+                          />
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <label className="text-xs text-muted-foreground min-w-[20px]">
+                            Rot: {light.rotation?.toFixed(0)}°
+                          </label>
+                          <input
+                            type="range"
+                            min="0"
+                            max="360"
+                            step="5"
+                            value={light.rotation || 0}
+                            onChange={(e) =>
+                              updateLight(light.id, {
+                                rotation: parseFloat(e.target.value),
+                              })
+                            }
+                            className="flex-1"
+                            data-testid={`slider-${light.id}-rotation`}
+                          />
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <label className="text-xs text-muted-foreground min-w-[20px]">
+                            R: {light.radius?.toFixed(0)}
+                          </label>
+                          <input
+                            type="range"
+                            min="10"
+                            max="5000"
+                            step="10"
+                            value={light.radius || 250}
+                            onChange={(e) =>
+                              updateLight(light.id, {
+                                radius: parseFloat(e.target.value),
+                              })
+                            }
+                            className="flex-1"
+                            data-testid={`slider-${light.id}-radius`}
+                          />
+                        </div>
+                      </div>
+                      {/* Shadow Casting */}
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="checkbox"
+                          checked={light.castsShadows !== false}
+                          onChange={(e) =>
+                            updateLight(light.id, {
+                              castsShadows: e.target.checked,
+                            })
+                          }
+                          className="w-3 h-3"
+                          data-testid={`checkbox-${light.id}-casts-shadows`}
+                        />
+                        <label className="text-xs text-muted-foreground">
+                          Cast Shadows
+                        </label>
+                        <span className="text-xs text-muted-foreground ml-auto">
+                          Soft penumbra
+                        </span>
+                      </div>
+                    </>
+                  )}
+
+                  {/* Line Light Controls - capsule from position to endPosition */}
+                  {light.type === "line" && (
+                    <>
+                      <div className="grid grid-cols-3 gap-1">
+                        {["x", "y", "z"].map((axis) => {
+                          const point = light.position;
+                          const value = point[axis as "x" | "y" | "z"];
+                          const max =
+                            axis === "z" ? 300 : axis === "x" ? 800 : 600;
+                          const min = axis === "z" ? -100 : 0;
+                          return (
+                            <div
+                              key={`position-${axis}`}
+                              className="flex items-center space-x-1"
+                            >
+                              <label className="text-xs text-muted-foreground min-w-[25px]">
+                                A{axis.toUpperCase()}: {value.toFixed(0)}
+                              </label>
+                              <input
+                                type="range"
+                                min={min}
+                                max={max}
+                                step="10"
+                                value={value}
+                                onChange={(e) =>
+                                  updateLight(light.id, {
+                                    position: {
+                                      ...point,
+                                      [axis]: parseFloat(e.target.value),
+                                    },
+                                  })
+                                }
+                                className="flex-1"
+                                data-testid={`slider-${light.id}-${axis}`}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <div className="grid grid-cols-3 gap-1">
+                        {["x", "y", "z"].map((axis) => {
+                          const point = light.endPosition || { x: light.position.x + 160, y: light.position.y, z: light.position.z };
+                          const value = point[axis as "x" | "y" | "z"];
+                          const max =
+                            axis === "z" ? 300 : axis === "x" ? 800 : 600;
+                          const min = axis === "z" ? -100 : 0;
+                          return (
+                            <div
+                              key={`end-${axis}`}
+                              className="flex items-center space-x-1"
+                            >
+                              <label className="text-xs text-muted-foreground min-w-[25px]">
+                                B{axis.toUpperCase()}: {value.toFixed(0)}
+                              </label>
+                              <input
+                                type="range"
+                                min={min}
+                                max={max}
+                                step="10"
+                                value={value}
+                                onChange={(e) =>
+                                  updateLight(light.id, {
+                                    endPosition: {
+                                      ...point,
+                                      [axis]: parseFloat(e.target.value),
+                                    },
+                                  })
+                                }
+                                className="flex-1"
+                                data-testid={`slider-${light.id}-end-${axis}`}
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                      {/* Tube thickness & range */}
+                      <div className="grid grid-cols-2 gap-1">
+                        <div className="flex items-center space-x-1">
+                          <label className="text-xs text-muted-foreground min-w-[20px]">
+                            T: {light.width?.toFixed(0)}
+                          </label>
+                          <input
+                            type="range"
+                            min="1"
+                            max="100"
+                            step="1"
+                            value={light.width || 12}
+                            onChange={(e) =>
+                              updateLight(light.id, {
+                                width: parseFloat(e.target.value),
+                              })
+                            }
+                            className="flex-1"
+                            data-testid={`slider-${light.id}-width`}
+                          />
+                        </div>
+                        <div className="flex items-center space-x-1">
+                          <label className="text-xs text-muted-foreground min-w-[20px]">
+                            R: {light.radius?.toFixed(0)}
+                          </label>
+                          <input
+                            type="range"
+                            min="10"
+                            max="5000"
+                            step="10"
+                            value={light.radius || 200}
+                            onChange={(e) =>
+                              updateLight(light.id, {
+                                radius: parseFloat(e.target.value),
+                              })
+                            }
+                            className="flex-1"
+                            data-testid={`slider-${light.id}-radius`}
+                          />
+                        </div>
+                      </div>
+                      {/* Shadow Casting */}
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="checkbox"
+                          checked={light.castsShadows !== false}
+                          onChange={(e) =>
+                            updateLight(light.id, {
+                              castsShadows: e.target.checked,
+                            })
+                          }
+                          className="w-3 h-3"
+                          data-testid={`checkbox-${light.id}-casts-shadows`}
+                        />
+                        <label className="text-xs text-muted-foreground">
+                          Cast Shadows
+                        </label>
+                        <span className="text-xs text-muted-foreground ml-auto">
+                          Soft penumbra
+                        </span>
+                      </div>
                     </>
                   )}
                 </div>
               )}
 
+              {/* Light Shafts - enabled point/spotlight only (area and line lights have no shaft pass) */}
+              {light.enabled &&
+                (light.type === "point" || light.type === "spotlight") &&
+                renderLightShaftControls(light)}
+
               {/* Mask Controls - Show at bottom when mask is present for enabled point/spotlight only */}
               {light.enabled &&
                 light.mask &&
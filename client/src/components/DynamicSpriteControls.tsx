@@ -8,6 +8,25 @@ import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { ChevronDown, ChevronUp, Eye, EyeOff } from 'lucide-react';
+import { DEFAULT_REFLECTIVE_SURFACE, normalizeReflectiveSurface, type MaterialMapChannel, type ReflectiveSurfaceComponent } from './Sprite';
+import type { AnimationLoopMode, SpriteAnimationComponent } from '@/lib/spriteSheet';
+import type { ShadowTechnique } from '@/lib/lights';
+
+// Available material map textures (grayscale/packed masks in /textures)
+const availableMaterialMaps = [
+  'ball.png',
+  'ballN.png',
+  'block.png',
+  'block2.png',
+  'BGTextureTest.jpg',
+  'bricklayout.jpg',
+  'test1.png',
+  'test2.png',
+  'test3.png',
+  'white-fabric-texture-background.jpg',
+];
+
+const materialMapChannels: MaterialMapChannel[] = ['r', 'g', 'b', 'a'];
 
 // ECS Component Interfaces
 interface MaterialComponent {
@@ -20,6 +39,13 @@ interface MaterialComponent {
   smoothness?: number;
   metallicMap?: string;
   smoothnessMap?: string;
+  metallicChannel?: MaterialMapChannel;
+  smoothnessChannel?: MaterialMapChannel;
+  emissiveMap?: string;
+  emissiveColor?: { r: number; g: number; b: number };
+  emissiveIntensity?: number;
+  emissiveCastsLight?: boolean;
+  heightMap?: string; // Grayscale caster height profile (scaled by sprite.height)
 }
 
 interface TransformComponent {
@@ -36,6 +62,10 @@ interface SpriteComponent {
   };
   zOrder: number;
   castsShadows: boolean;
+  height?: number; // Caster height in pixels - unset = unlimited (blocks every light)
+  shadowOpacity?: number; // Light blocked by the caster 0-1 (default 1 = opaque)
+  shadowTint?: boolean; // Shadow colored by the diffuse texture (stained glass)
+  layer?: string; // Parallax layer name from the scene's layers section - unset = world layer
   visible: boolean;
 }
 
@@ -45,6 +75,9 @@ interface SpriteEntity {
   material: MaterialComponent | string; // Can be inline component or material name reference
   transform: TransformComponent;
   sprite: SpriteComponent;
+  parent?: string; // Optional - id of the sprite this one is attached to (transform becomes relative to it)
+  reflectiveSurface?: ReflectiveSurfaceComponent; // Optional - only planar reflectors (wet street, ice) carry it
+  animation?: SpriteAnimationComponent; // Optional - sprite sheet playback (material maps are matching sheets)
 }
 
 // Material Definition for reuse
@@ -75,6 +108,20 @@ interface LegacySpriteConfig {
   smoothness?: number;
   metallicMap?: string;
   smoothnessMap?: string;
+  metallicChannel?: MaterialMapChannel;
+  smoothnessChannel?: MaterialMapChannel;
+  emissiveMap?: string;
+  emissiveColor?: { r: number; g: number; b: number };
+  emissiveIntensity?: number;
+  emissiveCastsLight?: boolean;
+  heightMap?: string;
+  height?: number;
+  shadowOpacity?: number;
+  shadowTint?: boolean;
+  layer?: string;
+  parent?: string;
+  reflectiveSurface?: ReflectiveSurfaceComponent;
+  animation?: SpriteAnimationComponent;
   pivot?: {
     preset: 'top-left' | 'top-center' | 'top-right' | 'middle-left' | 'middle-center' | 'middle-right' | 'bottom-left' | 'bottom-center' | 'bottom-right' | 'custom-offset';
     offsetX?: number;
@@ -86,6 +133,7 @@ interface DynamicSpriteControlsProps {
   sceneConfig: SceneConfig;
   onSceneConfigChange: (newConfig: SceneConfig) => void;
   onImmediateSpriteChange?: (spriteId: string, updates: any) => void;
+  shadowTechnique?: ShadowTechnique; // Active shadow technique - the distance field has no per-channel tint
 }
 
 // Helper functions for ECS material system - all materials are now inline
@@ -106,6 +154,13 @@ function convertLegacyToECS(legacy: LegacySpriteConfig): SpriteEntity {
       smoothness: legacy.smoothness,
       metallicMap: legacy.metallicMap,
       smoothnessMap: legacy.smoothnessMap,
+      metallicChannel: legacy.metallicChannel,
+      smoothnessChannel: legacy.smoothnessChannel,
+      emissiveMap: legacy.emissiveMap,
+      emissiveColor: legacy.emissiveColor,
+      emissiveIntensity: legacy.emissiveIntensity,
+      emissiveCastsLight: legacy.emissiveCastsLight,
+      heightMap: legacy.heightMap,
     },
     transform: {
       position: legacy.position,
@@ -116,8 +171,15 @@ function convertLegacyToECS(legacy: LegacySpriteConfig): SpriteEntity {
       pivot: legacy.pivot,
       zOrder: legacy.zOrder,
       castsShadows: legacy.castsShadows,
+      height: legacy.height,
+      shadowOpacity: legacy.shadowOpacity,
+      shadowTint: legacy.shadowTint,
+      layer: legacy.layer,
       visible: legacy.visible,
-    }
+    },
+    parent: legacy.parent,
+    reflectiveSurface: legacy.reflectiveSurface,
+    animation: legacy.animation,
   };
 }
 
@@ -134,17 +196,31 @@ function convertECSToLegacy(entity: SpriteEntity): LegacySpriteConfig {
     smoothness: material.smoothness,
     metallicMap: material.metallicMap,
     smoothnessMap: material.smoothnessMap,
+    metallicChannel: material.metallicChannel,
+    smoothnessChannel: material.smoothnessChannel,
+    emissiveMap: material.emissiveMap,
+    emissiveColor: material.emissiveColor,
+    emissiveIntensity: material.emissiveIntensity,
+    emissiveCastsLight: material.emissiveCastsLight,
+    heightMap: material.heightMap,
     position: entity.transform.position,
     rotation: entity.transform.rotation,
     scale: entity.transform.scale,
     pivot: entity.sprite.pivot,
     zOrder: entity.sprite.zOrder,
     castsShadows: entity.sprite.castsShadows,
+    height: entity.sprite.height,
+    shadowOpacity: entity.sprite.shadowOpacity,
+    shadowTint: entity.sprite.shadowTint,
+    layer: entity.sprite.layer,
     visible: entity.sprite.visible,
+    parent: entity.parent,
+    reflectiveSurface: entity.reflectiveSurface,
+    animation: entity.animation,
   };
 }
 
-export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImmediateSpriteChange }: DynamicSpriteControlsProps) {
+export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImmediateSpriteChange, shadowTechnique }: DynamicSpriteControlsProps) {
   const [expandedSprites, setExpandedSprites] = useState<Set<string>>(new Set());
 
   const toggleExpanded = (spriteId: string) => {
@@ -164,7 +240,10 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
     const newSprite = { ...currentSprite };
     
     // Update material component properties
-    if ('metallic' in updates || 'smoothness' in updates || 'useNormalMap' in updates || 'albedoColor' in updates || 'albedoTint' in updates) {
+    if ('metallic' in updates || 'smoothness' in updates || 'useNormalMap' in updates || 'albedoColor' in updates || 'albedoTint' in updates ||
+        'metallicMap' in updates || 'smoothnessMap' in updates || 'metallicChannel' in updates || 'smoothnessChannel' in updates ||
+        'emissiveMap' in updates || 'emissiveColor' in updates || 'emissiveIntensity' in updates || 'emissiveCastsLight' in updates ||
+        'heightMap' in updates) {
       const currentMaterial = getMaterial(currentSprite.material);
       newSprite.material = {
         ...currentMaterial,
@@ -173,6 +252,15 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
         ...(updates.metallic !== undefined && { metallic: updates.metallic }),
         ...(updates.smoothness !== undefined && { smoothness: updates.smoothness }),
         ...(updates.useNormalMap !== undefined && { useNormalMap: updates.useNormalMap }),
+        ...(updates.metallicMap !== undefined && { metallicMap: updates.metallicMap }),
+        ...(updates.smoothnessMap !== undefined && { smoothnessMap: updates.smoothnessMap }),
+        ...(updates.metallicChannel !== undefined && { metallicChannel: updates.metallicChannel }),
+        ...(updates.smoothnessChannel !== undefined && { smoothnessChannel: updates.smoothnessChannel }),
+        ...(updates.emissiveMap !== undefined && { emissiveMap: updates.emissiveMap }),
+        ...(updates.emissiveColor !== undefined && { emissiveColor: updates.emissiveColor }),
+        ...(updates.emissiveIntensity !== undefined && { emissiveIntensity: updates.emissiveIntensity }),
+        ...(updates.emissiveCastsLight !== undefined && { emissiveCastsLight: updates.emissiveCastsLight }),
+        ...(updates.heightMap !== undefined && { heightMap: updates.heightMap }),
       };
     }
     
@@ -187,16 +275,30 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
     }
     
     // Update sprite component properties
-    if ('zOrder' in updates || 'castsShadows' in updates || 'visible' in updates || 'pivot' in updates) {
+    if ('zOrder' in updates || 'castsShadows' in updates || 'height' in updates || 'shadowOpacity' in updates || 'shadowTint' in updates ||
+        'visible' in updates || 'pivot' in updates) {
       newSprite.sprite = {
         ...currentSprite.sprite,
         ...(updates.zOrder !== undefined && { zOrder: updates.zOrder }),
         ...(updates.castsShadows !== undefined && { castsShadows: updates.castsShadows }),
+        ...('height' in updates && { height: updates.height }), // undefined = unlimited, dropped from scene.json
+        ...(updates.shadowOpacity !== undefined && { shadowOpacity: updates.shadowOpacity }),
+        ...(updates.shadowTint !== undefined && { shadowTint: updates.shadowTint }),
         ...(updates.visible !== undefined && { visible: updates.visible }),
         ...(updates.pivot && { pivot: updates.pivot }),
       };
     }
     
+    // Update reflective surface component (undefined removes it from the entity)
+    if ('reflectiveSurface' in updates) {
+      newSprite.reflectiveSurface = updates.reflectiveSurface;
+    }
+    
+    // Update animation playback settings (the sheet itself only changes in scene.json)
+    if ('animation' in updates) {
+      newSprite.animation = updates.animation;
+    }
+    
     const newConfig = {
       ...sceneConfig,
       sprites: {
@@ -238,6 +340,8 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
         {sprites.map(([spriteId, entity]) => {
           const isExpanded = expandedSprites.has(spriteId);
           const material = getMaterial(entity.material);
+          const reflector = normalizeReflectiveSurface(entity.reflectiveSurface);
+          const animation = entity.animation;
           
           return (
             <Collapsible key={spriteId} open={isExpanded} onOpenChange={() => toggleExpanded(spriteId)}>
@@ -456,6 +560,87 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
                             />
                           </div>
                           
+                          {/* Translucent/colored casters - light passing through is dimmed or filtered */}
+                          {entity.sprite.castsShadows && (
+                            <div className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <Label className="text-xs text-muted-foreground whitespace-nowrap">Shadow Opacity</Label>
+                                <Slider
+                                  value={[entity.sprite.shadowOpacity ?? 1.0]}
+                                  onValueChange={([value]) => updateSpriteConfig(spriteId, { shadowOpacity: value })}
+                                  min={0.0}
+                                  max={1.0}
+                                  step={0.05}
+                                  className="flex-1"
+                                  data-testid={`slider-shadow-opacity-${spriteId}`}
+                                />
+                                <span className="text-xs text-muted-foreground min-w-[32px] text-right">{(entity.sprite.shadowOpacity ?? 1.0).toFixed(2)}</span>
+                              </div>
+                              <div className="flex items-center justify-between">
+                                <Label className="text-xs text-card-foreground">Tinted Shadow</Label>
+                                <Switch
+                                  checked={entity.sprite.shadowTint ?? false}
+                                  onCheckedChange={(checked) => updateSpriteConfig(spriteId, { shadowTint: checked })}
+                                  disabled={shadowTechnique === 'sdf'}
+                                  data-testid={`switch-shadow-tint-${spriteId}`}
+                                />
+                              </div>
+                              {/* The distance field only stores the nearest caster's height and opacity - shadows stay grey */}
+                              {shadowTechnique === 'sdf' && (
+                                <p className="text-xs text-muted-foreground">Distance field shadows are grey - use ray march or polar for tinted shadows</p>
+                              )}
+                            </div>
+                          )}
+                          
+                          {/* Caster height - rays from lights higher than the caster pass over it */}
+                          {entity.sprite.castsShadows && (
+                            <div className="space-y-1">
+                              <div className="flex items-center justify-between">
+                                <Label className="text-xs text-card-foreground">Unlimited Height</Label>
+                                <Switch
+                                  checked={entity.sprite.height === undefined}
+                                  onCheckedChange={(checked) => updateSpriteConfig(spriteId, { height: checked ? undefined : 64 })}
+                                  data-testid={`switch-unlimited-height-${spriteId}`}
+                                />
+                              </div>
+                              {entity.sprite.height !== undefined && (
+                                <div className="flex items-center gap-2">
+                                  <Label className="text-xs text-muted-foreground whitespace-nowrap">Height</Label>
+                                  <Slider
+                                    value={[entity.sprite.height]}
+                                    onValueChange={([value]) => updateSpriteConfig(spriteId, { height: value })}
+                                    min={0}
+                                    max={510}
+                                    step={2}
+                                    className="flex-1"
+                                    data-testid={`slider-height-${spriteId}`}
+                                  />
+                                  <span className="text-xs text-muted-foreground min-w-[32px] text-right">{entity.sprite.height}px</span>
+                                </div>
+                              )}
+                              <div className="flex items-center gap-2">
+                                <Label className="text-xs text-muted-foreground whitespace-nowrap">Height Map</Label>
+                                <Select
+                                  value={material.heightMap ? material.heightMap.split('/').pop() : 'none'}
+                                  onValueChange={(value: string) => updateSpriteConfig(spriteId, {
+                                    heightMap: value === 'none' ? '' : `/textures/${value}`
+                                  })}
+                                  data-testid={`select-height-map-${spriteId}`}
+                                >
+                                  <SelectTrigger className="h-7 flex-1 text-xs">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent className="bg-card border border-border">
+                                    <SelectItem value="none" className="bg-card text-foreground hover:bg-muted hover:text-foreground">None (flat top)</SelectItem>
+                                    {availableMaterialMaps.map((mapFile) => (
+                                      <SelectItem key={mapFile} value={mapFile} className="bg-card text-foreground hover:bg-muted hover:text-foreground">{mapFile}</SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            </div>
+                          )}
+                          
                           <div className="flex items-center justify-between">
                             <Label className="text-xs text-card-foreground">Use Normal Map</Label>
                             <Switch
@@ -466,6 +651,137 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
                           </div>
                         </div>
 
+                        {/* Planar Reflection - mirrored image of the sprites above the horizon line */}
+                        <div className="space-y-2 pt-2 border-t border-border/50">
+                          <div className="flex items-center justify-between">
+                            <Label className="text-xs text-card-foreground">Reflective Surface</Label>
+                            <Switch
+                              checked={reflector !== null}
+                              onCheckedChange={(checked) => updateSpriteConfig(spriteId, {
+                                reflectiveSurface: checked ? { ...DEFAULT_REFLECTIVE_SURFACE } : undefined
+                              })}
+                              data-testid={`switch-reflective-surface-${spriteId}`}
+                            />
+                          </div>
+                          {reflector && (
+                            <div className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <Label className="text-xs text-muted-foreground whitespace-nowrap">Horizon</Label>
+                                <Slider
+                                  value={[reflector.horizon]}
+                                  onValueChange={([value]) => updateSpriteConfig(spriteId, { reflectiveSurface: { ...reflector, horizon: value } })}
+                                  min={0}
+                                  max={1024}
+                                  step={1}
+                                  className="flex-1"
+                                  data-testid={`slider-reflection-horizon-${spriteId}`}
+                                />
+                                <span className="text-xs text-muted-foreground min-w-[32px] text-right">{reflector.horizon}px</span>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <Label className="text-xs text-muted-foreground whitespace-nowrap">Intensity</Label>
+                                <Slider
+                                  value={[reflector.intensity]}
+                                  onValueChange={([value]) => updateSpriteConfig(spriteId, { reflectiveSurface: { ...reflector, intensity: value } })}
+                                  min={0}
+                                  max={1}
+                                  step={0.05}
+                                  className="flex-1"
+                                  data-testid={`slider-reflection-intensity-${spriteId}`}
+                                />
+                                <span className="text-xs text-muted-foreground min-w-[32px] text-right">{reflector.intensity.toFixed(2)}</span>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <Label className="text-xs text-muted-foreground whitespace-nowrap">Distortion</Label>
+                                <Slider
+                                  value={[reflector.distortion]}
+                                  onValueChange={([value]) => updateSpriteConfig(spriteId, { reflectiveSurface: { ...reflector, distortion: value } })}
+                                  min={0}
+                                  max={1}
+                                  step={0.05}
+                                  className="flex-1"
+                                  data-testid={`slider-reflection-distortion-${spriteId}`}
+                                />
+                                <span className="text-xs text-muted-foreground min-w-[32px] text-right">{reflector.distortion.toFixed(2)}</span>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                <Label className="text-xs text-muted-foreground whitespace-nowrap">Fade</Label>
+                                <Slider
+                                  value={[reflector.fadeDistance]}
+                                  onValueChange={([value]) => updateSpriteConfig(spriteId, { reflectiveSurface: { ...reflector, fadeDistance: value } })}
+                                  min={0}
+                                  max={1024}
+                                  step={8}
+                                  className="flex-1"
+                                  data-testid={`slider-reflection-fade-${spriteId}`}
+                                />
+                                <span className="text-xs text-muted-foreground min-w-[32px] text-right">{reflector.fadeDistance === 0 ? 'off' : `${reflector.fadeDistance}px`}</span>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Sprite Sheet Animation - only for sprites with an animation component in scene.json */}
+                        {animation && (
+                          <div className="space-y-2 pt-2 border-t border-border/50">
+                            <div className="flex items-center justify-between">
+                              <Label className="text-xs text-card-foreground">Animation Playing</Label>
+                              <Switch
+                                checked={animation.playing ?? true}
+                                onCheckedChange={(checked) => updateSpriteConfig(spriteId, { animation: { ...animation, playing: checked } })}
+                                data-testid={`switch-animation-playing-${spriteId}`}
+                              />
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Label className="text-xs text-muted-foreground whitespace-nowrap">Clip</Label>
+                              {/* Applied on Enter or blur - half-typed clip names would restart playback on every key */}
+                              <Input
+                                key={`${spriteId}-${animation.clip || ''}`}
+                                defaultValue={animation.clip || ''}
+                                placeholder="first clip"
+                                onBlur={(e) => updateSpriteConfig(spriteId, { animation: { ...animation, clip: e.target.value || undefined } })}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') e.currentTarget.blur();
+                                }}
+                                className="h-7 text-xs"
+                                data-testid={`input-animation-clip-${spriteId}`}
+                              />
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Label className="text-xs text-muted-foreground whitespace-nowrap">FPS</Label>
+                              <Slider
+                                value={[animation.fps ?? 0]}
+                                onValueChange={([value]) => updateSpriteConfig(spriteId, { animation: { ...animation, fps: value || undefined } })}
+                                min={0}
+                                max={60}
+                                step={1}
+                                className="flex-1"
+                                data-testid={`slider-animation-fps-${spriteId}`}
+                              />
+                              <span className="text-xs text-muted-foreground min-w-[32px] text-right">{animation.fps ? animation.fps : 'atlas'}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Label className="text-xs text-muted-foreground whitespace-nowrap">Loop</Label>
+                              <Select
+                                value={animation.loop || 'clip'}
+                                onValueChange={(value) => updateSpriteConfig(spriteId, {
+                                  animation: { ...animation, loop: value === 'clip' ? undefined : value as AnimationLoopMode }
+                                })}
+                              >
+                                <SelectTrigger className="h-7 flex-1 text-xs" data-testid={`select-animation-loop-${spriteId}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="clip">From clip</SelectItem>
+                                  <SelectItem value="loop">Loop</SelectItem>
+                                  <SelectItem value="once">Once</SelectItem>
+                                  <SelectItem value="pingpong">Ping-pong</SelectItem>
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                        )}
+
                         {/* PBR Material Properties */}
                         <div className="space-y-2 pt-2 border-t border-border/50">
                           {/* Albedo Color Tint */}
@@ -512,6 +828,41 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
                               className="w-full"
                               data-testid={`slider-metallic-${spriteId}`}
                             />
+                            <div className="flex items-center gap-2">
+                              <Label className="text-xs text-muted-foreground whitespace-nowrap">Map</Label>
+                              <Select
+                                value={material.metallicMap ? material.metallicMap.split('/').pop() : 'none'}
+                                onValueChange={(value: string) => updateSpriteConfig(spriteId, {
+                                  metallicMap: value === 'none' ? '' : `/textures/${value}`
+                                })}
+                                data-testid={`select-metallic-map-${spriteId}`}
+                              >
+                                <SelectTrigger className="h-7 flex-1 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-card border border-border">
+                                  <SelectItem value="none" className="bg-card text-foreground hover:bg-muted hover:text-foreground">None (scalar only)</SelectItem>
+                                  {availableMaterialMaps.map((mapFile) => (
+                                    <SelectItem key={mapFile} value={mapFile} className="bg-card text-foreground hover:bg-muted hover:text-foreground">{mapFile}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Select
+                                value={material.metallicChannel || 'r'}
+                                onValueChange={(value: string) => updateSpriteConfig(spriteId, { metallicChannel: value as MaterialMapChannel })}
+                                disabled={!material.metallicMap}
+                                data-testid={`select-metallic-channel-${spriteId}`}
+                              >
+                                <SelectTrigger className="h-7 w-14 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-card border border-border">
+                                  {materialMapChannels.map((channel) => (
+                                    <SelectItem key={channel} value={channel} className="bg-card text-foreground hover:bg-muted hover:text-foreground">{channel.toUpperCase()}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
                           </div>
                           
                           <div className="space-y-2">
@@ -528,6 +879,103 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
                               className="w-full"
                               data-testid={`slider-smoothness-${spriteId}`}
                             />
+                            <div className="flex items-center gap-2">
+                              <Label className="text-xs text-muted-foreground whitespace-nowrap">Map</Label>
+                              <Select
+                                value={material.smoothnessMap ? material.smoothnessMap.split('/').pop() : 'none'}
+                                onValueChange={(value: string) => updateSpriteConfig(spriteId, {
+                                  smoothnessMap: value === 'none' ? '' : `/textures/${value}`
+                                })}
+                                data-testid={`select-smoothness-map-${spriteId}`}
+                              >
+                                <SelectTrigger className="h-7 flex-1 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-card border border-border">
+                                  <SelectItem value="none" className="bg-card text-foreground hover:bg-muted hover:text-foreground">None (scalar only)</SelectItem>
+                                  {availableMaterialMaps.map((mapFile) => (
+                                    <SelectItem key={mapFile} value={mapFile} className="bg-card text-foreground hover:bg-muted hover:text-foreground">{mapFile}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <Select
+                                value={material.smoothnessChannel || 'r'}
+                                onValueChange={(value: string) => updateSpriteConfig(spriteId, { smoothnessChannel: value as MaterialMapChannel })}
+                                disabled={!material.smoothnessMap}
+                                data-testid={`select-smoothness-channel-${spriteId}`}
+                              >
+                                <SelectTrigger className="h-7 w-14 text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-card border border-border">
+                                  {materialMapChannels.map((channel) => (
+                                    <SelectItem key={channel} value={channel} className="bg-card text-foreground hover:bg-muted hover:text-foreground">{channel.toUpperCase()}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          </div>
+                        </div>
+
+                        {/* Emissive Material Properties */}
+                        <div className="space-y-2 pt-2 border-t border-border/50">
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Label className="text-xs text-card-foreground whitespace-nowrap">Emissive</Label>
+                              <Input
+                                type="color"
+                                value={`#${Math.round((material.emissiveColor?.r ?? 1) * 255).toString(16).padStart(2, '0')}${Math.round((material.emissiveColor?.g ?? 1) * 255).toString(16).padStart(2, '0')}${Math.round((material.emissiveColor?.b ?? 1) * 255).toString(16).padStart(2, '0')}`}
+                                onChange={(e) => {
+                                  const hex = e.target.value;
+                                  const r = parseInt(hex.slice(1, 3), 16) / 255;
+                                  const g = parseInt(hex.slice(3, 5), 16) / 255;
+                                  const b = parseInt(hex.slice(5, 7), 16) / 255;
+                                  updateSpriteConfig(spriteId, { emissiveColor: { r, g, b } });
+                                }}
+                                className="w-12 h-7 p-1 cursor-pointer"
+                                data-testid={`input-emissive-color-${spriteId}`}
+                              />
+                              <Slider
+                                value={[material.emissiveIntensity ?? 0.0]}
+                                onValueChange={([value]) => updateSpriteConfig(spriteId, { emissiveIntensity: value })}
+                                min={0.0}
+                                max={10.0}
+                                step={0.05}
+                                className="flex-1"
+                                data-testid={`slider-emissive-intensity-${spriteId}`}
+                              />
+                              <span className="text-xs text-muted-foreground min-w-[32px] text-right">{(material.emissiveIntensity ?? 0.0).toFixed(2)}</span>
+                            </div>
+                          </div>
+                          
+                          <div className="flex items-center gap-2">
+                            <Label className="text-xs text-muted-foreground whitespace-nowrap">Map</Label>
+                            <Select
+                              value={material.emissiveMap ? material.emissiveMap.split('/').pop() : 'none'}
+                              onValueChange={(value: string) => updateSpriteConfig(spriteId, {
+                                emissiveMap: value === 'none' ? '' : `/textures/${value}`
+                              })}
+                              data-testid={`select-emissive-map-${spriteId}`}
+                            >
+                              <SelectTrigger className="h-7 flex-1 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent className="bg-card border border-border">
+                                <SelectItem value="none" className="bg-card text-foreground hover:bg-muted hover:text-foreground">None (whole sprite)</SelectItem>
+                                {availableMaterialMaps.map((mapFile) => (
+                                  <SelectItem key={mapFile} value={mapFile} className="bg-card text-foreground hover:bg-muted hover:text-foreground">{mapFile}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          
+                          <div className="flex items-center justify-between">
+                            <Label className="text-xs text-card-foreground">Emissive Lights Neighbours</Label>
+                            <Switch
+                              checked={material.emissiveCastsLight ?? false}
+                              onCheckedChange={(checked) => updateSpriteConfig(spriteId, { emissiveCastsLight: checked })}
+                              data-testid={`switch-emissive-casts-light-${spriteId}`}
+                            />
                           </div>
                         </div>
 
@@ -538,6 +986,18 @@ export function DynamicSpriteControls({ sceneConfig, onSceneConfigChange, onImme
                             {material.normal && (
                               <div><span className="font-medium">Normal:</span> {material.normal}</div>
                             )}
+                            {material.metallicMap && (
+                              <div><span className="font-medium">Metallic:</span> {material.metallicMap} ({(material.metallicChannel || 'r').toUpperCase()})</div>
+                            )}
+                            {material.smoothnessMap && (
+                              <div><span className="font-medium">Smoothness:</span> {material.smoothnessMap} ({(material.smoothnessChannel || 'r').toUpperCase()})</div>
+                            )}
+                            {material.emissiveMap && (
+                              <div><span className="font-medium">Emissive:</span> {material.emissiveMap}</div>
+                            )}
+                            {material.heightMap && (
+                              <div><span className="font-medium">Height:</span> {material.heightMap}</div>
+                            )}
                           </div>
                         </div>
                       </>
@@ -1,5 +1,14 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { PerformanceSettings } from '../utils/performance';
+import { LightTileStats, MAX_LIGHTS_PER_TILE } from '@/lib/lightTiles';
+import { ShadowTechnique } from '@/lib/lights';
+import { ShadowAtlasStats } from '@/lib/shadowAtlas';
+
+const SHADOW_TECHNIQUE_LABELS: Record<ShadowTechnique, string> = {
+  raymarch: 'Ray March',
+  sdf: 'Distance Field',
+  polar: 'Polar Atlas',
+};
 
 interface PerformanceMonitorProps {
   fps: { current: number; average: number };
@@ -13,10 +22,28 @@ interface PerformanceMonitorProps {
   };
   performanceSettings: PerformanceSettings;
   onSettingsChange: (settings: PerformanceSettings) => void;
+  lightTileStats?: LightTileStats | null;
+  showLightTileHeatmap?: boolean;
+  onToggleLightTileHeatmap?: (show: boolean) => void;
+  shadowTechnique?: ShadowTechnique;
+  shadowAtlasStats?: ShadowAtlasStats | null;
 }
 
-const PerformanceMonitor = ({ fps, deviceInfo, performanceSettings, onSettingsChange }: PerformanceMonitorProps) => {
+const PerformanceMonitor = ({ fps, deviceInfo, performanceSettings, onSettingsChange, lightTileStats, showLightTileHeatmap, onToggleLightTileHeatmap, shadowTechnique, shadowAtlasStats }: PerformanceMonitorProps) => {
   const [showDetails, setShowDetails] = useState(false);
+  
+  // Average FPS seen while each shadow technique was active - switch techniques to compare them on this scene
+  const techniqueFpsRef = useRef<Partial<Record<ShadowTechnique, { total: number; samples: number }>>>({});
+  const [techniqueFps, setTechniqueFps] = useState<Partial<Record<ShadowTechnique, number>>>({});
+  
+  useEffect(() => {
+    if (!shadowTechnique || !performanceSettings.enableShadows) return;
+    const entry = techniqueFpsRef.current[shadowTechnique] || { total: 0, samples: 0 };
+    entry.total += fps.current;
+    entry.samples += 1;
+    techniqueFpsRef.current[shadowTechnique] = entry;
+    setTechniqueFps(prev => ({ ...prev, [shadowTechnique]: Math.round(entry.total / entry.samples) }));
+  }, [fps, shadowTechnique, performanceSettings.enableShadows]);
 
   const handleQualityChange = (quality: 'low' | 'medium' | 'high') => {
     const newSettings: PerformanceSettings = {
@@ -33,6 +60,8 @@ const PerformanceMonitor = ({ fps, deviceInfo, performanceSettings, onSettingsCh
         newSettings.enableAmbientOcclusion = false;
         newSettings.enableNormalMapping = false;
         newSettings.enableLightMasks = false;
+        newSettings.enableReflections = false;
+        newSettings.enableBloom = false;
         newSettings.fpsTarget = 30;
         break;
       case 'medium':
@@ -42,6 +71,8 @@ const PerformanceMonitor = ({ fps, deviceInfo, performanceSettings, onSettingsCh
         newSettings.enableAmbientOcclusion = false;
         newSettings.enableNormalMapping = true;
         newSettings.enableLightMasks = false;
+        newSettings.enableReflections = false;
+        newSettings.enableBloom = false;
         newSettings.fpsTarget = 45;
         break;
       case 'high':
@@ -51,6 +82,8 @@ const PerformanceMonitor = ({ fps, deviceInfo, performanceSettings, onSettingsCh
         newSettings.enableAmbientOcclusion = true;
         newSettings.enableNormalMapping = true;
         newSettings.enableLightMasks = true;
+        newSettings.enableReflections = true;
+        newSettings.enableBloom = true;
         newSettings.fpsTarget = 60;
         break;
     }
@@ -64,6 +97,14 @@ const PerformanceMonitor = ({ fps, deviceInfo, performanceSettings, onSettingsCh
     return 'text-red-400';
   };
 
+  // Same ramp as the canvas heat-map overlay: green (few lights) to red, magenta = overflow
+  const getTileColor = (count: number) => {
+    if (count === 0) return 'transparent';
+    if (count > MAX_LIGHTS_PER_TILE) return 'rgb(255, 0, 255)';
+    const heat = Math.min(1, count / (MAX_LIGHTS_PER_TILE / 2));
+    return `rgb(${Math.round(255 * Math.min(1, heat * 2))}, ${Math.round(255 * Math.min(1, (1 - heat) * 2))}, 0)`;
+  };
+
   const getDeviceIcon = () => {
     if (deviceInfo.isMobile) return '📱';
     if (deviceInfo.isTablet) return '📱';
@@ -151,6 +192,106 @@ const PerformanceMonitor = ({ fps, deviceInfo, performanceSettings, onSettingsCh
             <span className="text-gray-400">Normal Maps:</span>
             <span data-testid="setting-normals">{performanceSettings.enableNormalMapping ? '✓' : '✗'}</span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Tiled Lighting:</span>
+            <span data-testid="setting-tiled-lighting">{performanceSettings.enableTiledLighting ? '✓' : '✗'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Reflections:</span>
+            <span data-testid="setting-reflections">{performanceSettings.enableReflections ? '✓' : '✗'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Bloom:</span>
+            <span data-testid="setting-bloom">{performanceSettings.enableBloom ? '✓' : '✗'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-400">Rendering:</span>
+            <span data-testid="setting-rendering-path">{performanceSettings.renderingPath === 'deferred' ? 'Deferred' : 'Forward'}</span>
+          </div>
+          {shadowTechnique && (
+            <div className="pt-2 mt-2 border-t border-gray-700 space-y-1" data-testid="shadow-technique-stats">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Shadow Technique:</span>
+                <span data-testid="shadow-technique">{SHADOW_TECHNIQUE_LABELS[shadowTechnique]}</span>
+              </div>
+              {/* FPS comparison - only techniques that have been active are listed */}
+              {(Object.keys(SHADOW_TECHNIQUE_LABELS) as ShadowTechnique[])
+                .filter(technique => techniqueFps[technique] !== undefined)
+                .map(technique => (
+                  <div key={technique} className="flex justify-between">
+                    <span className={technique === shadowTechnique ? 'text-white' : 'text-gray-400'}>
+                      {SHADOW_TECHNIQUE_LABELS[technique]} FPS:
+                    </span>
+                    <span className="font-mono" data-testid={`shadow-technique-fps-${technique}`}>{techniqueFps[technique]}</span>
+                  </div>
+                ))}
+              {shadowAtlasStats && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Atlas Rows:</span>
+                    <span data-testid="shadow-atlas-rows">{shadowAtlasStats.rows}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Rows Rebuilt (last):</span>
+                    <span data-testid="shadow-atlas-rebuilt">{shadowAtlasStats.rebuiltRows}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Rows Rebuilt (total):</span>
+                    <span data-testid="shadow-atlas-total-rebuilds">{shadowAtlasStats.totalRebuilds}</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+          {lightTileStats && (
+            <div className="pt-2 mt-2 border-t border-gray-700 space-y-1" data-testid="light-tile-stats">
+              <div className="flex justify-between">
+                <span className="text-gray-400">Light Tiles:</span>
+                <span data-testid="light-tile-grid">{lightTileStats.tilesX}×{lightTileStats.tilesY} @ {lightTileStats.tileSize}px</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Lights/Tile (avg):</span>
+                <span data-testid="light-tile-average">{lightTileStats.averageLightsPerTile.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-400">Lights/Tile (max):</span>
+                <span data-testid="light-tile-max">{lightTileStats.maxLightsPerTile} / {lightTileStats.lightCount}</span>
+              </div>
+              {lightTileStats.overflowTiles > 0 && (
+                <div className="flex justify-between text-red-400">
+                  <span>Overflow Tiles:</span>
+                  <span data-testid="light-tile-overflow">{lightTileStats.overflowTiles} (&gt;{MAX_LIGHTS_PER_TILE})</span>
+                </div>
+              )}
+              {/* Per-tile light counts - miniature of the canvas heat-map */}
+              <div
+                className="grid gap-px bg-gray-800 mt-1"
+                style={{ gridTemplateColumns: `repeat(${lightTileStats.tilesX}, 4px)` }}
+                data-testid="light-tile-counts"
+              >
+                {lightTileStats.counts.map((count, index) => (
+                  <div
+                    key={index}
+                    className="w-1 h-1"
+                    style={{ backgroundColor: getTileColor(count) }}
+                    title={`${count} light${count === 1 ? '' : 's'}`}
+                  />
+                ))}
+              </div>
+              {onToggleLightTileHeatmap && (
+                <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-gray-400">Heat-map Overlay:</span>
+                  <input
+                    type="checkbox"
+                    checked={!!showLightTileHeatmap}
+                    onChange={(e) => onToggleLightTileHeatmap(e.target.checked)}
+                    className="w-3 h-3"
+                    data-testid="toggle-light-tile-heatmap"
+                  />
+                </label>
+              )}
+            </div>
+          )}
           {deviceInfo.memory && (
             <div className="flex justify-between">
               <span className="text-gray-400">Memory:</span>
@@ -2,15 +2,32 @@ import { useEffect, useRef, useState } from 'react';
 import * as PIXI from 'pixi.js';
 import { useCustomGeometry } from '../hooks/useCustomGeometry';
 import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import spriteVertexShaderSource from '../shaders/spriteVertex.glsl?raw';
 import fragmentShaderSource from '../shaders/fragment.glsl?raw';
+import gBufferVertexShaderSource from '../shaders/gbufferVertex.glsl?raw';
+import gBufferFragmentShaderSource from '../shaders/gbufferFragment.glsl?raw';
 import { ShaderParams } from '../App';
-import { Light, ShadowConfig, AmbientOcclusionConfig } from '@/lib/lights';
-import { SceneManager, SceneSprite } from './Sprite';
+import { Light, ShadowConfig, ShadowTechnique, AmbientOcclusionConfig, SHADOW_TECHNIQUE_CODES } from '@/lib/lights';
+import { LightBuffer } from '@/lib/lightBuffer';
+import { LightTileGrid, LightTileStats, MAX_LIGHTS_PER_TILE } from '@/lib/lightTiles';
+import { GBuffer, MAX_DEFERRED_RECEIVERS } from '@/lib/deferred';
+import { OccluderDistanceField } from '@/lib/distanceField';
+import { ShadowAtlas, ShadowAtlasStats } from '@/lib/shadowAtlas';
+import { ScreenSpaceReflections } from '@/lib/reflections';
+import { EnvironmentMap, EnvironmentMapLoader, getEnvironmentAdjustmentUniforms, getEnvironmentMapUniforms } from '@/lib/environmentMap';
+import { EnvironmentBackground } from '@/lib/environmentBackground';
+import { ToneMapping, ToneMappingSettings, isToneMappingActive } from '@/lib/toneMapping';
+import { Bloom, BloomSettings } from '@/lib/bloom';
+import { ColorGradingSettings, ColorLUT, LUTLoader, getColorGradingUniforms } from '@/lib/colorGrading';
+import { VolumetricLight } from '@/lib/volumetricLight';
+import { Camera } from '@/lib/camera';
+import { SceneManager, SceneSprite, ParallaxLayer, channelToMask, normalizeReflectiveSurface } from './Sprite';
+import { IBLConfig, ReflectionConfig, ToneMappingConfig, BloomConfig, ColorGradingConfig } from './SceneStateManager';
 import { detectDevice, getOptimalSettings, AdaptiveQuality, PerformanceSettings } from '../utils/performance';
 
 /**
  * Core PIXI.js rendering component implementing advanced shadow casting system.
- * Manages WebGL rendering, multi-pass lighting, and unlimited shadow casters using
+ * Manages WebGL rendering, data-texture light buffer lighting, and unlimited shadow casters using
  * auto-switching architecture between per-caster uniforms and occluder maps.
  */
 
@@ -34,7 +51,12 @@ interface PixiDemoProps {
   ambientOcclusionConfig: AmbientOcclusionConfig;
   sceneConfig: { 
     sprites: Record<string, any>; 
-    iblConfig?: { enabled: boolean; intensity: number; environmentMap: string } 
+    iblConfig?: IBLConfig;
+    reflectionConfig?: ReflectionConfig;
+    toneMappingConfig?: ToneMappingConfig;
+    bloomConfig?: BloomConfig;
+    colorGradingConfig?: ColorGradingConfig;
+    layers?: Record<string, ParallaxLayer>;
   };
   performanceSettings: PerformanceSettings;
   onGeometryUpdate: (status: string) => void;
@@ -42,10 +64,13 @@ interface PixiDemoProps {
   onMeshUpdate: (status: string) => void;
   onImmediateSpriteChange?: (spriteId: string, updates: any) => void;
   onPerformanceUpdate?: (fps: { current: number; average: number }, settings: PerformanceSettings) => void;
+  showLightTileHeatmap?: boolean; // Debug overlay: tiles colored by how many lights touch them
+  onLightTileStatsUpdate?: (stats: LightTileStats) => void;
+  onShadowAtlasStatsUpdate?: (stats: ShadowAtlasStats | null) => void;
 }
 
 const PixiDemo = (props: PixiDemoProps) => {
-  const { shaderParams, lightsConfig, ambientLight, shadowConfig, ambientOcclusionConfig, sceneConfig, performanceSettings, onGeometryUpdate, onShaderUpdate, onMeshUpdate, onImmediateSpriteChange, onPerformanceUpdate } = props;
+  const { shaderParams, lightsConfig, ambientLight, shadowConfig, ambientOcclusionConfig, sceneConfig, performanceSettings, onGeometryUpdate, onShaderUpdate, onMeshUpdate, onImmediateSpriteChange, onPerformanceUpdate, showLightTileHeatmap, onLightTileStatsUpdate, onShadowAtlasStatsUpdate } = props;
   const canvasRef = useRef<HTMLDivElement>(null);
   
   const [pixiApp, setPixiApp] = useState<PIXI.Application | null>(null);
@@ -54,6 +79,8 @@ const PixiDemo = (props: PixiDemoProps) => {
     x: shaderParams.canvasWidth / 2,  // 400 for 800px width
     y: shaderParams.canvasHeight / 2  // 300 for 600px height
   });
+  // Bumped when a sprite carrying lights moves outside React state (immediate drags) - re-runs the uniform effect
+  const [lightParentVersion, setLightParentVersion] = useState(0);
   
   // Performance monitoring and optimization
   const [deviceInfo] = useState(() => detectDevice());
@@ -71,27 +98,76 @@ const PixiDemo = (props: PixiDemoProps) => {
   // Unlimited shadow caster system - uses render texture when >4 casters
   const occluderRenderTargetRef = useRef<PIXI.RenderTexture | null>(null);
   const occluderContainerRef = useRef<PIXI.Container | null>(null);
+  const occluderDistanceFieldRef = useRef<OccluderDistanceField | null>(null); // Jump flood SDF of the occluder map
+  const occluderTintRenderTargetRef = useRef<PIXI.RenderTexture | null>(null); // Per-channel light absorbed by casters
+  const shadowAtlasRef = useRef<ShadowAtlas | null>(null); // 1D polar shadow map row per point/spot light
+  const occluderCasterKeyRef = useRef<string>(''); // Signature of the casters in the last occluder map build
+  const occluderTintedRef = useRef(false); // A caster in the last build has shadowTint - polar atlas renders tint rows
   const occluderSpritesRef = useRef<PIXI.Sprite[]>([]);
   
-  // SSR (Screen Space Reflections) system - depth map for reflections
-  const depthRenderTargetRef = useRef<PIXI.RenderTexture | null>(null);
+  // Emissive light system - low-res map of light emitted by glowing sprites
+  const emissiveLightRenderTargetRef = useRef<PIXI.RenderTexture | null>(null);
+  const emissiveLightContainerRef = useRef<PIXI.Container | null>(null);
+  const emissiveLightMeshesRef = useRef<Map<string, PIXI.Mesh>>(new Map());
+  
+  // Light buffer - float data texture holding every light, looped over by the sprite shader
+  const lightBufferRef = useRef<LightBuffer | null>(null);
+  
+  // 2D camera - world coordinates (scene.json) to view coordinates (canvas pixels). Runtime only, not saved
+  const cameraRef = useRef<Camera | null>(null);
+  const mouseViewPosRef = useRef({ x: shaderParams.canvasWidth / 2, y: shaderParams.canvasHeight / 2 }); // Last cursor position in view pixels
+  
+  // Tiled light culling - per screen tile light lists + optional heat-map debug overlay
+  const lightTileGridRef = useRef<LightTileGrid | null>(null);
+  const lightTileHeatmapRef = useRef<PIXI.Graphics | null>(null);
+  
+  // Deferred lighting - MRT G-buffer filled by per-sprite material meshes, lit by one fullscreen pass
+  const gBufferRef = useRef<GBuffer | null>(null);
+  const gBufferContainerRef = useRef<PIXI.Container | null>(null);
+  const gBufferMeshesRef = useRef<Map<string, PIXI.Mesh>>(new Map());
+  const deferredLightingMeshRef = useRef<PIXI.Mesh | null>(null);
+  const deferredOverflowRef = useRef(false); // Too many receivers last frame - warn once per switch to forward
+  
+  // SSR (Screen Space Reflections) - surface map + lit scene texture, composited to the screen
+  const screenSpaceReflectionsRef = useRef<ScreenSpaceReflections | null>(null);
+  
+  // HDR scene target + tone mapping resolve (half-float where the context can render to it)
+  const toneMappingRef = useRef<ToneMapping | null>(null);
+  
+  // Bloom - dual-filter glow added onto the HDR scene target before tone mapping
+  const bloomRef = useRef<Bloom | null>(null);
+  
+  // Volumetric light shafts - per-light radial march through the occluder map, added onto the lit scene
+  const volumetricLightRef = useRef<VolumetricLight | null>(null);
+  
+  // Color grading LUT (.cube or strip PNG, cached per URL) - applied by the tone mapping resolve
+  const lutLoaderRef = useRef<LUTLoader | null>(null);
+  const colorLUTRef = useRef<ColorLUT | null>(null);
+  
+  // IBL environment map - LDR images or decoded Radiance .hdr files, cached per URL
+  const environmentMapLoaderRef = useRef<EnvironmentMapLoader | null>(null);
+  const environmentMapRef = useRef<EnvironmentMap | null>(null);
+  const environmentBackgroundRef = useRef<EnvironmentBackground | null>(null);
   
   // Performance optimization caches with dirty flags
   const lastUniformsRef = useRef<any>({});
   const lastShadowCastersRef = useRef<any[]>([]);
   const frameCountRef = useRef<number>(0);
+  const lastAnimationTimeRef = useRef<number>(performance.now()); // Sprite sheet playback clock
   const lastLightConfigHashRef = useRef<string>('');
   
   // Dirty flags for performance optimization
   const uniformsDirtyRef = useRef<boolean>(true);
   const occluderMapDirtyRef = useRef<boolean>(true);
   const shadowCastersDirtyRef = useRef<boolean>(true);
+  const emissiveLightDirtyRef = useRef<boolean>(true);
 
   // Refs to always access current config values (avoid stale closure in animation loop)
   const shadowConfigRef = useRef(shadowConfig);
   const ambientOcclusionConfigRef = useRef(ambientOcclusionConfig);
   const sceneConfigRef = useRef(sceneConfig);
   const ambientLightRef = useRef(ambientLight);
+  const lightsConfigRef = useRef(lightsConfig);
 
   // Performance optimization utilities
   const createLightConfigHash = (lights: Light[], ambient: any, shadow: any, ao: any, performance: any, ibl: any) => {
@@ -163,6 +239,7 @@ const PixiDemo = (props: PixiDemoProps) => {
   const markOccluderMapDirty = () => {
     occluderMapDirtyRef.current = true;
     shadowCastersDirtyRef.current = true;
+    emissiveLightDirtyRef.current = true;
   };
 
   /**
@@ -190,16 +267,26 @@ const PixiDemo = (props: PixiDemoProps) => {
     return createShadowVolumeFromCorners(corners, lightX, lightY, shadowLength);
   };
 
+  // Parallax layers scroll by how far the camera centre moved from its default (viewport centre) position
+  const applyCameraScroll = () => {
+    const camera = cameraRef.current;
+    if (!camera || !sceneManagerRef.current) return;
+    sceneManagerRef.current.setCameraScroll(
+      camera.x - shaderParams.canvasWidth / 2,
+      camera.y - shaderParams.canvasHeight / 2
+    );
+  };
+
   // Helper function to get transformed corners from sprite (includes rotation, scale, pivot)
   const getTransformedCorners = (sprite: SceneSprite) => {
-    const { x, y } = sprite.definition.position;
+    const { x, y } = sprite.getWorldPosition(); // Includes the parent chain and the parallax layer offset
+    const { rotation, scale } = sprite.getWorldTransform();
     
     // Get dimensions from texture (like in Sprite.tsx)
     if (!sprite.diffuseTexture) {
       throw new Error('Texture must be loaded to get dimensions');
     }
-    const baseWidth = sprite.diffuseTexture.width;
-    const baseHeight = sprite.diffuseTexture.height;
+    const { width: baseWidth, height: baseHeight } = sprite.getFrameSize(); // One frame for sprite sheets
     
     // Local space quad corners
     const corners = [
@@ -236,18 +323,18 @@ const PixiDemo = (props: PixiDemoProps) => {
       basePivotY -= (pivot.offsetY || 0);
     }
     
-    const scaledPivotX = basePivotX * sprite.definition.scale;
-    const scaledPivotY = basePivotY * sprite.definition.scale;
+    const scaledPivotX = basePivotX * scale;
+    const scaledPivotY = basePivotY * scale;
     
     // Apply scaling and rotation around pivot point (same logic as Sprite.tsx)
     return corners.map(corner => {
       // Apply scaling from pivot point
-      const scaledOffsetX = (corner.x - basePivotX) * sprite.definition.scale;
-      const scaledOffsetY = (corner.y - basePivotY) * sprite.definition.scale;
+      const scaledOffsetX = (corner.x - basePivotX) * scale;
+      const scaledOffsetY = (corner.y - basePivotY) * scale;
       
       // Apply rotation around the scaled pivot point
-      const cosRot = Math.cos(sprite.definition.rotation);
-      const sinRot = Math.sin(sprite.definition.rotation);
+      const cosRot = Math.cos(rotation);
+      const sinRot = Math.sin(rotation);
       
       const rotatedX = scaledOffsetX * cosRot - scaledOffsetY * sinRot;
       const rotatedY = scaledOffsetX * sinRot + scaledOffsetY * cosRot;
@@ -345,17 +432,62 @@ const PixiDemo = (props: PixiDemoProps) => {
     return new PIXI.Mesh(geometry, shader as any);
   };
   
-  // Multi-pass rendering state
-  const renderTargetRef = useRef<PIXI.RenderTexture | null>(null);
+  // Scene container (sprite meshes are moved to the stage once uniforms are applied)
   const sceneContainerRef = useRef<PIXI.Container | null>(null);
-  const displaySpriteRef = useRef<PIXI.Sprite | null>(null);
-  const LIGHTS_PER_PASS = 8; // 4 point + 4 spot lights per pass
   
   // Buffer zone for off-screen shadow casting (sprites/lights outside frame can affect visible area)
   const SHADOW_BUFFER = 512; // Pixels to extend occlusion map beyond canvas borders
   
+  // Occluder map height channel (must match fragment.glsl constant) - caster heights are stored as
+  // height / OCCLUDER_HEIGHT_RANGE in red, so 8 bits give 2px steps; 1.0 means "blocks every light"
+  const OCCLUDER_HEIGHT_RANGE = 512;
+  
+  // Occluder map layer depth channel (must match fragment.glsl constant) - caster layer depth is stored in blue
+  // as 128 + depth / LAYER_DEPTH_STEP, so layers can sit about +-500px apart
+  const LAYER_DEPTH_STEP = 4.0;
+  
+  // Emissive light map settings (EMISSIVE_LIGHT_SCALE must match fragment.glsl constant)
+  const EMISSIVE_LIGHT_SCALE = 4.0;       // Map stores emission / scale so intensities up to 4 fit in 8 bits
+  const EMISSIVE_LIGHT_RESOLUTION = 0.25; // Quarter-res map - gathering is blurry by design
+  const EMISSIVE_LIGHT_RADIUS = 128;      // Gather radius in pixels around each receiving pixel
+  
   const geometry = useCustomGeometry(shaderParams.canvasWidth, shaderParams.canvasHeight);
 
+  // Lights attached to a sprite (light.parent) are authored relative to its pivot - take them into world space
+  // through the sprite's world transform before packing. Heights (z) stay absolute; unknown parents leave the light as authored
+  const resolveLightParents = (lights: Light[]): Light[] => lights.map(light => {
+    const sprite = light.parent ? sceneManagerRef.current?.getSprite(light.parent) : undefined;
+    if (!sprite) return light;
+
+    const origin = sprite.getWorldPosition();
+    const { rotation, scale } = sprite.getWorldTransform();
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const toWorld = (point: { x: number; y: number; z: number }) => ({
+      x: origin.x + (point.x * cos - point.y * sin) * scale,
+      y: origin.y + (point.x * sin + point.y * cos) * scale,
+      z: point.z
+    });
+
+    return {
+      ...light,
+      position: toWorld(light.position),
+      endPosition: light.endPosition ? toWorld(light.endPosition) : undefined,
+      // Spotlight cones and directional lights turn with the sprite
+      direction: {
+        x: light.direction.x * cos - light.direction.y * sin,
+        y: light.direction.x * sin + light.direction.y * cos,
+        z: light.direction.z
+      },
+      rotation: light.rotation !== undefined ? light.rotation + rotation * 180 / Math.PI : undefined // Area rectangles (degrees)
+    };
+  });
+
+  // True when a light is attached to the sprite or to a sprite below it in the hierarchy (reads the ref - also
+  // called from the immediate update handler, whose closure is from setup)
+  const hasAttachedLights = (sprite: SceneSprite): boolean =>
+    lightsConfigRef.current.some(light => light.parent === sprite.id) || sprite.children.some(hasAttachedLights);
+
   // Helper function to check if a light is inside a sprite's non-transparent area  
   const isLightInsideSprite = (light: Light, sprite: any): boolean => {
     // DISABLED: This function was causing sprites to be excluded from shadow casting
@@ -391,13 +523,16 @@ const PixiDemo = (props: PixiDemoProps) => {
     // }
     
     // Special case: exclude sprites from casting shadows if light (Z >= 50) is inside their non-transparent area
-    const enabledLights = lightsConfig.filter(light => light.enabled);
+    const enabledLights = resolveLightParents(lightsConfig.filter(light => light.enabled));
     relevantShadowCasters = relevantShadowCasters.filter(caster => {
       // Check if any enabled light with Z >= 50 is inside this caster's non-transparent area
       const lightInside = enabledLights.some(light => isLightInsideSprite(light, caster));
       return !lightInside; // Exclude caster if light is inside
     });
     
+    // Nearer parallax layers draw last so they own the texels where layers overlap (stable sort keeps scene order)
+    relevantShadowCasters.sort((a, b) => a.layerDepth - b.layerDepth);
+    
     // Ensure we have enough pooled sprites
     while (occluderSpritesRef.current.length < allShadowCasters.length) {
       const sprite = new PIXI.Sprite();
@@ -406,18 +541,21 @@ const PixiDemo = (props: PixiDemoProps) => {
     }
     
     // Clear the container and create custom geometry meshes that exactly match visual sprites
-    occluderContainerRef.current.removeChildren();
+    // (meshes are destroyed - each owns its geometry and per-caster height shader; pooled sprites are kept)
+    occluderContainerRef.current.removeChildren().forEach(child => {
+      if (child instanceof PIXI.Mesh) child.destroy();
+    });
     
     // Create meshes with identical custom geometry to visual sprites
     relevantShadowCasters.forEach((caster, index) => {
       if (!caster.diffuseTexture) return;
       
       // Use EXACT same geometry creation as Sprite.tsx createGeometry()
-      const spritePos = caster.definition.position;
-      const spriteScale = caster.definition.scale || 1;
-      const spriteRotation = caster.definition.rotation || 0;
-      const baseWidth = caster.diffuseTexture.width;
-      const baseHeight = caster.diffuseTexture.height;
+      const spritePos = caster.getWorldPosition(); // Parallax layers shift the caster with the camera
+      const worldTransform = caster.getWorldTransform(); // Attached casters follow their parent
+      const spriteScale = worldTransform.scale || 1;
+      const spriteRotation = worldTransform.rotation || 0;
+      const { width: baseWidth, height: baseHeight } = caster.getFrameSize(); // One frame for sprite sheets
       
       // Calculate pivot point using EXACT same logic as Sprite.tsx
       const pivot = caster.definition.pivot || { preset: 'middle-center', offsetX: 0, offsetY: 0 };
@@ -477,12 +615,9 @@ const PixiDemo = (props: PixiDemoProps) => {
         transformedCorners[3].x, transformedCorners[3].y, // Bottom-left
       ]);
       
-      const uvs = new Float32Array([
-        0, 0,     // Top-left UV
-        1, 0,     // Top-right UV
-        1, 1,     // Bottom-right UV
-        0, 1,     // Bottom-left UV
-      ]);
+      // Same UVs as the visual sprite - for sprite sheets the current frame's alpha (and height map frame) is drawn,
+      // so animated casters cast animated shadows
+      const uvs = caster.getFrameUVs();
       
       const indices = new Uint16Array([0, 1, 2, 0, 2, 3]); // Two triangles forming a quad
       
@@ -490,21 +625,60 @@ const PixiDemo = (props: PixiDemoProps) => {
       geometry.addAttribute('aTextureCoord', uvs, 2);
       geometry.addIndex(indices);
       
+      // Coverage in alpha, caster height in red, shadow opacity in green and layer depth in blue (premultiplied
+      // like the alpha so edges blend cleanly). The tint pass writes the light absorbed per channel instead
+      const casterHeight = Number.isFinite(caster.definition.height)
+        ? Math.min(Math.max(caster.definition.height, 0) / OCCLUDER_HEIGHT_RANGE, 254 / 255) // Keep 1.0 for "unlimited"
+        : 1.0;
+      const casterDepth = Math.min(Math.max(128 + Math.round(caster.layerDepth / LAYER_DEPTH_STEP), 0), 255) / 255;
+      const occluderShader = PIXI.Shader.from(vertexShaderSource, `
+        precision mediump float;
+        varying vec2 vTextureCoord;
+        uniform sampler2D uDiffuse;
+        uniform sampler2D uHeightMap;
+        uniform float uCasterHeight;
+        uniform float uCasterDepth;
+        uniform float uShadowOpacity;
+        uniform float uShadowTint;
+        uniform float uTintPass;
+        
+        void main() {
+          vec4 diffuse = texture2D(uDiffuse, vTextureCoord);
+          float coverage = diffuse.a;
+          
+          if (uTintPass > 0.5) {
+            // Grey casters absorb their opacity evenly, tinted ones only what their (unpremultiplied) color lacks
+            vec3 color = diffuse.rgb / max(diffuse.a, 0.001);
+            vec3 absorbance = uShadowOpacity * mix(vec3(1.0), vec3(1.0) - color, uShadowTint);
+            gl_FragColor = vec4(absorbance * coverage, coverage);
+            return;
+          }
+          
+          // Unlimited casters ignore the height map - they block every light regardless
+          float height = uCasterHeight >= 1.0 ? 1.0 : uCasterHeight * texture2D(uHeightMap, vTextureCoord).r;
+          gl_FragColor = vec4(height * coverage, uShadowOpacity * coverage, uCasterDepth * coverage, coverage);
+        }
+      `, {
+        uDiffuse: caster.diffuseTexture,
+        uHeightMap: caster.heightTexture || PIXI.Texture.WHITE,
+        uCasterHeight: casterHeight,
+        uCasterDepth: casterDepth,
+        uShadowOpacity: Math.min(Math.max(caster.definition.shadowOpacity, 0), 1),
+        uShadowTint: caster.definition.shadowTint ? 1 : 0,
+        uTintPass: 0
+      });
+      
       // Create simple mesh with original texture and rotated geometry
-      const mesh = new PIXI.Mesh(geometry, new PIXI.MeshMaterial(caster.diffuseTexture));
-      mesh.tint = 0xFFFFFF; // White tint (no color modification)
+      const mesh = new PIXI.Mesh(geometry, occluderShader);
       
       // Set mesh pivot to match sprite's pivot for correct rotation center
       const scaledPivotX = basePivotX * spriteScale;
       const scaledPivotY = basePivotY * spriteScale; 
       mesh.pivot.set(scaledPivotX, scaledPivotY);
       
-      // Position mesh at sprite pivot location with SHADOW_BUFFER offset
+      // Position mesh at sprite pivot location in world space - the container applies the camera and SHADOW_BUFFER offset
       // spritePos now represents the pivot point location (not top-left corner)
-      mesh.position.set(
-        spritePos.x + SHADOW_BUFFER, 
-        spritePos.y + SHADOW_BUFFER
-      );
+      mesh.position.set(spritePos.x, spritePos.y);
       mesh.rotation = spriteRotation; // Apply rotation via mesh transform (like visual sprites)
       mesh.scale.set(1, 1);
       
@@ -518,11 +692,73 @@ const PixiDemo = (props: PixiDemoProps) => {
       occluderSpritesRef.current[i].visible = false;
     }
     
+    // The map covers the view plus SHADOW_BUFFER on each side - casters are drawn through the camera
+    if (cameraRef.current) {
+      occluderContainerRef.current.transform.setFromMatrix(cameraRef.current.getOccluderMapMatrix(SHADOW_BUFFER));
+    }
+    
     // Render to occluder texture with optimized settings
     pixiApp.renderer.render(occluderContainerRef.current, { 
       renderTexture: occluderRenderTargetRef.current, 
       clear: true 
     });
+    
+    // Distance field follows the occluder map - only paid for while the SDF technique is selected
+    // (ref read: this also runs from the ticker closure)
+    if (occluderDistanceFieldRef.current && shadowConfigRef.current.technique === 'sdf') {
+      occluderDistanceFieldRef.current.build(pixiApp.renderer, occluderRenderTargetRef.current);
+    }
+    
+    // Tint map - same meshes re-rendered with the tint pass flag, read by the ray march for colored shadows.
+    // Polar needs it too: the atlas tint rows copy it, and directional, area and line lights still ray march
+    if (occluderTintRenderTargetRef.current && shadowConfigRef.current.technique !== 'sdf') {
+      occluderContainerRef.current.children.forEach(child => {
+        if (child instanceof PIXI.Mesh) child.shader.uniforms.uTintPass = 1;
+      });
+      pixiApp.renderer.render(occluderContainerRef.current, {
+        renderTexture: occluderTintRenderTargetRef.current,
+        clear: true
+      });
+    }
+    
+    // Polar atlas rows only need re-rendering when the casters actually changed - this function also runs
+    // on every lighting update, so compare a signature of what was drawn instead of rebuilding blindly
+    occluderCasterKeyRef.current = JSON.stringify(relevantShadowCasters.map(caster => [
+      caster.id, caster.getWorldPosition(), caster.getWorldTransform().rotation, caster.getWorldTransform().scale, caster.definition.pivot,
+      caster.definition.height, caster.definition.heightMap, caster.definition.shadowOpacity, caster.definition.shadowTint,
+      caster.layerDepth, caster.animator?.frameIndex
+    ]));
+    occluderTintedRef.current = relevantShadowCasters.some(caster => caster.definition.shadowTint);
+    if (shadowConfigRef.current.technique === 'polar') {
+      updateShadowAtlas();
+    }
+  };
+  
+  // Texture behind the shared uShadowTechniqueMap sampler - distance field for SDF, tint map for the ray march
+  // (and for the lights polar mode still ray marches)
+  const getShadowTechniqueMap = (technique: ShadowTechnique): PIXI.Texture => {
+    const map = technique === 'sdf' ? occluderDistanceFieldRef.current?.texture : occluderTintRenderTargetRef.current;
+    return map || PIXI.Texture.EMPTY;
+  };
+  
+  // Re-render the polar shadow atlas rows whose light moved (all rows when the casters changed)
+  const updateShadowAtlas = (): Record<string, any> => {
+    if (!pixiApp || !shadowAtlasRef.current || !lightBufferRef.current || !occluderRenderTargetRef.current) return {};
+    
+    if (!cameraRef.current) return {};
+    
+    const uniforms = shadowAtlasRef.current.update(
+      pixiApp.renderer,
+      lightBufferRef.current.packedLights,
+      cameraRef.current,
+      occluderRenderTargetRef.current,
+      occluderTintedRef.current ? occluderTintRenderTargetRef.current : null,
+      SHADOW_BUFFER,
+      [shaderParams.canvasWidth, shaderParams.canvasHeight],
+      occluderCasterKeyRef.current
+    );
+    onShadowAtlasStatsUpdate?.(shadowAtlasRef.current.stats);
+    return uniforms;
   };
   
   // Build occluder map using all shadow casters for unified system
@@ -530,179 +766,304 @@ const PixiDemo = (props: PixiDemoProps) => {
     buildOccluderMapForSprite(-999, excludeSpriteId); // Use very low zOrder to include all casters
   };
 
-  // Multi-pass lighting composer
-  const renderMultiPass = (lights: Light[]) => {
-    if (!pixiApp || !renderTargetRef.current || !sceneContainerRef.current || !displaySpriteRef.current) return;
-
-    const enabledLights = lights.filter(light => light.enabled && light.type !== 'ambient');
-
-    // Clear accumulation buffer
-    pixiApp.renderer.render(new PIXI.Container(), { renderTexture: renderTargetRef.current, clear: true });
-
-    // BASE PASS: Ambient lighting only
+  // Emissive light map builder - renders emission of light-casting emissive sprites into a low-res map
+  // that sprite shaders gather from, so neon signs and lava light up their surroundings
+  const buildEmissiveLightMap = () => {
+    if (!pixiApp || !emissiveLightRenderTargetRef.current || !emissiveLightContainerRef.current || !sceneManagerRef.current) return;
+    
+    const emitters = sceneManagerRef.current.getAllSprites().filter(sprite =>
+      sprite.definition.visible &&
+      sprite.definition.emissiveCastsLight &&
+      sprite.definition.emissiveIntensity > 0 &&
+      sprite.geometry && sprite.diffuseTexture && sprite.emissiveTexture
+    );
+    
+    emissiveLightContainerRef.current.removeChildren();
+    
+    emitters.forEach(sprite => {
+      // Reuse pooled mesh per sprite - geometry is shared with the visual sprite (world-space vertices)
+      let mesh = emissiveLightMeshesRef.current.get(sprite.id);
+      if (!mesh) {
+        const shader = PIXI.Shader.from(vertexShaderSource, `
+          precision mediump float;
+          varying vec2 vTextureCoord;
+          uniform sampler2D uDiffuse;
+          uniform sampler2D uEmissive;
+          uniform vec3 uEmissiveColor;
+          uniform float uEmissiveIntensity;
+          uniform float uEmissiveLightScale;
+          
+          void main() {
+            vec4 diffuse = texture2D(uDiffuse, vTextureCoord);
+            vec3 emission = texture2D(uEmissive, vTextureCoord).rgb * uEmissiveColor * uEmissiveIntensity;
+            gl_FragColor = vec4(emission * diffuse.a / uEmissiveLightScale, diffuse.a);
+          }
+        `, {});
+        mesh = new PIXI.Mesh(sprite.geometry!, shader as any);
+        mesh.blendMode = PIXI.BLEND_MODES.ADD; // Overlapping emitters accumulate
+        emissiveLightMeshesRef.current.set(sprite.id, mesh);
+      }
+      
+      mesh.geometry = sprite.geometry!;
+      const { emissiveColor, emissiveIntensity } = sprite.definition;
+      Object.assign(mesh.shader.uniforms, {
+        uDiffuse: sprite.diffuseTexture,
+        uEmissive: sprite.emissiveTexture,
+        uEmissiveColor: [emissiveColor.r, emissiveColor.g, emissiveColor.b],
+        uEmissiveIntensity: emissiveIntensity,
+        uEmissiveLightScale: EMISSIVE_LIGHT_SCALE
+      });
+      emissiveLightContainerRef.current!.addChild(mesh);
+    });
+    
+    // Canvas-space map - emitters are drawn through the camera like the visual sprites
+    if (cameraRef.current) {
+      emissiveLightContainerRef.current.transform.setFromMatrix(cameraRef.current.viewMatrix);
+    }
+    pixiApp.renderer.render(emissiveLightContainerRef.current, {
+      renderTexture: emissiveLightRenderTargetRef.current,
+      clear: true
+    });
+    
+    // Skip gathering entirely when nothing emits light
+    const hasEmitters = emitters.length > 0;
     shadersRef.current.forEach(shader => {
       if (shader.uniforms) {
-        shader.uniforms.uPassMode = 0; // Base pass
-        // Reset all light enabled flags for base pass
-        for (let i = 0; i < 4; i++) {
-          shader.uniforms[`uPoint${i}Enabled`] = false;
-          shader.uniforms[`uSpot${i}Enabled`] = false;
-        }
-        shader.uniforms.uDir0Enabled = false;
-        shader.uniforms.uDir1Enabled = false;
+        shader.uniforms.uEmissiveLightEnabled = hasEmitters;
+        shader.uniforms.uEmissiveLightMap = emissiveLightRenderTargetRef.current;
+        shader.uniforms.uEmissiveLightRadius = EMISSIVE_LIGHT_RADIUS;
       }
     });
+  };
+
+  // Deferred G-buffer pass - every visible sprite writes albedo, normal, material and emissive into the MRT
+  // targets in zOrder, so the lighting pass below shades each screen pixel once instead of once per sprite layer.
+  // Returns null when the frame can't go deferred (caller renders it forward)
+  const renderGBuffer = (): Record<string, any> | null => {
+    if (!pixiApp || !gBufferRef.current || !gBufferContainerRef.current || !sceneManagerRef.current) return null;
+    
+    const receivers = sceneManagerRef.current.getAllSprites()
+      .filter(sprite => sprite.definition.visible && sprite.mesh?.visible && sprite.shader && sprite.geometry)
+      .sort((a, b) => (a.definition.zOrder || 0) - (b.definition.zOrder || 0));
+    
+    // Receiver index is 8-bit - sprites past the limit would vanish from the deferred output, so render forward instead
+    const overflow = receivers.length > MAX_DEFERRED_RECEIVERS;
+    if (overflow && !deferredOverflowRef.current) {
+      console.warn(`⚠️ Deferred receivers exhausted (${receivers.length} visible sprites, max ${MAX_DEFERRED_RECEIVERS}) - rendering forward`);
+    }
+    deferredOverflowRef.current = overflow;
+    if (overflow) return null;
     
-    // Set meshes to NORMAL blending for base pass
-    meshesRef.current.forEach(mesh => {
-      mesh.blendMode = PIXI.BLEND_MODES.NORMAL;
+    gBufferContainerRef.current.removeChildren();
+    
+    receivers.forEach((sprite, receiverIndex) => {
+      // Reuse pooled mesh per sprite - geometry is shared with the visual sprite (world-space vertices)
+      let mesh = gBufferMeshesRef.current.get(sprite.id);
+      if (!mesh) {
+        const shader = PIXI.Shader.from(gBufferVertexShaderSource, gBufferFragmentShaderSource, {});
+        mesh = new PIXI.Mesh(sprite.mesh!.geometry, shader as any);
+        gBufferMeshesRef.current.set(sprite.id, mesh);
+      }
+      
+      // Material uniforms are read from the forward shader so immediate UI edits apply to both paths
+      const spriteUniforms = sprite.shader!.uniforms;
+      mesh.geometry = sprite.mesh!.geometry;
+      mesh.zIndex = receiverIndex;
+      Object.assign(mesh.shader.uniforms, {
+        uDiffuse: spriteUniforms.uDiffuse,
+        uNormal: spriteUniforms.uNormal,
+        uMetallic: spriteUniforms.uMetallic,
+        uSmoothness: spriteUniforms.uSmoothness,
+        uMetallicChannel: spriteUniforms.uMetallicChannel,
+        uSmoothnessChannel: spriteUniforms.uSmoothnessChannel,
+        uUseNormalMap: spriteUniforms.uUseNormalMap,
+        uAlbedoColor: spriteUniforms.uAlbedoColor,
+        uAlbedoTint: spriteUniforms.uAlbedoTint,
+        uMetallicValue: spriteUniforms.uMetallicValue,
+        uSmoothnessValue: spriteUniforms.uSmoothnessValue,
+        uEmissive: spriteUniforms.uEmissive,
+        uEmissiveColor: spriteUniforms.uEmissiveColor,
+        uEmissiveIntensity: spriteUniforms.uEmissiveIntensity,
+        uRotation: spriteUniforms.uRotation,
+        uReceiverIndex: receiverIndex
+      });
+      gBufferContainerRef.current!.addChild(mesh);
     });
     
-    // Render base pass with NORMAL blending
-    pixiApp.renderer.render(sceneContainerRef.current, { 
-      renderTexture: renderTargetRef.current, 
-      clear: false 
+    // G-buffer texels are screen pixels - sprite geometry is in world space, so draw through the camera
+    if (cameraRef.current) {
+      gBufferContainerRef.current.transform.setFromMatrix(cameraRef.current.viewMatrix);
+    }
+    pixiApp.renderer.render(gBufferContainerRef.current, {
+      renderTexture: gBufferRef.current.renderTexture,
+      clear: true
     });
+    
+    // Per-sprite values the lighting pass looks up by receiver index
+    return gBufferRef.current.update(receivers.map(sprite => ({
+      receiverMin: sprite.shader!.uniforms.uReceiverMin,
+      receiverMax: sprite.shader!.uniforms.uReceiverMax,
+      spritePos: sprite.shader!.uniforms.uSpritePos,
+      spriteSize: sprite.shader!.uniforms.uSpriteSize,
+      zOrder: sprite.definition.zOrder || 0,
+      layerDepth: sprite.layerDepth
+    })));
+  };
 
-    // LIGHTING PASSES: Batch lights and render additively
-    const pointLights = enabledLights.filter(light => light.type === 'point');
-    const spotlights = enabledLights.filter(light => light.type === 'spotlight');
-    const directionalLights = enabledLights.filter(light => light.type === 'directional');
-
-    // Calculate number of passes needed
-    const maxPointsPerPass = 4;
-    const maxSpotsPerPass = 4;
-    const maxDirPerPass = 2;
+  // Reflection frame - SSR and planar reflectors sample the lit stage, so the whole frame goes through the reflection
+  // targets. Surfaces use the same back-to-front order as the stage; materials are read from the forward shader uniforms.
+  // Returns false when nothing reflects this frame (caller renders the stage directly)
+  const renderWithReflections = (target?: PIXI.RenderTexture): boolean => {
+    if (!pixiApp || !screenSpaceReflectionsRef.current || !sceneManagerRef.current || !cameraRef.current) return false;
     
-    const pointPasses = Math.ceil(pointLights.length / maxPointsPerPass);
-    const spotPasses = Math.ceil(spotlights.length / maxSpotsPerPass);
-    const dirPasses = Math.ceil(directionalLights.length / maxDirPerPass);
+    const camera = cameraRef.current;
+    const reflectionConfig = sceneConfigRef.current.reflectionConfig;
+    const sprites = sceneManagerRef.current.getAllSprites()
+      .filter(sprite => sprite.definition.visible && sprite.mesh?.visible && sprite.shader && sprite.geometry)
+      .sort((a, b) => (a.definition.zOrder || 0) - (b.definition.zOrder || 0));
+    const hasPlanarReflectors = sprites.some(sprite => sprite.definition.reflectiveSurface);
+    if (!reflectionConfig?.enabled && !hasPlanarReflectors) return false;
     
-    const totalPasses = Math.max(pointPasses, spotPasses, dirPasses);
+    const surfaces = sprites.map(sprite => {
+      const reflector = sprite.definition.reflectiveSurface;
+      return {
+        id: sprite.id,
+        geometry: sprite.mesh!.geometry,
+        uniforms: sprite.shader!.uniforms,
+        // Horizon is stored relative to the sprite's top edge so the mirror line moves with the sprite.
+        // The mirror works on the screen image, so the line is taken through the camera at the sprite's centre
+        planar: reflector ? {
+          horizonY: camera.worldToView({
+            x: sprite.getBounds().x + sprite.getBounds().width / 2,
+            y: sprite.getBounds().y + reflector.horizon
+          }).y,
+          intensity: reflector.intensity,
+          distortion: reflector.distortion,
+          fadeDistance: reflector.fadeDistance
+        } : undefined
+      };
+    });
     
+    screenSpaceReflectionsRef.current.render(pixiApp.renderer, pixiApp.stage, surfaces, camera.viewMatrix, reflectionConfig?.enabled ? {
+      intensity: reflectionConfig.intensity ?? 0.5,
+      normalInfluence: reflectionConfig.normalInfluence ?? 0.3, // 0 is valid (flat mirror)
+      blur: reflectionConfig.blur ?? 0.5
+    } : null, target);
+    return true;
+  };
 
-    // Render each lighting pass
-    for (let pass = 0; pass < totalPasses; pass++) {
-      // Get lights for this pass
-      const passPointLights = pointLights.slice(pass * maxPointsPerPass, (pass + 1) * maxPointsPerPass);
-      const passSpotlights = spotlights.slice(pass * maxSpotsPerPass, (pass + 1) * maxSpotsPerPass);
-      const passDirLights = directionalLights.slice(pass * maxDirPerPass, (pass + 1) * maxDirPerPass);
-
-      // Skip empty passes
-      if (passPointLights.length === 0 && passSpotlights.length === 0 && passDirLights.length === 0) continue;
-
-
-      // Set up uniforms for this pass
-      shadersRef.current.forEach(shader => {
-        if (shader.uniforms) {
-          shader.uniforms.uPassMode = 1; // Lighting pass
-          // Keep ambient light in multi-pass incremental rendering (will be overridden later)
-          
-          // Configure point lights for this pass
-          for (let i = 0; i < 4; i++) {
-            if (i < passPointLights.length) {
-              const light = passPointLights[i];
-              const prefix = `uPoint${i}`;
-              shader.uniforms[`${prefix}Enabled`] = true;
-              shader.uniforms[`${prefix}Position`] = [
-                light.followMouse ? mousePos.x : light.position.x,
-                light.followMouse ? mousePos.y : light.position.y,
-                light.position.z
-              ];
-              shader.uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-              shader.uniforms[`${prefix}Intensity`] = light.intensity;
-              shader.uniforms[`${prefix}Radius`] = light.radius || 200;
-              
-              // Handle masks
-              if (light.mask) {
-                const maskTexture = PIXI.Texture.from(`/light_masks/${light.mask.image}`);
-                shader.uniforms[`${prefix}HasMask`] = true;
-                shader.uniforms[`${prefix}Mask`] = maskTexture;
-                shader.uniforms[`${prefix}MaskOffset`] = [light.mask.offset.x, light.mask.offset.y];
-                shader.uniforms[`${prefix}MaskRotation`] = light.mask.rotation;
-                shader.uniforms[`${prefix}MaskScale`] = light.mask.scale;
-                shader.uniforms[`${prefix}MaskSize`] = [maskTexture.width, maskTexture.height];
-              } else {
-                shader.uniforms[`${prefix}HasMask`] = false;
-              }
-              // Shadow casting flag for multi-pass point lights
-              shader.uniforms[`${prefix}CastsShadows`] = light.castsShadows || false;
-            } else {
-              shader.uniforms[`uPoint${i}Enabled`] = false;
-              shader.uniforms[`uPoint${i}HasMask`] = false;
-              shader.uniforms[`uPoint${i}CastsShadows`] = false;
-            }
-          }
-
-          // Configure spotlights for this pass  
-          for (let i = 0; i < 4; i++) {
-            if (i < passSpotlights.length) {
-              const light = passSpotlights[i];
-              const prefix = `uSpot${i}`;
-              shader.uniforms[`${prefix}Enabled`] = true;
-              shader.uniforms[`${prefix}Position`] = [light.position.x, light.position.y, light.position.z];
-              shader.uniforms[`${prefix}Direction`] = [light.direction!.x, light.direction!.y, light.direction!.z];
-              shader.uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-              shader.uniforms[`${prefix}Intensity`] = light.intensity;
-              shader.uniforms[`${prefix}Radius`] = light.radius || 150;
-              shader.uniforms[`${prefix}ConeAngle`] = light.coneAngle || 30;
-              shader.uniforms[`${prefix}Softness`] = light.softness || 0.5;
-              
-              // Handle masks
-              if (light.mask) {
-                const maskTexture = PIXI.Texture.from(`/light_masks/${light.mask.image}`);
-                shader.uniforms[`${prefix}HasMask`] = true;
-                shader.uniforms[`${prefix}Mask`] = maskTexture;
-                shader.uniforms[`${prefix}MaskOffset`] = [light.mask.offset.x, light.mask.offset.y];
-                shader.uniforms[`${prefix}MaskRotation`] = light.mask.rotation;
-                shader.uniforms[`${prefix}MaskScale`] = light.mask.scale;
-                shader.uniforms[`${prefix}MaskSize`] = [maskTexture.width, maskTexture.height];
-              } else {
-                shader.uniforms[`${prefix}HasMask`] = false;
-              }
-              // Shadow casting flag for multi-pass spotlights
-              shader.uniforms[`${prefix}CastsShadows`] = light.castsShadows || false;
-            } else {
-              shader.uniforms[`uSpot${i}Enabled`] = false;
-              shader.uniforms[`uSpot${i}HasMask`] = false;
-              shader.uniforms[`uSpot${i}CastsShadows`] = false;
-            }
-          }
-
-          // Configure directional lights for this pass
-          for (let i = 0; i < 2; i++) {
-            if (i < passDirLights.length) {
-              const light = passDirLights[i];
-              const prefix = `uDir${i}`;
-              shader.uniforms[`${prefix}Enabled`] = true;
-              shader.uniforms[`${prefix}Direction`] = [light.direction!.x, light.direction!.y, light.direction!.z];
-              shader.uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-              shader.uniforms[`${prefix}Intensity`] = light.intensity;
-              // Shadow casting flag for multi-pass directional lights
-              shader.uniforms[`${prefix}CastsShadows`] = light.castsShadows || false;
-            } else {
-              shader.uniforms[`uDir${i}Enabled`] = false;
-              shader.uniforms[`uDir${i}CastsShadows`] = false;
-            }
-          }
-        }
-      });
+  // Sky box background - sits just below the lowest sprite zOrder while IBL and its background option are on.
+  // Cheap enough to run every frame, so zOrder edits and IBL slider changes are picked up without extra wiring
+  const updateEnvironmentBackground = () => {
+    const background = environmentBackgroundRef.current;
+    if (!background) return;
+    
+    const iblConfig = sceneConfigRef.current.iblConfig;
+    const environmentMap = environmentMapRef.current;
+    const showBackground = !!iblConfig?.enabled && !!iblConfig.showBackground && environmentMap?.url === iblConfig.environmentMap;
+    background.update(showBackground ? environmentMap : null, iblConfig);
+    const zIndex = meshesRef.current.reduce((lowest, mesh) => Math.min(lowest, mesh.zIndex), 0) - 1;
+    if (background.mesh.zIndex !== zIndex) {
+      background.mesh.zIndex = zIndex; // Setting zIndex re-sorts the stage - only when it actually moves
+    }
+  };
 
-      // Render lighting pass with ADDITIVE blending
-      meshesRef.current.forEach(mesh => {
-        mesh.blendMode = PIXI.BLEND_MODES.ADD;
-      });
-      pixiApp.renderer.render(sceneContainerRef.current, { 
-        renderTexture: renderTargetRef.current, 
-        clear: false 
-      });
-      meshesRef.current.forEach(mesh => {
-        mesh.blendMode = PIXI.BLEND_MODES.NORMAL;
+  // Fullscreen deferred lighting pass - the sprite lighting shader compiled with DEFERRED_LIGHTING.
+  // Registered in shadersRef so every global uniform update (lights, shadows, AO, IBL) reaches it too
+  const ensureDeferredLightingPass = (): PIXI.Mesh | null => {
+    if (!pixiApp || shadersRef.current.length === 0) return null;
+    
+    if (!deferredLightingMeshRef.current) {
+      // Seed with the current global uniforms - per-sprite values are ignored by the deferred variant
+      const shader = PIXI.Shader.from(vertexShaderSource, `#define DEFERRED_LIGHTING\n${fragmentShaderSource}`, {
+        ...shadersRef.current[0].uniforms
       });
+      const mesh = new PIXI.Mesh(geometry, shader as any);
+      mesh.zIndex = 99999; // Above every sprite zOrder, below the light tile heat-map
+      deferredLightingMeshRef.current = mesh;
+      console.log('🧱 Deferred lighting pass created');
+    }
+    
+    const mesh = deferredLightingMeshRef.current;
+    if (mesh.parent !== pixiApp.stage) {
+      pixiApp.stage.addChild(mesh);
     }
+    // shadersRef is rebuilt on scene reload - re-register the lighting shader
+    if (!shadersRef.current.includes(mesh.shader as PIXI.Shader)) {
+      shadersRef.current.push(mesh.shader as PIXI.Shader);
+    }
+    return mesh;
+  };
 
-    // Final render: Display accumulated result
-    pixiApp.renderer.render(displaySpriteRef.current);
+  // Light tile heat-map overlay - green (few lights) to red (MAX_LIGHTS_PER_TILE), magenta = overflow
+  const drawLightTileHeatmap = (stats: LightTileStats) => {
+    const heatmap = lightTileHeatmapRef.current;
+    if (!heatmap) return;
+    
+    heatmap.clear();
+    stats.counts.forEach((count, tileIndex) => {
+      const tileX = (tileIndex % stats.tilesX) * stats.tileSize;
+      const tileY = Math.floor(tileIndex / stats.tilesX) * stats.tileSize;
+      
+      heatmap.lineStyle(1, 0xffffff, 0.1);
+      if (count === 0) {
+        heatmap.beginFill(0x000000, 0);
+      } else if (count > MAX_LIGHTS_PER_TILE) {
+        heatmap.beginFill(0xff00ff, 0.5);
+      } else {
+        const heat = Math.min(1, count / (MAX_LIGHTS_PER_TILE / 2));
+        const red = Math.round(255 * Math.min(1, heat * 2));
+        const green = Math.round(255 * Math.min(1, (1 - heat) * 2));
+        heatmap.beginFill((red << 16) | (green << 8), 0.35);
+      }
+      heatmap.drawRect(tileX, tileY, stats.tileSize, stats.tileSize);
+      heatmap.endFill();
+    });
+  };
+  
+  // Pack lights into the light buffer and rebuild the per-tile light lists (shared by all uniform paths)
+  const createLightBufferUniforms = (): Record<string, any> => {
+    if (!lightBufferRef.current) return {};
+    
+    const uniforms = lightBufferRef.current.update(resolveLightParents(lightsConfig), {
+      maxLights: performanceSettings.maxLights,
+      mousePos,
+      masksEnabled: performanceSettings.enableLightMasks // ✅ Controlled by performance setting
+    });
+    
+    // Camera uniforms travel with the light buffer - every path that creates or updates sprite shaders packs lights
+    const camera = cameraRef.current;
+    if (camera) {
+      Object.assign(uniforms, camera.getUniforms());
+    }
+    
+    if (lightTileGridRef.current) {
+      // Tiles are screen tiles - light bounds are in world space
+      const viewBounds = lightBufferRef.current.lightBounds.map(bounds => camera ? {
+        ...bounds,
+        ...camera.worldToView(bounds),
+        radius: bounds.radius * camera.zoom
+      } : bounds);
+      Object.assign(uniforms, lightTileGridRef.current.update(viewBounds));
+      uniforms.uTiledLightingEnabled = performanceSettings.enableTiledLighting && lightTileGridRef.current.supported;
+      
+      const stats = lightTileGridRef.current.stats;
+      drawLightTileHeatmap(stats);
+      onLightTileStatsUpdate?.(stats);
+    }
+    
+    // Atlas rows follow the light buffer rows - only maintained while the polar technique is selected
+    if (shadowAtlasRef.current) {
+      if (shadowConfigRef.current.technique === 'polar') {
+        Object.assign(uniforms, updateShadowAtlas());
+      } else {
+        shadowAtlasRef.current.invalidate(); // Rows go stale while unused - rebuild all when switched back
+        uniforms.uShadowAtlas = shadowAtlasRef.current.texture;
+        onShadowAtlasStatsUpdate?.(null);
+      }
+    }
+    
+    return uniforms;
   };
 
   // Initialize PIXI Application
@@ -792,19 +1153,16 @@ const PixiDemo = (props: PixiDemoProps) => {
         console.log('Renderer type:', app.renderer.type === PIXI.RENDERER_TYPE.WEBGL ? 'WebGL' : 'Canvas');
         console.log('Ticker started:', app.ticker.started);
         
-        // Initialize render targets for multi-pass rendering
-        renderTargetRef.current = PIXI.RenderTexture.create({ 
-          width: shaderParams.canvasWidth, 
-          height: shaderParams.canvasHeight 
-        });
-        
         sceneContainerRef.current = new PIXI.Container();
         
-        displaySpriteRef.current = new PIXI.Sprite(renderTargetRef.current);
-        displaySpriteRef.current.blendMode = PIXI.BLEND_MODES.NORMAL; // Display accumulated result normally
-        app.stage.addChild(displaySpriteRef.current);
+        // Initialize light buffer (float data texture - all lights rendered in a single pass)
+        lightBufferRef.current = new LightBuffer(app.renderer);
+        cameraRef.current = new Camera(shaderParams.canvasWidth, shaderParams.canvasHeight);
+        lightTileGridRef.current = new LightTileGrid(app.renderer, shaderParams.canvasWidth, shaderParams.canvasHeight);
+        environmentMapLoaderRef.current = new EnvironmentMapLoader(app.renderer);
+        lutLoaderRef.current = new LUTLoader();
         
-        console.log('🎯 Multi-pass render targets initialized');
+        console.log('💡 Light buffer initialized');
       
       // Initialize occluder render target for unlimited shadow casters
       // Extended size to include off-screen sprites that can cast shadows into visible area
@@ -823,15 +1181,59 @@ const PixiDemo = (props: PixiDemoProps) => {
         shaderParams.canvasHeight + (SHADOW_BUFFER * 2)
       );
       
+      // Tint map for translucent/colored shadows (same expanded size, ray march and polar techniques)
+      occluderTintRenderTargetRef.current = PIXI.RenderTexture.create({ 
+        width: shaderParams.canvasWidth + (SHADOW_BUFFER * 2), 
+        height: shaderParams.canvasHeight + (SHADOW_BUFFER * 2) 
+      });
+      
       console.log('🌑 Occluder render target initialized for unlimited shadow casters');
       
-      // Initialize depth render target for SSR (Screen Space Reflections)
-      depthRenderTargetRef.current = PIXI.RenderTexture.create({
+      // Distance field of the occluder map for sphere-traced shadows (same expanded size)
+      occluderDistanceFieldRef.current = new OccluderDistanceField(
+        shaderParams.canvasWidth + (SHADOW_BUFFER * 2),
+        shaderParams.canvasHeight + (SHADOW_BUFFER * 2)
+      );
+      
+      // Polar shadow atlas - one row per light buffer row
+      shadowAtlasRef.current = new ShadowAtlas();
+      
+      // Initialize low-resolution emissive light target (canvas-space, no shadow buffer needed)
+      emissiveLightRenderTargetRef.current = PIXI.RenderTexture.create({
         width: shaderParams.canvasWidth,
-        height: shaderParams.canvasHeight
+        height: shaderParams.canvasHeight,
+        resolution: EMISSIVE_LIGHT_RESOLUTION
       });
+      emissiveLightContainerRef.current = new PIXI.Container();
+      
+      console.log('💡 Emissive light map initialized');
       
-      console.log('✨ SSR depth map initialized');
+      // Initialize deferred G-buffer (multiple render targets need WebGL2)
+      if (GBuffer.isSupported(app.renderer)) {
+        gBufferRef.current = new GBuffer(shaderParams.canvasWidth, shaderParams.canvasHeight);
+        gBufferContainerRef.current = new PIXI.Container();
+        gBufferContainerRef.current.sortableChildren = true;
+        console.log('🧱 Deferred G-buffer initialized');
+      } else {
+        console.log('🧱 WebGL2 unavailable - deferred rendering disabled, forward only');
+      }
+      
+      // Initialize HDR scene target - lighting above 1.0 survives until the tone mapping resolve
+      toneMappingRef.current = new ToneMapping(app.renderer, shaderParams.canvasWidth, shaderParams.canvasHeight);
+      console.log(`🎞️ HDR scene target initialized (${toneMappingRef.current.halfFloat ? 'half-float' : 'RGBA8 - no float render targets'})`);
+      
+      const hdrType = toneMappingRef.current.halfFloat ? PIXI.TYPES.HALF_FLOAT : PIXI.TYPES.UNSIGNED_BYTE;
+      bloomRef.current = new Bloom(shaderParams.canvasWidth, shaderParams.canvasHeight, hdrType);
+      volumetricLightRef.current = new VolumetricLight(shaderParams.canvasWidth, shaderParams.canvasHeight);
+      
+      // Initialize SSR (Screen Space Reflections) targets - same precision as the HDR target they composite into
+      screenSpaceReflectionsRef.current = new ScreenSpaceReflections(shaderParams.canvasWidth, shaderParams.canvasHeight, hdrType);
+      
+      console.log('✨ SSR surface map initialized');
+      
+      // IBL sky box background - stays hidden until iblConfig.showBackground is on and the map has loaded
+      environmentBackgroundRef.current = new EnvironmentBackground(shaderParams.canvasWidth, shaderParams.canvasHeight);
+      app.stage.addChild(environmentBackgroundRef.current.mesh);
       
       } else {
         console.warn('Canvas element not available for PIXI initialization');
@@ -888,6 +1290,38 @@ const PixiDemo = (props: PixiDemoProps) => {
           }
         }
         
+        lightBufferRef.current?.destroy();
+        lightBufferRef.current = null;
+        cameraRef.current = null;
+        environmentMapLoaderRef.current?.destroy();
+        environmentMapLoaderRef.current = null;
+        environmentMapRef.current = null;
+        lutLoaderRef.current?.destroy();
+        lutLoaderRef.current = null;
+        colorLUTRef.current = null;
+        lightTileGridRef.current?.destroy();
+        lightTileGridRef.current = null;
+        gBufferRef.current?.destroy();
+        gBufferRef.current = null;
+        occluderDistanceFieldRef.current?.destroy();
+        occluderDistanceFieldRef.current = null;
+        occluderTintRenderTargetRef.current?.destroy(true);
+        occluderTintRenderTargetRef.current = null;
+        shadowAtlasRef.current?.destroy();
+        shadowAtlasRef.current = null;
+        screenSpaceReflectionsRef.current?.destroy();
+        screenSpaceReflectionsRef.current = null;
+        toneMappingRef.current?.destroy();
+        toneMappingRef.current = null;
+        bloomRef.current?.destroy();
+        bloomRef.current = null;
+        volumetricLightRef.current?.destroy();
+        volumetricLightRef.current = null;
+        environmentBackgroundRef.current?.destroy();
+        environmentBackgroundRef.current = null;
+        gBufferMeshesRef.current.clear();
+        deferredLightingMeshRef.current = null;
+        
         // Safe destroy to prevent hot reload errors
         try {
           pixiApp.destroy(true, {
@@ -918,6 +1352,10 @@ const PixiDemo = (props: PixiDemoProps) => {
         sceneManagerRef.current = new SceneManager();
         sceneManagerRef.current.setCanvasDimensions(shaderParams.canvasWidth, shaderParams.canvasHeight);
         await sceneManagerRef.current.loadScene(sceneData);
+        applyCameraScroll(); // Parallax layers start where the camera already is (scene reloads keep the camera)
+        
+        // Material maps go into shared atlases before any mesh exists - geometry is built with the atlas UVs
+        sceneManagerRef.current.packTextureAtlas(pixiApp.renderer);
         
         // Set PIXI container reference for direct updates
         sceneManagerRef.current.setPixiContainer(sceneContainerRef.current);
@@ -956,14 +1394,22 @@ const PixiDemo = (props: PixiDemoProps) => {
           // Smart dirty flag optimization - only mark dirty what actually changed
           const positionChanged = 'position' in flatUpdates;
           const transformChanged = 'rotation' in flatUpdates || 'scale' in flatUpdates || 'zOrder' in flatUpdates;
-          const shadowChanged = 'castsShadows' in flatUpdates;
+          const shadowChanged = 'castsShadows' in flatUpdates || 'height' in flatUpdates || 'heightMap' in flatUpdates ||
+                                'shadowOpacity' in flatUpdates || 'shadowTint' in flatUpdates;
           const visibilityChanged = 'visible' in flatUpdates;
           
+          const emissiveChanged = 'emissiveMap' in flatUpdates || 'emissiveColor' in flatUpdates || 
+                                  'emissiveIntensity' in flatUpdates || 'emissiveCastsLight' in flatUpdates;
+          
           if (positionChanged || transformChanged || shadowChanged || visibilityChanged) {
             occluderMapDirtyRef.current = true;
             shadowCastersDirtyRef.current = true;
           }
           
+          if (positionChanged || transformChanged || visibilityChanged || emissiveChanged) {
+            emissiveLightDirtyRef.current = true;
+          }
+          
           if (sceneManagerRef.current && sceneContainerRef.current) {
             const sprite = sceneManagerRef.current.getSprite(spriteId);
             if (sprite && sprite.mesh) {
@@ -1011,6 +1457,79 @@ const PixiDemo = (props: PixiDemoProps) => {
                 }
                 console.log(`⚡ Immediate smoothness: ${spriteId} → ${flatUpdates.smoothness}`);
               }
+
+              // Handle metallic/smoothness map swaps - Reload texture and rebind sampler
+              if (flatUpdates.metallicMap !== undefined) {
+                sprite.setMaterialMap('metallic', flatUpdates.metallicMap);
+                console.log(`⚡ Immediate metallic map: ${spriteId} → ${flatUpdates.metallicMap || '(none)'}`);
+              }
+              if (flatUpdates.smoothnessMap !== undefined) {
+                sprite.setMaterialMap('smoothness', flatUpdates.smoothnessMap);
+                console.log(`⚡ Immediate smoothness map: ${spriteId} → ${flatUpdates.smoothnessMap || '(none)'}`);
+              }
+
+              // Handle map channel selection - Update channel mask uniforms immediately
+              if (flatUpdates.metallicChannel !== undefined) {
+                sprite.definition.metallicChannel = flatUpdates.metallicChannel;
+                if (sprite.shader) {
+                  sprite.shader.uniforms.uMetallicChannel = channelToMask(flatUpdates.metallicChannel);
+                }
+                console.log(`⚡ Immediate metallic channel: ${spriteId} → ${flatUpdates.metallicChannel}`);
+              }
+              if (flatUpdates.smoothnessChannel !== undefined) {
+                sprite.definition.smoothnessChannel = flatUpdates.smoothnessChannel;
+                if (sprite.shader) {
+                  sprite.shader.uniforms.uSmoothnessChannel = channelToMask(flatUpdates.smoothnessChannel);
+                }
+                console.log(`⚡ Immediate smoothness channel: ${spriteId} → ${flatUpdates.smoothnessChannel}`);
+              }
+              
+              // Handle caster shadow changes - only the occluder map uses them (rebuilt via the dirty flag above)
+              if (flatUpdates.shadowOpacity !== undefined) {
+                sprite.definition.shadowOpacity = flatUpdates.shadowOpacity;
+                console.log(`⚡ Immediate shadow opacity: ${spriteId} → ${flatUpdates.shadowOpacity}`);
+              }
+              if (flatUpdates.shadowTint !== undefined) {
+                sprite.definition.shadowTint = flatUpdates.shadowTint;
+                console.log(`⚡ Immediate shadow tint: ${spriteId} → ${flatUpdates.shadowTint}`);
+              }
+              // Planar reflector settings are read by the reflection pass every frame
+              if ('reflectiveSurface' in flatUpdates) {
+                sprite.definition.reflectiveSurface = normalizeReflectiveSurface(flatUpdates.reflectiveSurface);
+                console.log(`⚡ Immediate reflective surface: ${spriteId} →`, sprite.definition.reflectiveSurface ?? '(none)');
+              }
+              if ('height' in flatUpdates) {
+                sprite.definition.height = flatUpdates.height ?? Infinity;
+                console.log(`⚡ Immediate height: ${spriteId} → ${flatUpdates.height ?? 'unlimited'}`);
+              }
+              if (flatUpdates.heightMap !== undefined) {
+                sprite.setMaterialMap('height', flatUpdates.heightMap);
+                console.log(`⚡ Immediate height map: ${spriteId} → ${flatUpdates.heightMap || '(none)'}`);
+              }
+              
+              // Handle emissive changes - Update shader uniforms immediately
+              if (flatUpdates.emissiveMap !== undefined) {
+                sprite.setMaterialMap('emissive', flatUpdates.emissiveMap);
+                console.log(`⚡ Immediate emissive map: ${spriteId} → ${flatUpdates.emissiveMap || '(none)'}`);
+              }
+              if (flatUpdates.emissiveColor !== undefined) {
+                sprite.definition.emissiveColor = flatUpdates.emissiveColor;
+                if (sprite.shader) {
+                  sprite.shader.uniforms.uEmissiveColor = [flatUpdates.emissiveColor.r, flatUpdates.emissiveColor.g, flatUpdates.emissiveColor.b];
+                }
+                console.log(`⚡ Immediate emissive color: ${spriteId} →`, flatUpdates.emissiveColor);
+              }
+              if (flatUpdates.emissiveIntensity !== undefined) {
+                sprite.definition.emissiveIntensity = flatUpdates.emissiveIntensity;
+                if (sprite.shader) {
+                  sprite.shader.uniforms.uEmissiveIntensity = flatUpdates.emissiveIntensity;
+                }
+                console.log(`⚡ Immediate emissive intensity: ${spriteId} → ${flatUpdates.emissiveIntensity}`);
+              }
+              if (flatUpdates.emissiveCastsLight !== undefined) {
+                sprite.definition.emissiveCastsLight = flatUpdates.emissiveCastsLight;
+                console.log(`⚡ Immediate emissive casts light: ${spriteId} → ${flatUpdates.emissiveCastsLight}`);
+              }
               
               // Handle albedo color changes - Update shader uniform immediately
               if (flatUpdates.albedoColor !== undefined) {
@@ -1042,6 +1561,11 @@ const PixiDemo = (props: PixiDemoProps) => {
                   scale: sprite.definition.scale || 1
                 });
                 console.log(`⚡ Immediate position: ${spriteId}`);
+                
+                // Attached lights are only re-packed by the uniform effect - run it now instead of when React state commits
+                if (hasAttachedLights(sprite)) {
+                  setLightParentVersion(version => version + 1);
+                }
               }
               
               // Handle visibility changes - Update mesh.visible instead of recreating
@@ -1094,145 +1618,6 @@ const PixiDemo = (props: PixiDemoProps) => {
         (window as any).__pixiImmediateUpdate = immediateUpdateHandler;
         
 
-        // Helper function to convert external lights config to shader uniforms
-        const createLightUniforms = () => {
-          const uniforms: any = {};
-          
-          // Get all lights by type (enabled and disabled - let shader handle via intensity)
-          const allPointLights = lightsConfig.filter(light => light.type === 'point');
-          const allDirectionalLights = lightsConfig.filter(light => light.type === 'directional');
-          const allSpotlights = lightsConfig.filter(light => light.type === 'spotlight');
-          
-          // Initialize all lights as disabled
-          uniforms.uPoint0Enabled = false; uniforms.uPoint1Enabled = false; uniforms.uPoint2Enabled = false; uniforms.uPoint3Enabled = false;
-          uniforms.uDir0Enabled = false; uniforms.uDir1Enabled = false;
-          uniforms.uSpot0Enabled = false; uniforms.uSpot1Enabled = false; uniforms.uSpot2Enabled = false; uniforms.uSpot3Enabled = false;
-          
-          // Initialize all masks as disabled
-          uniforms.uPoint0HasMask = false; uniforms.uPoint1HasMask = false; uniforms.uPoint2HasMask = false; uniforms.uPoint3HasMask = false;
-          uniforms.uSpot0HasMask = false; uniforms.uSpot1HasMask = false; uniforms.uSpot2HasMask = false; uniforms.uSpot3HasMask = false;
-          
-          // Point Lights (performance-limited) - pass lights with stable slot assignment
-          const maxPointLights = Math.min(4, performanceSettings.maxLights);
-          
-          allPointLights.slice(0, maxPointLights).forEach((light, slotIdx) => {
-            const prefix = `uPoint${slotIdx}`;
-
-            
-            // BYPASS ENABLED FLAG - always set enabled=true, use intensity=0 for disabled lights
-            uniforms[`${prefix}Enabled`] = true; // ALWAYS TRUE - let intensity control visibility
-            uniforms[`${prefix}Position`] = [
-              light.followMouse ? mousePos.x : light.position.x,
-              light.followMouse ? mousePos.y : light.position.y,
-              light.position.z
-            ];
-            uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-            uniforms[`${prefix}Intensity`] = light.enabled ? light.intensity : 0; // Use 0 intensity for disabled lights
-            uniforms[`${prefix}Radius`] = light.radius || 200;
-            
-            // ✅ Handle mask (always load, toggle with performance setting)
-            if (light.mask) {
-
-              const maskPath = `/light_masks/${light.mask.image}`;
-
-              
-              const maskTexture = PIXI.Texture.from(maskPath);
-              uniforms[`${prefix}HasMask`] = performanceSettings.enableLightMasks; // ✅ Controlled by performance setting
-              uniforms[`${prefix}Mask`] = maskTexture;
-              uniforms[`${prefix}MaskOffset`] = [light.mask.offset.x, light.mask.offset.y];
-              uniforms[`${prefix}MaskRotation`] = light.mask.rotation;
-              uniforms[`${prefix}MaskScale`] = light.mask.scale; // Use scale directly (1.0 = 100%)
-              uniforms[`${prefix}MaskSize`] = [maskTexture.width, maskTexture.height];
-              
-
-              
-              // Validate texture loading
-              maskTexture.baseTexture.on('loaded', () => {
-                // Mask texture loaded successfully
-              });
-              maskTexture.baseTexture.on('error', () => {
-                console.error(`Failed to load mask texture: ${maskPath}`);
-              });
-            } else {
-              uniforms[`${prefix}HasMask`] = false;
-            }
-          });
-          
-          // Directional Lights (up to 2) - pass ALL lights with stable slot assignment
-          
-          allDirectionalLights.slice(0, 2).forEach((light, slotIdx) => {
-            const prefix = `uDir${slotIdx}`;
-
-            
-            // Directional lights are ALWAYS enabled (like ambient light) - intensity=0 disables
-            uniforms[`${prefix}Enabled`] = true; // ALWAYS TRUE - directional light is always on
-            uniforms[`${prefix}Direction`] = [light.direction.x, light.direction.y, light.direction.z];
-            uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-            uniforms[`${prefix}Intensity`] = light.intensity; // Use actual intensity (can be 0 to disable)
-            
-            // Shadow casting flag for directional lights
-            uniforms[`${prefix}CastsShadows`] = light.castsShadows || false;
-          });
-          
-          // Spotlights (performance-limited) - pass lights with stable slot assignment
-          const maxSpotlights = Math.min(4, Math.max(0, performanceSettings.maxLights - maxPointLights));
-          
-          allSpotlights.slice(0, maxSpotlights).forEach((light, slotIdx) => {
-            const prefix = `uSpot${slotIdx}`;
-
-            
-            // BYPASS ENABLED FLAG - always set enabled=true, use intensity=0 for disabled lights
-            uniforms[`${prefix}Enabled`] = true; // ALWAYS TRUE - let intensity control visibility
-            uniforms[`${prefix}Position`] = [
-              light.followMouse ? mousePos.x : light.position.x,
-              light.followMouse ? mousePos.y : light.position.y,
-              light.position.z
-            ];
-            uniforms[`${prefix}Direction`] = [light.direction.x, light.direction.y, light.direction.z];
-            uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-            uniforms[`${prefix}Intensity`] = light.enabled ? light.intensity : 0; // Use 0 intensity for disabled lights
-            uniforms[`${prefix}Radius`] = light.radius || 150;
-            uniforms[`${prefix}ConeAngle`] = light.coneAngle || 30;
-            uniforms[`${prefix}Softness`] = light.softness || 0.5;
-            
-            // ✅ Handle mask (always load, toggle with performance setting)
-            if (light.mask) {
-
-              const maskPath = `/light_masks/${light.mask.image}`;
-
-              
-              const maskTexture = PIXI.Texture.from(maskPath);
-              uniforms[`${prefix}HasMask`] = performanceSettings.enableLightMasks; // ✅ Controlled by performance setting
-              uniforms[`${prefix}Mask`] = maskTexture;
-              uniforms[`${prefix}MaskOffset`] = [light.mask.offset.x, light.mask.offset.y];
-              uniforms[`${prefix}MaskRotation`] = light.mask.rotation;
-              uniforms[`${prefix}MaskScale`] = light.mask.scale; // Use scale directly (1.0 = 100%)
-              uniforms[`${prefix}MaskSize`] = [maskTexture.width, maskTexture.height];
-              
-
-              
-              // Validate texture loading
-              maskTexture.baseTexture.on('loaded', () => {
-                // Mask texture loaded successfully
-              });
-              maskTexture.baseTexture.on('error', () => {
-                console.error(`Failed to load mask texture: ${maskPath}`);
-              });
-            } else {
-              uniforms[`${prefix}HasMask`] = false;
-            }
-          });
-
-          // Clear uniforms for unused spotlight slots (just like multi-pass rendering)
-          for (let i = allSpotlights.length; i < 4; i++) {
-            uniforms[`uSpot${i}Enabled`] = false;
-            uniforms[`uSpot${i}HasMask`] = false;
-            uniforms[`uSpot${i}CastsShadows`] = false;
-          }
-
-
-          return uniforms;
-        };
 
       // Update status
       onGeometryUpdate?.('Geometry created: 4 vertices with real texture mapping');
@@ -1243,7 +1628,7 @@ const PixiDemo = (props: PixiDemoProps) => {
       const spriteFragmentShader = fragmentShaderSource;
        
       // Create all scene sprites using scene manager
-      const lightUniforms = createLightUniforms();
+      const lightUniforms = createLightBufferUniforms(); // All lights packed into the light buffer (performance-limited by maxLights)
       
       // Get shadow casters from scene
       const shadowCasters = sceneManagerRef.current!.getShadowCasters();
@@ -1277,7 +1662,7 @@ const PixiDemo = (props: PixiDemoProps) => {
           ...commonUniforms,
           uCurrentSpriteZOrder: sprite.definition.zOrder // Add current sprite's zOrder for shadow comparison
         };
-        const mesh = sprite.createMesh(vertexShaderSource, spriteFragmentShader, spriteUniforms);
+        const mesh = sprite.createMesh(spriteVertexShaderSource, spriteFragmentShader, spriteUniforms);
         // Set PIXI zIndex based on sprite's zOrder for proper layering
         mesh.zIndex = sprite.definition.zOrder;
         // Control visibility through PIXI, not by excluding from creation
@@ -1385,19 +1770,6 @@ const PixiDemo = (props: PixiDemoProps) => {
 
       // Apply shadow texture uniforms to all sprite shaders (already done above)
 
-      // FORCE DIRECTIONAL LIGHT SHADOW SETUP AFTER SHADERS ARE CREATED
-      const directionalLight = lightsConfig.find(light => light.type === 'directional');
-      if (directionalLight) {
-        // Use SAME logic as runtime updates - only enable shadows if light is enabled AND casts shadows
-        const shouldCastShadows = directionalLight.enabled && directionalLight.castsShadows;
-        
-        // Apply directional shadow uniforms to ALL created shaders
-        shadersRef.current.forEach(shader => {
-          if (shader.uniforms) {
-            shader.uniforms.uDir0CastsShadows = shouldCastShadows;
-          }
-        });
-      }
 
 
 
@@ -1437,6 +1809,7 @@ const PixiDemo = (props: PixiDemoProps) => {
     // Update individual sprite properties without rebuilding entire scene
     try {
       sceneManagerRef.current.updateFromConfig(sceneConfig, sceneContainerRef.current);
+      emissiveLightDirtyRef.current = true; // Transforms or emissive settings may have changed
       
       // Handle sprites that need mesh creation (were invisible, now visible)
       const spritesNeedingMeshes = sceneManagerRef.current.getAllSprites().filter(sprite => sprite.needsMeshCreation);
@@ -1444,21 +1817,8 @@ const PixiDemo = (props: PixiDemoProps) => {
         // Use already imported shader sources
         const spriteFragmentShader = fragmentShaderSource;
         
-        // Get current light uniforms for new meshes
-        const allPointLights = lightsConfig.filter(light => light.type === 'point');
-        const allDirectionalLights = lightsConfig.filter(light => light.type === 'directional');
-        const allSpotlights = lightsConfig.filter(light => light.type === 'spotlight');
-        
-        // Create light uniforms (simplified version)
-        const lightUniforms: any = {};
-        allPointLights.slice(0, 4).forEach((light, idx) => {
-          const prefix = `uPoint${idx}`;
-          lightUniforms[`${prefix}Enabled`] = true;
-          lightUniforms[`${prefix}Position`] = [light.position.x, light.position.y, light.position.z];
-          lightUniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-          lightUniforms[`${prefix}Intensity`] = light.enabled ? light.intensity : 0;
-          lightUniforms[`${prefix}Radius`] = light.radius || 200;
-        });
+        // Get current light uniforms for new meshes (shared light buffer texture)
+        const lightUniforms = createLightBufferUniforms();
         
         // Create meshes for sprites that need them
         for (const sprite of spritesNeedingMeshes) {
@@ -1473,7 +1833,7 @@ const PixiDemo = (props: PixiDemoProps) => {
               ...lightUniforms
             };
             
-            const mesh = sprite.createMesh(vertexShaderSource, spriteFragmentShader, commonUniforms);
+            const mesh = sprite.createMesh(spriteVertexShaderSource, spriteFragmentShader, commonUniforms);
             // Set PIXI zIndex based on sprite's zOrder for proper layering
             mesh.zIndex = sprite.definition.zOrder;
             pixiApp.stage.addChild(mesh);
@@ -1555,13 +1915,63 @@ const PixiDemo = (props: PixiDemoProps) => {
     };
   }, [pixiApp, meshesRef.current.length])
 
+  // Load the IBL environment map whenever it changes - .hdr files are fetched and decoded, so the sprite shaders
+  // get the new map once it is ready instead of through the uniform effect
+  const environmentMapUrl = sceneConfig.iblConfig?.enabled ? sceneConfig.iblConfig.environmentMap : '';
+  useEffect(() => {
+    if (!pixiApp || !environmentMapLoaderRef.current || !environmentMapUrl) return;
+    
+    let cancelled = false;
+    environmentMapLoaderRef.current.load(environmentMapUrl)
+      .then(environmentMap => {
+        if (cancelled) return;
+        environmentMapRef.current = environmentMap;
+        const iblConfig = sceneConfigRef.current.iblConfig;
+        const iblEnabled = !!iblConfig?.enabled && iblConfig.intensity > 0.0;
+        const uniforms = getEnvironmentMapUniforms(iblEnabled ? environmentMap : null);
+        shadersRef.current.forEach(shader => Object.assign(shader.uniforms, uniforms));
+        updateEnvironmentBackground();
+      })
+      .catch(error => {
+        console.error('Failed to load environment map:', environmentMapUrl, error);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [pixiApp, environmentMapUrl, meshesRef.current.length]);
+
+  // Load the color grading LUT whenever it changes - the ticker picks it up from colorLUTRef once it is ready
+  const colorGradingLUTUrl = sceneConfig.colorGradingConfig?.enabled ? sceneConfig.colorGradingConfig.lut : '';
+  useEffect(() => {
+    if (!pixiApp || !lutLoaderRef.current) return;
+    if (!colorGradingLUTUrl) {
+      colorLUTRef.current = null;
+      return;
+    }
+    
+    let cancelled = false;
+    lutLoaderRef.current.load(colorGradingLUTUrl)
+      .then(lut => {
+        if (!cancelled) colorLUTRef.current = lut;
+      })
+      .catch(error => {
+        console.error('Failed to load color grading LUT:', colorGradingLUTUrl, error);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [pixiApp, colorGradingLUTUrl]);
+
   // Keep refs in sync with props (for animation loop to access current values)
   useEffect(() => {
     shadowConfigRef.current = shadowConfig;
     ambientOcclusionConfigRef.current = ambientOcclusionConfig;
     sceneConfigRef.current = sceneConfig;
     ambientLightRef.current = ambientLight;
-  }, [shadowConfig, ambientOcclusionConfig, sceneConfig, ambientLight]);
+    lightsConfigRef.current = lightsConfig;
+  }, [shadowConfig, ambientOcclusionConfig, sceneConfig, ambientLight, lightsConfig]);
 
   // Dynamic shader uniform updates for real-time lighting changes
   useEffect(() => {
@@ -1572,29 +1982,10 @@ const PixiDemo = (props: PixiDemoProps) => {
     
     // Updating shader uniforms in real-time
 
-    // Full light uniforms recreation - individual uniform approach
+    // Full light uniforms recreation - light buffer + global uniforms
     const createLightUniforms = () => {
       const uniforms: any = {};
       
-      // Get all lights by type (enabled and disabled - let shader handle via intensity)
-      const allPointLights = lightsConfig.filter(light => light.type === 'point');
-      const allDirectionalLights = lightsConfig.filter(light => light.type === 'directional');
-      const allSpotlights = lightsConfig.filter(light => light.type === 'spotlight');
-      
-      // Initialize all lights as disabled
-      uniforms.uPoint0Enabled = false; uniforms.uPoint1Enabled = false; uniforms.uPoint2Enabled = false; uniforms.uPoint3Enabled = false;
-      uniforms.uDir0Enabled = false; uniforms.uDir1Enabled = false;
-      uniforms.uSpot0Enabled = false; uniforms.uSpot1Enabled = false; uniforms.uSpot2Enabled = false; uniforms.uSpot3Enabled = false;
-      
-      // Initialize all masks as disabled
-      uniforms.uPoint0HasMask = false; uniforms.uPoint1HasMask = false; uniforms.uPoint2HasMask = false; uniforms.uPoint3HasMask = false;
-      uniforms.uSpot0HasMask = false; uniforms.uSpot1HasMask = false; uniforms.uSpot2HasMask = false; uniforms.uSpot3HasMask = false;
-      
-      // Initialize all shadow casting flags as disabled
-      uniforms.uPoint0CastsShadows = false; uniforms.uPoint1CastsShadows = false; uniforms.uPoint2CastsShadows = false; uniforms.uPoint3CastsShadows = false;
-      uniforms.uDir0CastsShadows = false; uniforms.uDir1CastsShadows = false;
-      uniforms.uSpot0CastsShadows = false; uniforms.uSpot1CastsShadows = false; uniforms.uSpot2CastsShadows = false; uniforms.uSpot3CastsShadows = false;
-
       // Add shadow system uniforms - performance-filtered from scene configuration
       uniforms.uShadowsEnabled = shadowConfig.enabled && performanceSettings.enableShadows;
       uniforms.uShadowStrength = shadowConfig.strength || 0.5;
@@ -1621,20 +2012,13 @@ const PixiDemo = (props: PixiDemoProps) => {
       uniforms.uIBLEnabled = iblEnabled;
       uniforms.uIBLIntensity = iblConfig.intensity;
       uniforms.uIBLPixelStep = iblConfig.pixelStep || 1.0;
+      Object.assign(uniforms, getEnvironmentAdjustmentUniforms(iblConfig));
       
-      // Load environment map texture - try HDR files directly (PIXI will load as regular images)
-      if (iblConfig.environmentMap && iblEnabled) {
-        try {
-          // Load the texture directly - even for HDR files, PIXI will attempt to load them
-          // HDR files won't have proper HDR data but will still provide different textures
-          uniforms.uEnvironmentMap = PIXI.Texture.from(iblConfig.environmentMap);
-        } catch (err) {
-          console.error('Failed to load environment map:', err);
-          uniforms.uEnvironmentMap = PIXI.Texture.WHITE;
-        }
-      } else {
-        uniforms.uEnvironmentMap = PIXI.Texture.WHITE;
-      }
+      // Environment map is loaded asynchronously (see the environment map effect) - WHITE until it is ready
+      const environmentMap = environmentMapRef.current;
+      Object.assign(uniforms, getEnvironmentMapUniforms(
+        iblEnabled && environmentMap?.url === iblConfig.environmentMap ? environmentMap : null
+      ));
       
       // ✅ Global Light Masks Control (performance-filtered)
       uniforms.uMasksEnabled = performanceSettings.enableLightMasks;
@@ -1651,6 +2035,7 @@ const PixiDemo = (props: PixiDemoProps) => {
       uniforms.uUseOccluderMap = true;
       uniforms.uOccluderMapOffset = [SHADOW_BUFFER, SHADOW_BUFFER];
       uniforms.uOccluderMap = occluderRenderTargetRef.current || null;
+      uniforms.uShadowTechniqueMap = getShadowTechniqueMap(shadowConfig.technique);
       
       // Texture uniforms will be set after textures are loaded
 
@@ -1660,96 +2045,8 @@ const PixiDemo = (props: PixiDemoProps) => {
       //   strength: uniforms.uShadowStrength,
       // });
       
-      // Point Lights (up to 4) - pass ALL lights with stable slot assignment
-      allPointLights.slice(0, 4).forEach((light, slotIdx) => {
-        const prefix = `uPoint${slotIdx}`;
-        
-        // Use enabled flag for existence, intensity for visibility (physics-correct approach)
-        uniforms[`${prefix}Enabled`] = light.enabled; // Controls whether light exists
-        uniforms[`${prefix}Intensity`] = light.enabled ? light.intensity : 0; // Controls light strength
-        uniforms[`${prefix}Position`] = [
-          light.followMouse ? mousePos.x : light.position.x,
-          light.followMouse ? mousePos.y : light.position.y,
-          light.position.z
-        ];
-        uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-        uniforms[`${prefix}Intensity`] = light.enabled ? light.intensity : 0; // Use 0 intensity for disabled lights
-        uniforms[`${prefix}Radius`] = light.radius || 200;
-        
-        // Debug: Log exact uniform values being set (disabled for performance)
-        // console.log(`🔦 ${prefix} UNIFORM VALUES:`, {
-        //   position: uniforms[`${prefix}Position`],
-        //   color: uniforms[`${prefix}Color`],
-        //   intensity: uniforms[`${prefix}Intensity`],
-        //   radius: uniforms[`${prefix}Radius`]
-        // });
-        
-        // Handle mask
-        if (light.mask) {
-          const maskTexture = PIXI.Texture.from(`/light_masks/${light.mask.image}`);
-          uniforms[`${prefix}HasMask`] = true;
-          uniforms[`${prefix}Mask`] = maskTexture;
-          uniforms[`${prefix}MaskOffset`] = [light.mask.offset.x, light.mask.offset.y];
-          uniforms[`${prefix}MaskRotation`] = light.mask.rotation;
-          uniforms[`${prefix}MaskScale`] = light.mask.scale;
-          uniforms[`${prefix}MaskSize`] = [maskTexture.width, maskTexture.height];
-        } else {
-          uniforms[`${prefix}HasMask`] = false;
-        }
-        
-        // Shadow casting flag for point lights
-        uniforms[`${prefix}CastsShadows`] = light.castsShadows || false;
-      });
-      
-      // Directional Lights (up to 2) - RUNTIME UPDATES - always enabled like ambient light
-      allDirectionalLights.slice(0, 2).forEach((light, slotIdx) => {
-        const prefix = `uDir${slotIdx}`;
-        
-        // Directional lights are ALWAYS enabled (like ambient light) - intensity=0 disables
-        uniforms[`${prefix}Enabled`] = true; // ALWAYS TRUE - directional light is always on
-        uniforms[`${prefix}Intensity`] = light.intensity; // Use actual intensity (can be 0 to disable)
-        uniforms[`${prefix}Direction`] = [light.direction.x, light.direction.y, light.direction.z];
-        uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-        
-        // Shadow casting flag for directional lights
-        uniforms[`${prefix}CastsShadows`] = light.castsShadows || false;
-      });
-      
-      // Spotlights (up to 4) - pass ALL lights with stable slot assignment
-      allSpotlights.slice(0, 4).forEach((light, slotIdx) => {
-        const prefix = `uSpot${slotIdx}`;
-        
-        // Use enabled flag for existence, intensity for visibility (physics-correct approach)
-        uniforms[`${prefix}Enabled`] = light.enabled; // Controls whether light exists
-        uniforms[`${prefix}Intensity`] = light.enabled ? light.intensity : 0; // Controls light strength
-        uniforms[`${prefix}Position`] = [
-          light.followMouse ? mousePos.x : light.position.x,
-          light.followMouse ? mousePos.y : light.position.y,
-          light.position.z
-        ];
-        uniforms[`${prefix}Direction`] = [light.direction.x, light.direction.y, light.direction.z];
-        uniforms[`${prefix}Color`] = [light.color.r, light.color.g, light.color.b];
-        uniforms[`${prefix}Intensity`] = light.enabled ? light.intensity : 0; // Use 0 intensity for disabled lights
-        uniforms[`${prefix}Radius`] = light.radius || 150;
-        uniforms[`${prefix}ConeAngle`] = light.coneAngle || 30;
-        uniforms[`${prefix}Softness`] = light.softness || 0.5;
-        
-        // Handle mask
-        if (light.mask) {
-          const maskTexture = PIXI.Texture.from(`/light_masks/${light.mask.image}`);
-          uniforms[`${prefix}HasMask`] = true;
-          uniforms[`${prefix}Mask`] = maskTexture;
-          uniforms[`${prefix}MaskOffset`] = [light.mask.offset.x, light.mask.offset.y];
-          uniforms[`${prefix}MaskRotation`] = light.mask.rotation;
-          uniforms[`${prefix}MaskScale`] = light.mask.scale;
-          uniforms[`${prefix}MaskSize`] = [maskTexture.width, maskTexture.height];
-        } else {
-          uniforms[`${prefix}HasMask`] = false;
-        }
-        
-        // Shadow casting flag for spotlights
-        uniforms[`${prefix}CastsShadows`] = light.castsShadows || false;
-      });
+      // All lights (point, spot, directional) - packed into the light buffer texture, no slot limit
+      Object.assign(uniforms, createLightBufferUniforms());
 
       // Add other dynamic uniforms
       uniforms.uColor = [shaderParams.colorR, shaderParams.colorG, shaderParams.colorB];
@@ -1757,15 +2054,11 @@ const PixiDemo = (props: PixiDemoProps) => {
       uniforms.uAmbientColor = [ambientLight.color.r, ambientLight.color.g, ambientLight.color.b];
       uniforms.uCanvasSize = [shaderParams.canvasWidth, shaderParams.canvasHeight];
       
-      // FORCE DIRECTIONAL LIGHT SHADOW SETUP - BYPASS BROKEN useEffect
-      const directionalLight = lightsConfig.find(light => light.type === 'directional');
-      if (directionalLight) {
-        uniforms.uDir0CastsShadows = directionalLight.castsShadows || false;
-      }
-      
       // Global shadow properties
       uniforms.uShadowHeight = shadowConfig.height; // Height of sprites above ground plane for shadow projection
       uniforms.uShadowMaxLength = shadowConfig.maxLength; // Maximum shadow length to prevent extremely long shadows
+      uniforms.uShadowPenumbraScale = shadowConfig.penumbraScale ?? 1.0; // Scales per-light sourceRadius (0 = hard shadows)
+      uniforms.uShadowTechnique = SHADOW_TECHNIQUE_CODES[shadowConfig.technique] ?? SHADOW_TECHNIQUE_CODES.raymarch;
       uniforms.uShadowsEnabled = shadowConfig.enabled && performanceSettings.enableShadows; // Global shadow enable/disable (performance-filtered)
       uniforms.uShadowStrength = shadowConfig.strength; // Global shadow strength/opacity
       // Removed shadow sharpness and shadow bias features (bias redundant with self-interval skipping)
@@ -1806,14 +2099,8 @@ const PixiDemo = (props: PixiDemoProps) => {
       }
     });
 
-    // Choose rendering mode based on light count
+    // Single-pass rendering - the shader loops over every light in the light buffer
     if (pixiApp && pixiApp.renderer) {
-      const enabledLights = lightsConfig.filter(light => light.enabled && light.type !== 'ambient');
-      const lightCount = enabledLights.length;
-      
-      // Automatic mode selection: Multi-pass for >8 lights  
-      const useMultiPass = lightCount > 8;
-      
       // Shadow system: unified occluder map for all sprite counts
       const shadowCasters = sceneManagerRef.current?.getShadowCasters() || [];
       const useOccluderMap = true;
@@ -1844,7 +2131,7 @@ const PixiDemo = (props: PixiDemoProps) => {
         });
       }
       
-      // UNIFIED RENDERING PATH: Set per-sprite settings and render directly (no more multi-pass complexity)
+      // UNIFIED RENDERING PATH: Set per-sprite settings and render directly
       meshesRef.current.forEach(mesh => {
         // Set per-sprite zOrder settings (AO is now controlled via caster contribution, not per-sprite receive)
         if (mesh.shader && mesh.shader.uniforms && (mesh as any).definition) {
@@ -1901,25 +2188,22 @@ const PixiDemo = (props: PixiDemoProps) => {
         }
       });
       
-      // Set unified lighting mode for all shaders
-      shadersRef.current.forEach(shader => {
-        if (shader.uniforms) {
-          shader.uniforms.uPassMode = 1; // All lights active in unified mode
-        }
-      });
-      
       // Single unified render call
       pixiApp.render();
       
       // Render is handled by animation loop - no need for double rendering
     }
-  }, [shaderParams.colorR, shaderParams.colorG, shaderParams.colorB, mousePos, lightsConfig, ambientLight, shadowConfig, ambientOcclusionConfig, performanceSettings, sceneConfig]);
+  }, [shaderParams.colorR, shaderParams.colorG, shaderParams.colorB, mousePos, lightsConfig, ambientLight, shadowConfig, ambientOcclusionConfig, performanceSettings, sceneConfig, lightParentVersion]);
 
 
   // Animation loop with UNCAPPED FPS
   useEffect(() => {
     if (!pixiApp || !pixiApp.ticker) return;
 
+    if (performanceSettings.renderingPath === 'deferred' && !gBufferRef.current) {
+      console.warn('⚠️ Deferred rendering needs WebGL2 (multiple render targets) - falling back to forward rendering');
+    }
+
     // BYPASS requestAnimationFrame limitation with high-frequency timer
     let uncappedTimer: NodeJS.Timeout | null = null;
     let isRunning = true;
@@ -1954,6 +2238,17 @@ const PixiDemo = (props: PixiDemoProps) => {
       // Check for changes and update dirty flags
       checkAndUpdateDirtyFlags();
       
+      // Sprite sheet playback - a new frame on a caster or light-casting emitter changes the maps built from it
+      const now = performance.now();
+      const animatedSprites = sceneManagerRef.current?.updateAnimations(now - lastAnimationTimeRef.current) || [];
+      lastAnimationTimeRef.current = now;
+      if (animatedSprites.some(sprite => sprite.definition.castsShadows)) {
+        occluderMapDirtyRef.current = true;
+      }
+      if (animatedSprites.some(sprite => sprite.definition.emissiveCastsLight && sprite.definition.emissiveIntensity > 0)) {
+        emissiveLightDirtyRef.current = true;
+      }
+      
       // Only rebuild occluder map if shadow casters changed
       if (occluderMapDirtyRef.current && occluderRenderTargetRef.current) {
         buildOccluderMap();
@@ -1969,6 +2264,12 @@ const PixiDemo = (props: PixiDemoProps) => {
         });
       }
       
+      // Rebuild emissive light map when emitters moved or changed
+      if (emissiveLightDirtyRef.current && emissiveLightRenderTargetRef.current && meshesRef.current.length > 0) {
+        buildEmissiveLightMap();
+        emissiveLightDirtyRef.current = false;
+      }
+      
       // Directional lights are always enabled - no state tracking needed
       
       // Update uniforms if dirty (lighting config changed)
@@ -1987,6 +2288,7 @@ const PixiDemo = (props: PixiDemoProps) => {
             shader.uniforms.uIBLEnabled = iblEnabled;
             shader.uniforms.uIBLIntensity = iblConfig.intensity;
             shader.uniforms.uIBLPixelStep = iblConfig.pixelStep || 1.0;
+            Object.assign(shader.uniforms, getEnvironmentAdjustmentUniforms(iblConfig));
             
             // Update ambient light
             shader.uniforms.uAmbientIntensity = currentAmbientLight.intensity;
@@ -1997,6 +2299,9 @@ const PixiDemo = (props: PixiDemoProps) => {
             shader.uniforms.uShadowsEnabled = shadowsEnabled;
             shader.uniforms.uShadowStrength = currentShadowConfig.strength;
             shader.uniforms.uShadowMaxLength = currentShadowConfig.maxLength || 130;
+            shader.uniforms.uShadowPenumbraScale = currentShadowConfig.penumbraScale ?? 1.0; // 0 is valid (hard shadows)
+            shader.uniforms.uShadowTechnique = SHADOW_TECHNIQUE_CODES[currentShadowConfig.technique] ?? SHADOW_TECHNIQUE_CODES.raymarch;
+            shader.uniforms.uShadowTechniqueMap = getShadowTechniqueMap(currentShadowConfig.technique);
             
             // Update AO config
             const aoEnabled = currentAOConfig.enabled && performanceSettings.enableAmbientOcclusion;
@@ -2013,9 +2318,72 @@ const PixiDemo = (props: PixiDemoProps) => {
         uniformsDirtyRef.current = false;
       }
       
+      // Deferred path: sprites only fill the G-buffer, the fullscreen pass does all lighting
+      const deferredRequested = performanceSettings.renderingPath === 'deferred' && gBufferRef.current !== null && meshesRef.current.length > 0;
+      const gBufferUniforms = deferredRequested ? renderGBuffer() : null;
+      const deferredActive = gBufferUniforms !== null;
+      if (deferredActive) {
+        const lightingMesh = ensureDeferredLightingPass();
+        if (lightingMesh) {
+          Object.assign(lightingMesh.shader.uniforms, gBufferUniforms);
+        }
+      }
+      meshesRef.current.forEach(mesh => {
+        mesh.renderable = !deferredActive;
+      });
+      if (deferredLightingMeshRef.current) {
+        deferredLightingMeshRef.current.visible = deferredActive;
+      }
+      
+      updateEnvironmentBackground();
+      
       // CRITICAL FIX: Always render every frame to ensure canvas displays immediately
       if (pixiApp && pixiApp.renderer) {
-        pixiApp.render();
+        // Tone mapping, bloom and color grading render the scene into the HDR target and resolve it to the screen afterwards
+        const toneMappingConfig = sceneConfigRef.current.toneMappingConfig;
+        const toneMappingSettings: ToneMappingSettings = {
+          operator: toneMappingConfig?.operator || 'none',
+          exposure: toneMappingConfig?.exposure ?? 0, // 0 is valid (no adjustment)
+          autoExposure: !!toneMappingConfig?.autoExposure,
+          adaptationSpeed: toneMappingConfig?.adaptationSpeed ?? 1.5
+        };
+        const bloomConfig = sceneConfigRef.current.bloomConfig;
+        const bloomSettings: BloomSettings | null = performanceSettings.enableBloom && bloomConfig?.enabled ? {
+          threshold: bloomConfig.threshold ?? 0.8, // 0 is valid (everything glows)
+          intensity: bloomConfig.intensity ?? 0.6,
+          radius: bloomConfig.radius || 1.0
+        } : null;
+        const colorGradingConfig = sceneConfigRef.current.colorGradingConfig;
+        const colorGradingSettings: ColorGradingSettings | null = colorGradingConfig?.enabled ? {
+          lutStrength: colorGradingConfig.lutStrength ?? 1.0, // 0 is valid (LUT off)
+          lift: colorGradingConfig.lift ?? 0,
+          gamma: colorGradingConfig.gamma || 1.0,
+          gain: colorGradingConfig.gain ?? 1.0,
+          saturation: colorGradingConfig.saturation ?? 1.0,
+          contrast: colorGradingConfig.contrast ?? 1.0
+        } : null;
+        // Only the LUT the config asks for - a previous one stays loaded in the cache but is not applied
+        const colorLUT = colorLUTRef.current && colorLUTRef.current.url === colorGradingConfig?.lut ? colorLUTRef.current : null;
+        const toneMapping = isToneMappingActive(toneMappingSettings) || bloomSettings || colorGradingSettings ? toneMappingRef.current : null;
+        
+        const renderedWithReflections = performanceSettings.enableReflections && renderWithReflections(toneMapping?.hdrTexture);
+        if (!renderedWithReflections) {
+          if (toneMapping) {
+            toneMapping.renderScene(pixiApp.renderer, pixiApp.stage);
+          } else {
+            pixiApp.render();
+          }
+        }
+        // Light shafts go on top of the lit scene, before bloom so bright shafts glow as well
+        if (volumetricLightRef.current && lightBufferRef.current && cameraRef.current && occluderRenderTargetRef.current) {
+          volumetricLightRef.current.render(pixiApp.renderer, lightBufferRef.current.packedLights, cameraRef.current, occluderRenderTargetRef.current, SHADOW_BUFFER, toneMapping?.hdrTexture);
+        }
+        if (toneMapping) {
+          if (bloomSettings) {
+            bloomRef.current?.render(pixiApp.renderer, toneMapping.hdrTexture, bloomSettings);
+          }
+          toneMapping.resolve(pixiApp.renderer, toneMappingSettings, getColorGradingUniforms(colorGradingSettings, colorLUT));
+        }
       }
     };
 
@@ -2046,27 +2414,114 @@ const PixiDemo = (props: PixiDemoProps) => {
     };
   }, [pixiApp, performanceSettings]);
 
-  // Mouse tracking
+  // Light tile heat-map overlay - drawn above all sprites when enabled
+  useEffect(() => {
+    if (!pixiApp || !pixiApp.stage || !showLightTileHeatmap) return;
+    
+    const heatmap = new PIXI.Graphics();
+    heatmap.zIndex = 100000; // Above every sprite zOrder
+    lightTileHeatmapRef.current = heatmap;
+    pixiApp.stage.addChild(heatmap);
+    if (lightTileGridRef.current) {
+      drawLightTileHeatmap(lightTileGridRef.current.stats);
+    }
+    
+    return () => {
+      lightTileHeatmapRef.current = null;
+      if (heatmap.parent) heatmap.parent.removeChild(heatmap);
+      heatmap.destroy();
+    };
+  }, [pixiApp, showLightTileHeatmap]);
+
+  // Mouse tracking and camera controls - wheel zooms about the cursor (Alt+wheel rotates), middle or Shift+left
+  // drag pans, double-click resets. mousePos is in world space, so follow-mouse lights stay under the cursor
   useEffect(() => {
     if (!pixiApp || !pixiApp.view) return;
 
-    const handleMouseMove = (event: MouseEvent) => {
-      const canvas = pixiApp.view as HTMLCanvasElement;
+    const canvas = pixiApp.view as HTMLCanvasElement;
+    let dragging = false;
+    
+    const getViewPos = (event: MouseEvent) => {
       const rect = canvas.getBoundingClientRect();
-      const x = event.clientX - rect.left;
-      const y = event.clientY - rect.top;
-      setMousePos({ x, y });
+      return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+    };
+    
+    // Cursor world position changes with the camera even when the mouse stands still
+    const updateMouseWorldPos = () => {
+      const camera = cameraRef.current;
+      setMousePos(camera ? camera.viewToWorld(mouseViewPosRef.current) : { ...mouseViewPosRef.current });
+    };
+    
+    // The mouse position update re-runs the uniform effect, which rebuilds the occluder map, light tiles and
+    // shadow atlas and hands the new camera uniforms to every sprite shader
+    const handleCameraChange = () => {
+      emissiveLightDirtyRef.current = true;
+      applyCameraScroll();
+      updateMouseWorldPos();
+    };
+
+    const handleMouseMove = (event: MouseEvent) => {
+      const viewPos = getViewPos(event);
+      const camera = cameraRef.current;
+      if (dragging && camera) {
+        camera.pan(viewPos.x - mouseViewPosRef.current.x, viewPos.y - mouseViewPosRef.current.y);
+        mouseViewPosRef.current = viewPos;
+        handleCameraChange();
+        return;
+      }
+      mouseViewPosRef.current = viewPos;
+      updateMouseWorldPos();
       
       // Shadows are now calculated dynamically in the shader
     };
+    
+    const handleMouseDown = (event: MouseEvent) => {
+      if (event.button === 1 || (event.button === 0 && event.shiftKey)) {
+        event.preventDefault(); // No middle-click autoscroll or text selection while panning
+        dragging = true;
+        mouseViewPosRef.current = getViewPos(event);
+      }
+    };
+    
+    const handleMouseUp = () => {
+      dragging = false;
+    };
+    
+    const handleWheel = (event: WheelEvent) => {
+      const camera = cameraRef.current;
+      if (!camera) return;
+      event.preventDefault(); // Zoom the scene, not the page
+      const viewPos = getViewPos(event);
+      if (event.altKey) {
+        camera.rotateAt(Math.sign(event.deltaY) * 5, viewPos);
+      } else {
+        camera.zoomAt(Math.exp(-event.deltaY * 0.001), viewPos);
+      }
+      mouseViewPosRef.current = viewPos;
+      handleCameraChange();
+    };
+    
+    const handleDoubleClick = () => {
+      if (!cameraRef.current) return;
+      cameraRef.current.reset();
+      console.log('🎥 Camera reset');
+      handleCameraChange();
+    };
 
     // No need for dynamic shadow mesh updates - shadows are now calculated in shader
 
-    const canvas = pixiApp.view as HTMLCanvasElement;
     canvas.addEventListener('mousemove', handleMouseMove);
+    canvas.addEventListener('mousedown', handleMouseDown);
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    canvas.addEventListener('dblclick', handleDoubleClick);
+    window.addEventListener('mouseup', handleMouseUp); // Release outside the canvas ends the drag too
 
     return () => {
       canvas.removeEventListener('mousemove', handleMouseMove);
+      canvas.removeEventListener('mousedown', handleMouseDown);
+      canvas.removeEventListener('wheel', handleWheel);
+      canvas.removeEventListener('dblclick', handleDoubleClick);
+      window.removeEventListener('mouseup', handleMouseUp);
     };
   }, [pixiApp]);
 
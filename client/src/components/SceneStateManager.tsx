@@ -1,12 +1,19 @@
 import { useState, useEffect, useCallback, useRef, createContext, useContext, ReactNode } from 'react';
 import { Light, ShadowConfig, AmbientOcclusionConfig, loadLightsConfig, loadAmbientLight, saveLightsConfig } from '@/lib/lights';
 import { PerformanceSettings } from '../utils/performance';
+import { ToneMappingOperator } from '@/lib/toneMapping';
+import { ParallaxLayer } from './Sprite';
 
 // IBL Config interface
 export interface IBLConfig {
   enabled: boolean;
   intensity: number;
   environmentMap: string;
+  pixelStep?: number;
+  rotation?: number; // Yaw in degrees (0-360)
+  tint?: { r: number; g: number; b: number }; // Color multiplier (0.0-1.0 per channel)
+  exposure?: number; // Stops (-4 to +4), 0 = as loaded
+  showBackground?: boolean; // Draw the sky box behind the lowest-zOrder sprite
 }
 
 // Reflection Config interface
@@ -17,6 +24,34 @@ export interface ReflectionConfig {
   blur: number; // Blur amount for reflections (0.0-1.0)
 }
 
+// Bloom Config interface
+export interface BloomConfig {
+  enabled: boolean;
+  threshold: number; // Brightness where bloom starts (0.0-2.0, 1.0 = white)
+  intensity: number; // Glow strength (0.0-3.0)
+  radius: number; // Glow spread (0.5-3.0)
+}
+
+// Tone Mapping Config interface
+export interface ToneMappingConfig {
+  operator: ToneMappingOperator; // 'none' | 'reinhard' | 'aces' | 'agx'
+  exposure: number; // Manual exposure in stops (-4 to +4), added on top of auto exposure
+  autoExposure: boolean; // Adapt exposure to the average scene luminance
+  adaptationSpeed: number; // How fast auto exposure follows the scene (per second)
+}
+
+// Color Grading Config interface
+export interface ColorGradingConfig {
+  enabled: boolean;
+  lut: string; // Path to a .cube file or 2D strip PNG (width = height²), '' = no LUT
+  lutStrength: number; // Blend between graded and ungraded (0.0-1.0)
+  lift: number; // Shadows offset (-0.5 to 0.5), 0 = unchanged
+  gamma: number; // Midtones power (0.2-3.0), 1 = unchanged
+  gain: number; // Highlights multiplier (0.0-2.0), 1 = unchanged
+  saturation: number; // 0 = greyscale, 1 = unchanged, 2 = double
+  contrast: number; // Around mid grey (0.0-2.0), 1 = unchanged
+}
+
 // Complete scene configuration interface
 export interface SceneConfig {
   scene: Record<string, any>;
@@ -26,6 +61,10 @@ export interface SceneConfig {
   ambientOcclusionConfig?: AmbientOcclusionConfig;
   iblConfig?: IBLConfig;
   reflectionConfig?: ReflectionConfig;
+  toneMappingConfig?: ToneMappingConfig;
+  bloomConfig?: BloomConfig;
+  colorGradingConfig?: ColorGradingConfig;
+  layers?: Record<string, ParallaxLayer>; // Named parallax layers sprites refer to by name
 }
 
 // Context interface for the scene state manager
@@ -48,6 +87,9 @@ export interface SceneStateContextType {
   updatePerformanceSettings: (newSettings: PerformanceSettings & { manualOverride?: boolean }) => void;
   updateIBLConfig: (newIBLConfig: IBLConfig) => void;
   updateReflectionConfig: (newReflectionConfig: ReflectionConfig) => void;
+  updateToneMappingConfig: (newToneMappingConfig: ToneMappingConfig) => void;
+  updateBloomConfig: (newBloomConfig: BloomConfig) => void;
+  updateColorGradingConfig: (newColorGradingConfig: ColorGradingConfig) => void;
   
   // Immediate update for bypassing React state
   triggerImmediateSpriteChange: (spriteId: string, updates: any) => void;
@@ -80,6 +122,8 @@ export const SceneStateProvider = ({ children }: SceneStateProviderProps) => {
     strength: 0.7,
     maxLength: 120,
     height: 10,
+    penumbraScale: 1.0,
+    technique: 'raymarch',
   });
   const [ambientOcclusionConfig, setAmbientOcclusionConfig] = useState<AmbientOcclusionConfig>({
     enabled: true, // CRITICAL: Demo must show all features - default ON
@@ -96,6 +140,10 @@ export const SceneStateProvider = ({ children }: SceneStateProviderProps) => {
     enableAmbientOcclusion: true,
     enableNormalMapping: true,
     enableLightMasks: true,
+    enableTiledLighting: true,
+    enableReflections: true,
+    enableBloom: true,
+    renderingPath: 'forward',
     textureScale: 1,
     fpsTarget: 60,
     capFpsTo60: true,
@@ -184,7 +232,7 @@ export const SceneStateProvider = ({ children }: SceneStateProviderProps) => {
         }
 
         if (sceneResult.performanceSettings) {
-          setPerformanceSettings(sceneResult.performanceSettings);
+          setPerformanceSettings(prev => ({ ...prev, ...sceneResult.performanceSettings })); // Keep defaults for settings missing from older scene files
         }
         
         setIsLoaded(true);
@@ -275,6 +323,39 @@ export const SceneStateProvider = ({ children }: SceneStateProviderProps) => {
     debouncedSaveScene(updatedConfig);
   }, [sceneConfig, debouncedSaveScene]);
 
+  const updateToneMappingConfig = useCallback((newToneMappingConfig: ToneMappingConfig) => {
+    console.log('🎞️ SceneStateManager: Updating Tone Mapping config...');
+    
+    const updatedConfig = {
+      ...sceneConfig,
+      toneMappingConfig: newToneMappingConfig
+    };
+    setSceneConfig(updatedConfig);
+    debouncedSaveScene(updatedConfig);
+  }, [sceneConfig, debouncedSaveScene]);
+
+  const updateBloomConfig = useCallback((newBloomConfig: BloomConfig) => {
+    console.log('🌟 SceneStateManager: Updating Bloom config...');
+    
+    const updatedConfig = {
+      ...sceneConfig,
+      bloomConfig: newBloomConfig
+    };
+    setSceneConfig(updatedConfig);
+    debouncedSaveScene(updatedConfig);
+  }, [sceneConfig, debouncedSaveScene]);
+
+  const updateColorGradingConfig = useCallback((newColorGradingConfig: ColorGradingConfig) => {
+    console.log('🎨 SceneStateManager: Updating Color Grading config...');
+    
+    const updatedConfig = {
+      ...sceneConfig,
+      colorGradingConfig: newColorGradingConfig
+    };
+    setSceneConfig(updatedConfig);
+    debouncedSaveScene(updatedConfig);
+  }, [sceneConfig, debouncedSaveScene]);
+
   // Immediate sprite change function (bypasses React state for instant feedback)
   const triggerImmediateSpriteChange = useCallback((spriteId: string, updates: any) => {
     console.log(`🚀 SceneStateManager: Immediate sprite change for ${spriteId}:`, Object.keys(updates));
@@ -307,6 +388,9 @@ export const SceneStateProvider = ({ children }: SceneStateProviderProps) => {
     updatePerformanceSettings,
     updateIBLConfig,
     updateReflectionConfig,
+    updateToneMappingConfig,
+    updateBloomConfig,
+    updateColorGradingConfig,
     triggerImmediateSpriteChange
   };
 
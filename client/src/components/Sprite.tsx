@@ -1,4 +1,6 @@
 import * as PIXI from 'pixi.js';
+import { SpriteAnimator, SpriteAnimationComponent, loadSpriteSheet } from '@/lib/spriteSheet';
+import { TextureAtlas, TextureAtlasStats, AtlasEntry, AtlasMapKind, ATLAS_MAP_KINDS } from '@/lib/textureAtlas';
 
 /**
  * Scene and sprite management system for PIXI.js applications.
@@ -6,18 +8,98 @@ import * as PIXI from 'pixi.js';
  * Supports normal mapping with automatic flat normal generation for sprites without normal maps.
  */
 
+// Texture channel a material map is read from (packed masks often store data in G/B/A)
+export type MaterialMapChannel = 'r' | 'g' | 'b' | 'a';
+
+/**
+ * Converts a channel name to a vec4 selection mask for the fragment shader.
+ * The shader reads the channel with dot(texel, mask), avoiding dynamic indexing.
+ */
+export function channelToMask(channel: MaterialMapChannel | undefined): number[] {
+  switch (channel) {
+    case 'g': return [0, 1, 0, 0];
+    case 'b': return [0, 0, 1, 0];
+    case 'a': return [0, 0, 0, 1];
+    default: return [1, 0, 0, 0];
+  }
+}
+
+// Planar reflection component (scene.json `reflectiveSurface` on a sprite entity) - wet street, ice, polished floor.
+// The sprite shows a mirrored image of the sprites above its horizon line, rippled by its own normal map
+export interface ReflectiveSurfaceComponent {
+  horizon: number;       // Mirror line in pixels below the top of the sprite's bounds
+  intensity: number;     // Reflection opacity 0.0-1.0
+  distortion: number;    // Normal map ripple strength 0.0-1.0 (0 = perfect mirror)
+  fadeDistance: number;  // Pixels below the horizon where the reflection has faded out (0 = no fade)
+}
+
+export const DEFAULT_REFLECTIVE_SURFACE: ReflectiveSurfaceComponent = {
+  horizon: 0,
+  intensity: 0.5,
+  distortion: 0.3,
+  fadeDistance: 300
+};
+
+/**
+ * Fills in missing reflectiveSurface fields - null means the sprite is not a planar reflector.
+ */
+export function normalizeReflectiveSurface(component: Partial<ReflectiveSurfaceComponent> | null | undefined): ReflectiveSurfaceComponent | null {
+  return component ? { ...DEFAULT_REFLECTIVE_SURFACE, ...component } : null;
+}
+
+// Parallax layer (scene.json `layers` section, referenced by name from a sprite's `layer`) - far background, mid, foreground.
+// scrollFactor: how fast the layer follows the camera scroll (1 = world speed, <1 = far away, >1 = in front of the camera plane)
+// depth: height of the layer's plane on the light z axis - lights and shadows measure from it
+export interface ParallaxLayer {
+  scrollFactor: number;
+  depth: number;
+}
+
+export const DEFAULT_PARALLAX_LAYER: ParallaxLayer = {
+  scrollFactor: 1,
+  depth: 0
+};
+
+/**
+ * Fills in missing fields of every layer in a scene.json `layers` section.
+ */
+export function normalizeParallaxLayers(layers: Record<string, Partial<ParallaxLayer>> | null | undefined): Record<string, ParallaxLayer> {
+  const normalized: Record<string, ParallaxLayer> = {};
+  Object.entries(layers || {}).forEach(([name, layer]) => {
+    normalized[name] = {
+      scrollFactor: layer?.scrollFactor ?? DEFAULT_PARALLAX_LAYER.scrollFactor, // 0 is valid (fixed to the screen)
+      depth: layer?.depth ?? DEFAULT_PARALLAX_LAYER.depth
+    };
+  });
+  return normalized;
+}
+
 // External sprite configuration format (from scene.json)
 export interface SpriteDefinition {
   image: string;
   normal?: string;                    // Optional normal map texture
-  metallicMap?: string;               // Optional metallic map texture (R channel = metallic)
-  smoothnessMap?: string;             // Optional smoothness map texture (R channel = smoothness)
+  metallicMap?: string;               // Optional metallic map texture (modulates scalar metallic)
+  smoothnessMap?: string;             // Optional smoothness map texture (modulates scalar smoothness)
+  metallicChannel?: MaterialMapChannel;   // Channel to read from metallicMap (default 'r')
+  smoothnessChannel?: MaterialMapChannel; // Channel to read from smoothnessMap (default 'r')
+  emissiveMap?: string;               // Optional emissive texture (RGB glow, black = no emission)
+  emissiveColor?: { r: number; g: number; b: number };  // Emissive tint color (RGB 0-1)
+  emissiveIntensity?: number;         // Emissive strength (0 = off, >1 = HDR-style glow)
+  emissiveCastsLight?: boolean;       // Emissive texels light nearby sprites (cheap area light)
+  heightMap?: string;                 // Optional grayscale height profile for shadow casting (white = full height)
+  height?: number;                    // Caster height in pixels above the ground plane (omit = blocks every light)
   position?: { x: number; y: number };
   rotation?: number;                  // Radians
   scale?: number;
   zOrder?: number;                    // Z-order for rendering depth (lower = behind, higher = in front)
+  layer?: string;                     // Parallax layer name from scene.json `layers` (omit = world layer, depth 0)
+  parent?: string;                    // Sprite id this one is attached to - position/rotation/scale become relative to it
   castsShadows?: boolean;             // Participates in shadow casting & ambient occlusion
+  shadowOpacity?: number;             // How much light the caster blocks 0.0-1.0 (1 = opaque, <1 = smoke, glass)
+  shadowTint?: boolean;               // Light passing through is filtered by the diffuse color (stained glass)
   visible?: boolean;                  // Controls sprite visibility without deletion
+  reflectiveSurface?: Partial<ReflectiveSurfaceComponent>; // Planar reflector (omit = not reflective)
+  animation?: SpriteAnimationComponent; // Sprite sheet animation - material maps are matching sheets (omit = static)
   useNormalMap?: boolean;             // Whether to use normal mapping for this sprite
   albedoColor?: { r: number; g: number; b: number };  // Albedo tint color (RGB 0-1)
   albedoTint?: number;                // Albedo tint percentage 0.0-1.0 (0 = no tint, 1 = full tint)
@@ -36,12 +118,26 @@ interface CompleteSpriteDefinition {
   normal: string;                     // Always present (empty string = auto-generate flat normal)
   metallicMap: string;                // Always present (empty string = use scalar value only)
   smoothnessMap: string;              // Always present (empty string = use scalar value only)
+  metallicChannel: MaterialMapChannel;    // Always present (default 'r')
+  smoothnessChannel: MaterialMapChannel;  // Always present (default 'r')
+  emissiveMap: string;                // Always present (empty string = uniform emission over sprite)
+  emissiveColor: { r: number; g: number; b: number };  // Always present (default white {1,1,1})
+  emissiveIntensity: number;          // Always present (default 0.0 = no emission)
+  emissiveCastsLight: boolean;        // Always present (default false)
+  heightMap: string;                  // Always present (empty string = flat top at full height)
+  height: number;                     // Always present (default Infinity = legacy, blocks every light)
   position: { x: number; y: number };
   rotation: number;
   scale: number;
   zOrder: number;                     // Z-order for rendering depth
+  layer: string;                      // Always present (empty string = world layer, or the parent's layer)
+  parent: string;                     // Always present (empty string = root sprite)
   castsShadows: boolean;              // Participates in shadow casting & ambient occlusion
+  shadowOpacity: number;              // Always present (default 1.0 = opaque)
+  shadowTint: boolean;                // Always present (default false = grey shadow)
   visible: boolean;
+  reflectiveSurface: ReflectiveSurfaceComponent | null; // Always present (null = not a planar reflector)
+  animation: SpriteAnimationComponent | null; // Always present (null = static image)
   useNormalMap: boolean;
   albedoColor: { r: number; g: number; b: number };  // Always present (default white {1,1,1})
   albedoTint: number;                 // Always present (0.0-1.0, default 0.0 = no tint)
@@ -54,6 +150,16 @@ interface CompleteSpriteDefinition {
   };
 }
 
+// SceneSprite texture field behind each atlas map kind
+const ATLAS_TEXTURE_FIELDS: Record<AtlasMapKind, 'diffuseTexture' | 'normalTexture' | 'metallicTexture' | 'smoothnessTexture' | 'emissiveTexture' | 'heightTexture'> = {
+  diffuse: 'diffuseTexture',
+  normal: 'normalTexture',
+  metallic: 'metallicTexture',
+  smoothness: 'smoothnessTexture',
+  emissive: 'emissiveTexture',
+  height: 'heightTexture'
+};
+
 export interface SpriteTransform {
   position: { x: number; y: number };
   rotation: number;
@@ -73,8 +179,16 @@ export class SceneSprite {
   public diffuseTexture: PIXI.Texture | null = null;    // Main color texture
   public normalTexture: PIXI.Texture | null = null;     // Normal map or generated flat normal
   public metallicTexture: PIXI.Texture | null = null;   // Metallic map or generated white texture
-  public smoothnessTexture: PIXI.Texture | null = null; // Smoothness map or generated gray texture
+  public smoothnessTexture: PIXI.Texture | null = null; // Smoothness map or generated white texture
+  public emissiveTexture: PIXI.Texture | null = null;   // Emissive map or generated white texture
+  public heightTexture: PIXI.Texture | null = null;     // Height map or generated white texture (occluder map only)
   public needsMeshCreation: boolean = false;            // Flag indicating mesh needs to be created
+  public layerDepth: number = 0;                        // Depth of the sprite's parallax layer plane (set by SceneManager)
+  public parallaxOffset: { x: number; y: number } = { x: 0, y: 0 }; // Layer scroll relative to the world (set by SceneManager)
+  public animator: SpriteAnimator | null = null;       // Sprite sheet playback (null = static image)
+  public atlasSources: Partial<Record<AtlasMapKind, PIXI.Texture>> | null = null; // Own textures while packed into the atlas
+  public parent: SceneSprite | null = null;            // Resolved definition.parent (linked by SceneManager)
+  public children: SceneSprite[] = [];                 // Sprites attached to this one (linked by SceneManager)
 
   constructor(id: string, definition: SpriteDefinition) {
     this.id = id;
@@ -84,12 +198,26 @@ export class SceneSprite {
       normal: definition.normal || '',                 // Empty = generate flat normal
       metallicMap: definition.metallicMap || '',       // Empty = use scalar value only
       smoothnessMap: definition.smoothnessMap || '',   // Empty = use scalar value only
+      metallicChannel: definition.metallicChannel || 'r',     // Red channel by default
+      smoothnessChannel: definition.smoothnessChannel || 'r', // Red channel by default
+      emissiveMap: definition.emissiveMap || '',       // Empty = emit uniformly (scaled by intensity)
+      emissiveColor: definition.emissiveColor || { r: 1, g: 1, b: 1 }, // Default white emission
+      emissiveIntensity: definition.emissiveIntensity ?? 0.0, // Default 0.0 = no emission
+      emissiveCastsLight: definition.emissiveCastsLight ?? false, // Opt-in light contribution
+      heightMap: definition.heightMap || '',           // Empty = uniform height over the sprite
+      height: definition.height ?? Infinity,           // Unset = tall enough to block every light (pre-height behaviour)
       position: definition.position || { x: 0, y: 0 }, // Top-left origin
       rotation: definition.rotation || 0,              // No rotation
       scale: definition.scale || 1,                    // 1:1 pixel scale
       zOrder: definition.zOrder ?? 0,                  // Default z-order (middle layer)
+      layer: definition.layer || '',                   // World layer - scrolls with the camera at depth 0
+      parent: definition.parent || '',                 // Root sprite - transform is in world coordinates
       castsShadows: definition.castsShadows ?? true,   // Most sprites cast shadows & AO
+      shadowOpacity: definition.shadowOpacity ?? 1.0,  // Opaque casters by default (0 is valid)
+      shadowTint: definition.shadowTint ?? false,      // Opt-in colored shadows
       visible: definition.visible ?? true,             // Visible by default
+      reflectiveSurface: normalizeReflectiveSurface(definition.reflectiveSurface), // Opt-in planar reflector
+      animation: definition.animation?.sheet ? definition.animation : null, // Opt-in sprite sheet animation
       useNormalMap: definition.useNormalMap ?? true,   // Use normal mapping by default
       albedoColor: definition.albedoColor || { r: 1, g: 1, b: 1 },  // Default white (no tint)
       albedoTint: definition.albedoTint ?? 0.0,        // Default 0.0 = no tint applied
@@ -104,7 +232,7 @@ export class SceneSprite {
   }
 
   /**
-   * Loads all material textures asynchronously (diffuse, normal, metallic, smoothness).
+   * Loads all material textures asynchronously (diffuse, normal, metallic, smoothness, emissive, height).
    * Generates default textures for missing maps to ensure consistent shader behavior.
    */
   async loadTextures(): Promise<void> {
@@ -128,12 +256,39 @@ export class SceneSprite {
       this.metallicTexture = this.createSolidTexture(255, 255, 255);
     }
     
-    // Load smoothness map texture if specified, otherwise create default gray texture
+    // Load smoothness map texture if specified, otherwise create default white texture
     if (this.definition.smoothnessMap && this.definition.smoothnessMap !== '') {
       this.smoothnessTexture = PIXI.Texture.from(this.definition.smoothnessMap);
     } else {
-      // Generate gray texture (RGB 128,128,128) - will use scalar value from uniform
-      this.smoothnessTexture = this.createSolidTexture(128, 128, 128);
+      // Generate white texture (RGB 255,255,255) - map multiplies scalar, so white = scalar value only
+      this.smoothnessTexture = this.createSolidTexture(255, 255, 255);
+    }
+    
+    // Load emissive map texture if specified, otherwise create default white texture
+    if (this.definition.emissiveMap && this.definition.emissiveMap !== '') {
+      this.emissiveTexture = PIXI.Texture.from(this.definition.emissiveMap);
+    } else {
+      // White texture - emission is then controlled entirely by emissiveColor * emissiveIntensity
+      this.emissiveTexture = this.createSolidTexture(255, 255, 255);
+    }
+    
+    // Load height map texture if specified, otherwise create default white texture
+    if (this.definition.heightMap && this.definition.heightMap !== '') {
+      this.heightTexture = PIXI.Texture.from(this.definition.heightMap);
+    } else {
+      // White texture - every opaque texel stands at the full sprite height
+      this.heightTexture = this.createSolidTexture(255, 255, 255);
+    }
+    
+    // Sprite sheet atlas - a broken atlas leaves the sprite static (showing the whole sheet) instead of failing the scene
+    if (this.definition.animation) {
+      try {
+        const sheet = await loadSpriteSheet(this.definition.animation.sheet);
+        this.animator = new SpriteAnimator(sheet, this.definition.animation);
+      } catch (error) {
+        console.warn(`⚠️ ${this.id}: sprite sheet ${this.definition.animation.sheet} failed to load - showing a static image`, error);
+        this.animator = null;
+      }
     }
     
     // Wait for all textures to load
@@ -166,6 +321,22 @@ export class SceneSprite {
       }));
     }
     
+    // Wait for emissive texture if it was loaded from file
+    if (this.definition.emissiveMap && this.definition.emissiveMap !== '') {
+      promises.push(new Promise(resolve => {
+        if (this.emissiveTexture!.baseTexture.valid) resolve(true);
+        else this.emissiveTexture!.baseTexture.on('loaded', resolve);
+      }));
+    }
+    
+    // Wait for height texture if it was loaded from file
+    if (this.definition.heightMap && this.definition.heightMap !== '') {
+      promises.push(new Promise(resolve => {
+        if (this.heightTexture!.baseTexture.valid) resolve(true);
+        else this.heightTexture!.baseTexture.on('loaded', resolve);
+      }));
+    }
+    
     await Promise.all(promises);
   }
 
@@ -176,13 +347,13 @@ export class SceneSprite {
   createGeometry(): PIXI.Geometry {
     if (!this.diffuseTexture) throw new Error('Textures must be loaded before creating geometry');
 
-    const { x, y } = this.definition.position;
+    const { x, y } = this.getWorldPosition();
+    const { rotation, scale } = this.getWorldTransform(); // Composed with the parent chain
     
-    // Get base dimensions before scaling
-    const baseWidth = this.diffuseTexture.width;
-    const baseHeight = this.diffuseTexture.height;
-    const width = baseWidth * this.definition.scale;
-    const height = baseHeight * this.definition.scale;
+    // Get base dimensions before scaling (one frame for sprite sheets)
+    const { width: baseWidth, height: baseHeight } = this.getFrameSize();
+    const width = baseWidth * scale;
+    const height = baseHeight * scale;
 
     // Build vertex buffer with ONLY scaling and pivot transform (NO rotation in geometry)
     const geometry = new PIXI.Geometry();
@@ -223,18 +394,18 @@ export class SceneSprite {
     }
     
     // Scale the pivot point
-    const scaledPivotX = basePivotX * this.definition.scale;
-    const scaledPivotY = basePivotY * this.definition.scale;
+    const scaledPivotX = basePivotX * scale;
+    const scaledPivotY = basePivotY * scale;
     
     // Apply scaling and rotation around pivot point
     const transformedCorners = corners.map(corner => {
       // Apply scaling from pivot point (pivot stays stationary)
-      const scaledOffsetX = (corner.x - basePivotX) * this.definition.scale;
-      const scaledOffsetY = (corner.y - basePivotY) * this.definition.scale;
+      const scaledOffsetX = (corner.x - basePivotX) * scale;
+      const scaledOffsetY = (corner.y - basePivotY) * scale;
       
       // Apply rotation around the scaled pivot point
-      const cosRot = Math.cos(this.definition.rotation);
-      const sinRot = Math.sin(this.definition.rotation);
+      const cosRot = Math.cos(rotation);
+      const sinRot = Math.sin(rotation);
       
       const rotatedX = scaledOffsetX * cosRot - scaledOffsetY * sinRot;
       const rotatedY = scaledOffsetX * sinRot + scaledOffsetY * cosRot;
@@ -253,13 +424,8 @@ export class SceneSprite {
       transformedCorners[3].x, transformedCorners[3].y   // Bottom-left
     ]);
 
-    // UV coordinates (0 to 1 mapping)
-    const uvs = new Float32Array([
-      0, 0,  // Top-left
-      1, 0,  // Top-right
-      1, 1,  // Bottom-right
-      0, 1   // Bottom-left
-    ]);
+    // UV coordinates (whole texture, or the current frame's rectangle of a sprite sheet)
+    const uvs = this.getFrameUVs();
 
     // Indices for two triangles
     const indices = new Uint16Array([
@@ -276,18 +442,20 @@ export class SceneSprite {
   }
 
   createShader(vertexShader: string, fragmentShader: string, uniforms: any): PIXI.Shader {
-    if (!this.diffuseTexture || !this.normalTexture || !this.metallicTexture || !this.smoothnessTexture) {
+    if (!this.diffuseTexture || !this.normalTexture || !this.metallicTexture || !this.smoothnessTexture || !this.emissiveTexture) {
       throw new Error('All textures must be loaded before creating shader');
     }
 
-    const { x, y } = this.definition.position;
-    const width = this.diffuseTexture.width * this.definition.scale;
-    const height = this.diffuseTexture.height * this.definition.scale;
+    const { x, y } = this.getWorldPosition();
+    const { rotation, scale } = this.getWorldTransform(); // Composed with the parent chain
+    const frameSize = this.getFrameSize();
+    const width = frameSize.width * scale;
+    const height = frameSize.height * scale;
 
     // Calculate pivot point for shader
     const pivot = this.definition.pivot || { preset: 'top-left', offsetX: 0, offsetY: 0 };
-    const baseWidth = this.diffuseTexture?.width || 1;
-    const baseHeight = this.diffuseTexture?.height || 1;
+    const baseWidth = frameSize.width;
+    const baseHeight = frameSize.height;
     let basePivotX = 0, basePivotY = 0;
     
     if (pivot.preset === 'custom-offset') {
@@ -313,8 +481,8 @@ export class SceneSprite {
       basePivotY -= (pivot.offsetY || 0);
     }
     
-    const worldPivotX = x + basePivotX * this.definition.scale;
-    const worldPivotY = y + basePivotY * this.definition.scale;
+    const worldPivotX = x + basePivotX * scale;
+    const worldPivotY = y + basePivotY * scale;
 
     const shaderUniforms = {
       uDiffuse: this.diffuseTexture,
@@ -326,12 +494,18 @@ export class SceneSprite {
       uAlbedoTint: this.definition.albedoTint,     // Albedo tint percentage (0.0-1.0)
       uMetallicValue: this.definition.metallic,    // Scalar metallic value (0.0-1.0)
       uSmoothnessValue: this.definition.smoothness, // Scalar smoothness value (0.0-1.0)
+      uMetallicChannel: channelToMask(this.definition.metallicChannel),     // Channel mask for metallic map
+      uSmoothnessChannel: channelToMask(this.definition.smoothnessChannel), // Channel mask for smoothness map
+      uEmissive: this.emissiveTexture,          // Emissive texture map
+      uEmissiveColor: [this.definition.emissiveColor.r, this.definition.emissiveColor.g, this.definition.emissiveColor.b],
+      uEmissiveIntensity: this.definition.emissiveIntensity, // Emissive strength (added after lighting)
       uSpritePos: [x, y],
       uSpriteSize: [width, height],
-      uRotation: this.definition.rotation, // Pass rotation to fragment shader
+      uRotation: rotation, // Pass rotation to fragment shader
       uPivotPoint: [worldPivotX, worldPivotY], // Pass pivot point to fragment shader
+      uLayerDepth: this.layerDepth, // Parallax layer plane - lights and shadows measure heights from it
       // Self-shadow avoidance bounds for occluder map - calculate rotated bounds
-      ...this.calculateRotatedBounds(x, y, width, height, basePivotX * this.definition.scale, basePivotY * this.definition.scale, this.definition.rotation),
+      ...this.calculateRotatedBounds(x, y, width, height, basePivotX * scale, basePivotY * scale, rotation),
       ...uniforms
     };
 
@@ -410,14 +584,16 @@ export class SceneSprite {
   getBounds(): { x: number; y: number; width: number; height: number } {
     if (!this.diffuseTexture) throw new Error('Texture must be loaded to get bounds');
     
-    const { x, y } = this.definition.position;
-    const width = this.diffuseTexture.width * this.definition.scale;
-    const height = this.diffuseTexture.height * this.definition.scale;
+    const { x, y } = this.getWorldPosition();
+    const { scale } = this.getWorldTransform(); // Composed with the parent chain
+    const frameSize = this.getFrameSize();
+    const width = frameSize.width * scale;
+    const height = frameSize.height * scale;
     
     // Calculate pivot point to get top-left corner position
     const pivot = this.definition.pivot || { preset: 'top-left', offsetX: 0, offsetY: 0 };
-    const baseWidth = this.diffuseTexture.width;
-    const baseHeight = this.diffuseTexture.height;
+    const baseWidth = frameSize.width;
+    const baseHeight = frameSize.height;
     let basePivotX = 0, basePivotY = 0;
     
     if (pivot.preset === 'custom-offset') {
@@ -444,8 +620,8 @@ export class SceneSprite {
     }
     
     // Since position (x,y) is now the pivot location, calculate top-left corner
-    const scaledPivotX = basePivotX * this.definition.scale;
-    const scaledPivotY = basePivotY * this.definition.scale;
+    const scaledPivotX = basePivotX * scale;
+    const scaledPivotY = basePivotY * scale;
     
     return { 
       x: x - scaledPivotX, 
@@ -455,6 +631,185 @@ export class SceneSprite {
     };
   }
 
+  /**
+   * Pivot position in the world - the position composed down the parent chain, shifted by the parallax layer's scroll.
+   * Everything that places the sprite (geometry, bounds, occluder map) goes through this.
+   */
+  getWorldPosition(): { x: number; y: number } {
+    const { position } = this.getWorldTransform();
+    return {
+      x: position.x + this.parallaxOffset.x,
+      y: position.y + this.parallaxOffset.y
+    };
+  }
+
+  /**
+   * Transform composed down the parent chain, before the parallax offset. A child's position is measured from
+   * its parent's pivot in the parent's rotated and scaled frame; rotations add and scales multiply.
+   * Root sprites return their own transform.
+   */
+  getWorldTransform(): SpriteTransform {
+    const { position, rotation, scale } = this.definition;
+    if (!this.parent) {
+      return { position: { x: position.x, y: position.y }, rotation, scale };
+    }
+
+    const parent = this.parent.getWorldTransform();
+    const cos = Math.cos(parent.rotation);
+    const sin = Math.sin(parent.rotation);
+    const localX = position.x * parent.scale;
+    const localY = position.y * parent.scale;
+    return {
+      position: {
+        x: parent.position.x + localX * cos - localY * sin,
+        y: parent.position.y + localX * sin + localY * cos
+      },
+      rotation: parent.rotation + rotation,
+      scale: parent.scale * scale
+    };
+  }
+
+  /**
+   * Parallax layer the sprite lives on - children without a layer of their own stay on their parent's.
+   */
+  getLayerName(): string {
+    return this.definition.layer || this.parent?.getLayerName() || '';
+  }
+
+  /**
+   * Size of the drawn quad before scaling - one frame for sprite sheets, the diffuse texture otherwise.
+   */
+  getFrameSize(): { width: number; height: number } {
+    if (this.animator) {
+      return { width: this.animator.sheet.frameWidth, height: this.animator.sheet.frameHeight };
+    }
+    return { width: this.diffuseTexture?.width || 1, height: this.diffuseTexture?.height || 1 };
+  }
+
+  /**
+   * Quad UVs (top-left, top-right, bottom-right, bottom-left) - the current frame's rectangle for sprite sheets.
+   * Every material map shares them, so normal/metallic/smoothness sheets must use the diffuse sheet's layout.
+   */
+  getFrameUVs(): Float32Array {
+    if (!this.animator) {
+      return this.toAtlasUVs(0, 0, 1, 1);
+    }
+    const frame = this.animator.frame;
+    const sheetWidth = this.diffuseTexture?.width || this.animator.sheet.width;
+    const sheetHeight = this.diffuseTexture?.height || this.animator.sheet.height;
+    return this.toAtlasUVs(
+      frame.x / sheetWidth,
+      frame.y / sheetHeight,
+      (frame.x + frame.width) / sheetWidth,
+      (frame.y + frame.height) / sheetHeight
+    );
+  }
+
+  // Maps UVs over the source image into the diffuse texture's frame - its region when packed into the atlas
+  // (all maps share the region), the identity for a texture of its own
+  private toAtlasUVs(u0: number, v0: number, u1: number, v1: number): Float32Array {
+    const texture = this.diffuseTexture;
+    if (texture && this.atlasSources) {
+      const { frame, baseTexture } = texture;
+      u0 = (frame.x + u0 * frame.width) / baseTexture.width;
+      u1 = (frame.x + u1 * frame.width) / baseTexture.width;
+      v0 = (frame.y + v0 * frame.height) / baseTexture.height;
+      v1 = (frame.y + v1 * frame.height) / baseTexture.height;
+    }
+    return new Float32Array([u0, v0, u1, v0, u1, v1, u0, v1]);
+  }
+
+  /**
+   * Describes the file-backed material maps for atlas packing - generated defaults (flat normal, white maps) stay
+   * 1x1 textures of their own. Null when the textures are not loaded.
+   */
+  getAtlasEntry(): AtlasEntry | null {
+    if (!this.diffuseTexture || !this.diffuseTexture.baseTexture.valid) return null;
+    const files: Record<AtlasMapKind, string> = {
+      diffuse: this.definition.image,
+      normal: this.definition.normal,
+      metallic: this.definition.metallicMap,
+      smoothness: this.definition.smoothnessMap,
+      emissive: this.definition.emissiveMap,
+      height: this.definition.heightMap
+    };
+    const maps: Partial<Record<AtlasMapKind, PIXI.Texture>> = {};
+    ATLAS_MAP_KINDS.forEach(kind => {
+      const texture = this[ATLAS_TEXTURE_FIELDS[kind]];
+      if (files[kind] && texture?.baseTexture.valid) maps[kind] = texture;
+    });
+    return { id: this.id, width: this.diffuseTexture.width, height: this.diffuseTexture.height, maps };
+  }
+
+  /**
+   * Switches the sprite to its atlas regions. Must run before the mesh is created (geometry picks up the remapped UVs).
+   */
+  applyAtlas(atlas: TextureAtlas): boolean {
+    const diffuse = atlas.getTexture(this.id, 'diffuse');
+    if (!diffuse) return false;
+
+    const sources: Partial<Record<AtlasMapKind, PIXI.Texture>> = {};
+    ATLAS_MAP_KINDS.forEach(kind => {
+      const region = kind === 'diffuse' ? diffuse : atlas.getTexture(this.id, kind);
+      if (!region) return;
+      const field = ATLAS_TEXTURE_FIELDS[kind];
+      sources[kind] = this[field] || undefined;
+      this[field] = region;
+    });
+    this.atlasSources = sources;
+    return true;
+  }
+
+  /**
+   * Goes back to the sprite's own textures - needed before one map is swapped for a file outside the atlas, which
+   * would otherwise be read with atlas UVs.
+   */
+  releaseAtlas(): void {
+    const sources = this.atlasSources;
+    if (!sources) return;
+    this.atlasSources = null;
+    ATLAS_MAP_KINDS.forEach(kind => {
+      const texture = sources[kind];
+      if (texture) this[ATLAS_TEXTURE_FIELDS[kind]] = texture;
+    });
+    if (this.shader) {
+      Object.assign(this.shader.uniforms, {
+        uDiffuse: this.diffuseTexture,
+        uNormal: this.normalTexture,
+        uMetallic: this.metallicTexture,
+        uSmoothness: this.smoothnessTexture,
+        uEmissive: this.emissiveTexture
+      });
+    }
+    if (this.mesh) this.updateTransform({}); // Rebuilds the geometry with whole-texture UVs
+    console.log(`🧩 ${this.id}: left the texture atlas`);
+  }
+
+  /**
+   * Advances sprite sheet playback. On a frame change the UVs are rewritten in place, so every pass sharing the
+   * geometry (G-buffer, reflections) follows. Returns true when the frame changed.
+   */
+  updateAnimation(deltaMs: number): boolean {
+    if (!this.animator || !this.animator.update(deltaMs)) return false;
+    this.geometry?.getBuffer('aTextureCoord').update(this.getFrameUVs());
+    return true;
+  }
+
+  /**
+   * Re-applies definition.animation (clip, fps, loop mode, playing) to the running animator. Switching to another
+   * sheet, or animating a static sprite, needs a scene reload like swapping the image does.
+   */
+  refreshAnimation(): void {
+    const settings = this.definition.animation;
+    if (!this.animator || !settings) return;
+    if (settings.sheet !== this.animator.sheet.url) {
+      console.warn(`⚠️ ${this.id}: sprite sheet changed to ${settings.sheet} - reload the scene to apply it`);
+      return;
+    }
+    this.animator.apply(settings);
+    this.geometry?.getBuffer('aTextureCoord').update(this.getFrameUVs());
+  }
+
   // Update transform (for dynamic updates)
   updateTransform(transform: Partial<SpriteTransform>): void {
     if (transform.position) {
@@ -470,14 +825,15 @@ export class SceneSprite {
     // CRITICAL: Recreate geometry and update shader uniforms if mesh exists
     if (this.mesh && this.shader) {
       const bounds = this.getBounds();
+      const { rotation, scale } = this.getWorldTransform(); // Composed with the parent chain
       this.shader.uniforms.uSpritePos = [bounds.x, bounds.y];
       this.shader.uniforms.uSpriteSize = [bounds.width, bounds.height];
-      this.shader.uniforms.uRotation = this.definition.rotation;
+      this.shader.uniforms.uRotation = rotation;
+      this.shader.uniforms.uLayerDepth = this.layerDepth;
       
       // Update pivot point for rotation in shader
       const pivot = this.definition.pivot || { preset: 'top-left', offsetX: 0, offsetY: 0 };
-      const baseWidth = this.diffuseTexture?.width || 1;
-      const baseHeight = this.diffuseTexture?.height || 1;
+      const { width: baseWidth, height: baseHeight } = this.getFrameSize();
       let basePivotX = 0, basePivotY = 0;
       
       if (pivot.preset === 'custom-offset') {
@@ -504,19 +860,49 @@ export class SceneSprite {
       }
       
       // Calculate world space pivot point for shader
-      const worldPivotX = bounds.x + basePivotX * this.definition.scale;
-      const worldPivotY = bounds.y + basePivotY * this.definition.scale;
+      const worldPivotX = bounds.x + basePivotX * scale;
+      const worldPivotY = bounds.y + basePivotY * scale;
       this.shader.uniforms.uPivotPoint = [worldPivotX, worldPivotY];
       
       // Update self-shadow avoidance bounds - calculate rotated bounds  
-      const rotatedBounds = this.calculateRotatedBounds(bounds.x, bounds.y, bounds.width, bounds.height, basePivotX * this.definition.scale, basePivotY * this.definition.scale, this.definition.rotation);
+      const rotatedBounds = this.calculateRotatedBounds(bounds.x, bounds.y, bounds.width, bounds.height, basePivotX * scale, basePivotY * scale, rotation);
       this.shader.uniforms.uReceiverMin = rotatedBounds.uReceiverMin;
       this.shader.uniforms.uReceiverMax = rotatedBounds.uReceiverMax;
       
       // CRITICAL: Recreate geometry with new transform and apply to mesh
       const newGeometry = this.createGeometry();
       this.mesh.geometry = newGeometry;
-      
+
+    }
+
+    // Children are placed relative to this sprite - move them along (even when this sprite has no mesh)
+    this.children.forEach(child => child.updateTransform({}));
+  }
+
+  /**
+   * Swaps the metallic, smoothness, emissive or height map at runtime and updates the shader uniform.
+   * Empty path falls back to the white default so the scalar value is used unmodified.
+   * The height map only feeds the occluder map, so it has no sprite shader uniform.
+   */
+  setMaterialMap(kind: 'metallic' | 'smoothness' | 'emissive' | 'height', path: string): void {
+    if (path) this.releaseAtlas(); // A new file is not in the atlas - every map must share one set of UVs
+    const texture = path && path !== '' ? PIXI.Texture.from(path) : this.createSolidTexture(255, 255, 255);
+    
+    if (kind === 'metallic') {
+      this.definition.metallicMap = path || '';
+      this.metallicTexture = texture;
+      if (this.shader) this.shader.uniforms.uMetallic = texture;
+    } else if (kind === 'smoothness') {
+      this.definition.smoothnessMap = path || '';
+      this.smoothnessTexture = texture;
+      if (this.shader) this.shader.uniforms.uSmoothness = texture;
+    } else if (kind === 'emissive') {
+      this.definition.emissiveMap = path || '';
+      this.emissiveTexture = texture;
+      if (this.shader) this.shader.uniforms.uEmissive = texture;
+    } else {
+      this.definition.heightMap = path || '';
+      this.heightTexture = texture;
     }
   }
 
@@ -572,6 +958,10 @@ export class SceneSprite {
  */
 export class SceneManager {
   private sprites: Map<string, SceneSprite> = new Map();
+  private layers: Record<string, ParallaxLayer> = {};        // scene.json `layers` section
+  private cameraScroll: { x: number; y: number } = { x: 0, y: 0 }; // Camera offset from its default view (world pixels)
+  private atlas: TextureAtlas | null = null;                  // Packed material maps of the loaded sprites
+  private reportedLinks: Set<string> = new Set();             // Broken parent links already warned about
   private pixiContainer: any = null;
   private canvasWidth: number = 800; // Default fallback
   private canvasHeight: number = 600; // Default fallback
@@ -591,6 +981,9 @@ export class SceneManager {
   async loadScene(sceneData: any): Promise<void> {
     // Clean slate for new scene
     this.sprites.clear();
+    this.reportedLinks.clear();
+    this.atlas?.destroy();
+    this.atlas = null;
     
     // Guard against null/undefined scene data
     if (!sceneData) {
@@ -598,6 +991,8 @@ export class SceneManager {
       return;
     }
     
+    this.layers = normalizeParallaxLayers(sceneData.layers);
+    
     // Parallel sprite creation and texture loading
     const sprites = sceneData.sprites || sceneData.scene || {};
     for (const [key, entityData] of Object.entries(sprites)) {
@@ -617,19 +1012,153 @@ export class SceneManager {
         albedoTint: material.albedoTint,
         metallic: material.metallic ?? 0.0,
         smoothness: material.smoothness ?? 0.5,
+        metallicMap: material.metallicMap || '',
+        smoothnessMap: material.smoothnessMap || '',
+        metallicChannel: material.metallicChannel || 'r',
+        smoothnessChannel: material.smoothnessChannel || 'r',
+        emissiveMap: material.emissiveMap || '',
+        emissiveColor: material.emissiveColor || { r: 1, g: 1, b: 1 },
+        emissiveIntensity: material.emissiveIntensity ?? 0.0,
+        emissiveCastsLight: material.emissiveCastsLight ?? false,
+        heightMap: material.heightMap || '',
+        height: spriteComponent.height,
         position: transform.position,
         rotation: transform.rotation,
         scale: transform.scale,
         zOrder: spriteComponent.zOrder,
+        layer: spriteComponent.layer,
+        parent: entity.parent,
         castsShadows: spriteComponent.castsShadows,
+        shadowOpacity: spriteComponent.shadowOpacity,
+        shadowTint: spriteComponent.shadowTint,
         visible: spriteComponent.visible,
+        reflectiveSurface: entity.reflectiveSurface,
+        animation: entity.animation,
         pivot: spriteComponent.pivot
       };
       
       const sprite = new SceneSprite(key, flatSpriteData);
+      if (sprite.definition.layer && !this.layers[sprite.definition.layer]) {
+        console.warn(`⚠️ SceneManager: ${key} uses unknown parallax layer "${sprite.definition.layer}" - using the world layer`);
+      }
       await sprite.loadTextures();
       this.sprites.set(key, sprite);
     }
+
+    // Parents may come after their children in the file - link once every sprite exists, then place layers
+    // (children inherit their parent's)
+    this.linkHierarchy();
+    this.sprites.forEach(sprite => this.applyLayer(sprite));
+  }
+
+  /**
+   * Packs the material maps of every loaded sprite into parallel atlases (one per map kind, shared layout) and
+   * points the sprites at their regions. Call after loadScene and before meshes are created. Sprites that don't fit
+   * keep their own textures.
+   */
+  packTextureAtlas(renderer: PIXI.IRenderer): TextureAtlasStats | null {
+    this.getAllSprites().forEach(sprite => sprite.releaseAtlas());
+    this.atlas?.destroy();
+    this.atlas = null;
+
+    const entries = this.getAllSprites()
+      .map(sprite => sprite.getAtlasEntry())
+      .filter((entry): entry is AtlasEntry => entry !== null);
+    if (entries.length === 0) return null;
+
+    const atlas = new TextureAtlas(renderer, entries);
+    this.getAllSprites().forEach(sprite => sprite.applyAtlas(atlas));
+    this.atlas = atlas;
+
+    const { packed, skipped, width, height, atlases } = atlas.stats;
+    console.log(`🧩 Texture atlas: ${packed} sprites packed into ${atlases} ${width}×${height} atlases${skipped > 0 ? ` (${skipped} too large, kept separate)` : ''}`);
+    return atlas.stats;
+  }
+
+  getLayers(): Record<string, ParallaxLayer> {
+    return this.layers;
+  }
+
+  /**
+   * Resolves a sprite's parallax layer - unknown or missing names fall back to the world layer.
+   */
+  getLayer(name: string): ParallaxLayer {
+    return this.layers[name] || DEFAULT_PARALLAX_LAYER;
+  }
+
+  /**
+   * Moves parallax layers for a camera scrolled (x, y) world pixels away from its default view. A layer with
+   * scrollFactor s follows s times the scroll, so it is offset by scroll * (1 - s) in the world.
+   * Returns true when any sprite moved (occluder map and light data need rebuilding).
+   */
+  setCameraScroll(x: number, y: number): boolean {
+    this.cameraScroll = { x, y };
+    let moved = false;
+    this.sprites.forEach(sprite => {
+      if (this.applyLayer(sprite) && sprite.mesh) {
+        sprite.updateTransform({}); // Rebuilds geometry and bounds at the new offset
+        moved = true;
+      }
+    });
+    return moved;
+  }
+
+  /**
+   * Resolves every sprite's `parent` id into parent/children links. Unknown parents and links that would close a
+   * cycle are reported once and the sprite stays a root. Returns true when any link changed.
+   */
+  private linkHierarchy(): boolean {
+    const previous = new Map(this.getAllSprites().map(sprite => [sprite.id, sprite.parent]));
+    this.sprites.forEach(sprite => {
+      sprite.parent = null;
+      sprite.children = [];
+    });
+
+    this.sprites.forEach(sprite => {
+      const parentId = sprite.definition.parent;
+      if (!parentId) return;
+
+      const parent = this.sprites.get(parentId);
+      let problem = parent ? '' : `unknown parent "${parentId}"`;
+      // Walk up from the parent - meeting this sprite again means the link would close a cycle
+      for (let ancestor = parent || null; ancestor && !problem; ancestor = ancestor.parent) {
+        if (ancestor === sprite) problem = `parent "${parentId}" would create a cycle`;
+      }
+      if (problem || !parent) {
+        const report = `${sprite.id}->${parentId}`;
+        if (!this.reportedLinks.has(report)) {
+          console.warn(`⚠️ SceneManager: ${sprite.id} has ${problem} - treating it as a root sprite`);
+          this.reportedLinks.add(report);
+        }
+        return;
+      }
+
+      sprite.parent = parent;
+      parent.children.push(sprite);
+    });
+
+    return this.getAllSprites().some(sprite => previous.get(sprite.id) !== sprite.parent);
+  }
+
+  // Copies layer depth and scroll offset onto the sprite - returns true when its offset changed
+  private applyLayer(sprite: SceneSprite): boolean {
+    const layer = this.getLayer(sprite.getLayerName());
+    const offset = {
+      x: this.cameraScroll.x * (1 - layer.scrollFactor),
+      y: this.cameraScroll.y * (1 - layer.scrollFactor)
+    };
+    const changed = offset.x !== sprite.parallaxOffset.x || offset.y !== sprite.parallaxOffset.y;
+    sprite.layerDepth = layer.depth;
+    sprite.parallaxOffset = offset;
+    return changed;
+  }
+
+  /**
+   * Advances every animated sprite by deltaMs. Returns the sprites whose frame changed - callers rebuild the
+   * occluder map when a shadow caster is among them (animated characters cast animated shadows).
+   */
+  updateAnimations(deltaMs: number): SceneSprite[] {
+    return this.getAllSprites().filter(sprite => sprite.updateAnimation(deltaMs));
   }
 
   getSprite(id: string): SceneSprite | undefined {
@@ -653,6 +1182,7 @@ export class SceneManager {
     const sprites = sceneData.sprites || sceneData.scene;
     if (!sprites) return;
     
+    this.layers = normalizeParallaxLayers(sceneData.layers);
     let zOrderChanged = false;
     
     // Update each sprite that exists in both old and new configs
@@ -674,20 +1204,47 @@ export class SceneManager {
           albedoTint: material.albedoTint,
           metallic: material.metallic ?? 0.0,
           smoothness: material.smoothness ?? 0.5,
+          metallicMap: material.metallicMap || '',
+          smoothnessMap: material.smoothnessMap || '',
+          metallicChannel: material.metallicChannel || 'r',
+          smoothnessChannel: material.smoothnessChannel || 'r',
+          emissiveMap: material.emissiveMap || '',
+          emissiveColor: material.emissiveColor || { r: 1, g: 1, b: 1 },
+          emissiveIntensity: material.emissiveIntensity ?? 0.0,
+          emissiveCastsLight: material.emissiveCastsLight ?? false,
+          heightMap: material.heightMap || '',
+          height: spriteComponent.height,
           position: transform.position,
           rotation: transform.rotation,
           scale: transform.scale,
           zOrder: spriteComponent.zOrder,
+          layer: spriteComponent.layer,
+          parent: entityData.parent,
           castsShadows: spriteComponent.castsShadows,
+          shadowOpacity: spriteComponent.shadowOpacity,
+          shadowTint: spriteComponent.shadowTint,
           visible: spriteComponent.visible,
+          reflectiveSurface: entityData.reflectiveSurface,
+          animation: entityData.animation,
           pivot: spriteComponent.pivot
         };
         const wasVisible = existingSprite.definition.visible;
         const oldZOrder = existingSprite.definition.zOrder;
+        const oldMetallicMap = existingSprite.definition.metallicMap;
+        const oldSmoothnessMap = existingSprite.definition.smoothnessMap;
+        const oldEmissiveMap = existingSprite.definition.emissiveMap;
+        const oldHeightMap = existingSprite.definition.heightMap;
         // Create a properly typed updated definition
         const updatedDef: CompleteSpriteDefinition = {
           ...existingSprite.definition,
           ...newDef,
+          height: newDef.height ?? Infinity, // Removing height restores the unlimited default
+          layer: newDef.layer || '', // Removing the layer moves the sprite back to the world layer
+          parent: newDef.parent || '', // Removing the parent detaches the sprite
+          shadowOpacity: newDef.shadowOpacity ?? 1.0,
+          shadowTint: newDef.shadowTint ?? false,
+          reflectiveSurface: normalizeReflectiveSurface(newDef.reflectiveSurface), // Removing the component disables it
+          animation: newDef.animation?.sheet ? newDef.animation : null,
           pivot: {
             preset: newDef.pivot?.preset || existingSprite.definition.pivot.preset,
             offsetX: newDef.pivot?.offsetX !== undefined ? newDef.pivot.offsetX : existingSprite.definition.pivot.offsetX,
@@ -695,6 +1252,7 @@ export class SceneManager {
           }
         };
         existingSprite.definition = updatedDef;
+        this.applyLayer(existingSprite); // Layer membership or the layers section may have changed
         
         // Handle visibility changes that require mesh creation/destruction
         const isNowVisible = newDef.visible ?? true;
@@ -721,6 +1279,7 @@ export class SceneManager {
             console.log(`🎨 Normal map changed for ${existingSprite.id}: ${existingSprite.definition.useNormalMap} → ${newDef.useNormalMap}`);
             // Recreate normal texture based on new setting
             if (newDef.useNormalMap && newDef.normal && newDef.normal !== '') {
+              existingSprite.releaseAtlas(); // The reloaded normal map is a texture of its own
               existingSprite.normalTexture = PIXI.Texture.from(newDef.normal);
             } else {
               existingSprite.normalTexture = existingSprite['createFlatNormalTexture']();
@@ -731,6 +1290,27 @@ export class SceneManager {
             }
           }
           
+          // Handle material map swaps (texture reload only when the path actually changed)
+          if (newDef.metallicMap !== oldMetallicMap) {
+            existingSprite.setMaterialMap('metallic', newDef.metallicMap || '');
+          }
+          if (newDef.smoothnessMap !== oldSmoothnessMap) {
+            existingSprite.setMaterialMap('smoothness', newDef.smoothnessMap || '');
+          }
+          if (newDef.emissiveMap !== oldEmissiveMap) {
+            existingSprite.setMaterialMap('emissive', newDef.emissiveMap || '');
+          }
+          if (newDef.heightMap !== oldHeightMap) {
+            existingSprite.setMaterialMap('height', newDef.heightMap || '');
+          }
+          existingSprite.refreshAnimation(); // Clip, fps, loop and playing apply without reloading the sheet
+          if (existingSprite.shader) {
+            existingSprite.shader.uniforms.uMetallicChannel = channelToMask(updatedDef.metallicChannel);
+            existingSprite.shader.uniforms.uSmoothnessChannel = channelToMask(updatedDef.smoothnessChannel);
+            existingSprite.shader.uniforms.uEmissiveColor = [updatedDef.emissiveColor.r, updatedDef.emissiveColor.g, updatedDef.emissiveColor.b];
+            existingSprite.shader.uniforms.uEmissiveIntensity = updatedDef.emissiveIntensity;
+          }
+          
           // Update zIndex for z-ordering (this triggers PIXI to re-sort children)
           if (newDef.zOrder !== undefined && existingSprite.mesh.zIndex !== newDef.zOrder) {
             existingSprite.mesh.zIndex = newDef.zOrder;
@@ -748,7 +1328,14 @@ export class SceneManager {
         }
       }
     }
-    
+
+    // Re-parented sprites move to their new frame (and possibly a new inherited layer) - roots carry their subtrees
+    if (this.linkHierarchy()) {
+      this.sprites.forEach(sprite => this.applyLayer(sprite));
+      this.getAllSprites().filter(sprite => !sprite.parent).forEach(sprite => sprite.updateTransform({}));
+      console.log('🌳 SceneManager: sprite hierarchy relinked');
+    }
+
     // Force immediate re-sort if zOrder changed
     const containerToUse = pixiContainer || this.pixiContainer;
     if (zOrderChanged && containerToUse) {
@@ -815,5 +1402,7 @@ export class SceneManager {
   destroy(): void {
     this.sprites.forEach(sprite => sprite.destroy());
     this.sprites.clear();
+    this.atlas?.destroy();
+    this.atlas = null;
   }
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+import * as PIXI from 'pixi.js';
+import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import bloomDownsampleSource from '../shaders/bloomDownsample.glsl?raw';
+import bloomUpsampleSource from '../shaders/bloomUpsample.glsl?raw';
+import bloomCompositeSource from '../shaders/bloomComposite.glsl?raw';
+
+// Downsample levels - level 0 is half the canvas, each next one half again (1024 wide -> 512 ... 32)
+export const BLOOM_LEVELS = 5;
+
+export interface BloomSettings {
+  threshold: number;  // Display-space brightness where bloom starts (1.0 = white)
+  intensity: number;
+  radius: number;     // Upsample tap spread - wider, softer glow
+}
+
+// Fullscreen quad in target pixels - uv (0,0) is the top-left texel
+function createQuadGeometry(width: number, height: number): PIXI.Geometry {
+  return new PIXI.Geometry()
+    .addAttribute('aVertexPosition', [0, 0, width, 0, width, height, 0, height], 2)
+    .addAttribute('aTextureCoord', [0, 0, 1, 0, 1, 1, 0, 1], 2)
+    .addIndex([0, 1, 2, 0, 2, 3]);
+}
+
+/**
+ * Dual-filter (Kawase) bloom on the HDR scene target: a thresholded half-resolution prefilter, a downsample chain
+ * and an upsample chain that folds every level back in, added onto the target before tone mapping.
+ */
+export class Bloom {
+  private readonly downTargets: PIXI.RenderTexture[];
+  private readonly upTargets: PIXI.RenderTexture[];
+  private readonly downQuads: PIXI.Mesh<PIXI.Shader>[];
+  private readonly upQuads: PIXI.Mesh<PIXI.Shader>[];
+  private readonly compositeQuad: PIXI.Mesh<PIXI.Shader>;
+
+  // type = HALF_FLOAT keeps highlights above 1.0 through the chain (same as the HDR scene target)
+  constructor(width: number, height: number, type: PIXI.TYPES = PIXI.TYPES.UNSIGNED_BYTE) {
+    const sizes = Array.from({ length: BLOOM_LEVELS }, (_, level) => ({
+      width: Math.max(1, Math.ceil(width / Math.pow(2, level + 1))),
+      height: Math.max(1, Math.ceil(height / Math.pow(2, level + 1))),
+    }));
+    const createTarget = (size: { width: number; height: number }) =>
+      PIXI.RenderTexture.create({ ...size, format: PIXI.FORMATS.RGBA, type });
+
+    this.downTargets = sizes.map(createTarget);
+    // Up level i has the size of down level i - the smallest level has nothing to upsample into it
+    this.upTargets = sizes.slice(0, BLOOM_LEVELS - 1).map(createTarget);
+
+    // uSource of the first downsample is the scene target, set per render
+    this.downQuads = sizes.map((size, level) => this.createQuad(size, bloomDownsampleSource, {
+      uSource: level === 0 ? PIXI.Texture.WHITE : this.downTargets[level - 1],
+      uSourceTexel: level === 0 ? [1 / width, 1 / height] : [1 / sizes[level - 1].width, 1 / sizes[level - 1].height],
+      uPrefilter: level === 0,
+      uThreshold: 1,
+    }));
+
+    this.upQuads = this.upTargets.map((_, level) => {
+      const source = level === BLOOM_LEVELS - 2 ? this.downTargets[BLOOM_LEVELS - 1] : this.upTargets[level + 1];
+      return this.createQuad(sizes[level], bloomUpsampleSource, {
+        uSource: source,
+        uBase: this.downTargets[level],
+        uSourceTexel: [1 / source.width, 1 / source.height],
+        uRadius: 1,
+      });
+    });
+
+    this.compositeQuad = this.createQuad({ width, height }, bloomCompositeSource, {
+      uBloom: this.upTargets[0],
+      uIntensity: 0,
+    });
+    this.compositeQuad.blendMode = PIXI.BLEND_MODES.ADD;
+  }
+
+  private createQuad(size: { width: number; height: number }, fragment: string, uniforms: Record<string, any>) {
+    const quad = new PIXI.Mesh(createQuadGeometry(size.width, size.height), PIXI.Shader.from(vertexShaderSource, fragment, uniforms));
+    quad.state.blend = false;
+    return quad;
+  }
+
+  /** Blooms target in place - reads the lit scene, then adds the glow back onto it */
+  render(renderer: PIXI.IRenderer, target: PIXI.RenderTexture, settings: BloomSettings) {
+    Object.assign(this.downQuads[0].shader.uniforms, {
+      uSource: target,
+      uThreshold: Math.max(settings.threshold, 0),
+    });
+    this.downQuads.forEach((quad, level) => {
+      renderer.render(quad, { renderTexture: this.downTargets[level], clear: true });
+    });
+
+    // Smallest first - each up level reads the one below it
+    for (let level = BLOOM_LEVELS - 2; level >= 0; level--) {
+      this.upQuads[level].shader.uniforms.uRadius = settings.radius;
+      renderer.render(this.upQuads[level], { renderTexture: this.upTargets[level], clear: true });
+    }
+
+    this.compositeQuad.shader.uniforms.uIntensity = settings.intensity / BLOOM_LEVELS;
+    renderer.render(this.compositeQuad, { renderTexture: target, clear: false });
+  }
+
+  destroy() {
+    [...this.downQuads, ...this.upQuads, this.compositeQuad].forEach(quad => {
+      quad.shader.destroy();
+      quad.destroy();
+    });
+    [...this.downTargets, ...this.upTargets].forEach(target => target.destroy(true));
+  }
+}
@@ -0,0 +1,134 @@
+import * as PIXI from 'pixi.js';
+
+// Zoom limits - the occluder map only extends SHADOW_BUFFER view pixels past the canvas, so zooming far out
+// leaves off-screen casters outside it
+export const MIN_CAMERA_ZOOM = 0.25;
+export const MAX_CAMERA_ZOOM = 4;
+
+export interface CameraState {
+  x: number;        // World point shown at the centre of the viewport
+  y: number;
+  zoom: number;     // View pixels per world pixel
+  rotation: number; // Degrees of camera roll - the world appears turned the opposite way
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * 2D camera over the world. World coordinates are the ones stored in scene.json (sprite positions, light
+ * positions); view coordinates are canvas pixels. Lighting runs in world space - everything that lives in
+ * view space (occluder map, distance field, emissive light map, light tiles, screen targets) goes through
+ * viewMatrix. The default state (viewport centre, zoom 1, no rotation) is the identity, so world = canvas.
+ */
+export class Camera {
+  public version = 0; // Bumped on every change - lets callers detect a moved camera cheaply
+  private state: CameraState;
+  private matrix = new PIXI.Matrix();
+
+  constructor(public readonly viewportWidth: number, public readonly viewportHeight: number) {
+    this.state = this.defaultState();
+    this.updateMatrix();
+  }
+
+  get x(): number { return this.state.x; }
+  get y(): number { return this.state.y; }
+  get zoom(): number { return this.state.zoom; }
+  get rotation(): number { return this.state.rotation; }
+
+  /** World to view transform - do not mutate, it is rebuilt on every change */
+  get viewMatrix(): PIXI.Matrix {
+    return this.matrix;
+  }
+
+  getState(): CameraState {
+    return { ...this.state };
+  }
+
+  setState(updates: Partial<CameraState>) {
+    const next = { ...this.state, ...updates };
+    next.zoom = Math.min(Math.max(next.zoom, MIN_CAMERA_ZOOM), MAX_CAMERA_ZOOM);
+    next.rotation = ((next.rotation % 360) + 360) % 360;
+    this.state = next;
+    this.updateMatrix();
+  }
+
+  reset() {
+    this.setState(this.defaultState());
+  }
+
+  /** Moves the camera so the world follows a drag of (dx, dy) view pixels */
+  pan(dx: number, dy: number) {
+    const from = this.viewToWorld({ x: 0, y: 0 });
+    const to = this.viewToWorld({ x: dx, y: dy });
+    this.setState({ x: this.state.x - (to.x - from.x), y: this.state.y - (to.y - from.y) });
+  }
+
+  /** Multiplies the zoom by factor, keeping the world point under viewPoint (e.g. the cursor) in place */
+  zoomAt(factor: number, viewPoint: Point) {
+    const anchor = this.viewToWorld(viewPoint);
+    this.setState({ zoom: this.state.zoom * factor });
+    const drifted = this.viewToWorld(viewPoint);
+    this.setState({ x: this.state.x + anchor.x - drifted.x, y: this.state.y + anchor.y - drifted.y });
+  }
+
+  /** Rotates by degrees around the world point under viewPoint */
+  rotateAt(degrees: number, viewPoint: Point) {
+    const anchor = this.viewToWorld(viewPoint);
+    this.setState({ rotation: this.state.rotation + degrees });
+    const drifted = this.viewToWorld(viewPoint);
+    this.setState({ x: this.state.x + anchor.x - drifted.x, y: this.state.y + anchor.y - drifted.y });
+  }
+
+  worldToView(point: Point): Point {
+    const { x, y } = this.matrix.apply(point);
+    return { x, y };
+  }
+
+  viewToWorld(point: Point): Point {
+    const { x, y } = this.matrix.applyInverse(point);
+    return { x, y };
+  }
+
+  /** Rotates a world-space direction into view space (no translation or zoom) */
+  directionToView(direction: Point): Point {
+    const radians = -this.state.rotation * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return { x: direction.x * cos - direction.y * sin, y: direction.x * sin + direction.y * cos };
+  }
+
+  /** View transform shifted by the occluder map's buffer zone - the container transform for map passes */
+  getOccluderMapMatrix(buffer: number): PIXI.Matrix {
+    return this.matrix.clone().translate(buffer, buffer);
+  }
+
+  /**
+   * Sprite shader uniforms. uViewMatrix is read by spriteVertex.glsl; uWorldToView / uViewToWorld by
+   * fragment.glsl (separate names - a uniform shared by both stages must have the same precision in each)
+   */
+  getUniforms(): Record<string, any> {
+    return {
+      uViewMatrix: this.matrix.toArray(true),
+      uWorldToView: this.matrix.toArray(true),
+      uViewToWorld: this.matrix.clone().invert().toArray(true),
+      uCameraZoom: this.state.zoom,
+    };
+  }
+
+  private defaultState(): CameraState {
+    return { x: this.viewportWidth / 2, y: this.viewportHeight / 2, zoom: 1, rotation: 0 };
+  }
+
+  private updateMatrix() {
+    const { x, y, zoom, rotation } = this.state;
+    this.matrix = new PIXI.Matrix()
+      .translate(-x, -y)
+      .rotate(-rotation * Math.PI / 180)
+      .scale(zoom, zoom)
+      .translate(this.viewportWidth / 2, this.viewportHeight / 2);
+    this.version++;
+  }
+}
@@ -0,0 +1,159 @@
+import * as PIXI from 'pixi.js';
+
+// LUT textures are 2D strips - MUST match sampleLUT in toneMapping.glsl
+//   size N -> N² × N texels: N slices left to right by blue, red across each slice, green down the rows
+//   (black top-left, the Unreal-style strip layout - flip Unity-style strips vertically before use)
+
+export interface ColorGradingSettings {
+  lutStrength: number;  // 0 = no LUT, 1 = full LUT
+  lift: number;         // Raises (or crushes) the shadows, -0.5 to 0.5
+  gamma: number;        // Midtone power, 1 = unchanged
+  gain: number;         // Highlight multiplier, 1 = unchanged
+  saturation: number;   // 0 = greyscale, 1 = unchanged
+  contrast: number;     // Around mid grey, 1 = unchanged
+}
+
+export interface ColorLUT {
+  url: string;
+  texture: PIXI.Texture;
+  size: number;
+  domainMin: [number, number, number]; // Input range the LUT covers (.cube DOMAIN_MIN / DOMAIN_MAX)
+  domainMax: [number, number, number];
+}
+
+export function isCubePath(url: string): boolean {
+  return /\.cube$/i.test(url.split('?')[0]);
+}
+
+/**
+ * Parses an Adobe/Resolve .cube 3D LUT into strip texel data (RGBA8). Entries are red-fastest, then green, then blue.
+ * Throws on 1D LUTs, missing or out-of-range sizes, and entry counts that don't match LUT_3D_SIZE.
+ */
+export function parseCubeLUT(text: string): { size: number; data: Uint8Array; domainMin: [number, number, number]; domainMax: [number, number, number] } {
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const parts = line.split(/\s+/);
+    const keyword = parts[0].toUpperCase();
+    if (keyword === 'TITLE') continue;
+    if (keyword === 'LUT_1D_SIZE') throw new Error('1D .cube LUTs are not supported - export a 3D LUT');
+    if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(parts[1], 10);
+      if (!(size >= 2 && size <= 64)) throw new Error(`Unsupported LUT_3D_SIZE: ${parts[1]}`);
+      continue;
+    }
+    if (keyword === 'DOMAIN_MIN' || keyword === 'DOMAIN_MAX') {
+      const domain = parts.slice(1, 4).map(Number) as [number, number, number];
+      if (keyword === 'DOMAIN_MIN') domainMin = domain; else domainMax = domain;
+      continue;
+    }
+    if (/^[A-Z_]+$/.test(keyword)) continue; // Unknown keywords (LUT_IN_VIDEO_RANGE etc.) are ignored
+
+    values.push(Number(parts[0]), Number(parts[1]), Number(parts[2]));
+  }
+
+  if (size === 0) throw new Error('Missing LUT_3D_SIZE');
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Expected ${size * size * size} LUT entries, found ${values.length / 3}`);
+  }
+
+  const width = size * size;
+  const data = new Uint8Array(width * size * 4);
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const source = ((b * size + g) * size + r) * 3;
+        const target = (g * width + b * size + r) * 4;
+        data[target] = Math.round(Math.min(Math.max(values[source], 0), 1) * 255);
+        data[target + 1] = Math.round(Math.min(Math.max(values[source + 1], 0), 1) * 255);
+        data[target + 2] = Math.round(Math.min(Math.max(values[source + 2], 0), 1) * 255);
+        data[target + 3] = 255;
+      }
+    }
+  }
+  return { size, data, domainMin, domainMax };
+}
+
+/**
+ * Loads color grading LUTs and caches them per URL - .cube files are parsed, anything else is read as a strip PNG
+ * (width must be height²).
+ */
+export class LUTLoader {
+  private readonly cache = new Map<string, Promise<ColorLUT>>();
+
+  load(url: string): Promise<ColorLUT> {
+    let pending = this.cache.get(url);
+    if (!pending) {
+      pending = isCubePath(url) ? this.loadCube(url) : this.loadStrip(url);
+      pending.catch(() => this.cache.delete(url)); // Let a later request retry
+      this.cache.set(url, pending);
+    }
+    return pending;
+  }
+
+  private async loadCube(url: string): Promise<ColorLUT> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    const { size, data, domainMin, domainMax } = parseCubeLUT(await response.text());
+
+    const baseTexture = PIXI.BaseTexture.fromBuffer(data, size * size, size, {
+      format: PIXI.FORMATS.RGBA,
+      type: PIXI.TYPES.UNSIGNED_BYTE,
+      scaleMode: PIXI.SCALE_MODES.LINEAR, // Red and green interpolate in hardware, blue between slices in the shader
+      mipmap: PIXI.MIPMAP_MODES.OFF,
+      wrapMode: PIXI.WRAP_MODES.CLAMP,
+      alphaMode: PIXI.ALPHA_MODES.NPM,
+    });
+    console.log(`🎨 Color grading LUT loaded: ${url} (${size}³)`);
+    return { url, texture: new PIXI.Texture(baseTexture), size, domainMin, domainMax };
+  }
+
+  private async loadStrip(url: string): Promise<ColorLUT> {
+    const baseTexture = PIXI.BaseTexture.from(url, {
+      scaleMode: PIXI.SCALE_MODES.LINEAR,
+      mipmap: PIXI.MIPMAP_MODES.OFF, // Mips would blend neighbouring slices
+      wrapMode: PIXI.WRAP_MODES.CLAMP,
+    });
+    if (!baseTexture.valid) {
+      await new Promise<void>((resolve, reject) => {
+        baseTexture.once('loaded', () => resolve());
+        baseTexture.once('error', (_: PIXI.BaseTexture, event: ErrorEvent) => reject(event));
+      });
+    }
+
+    const size = baseTexture.realHeight;
+    if (baseTexture.realWidth !== size * size) {
+      throw new Error(`LUT strip ${url} is ${baseTexture.realWidth}×${size} - expected ${size * size}×${size}`);
+    }
+    console.log(`🎨 Color grading LUT loaded: ${url} (${size}³ strip)`);
+    return { url, texture: new PIXI.Texture(baseTexture), size, domainMin: [0, 0, 0], domainMax: [1, 1, 1] };
+  }
+
+  destroy() {
+    this.cache.forEach(pending => pending.then(lut => lut.texture.destroy(true)).catch(() => undefined));
+    this.cache.clear();
+  }
+}
+
+/** Grading uniforms for the tone mapping resolve - settings = null leaves the tone-mapped image untouched */
+export function getColorGradingUniforms(settings: ColorGradingSettings | null, lut: ColorLUT | null): Record<string, any> {
+  return {
+    uColorGrading: !!settings,
+    uLUT: lut ? lut.texture : PIXI.Texture.WHITE,
+    uLUTSize: lut ? lut.size : 1,
+    uLUTStrength: lut && settings ? settings.lutStrength : 0,
+    uLUTDomainMin: lut ? lut.domainMin : [0, 0, 0],
+    uLUTDomainMax: lut ? lut.domainMax : [1, 1, 1],
+    uLift: settings?.lift ?? 0,
+    uGamma: settings?.gamma ?? 1,
+    uGain: settings?.gain ?? 1,
+    uSaturation: settings?.saturation ?? 1,
+    uContrast: settings?.contrast ?? 1,
+  };
+}
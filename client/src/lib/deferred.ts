@@ -0,0 +1,102 @@
+import * as PIXI from 'pixi.js';
+
+// G-buffer layout - MUST match the outputs of gbufferFragment.glsl and the DEFERRED_LIGHTING decode in fragment.glsl
+//   target 0 (albedo):   premultiplied albedo (after albedo tint), coverage alpha
+//   target 1 (normal):   rotated normal * 0.5 + 0.5
+//   target 2 (material): metallic, smoothness, receiver index / 255
+//   target 3 (emissive): emissive color / EMISSIVE_LIGHT_SCALE
+export const GBUFFER_TARGET_COUNT = 4;
+
+// Receiver buffer layout - one row per sprite written into the G-buffer, RECEIVER_BUFFER_TEXELS texels wide:
+//   texel 0: receiver AABB min.xy, max.xy (self-shadow avoidance bounds)
+//   texel 1: sprite position.xy, size.xy (IBL positional offset)
+//   texel 2: zOrder (AO hierarchy), parallax layer depth, unused
+export const MAX_DEFERRED_RECEIVERS = 255; // Receiver index is stored in an 8-bit channel
+export const RECEIVER_BUFFER_TEXELS = 3;
+
+// Per-sprite data the lighting pass can no longer read from sprite uniforms
+export interface DeferredReceiver {
+  receiverMin: number[];
+  receiverMax: number[];
+  spritePos: number[];
+  spriteSize: number[];
+  zOrder: number;
+  layerDepth: number;
+}
+
+/**
+ * Deferred renderer storage: a multiple-render-target G-buffer the sprites write their material into,
+ * plus a float data texture of per-receiver values the fullscreen lighting pass looks up by index.
+ * Requires WebGL2 (MRT) - callers fall back to forward rendering otherwise.
+ */
+export class GBuffer {
+  public readonly renderTexture: PIXI.RenderTexture;
+  public readonly targetTextures: PIXI.Texture[]; // Targets 1..3 wrapped for sampling (target 0 is renderTexture)
+  public receiverCount = 0;
+  private receiverData: Float32Array;
+  private receiverBaseTexture: PIXI.BaseTexture<PIXI.BufferResource>;
+  public readonly receiverTexture: PIXI.Texture;
+
+  constructor(width: number, height: number) {
+    this.renderTexture = PIXI.RenderTexture.create({ width, height });
+
+    // Extra color attachments share the render texture size - NEAREST, a G-buffer texel is never filtered
+    const framebuffer = this.renderTexture.framebuffer;
+    for (let target = 1; target < GBUFFER_TARGET_COUNT; target++) {
+      framebuffer.addColorTexture(target);
+    }
+    this.targetTextures = framebuffer.colorTextures.slice(1).map(baseTexture => new PIXI.Texture(baseTexture));
+
+    this.receiverData = new Float32Array(RECEIVER_BUFFER_TEXELS * MAX_DEFERRED_RECEIVERS * 4);
+    this.receiverBaseTexture = PIXI.BaseTexture.fromBuffer(this.receiverData, RECEIVER_BUFFER_TEXELS, MAX_DEFERRED_RECEIVERS, {
+      format: PIXI.FORMATS.RGBA,
+      type: PIXI.TYPES.FLOAT,
+      scaleMode: PIXI.SCALE_MODES.NEAREST,
+      mipmap: PIXI.MIPMAP_MODES.OFF,
+      wrapMode: PIXI.WRAP_MODES.CLAMP,
+    });
+    this.receiverTexture = new PIXI.Texture(this.receiverBaseTexture);
+  }
+
+  /** MRT support check - WebGL1 only has a single color output without extensions */
+  static isSupported(renderer: PIXI.IRenderer): boolean {
+    return renderer instanceof PIXI.Renderer && renderer.context.webGLVersion === 2;
+  }
+
+  /**
+   * Repacks the receiver buffer (row index = receiver index written by the G-buffer pass)
+   * and returns the lighting pass uniforms.
+   */
+  update(receivers: DeferredReceiver[]): Record<string, any> {
+    if (receivers.length > MAX_DEFERRED_RECEIVERS) {
+      console.warn(`Deferred receivers exhausted (${MAX_DEFERRED_RECEIVERS}) - ${receivers.length - MAX_DEFERRED_RECEIVERS} sprites skipped`);
+    }
+
+    this.receiverData.fill(0);
+    receivers.slice(0, MAX_DEFERRED_RECEIVERS).forEach((receiver, index) => {
+      this.receiverData.set([
+        receiver.receiverMin[0], receiver.receiverMin[1], receiver.receiverMax[0], receiver.receiverMax[1],
+        receiver.spritePos[0], receiver.spritePos[1], receiver.spriteSize[0], receiver.spriteSize[1],
+        receiver.zOrder, receiver.layerDepth, 0, 0,
+      ], index * RECEIVER_BUFFER_TEXELS * 4);
+    });
+
+    this.receiverCount = Math.min(receivers.length, MAX_DEFERRED_RECEIVERS);
+    this.receiverBaseTexture.resource.update();
+
+    return {
+      uGBufferAlbedo: this.renderTexture,
+      uGBufferNormal: this.targetTextures[0],
+      uGBufferMaterial: this.targetTextures[1],
+      uGBufferEmissive: this.targetTextures[2],
+      uReceiverBuffer: this.receiverTexture,
+      uReceiverBufferSize: [RECEIVER_BUFFER_TEXELS, MAX_DEFERRED_RECEIVERS],
+    };
+  }
+
+  destroy() {
+    this.receiverTexture.destroy(true);
+    this.targetTextures.forEach(texture => texture.destroy(true));
+    this.renderTexture.destroy(true);
+  }
+}
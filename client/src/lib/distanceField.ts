@@ -0,0 +1,90 @@
+import * as PIXI from 'pixi.js';
+import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import jumpFloodSeedSource from '../shaders/jumpFloodSeed.glsl?raw';
+import jumpFloodStepSource from '../shaders/jumpFloodStep.glsl?raw';
+import jumpFloodResolveSource from '../shaders/jumpFloodResolve.glsl?raw';
+
+// Distances are stored as 8.8 fixed point - MUST match sampleOccluderDistance in fragment.glsl
+export const DISTANCE_FIELD_MAX_DISTANCE = 255;
+
+/**
+ * Unsigned distance field of the occluder map, built on the GPU with the jump flood algorithm:
+ * a seed pass marks occluder pixels, log2(size) step passes propagate the nearest seed, and a resolve pass
+ * writes the distance to it. Shadow rays sphere-trace this texture instead of marching the map pixel by pixel.
+ * All targets are RGBA8 (seed coordinates packed into byte pairs), so no float render target extension is needed.
+ */
+export class OccluderDistanceField {
+  public readonly texture: PIXI.RenderTexture;
+  private readonly seedTargets: [PIXI.RenderTexture, PIXI.RenderTexture];
+  private readonly quad: PIXI.Mesh<PIXI.Shader>;
+  private readonly seedShader: PIXI.Shader;
+  private readonly stepShader: PIXI.Shader;
+  private readonly resolveShader: PIXI.Shader;
+  private readonly width: number;
+  private readonly height: number;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+
+    // NEAREST everywhere - interpolating packed coordinates or fixed point bytes produces garbage
+    const createTarget = () => PIXI.RenderTexture.create({ width, height, scaleMode: PIXI.SCALE_MODES.NEAREST });
+    this.seedTargets = [createTarget(), createTarget()];
+    this.texture = createTarget();
+
+    const mapSize = [width, height];
+    this.seedShader = PIXI.Shader.from(vertexShaderSource, jumpFloodSeedSource, { uMapSize: mapSize });
+    this.stepShader = PIXI.Shader.from(vertexShaderSource, jumpFloodStepSource, { uMapSize: mapSize, uStepSize: 1 });
+    this.resolveShader = PIXI.Shader.from(vertexShaderSource, jumpFloodResolveSource, {
+      uMapSize: mapSize,
+      uMaxDistance: DISTANCE_FIELD_MAX_DISTANCE,
+    });
+
+    // Fullscreen quad in target pixels - uv (0,0) is the top-left texel, same as the occluder map lookup
+    const geometry = new PIXI.Geometry()
+      .addAttribute('aVertexPosition', [0, 0, width, 0, width, height, 0, height], 2)
+      .addAttribute('aTextureCoord', [0, 0, 1, 0, 1, 1, 0, 1], 2)
+      .addIndex([0, 1, 2, 0, 2, 3]);
+    this.quad = new PIXI.Mesh(geometry, this.seedShader);
+    this.quad.state.blend = false; // Packed bytes live in alpha too - write them untouched
+  }
+
+  /** Number of jump flood step passes needed to cover the map (largest step spans half of it) */
+  get passCount(): number {
+    return Math.ceil(Math.log2(Math.max(this.width, this.height)));
+  }
+
+  /** Rebuilds the distance field from the occluder map - call whenever the occluder map was re-rendered */
+  build(renderer: PIXI.IRenderer, occluderMap: PIXI.RenderTexture) {
+    this.renderPass(renderer, this.seedShader, { uOccluderMap: occluderMap }, this.seedTargets[0]);
+
+    let source = 0;
+    for (let pass = this.passCount - 1; pass >= 0; pass--) {
+      this.renderPass(renderer, this.stepShader, {
+        uSeedMap: this.seedTargets[source],
+        uStepSize: Math.pow(2, pass),
+      }, this.seedTargets[1 - source]);
+      source = 1 - source;
+    }
+
+    this.renderPass(renderer, this.resolveShader, {
+      uSeedMap: this.seedTargets[source],
+      uOccluderMap: occluderMap, // Nearest caster's height and shadow opacity go into blue/alpha
+    }, this.texture);
+  }
+
+  private renderPass(renderer: PIXI.IRenderer, shader: PIXI.Shader, uniforms: Record<string, any>, target: PIXI.RenderTexture) {
+    Object.assign(shader.uniforms, uniforms);
+    this.quad.shader = shader;
+    renderer.render(this.quad, { renderTexture: target, clear: true });
+  }
+
+  destroy() {
+    this.quad.destroy();
+    this.seedShader.destroy();
+    this.stepShader.destroy();
+    this.resolveShader.destroy();
+    this.seedTargets.forEach(target => target.destroy(true));
+    this.texture.destroy(true);
+  }
+}
@@ -0,0 +1,46 @@
+import * as PIXI from 'pixi.js';
+import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import environmentBackgroundSource from '../shaders/environmentBackground.glsl?raw';
+import { EnvironmentAdjustments, EnvironmentMap, ENVIRONMENT_ENCODING_CODES, getEnvironmentAdjustmentUniforms } from './environmentMap';
+
+/**
+ * Draws the IBL sky box as the scene background. The caller adds `mesh` to the stage and keeps its zIndex below
+ * the lowest sprite zOrder; the mesh hides itself while no map is set.
+ */
+export class EnvironmentBackground {
+  public readonly mesh: PIXI.Mesh<PIXI.Shader>;
+
+  constructor(width: number, height: number) {
+    const shader = PIXI.Shader.from(vertexShaderSource, environmentBackgroundSource, {
+      uSource: PIXI.Texture.WHITE,
+      uSourceEncoding: 0,
+      uMapSize: [width, height],
+      ...getEnvironmentAdjustmentUniforms(undefined),
+    });
+    // Fullscreen quad in canvas pixels - uv (0,0) is the top-left corner
+    const geometry = new PIXI.Geometry()
+      .addAttribute('aVertexPosition', [0, 0, width, 0, width, height, 0, height], 2)
+      .addAttribute('aTextureCoord', [0, 0, 1, 0, 1, 1, 0, 1], 2)
+      .addIndex([0, 1, 2, 0, 2, 3]);
+    this.mesh = new PIXI.Mesh(geometry, shader);
+    this.mesh.state.blend = false; // Opaque - replaces the clear color
+    this.mesh.visible = false;
+  }
+
+  /** map = null hides the background (IBL off, background option off, or the map is still loading) */
+  update(map: EnvironmentMap | null, adjustments: EnvironmentAdjustments | undefined) {
+    this.mesh.visible = map !== null;
+    if (!map) return;
+
+    Object.assign(this.mesh.shader.uniforms, {
+      uSource: map.texture,
+      uSourceEncoding: ENVIRONMENT_ENCODING_CODES[map.encoding],
+      ...getEnvironmentAdjustmentUniforms(adjustments),
+    });
+  }
+
+  destroy() {
+    this.mesh.shader.destroy();
+    this.mesh.destroy();
+  }
+}
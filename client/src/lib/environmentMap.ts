@@ -0,0 +1,318 @@
+import * as PIXI from 'pixi.js';
+import { prefilterEnvironmentMap } from './environmentPrefilter';
+
+// Sky box encodings - MUST match sampleSource in environmentPrefilter.glsl / environmentIrradiance.glsl
+//   direct: texel rgb is the radiance (LDR images, half-float / float HDR textures)
+//   rgbm:   rgb * alpha * ENVIRONMENT_RGBM_RANGE (RGBA8 fallback for WebGL1 without float textures)
+export type EnvironmentEncoding = 'direct' | 'rgbm';
+export const ENVIRONMENT_ENCODING_CODES: Record<EnvironmentEncoding, number> = {
+  direct: 0,
+  rgbm: 1,
+};
+export const ENVIRONMENT_RGBM_RANGE = 16;
+
+// Sprite shaders light in display (gamma) space, same as the LDR sky boxes they were tuned with - linear HDR
+// radiance is gamma-encoded on load so both look alike at the same intensity. Values above 1.0 survive the curve
+const ENVIRONMENT_GAMMA = 2.2;
+const MAX_HALF_FLOAT = 65504;
+
+export interface HDRImage {
+  width: number;
+  height: number;
+  data: Float32Array; // Linear RGBA radiance, rows top to bottom, alpha 1
+}
+
+export interface EnvironmentMap {
+  url: string;
+  texture: PIXI.Texture;                // Sky box as loaded
+  encoding: EnvironmentEncoding;
+  prefiltered: PIXI.RenderTexture;      // Baked IBL atlas (lib/environmentPrefilter.ts) - what the sprite shaders sample
+  hdr: boolean;                         // Decoded from a Radiance .hdr file
+  format: 'image' | 'half' | 'float' | 'rgbm';
+}
+
+export function isHDRPath(url: string): boolean {
+  return /\.hdr$/i.test(url.split('?')[0]);
+}
+
+/**
+ * Parses a Radiance RGBE (.hdr) file - header, resolution line and scanlines (new-style RLE, old-style RLE or flat).
+ * Returns linear float radiance with the header EXPOSURE divided out. Throws on anything that isn't 32-bit_rle_rgbe.
+ */
+export function parseRGBE(buffer: ArrayBuffer): HDRImage {
+  const bytes = new Uint8Array(buffer);
+  let offset = 0;
+
+  const readLine = (): string => {
+    let line = '';
+    while (offset < bytes.length && bytes[offset] !== 0x0a) {
+      line += String.fromCharCode(bytes[offset++]);
+    }
+    offset++; // Skip the newline
+    return line;
+  };
+
+  const magic = readLine();
+  if (!magic.startsWith('#?')) {
+    throw new Error('Not a Radiance HDR file (missing #? signature)');
+  }
+
+  let exposure = 1;
+  for (let line = readLine(); line !== ''; line = readLine()) {
+    if (offset >= bytes.length) throw new Error('Truncated HDR header');
+    if (line.startsWith('FORMAT=') && line !== 'FORMAT=32-bit_rle_rgbe') {
+      throw new Error(`Unsupported HDR format: ${line.slice(7)}`);
+    }
+    if (line.startsWith('EXPOSURE=')) {
+      exposure *= parseFloat(line.slice(9)) || 1; // Multiple EXPOSURE lines are cumulative
+    }
+  }
+
+  const resolution = readLine().trim().match(/^([-+])Y\s+(\d+)\s+([-+])X\s+(\d+)$/);
+  if (!resolution) {
+    throw new Error('Unsupported HDR orientation (expected "-Y height +X width")');
+  }
+  const height = parseInt(resolution[2], 10);
+  const width = parseInt(resolution[4], 10);
+  const flipY = resolution[1] === '+';
+  const flipX = resolution[3] === '-';
+
+  const rgbe = new Uint8Array(width * height * 4);
+  const scanline = new Uint8Array(width * 4);
+  for (let y = 0; y < height; y++) {
+    offset = readScanline(bytes, offset, scanline, width);
+    const row = flipY ? height - 1 - y : y;
+    if (flipX) {
+      for (let x = 0; x < width; x++) {
+        rgbe.set(scanline.subarray(x * 4, x * 4 + 4), (row * width + width - 1 - x) * 4);
+      }
+    } else {
+      rgbe.set(scanline, row * width * 4);
+    }
+  }
+
+  // RGBE -> float: shared exponent, mantissas at texel centres (Radiance colr_color)
+  const data = new Float32Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const e = rgbe[i * 4 + 3];
+    const scale = e === 0 ? 0 : Math.pow(2, e - 136) / exposure;
+    data[i * 4] = e === 0 ? 0 : (rgbe[i * 4] + 0.5) * scale;
+    data[i * 4 + 1] = e === 0 ? 0 : (rgbe[i * 4 + 1] + 0.5) * scale;
+    data[i * 4 + 2] = e === 0 ? 0 : (rgbe[i * 4 + 2] + 0.5) * scale;
+    data[i * 4 + 3] = 1;
+  }
+
+  return { width, height, data };
+}
+
+// Decodes one scanline into target (RGBE bytes) and returns the offset after it
+function readScanline(bytes: Uint8Array, offset: number, target: Uint8Array, width: number): number {
+  if (offset + 4 > bytes.length) throw new Error('Truncated HDR pixel data');
+
+  // New-style RLE: 2, 2, width high, width low, then each channel run-length encoded separately
+  const isNewRLE = width >= 8 && width < 0x8000 &&
+    bytes[offset] === 2 && bytes[offset + 1] === 2 && (bytes[offset + 2] & 0x80) === 0;
+  if (isNewRLE) {
+    if (((bytes[offset + 2] << 8) | bytes[offset + 3]) !== width) {
+      throw new Error('HDR scanline width mismatch');
+    }
+    offset += 4;
+    for (let channel = 0; channel < 4; channel++) {
+      let x = 0;
+      while (x < width) {
+        if (offset >= bytes.length) throw new Error('Truncated HDR scanline');
+        let count = bytes[offset++];
+        if (count > 128) {
+          count -= 128;
+          if (x + count > width) throw new Error('Bad HDR run length');
+          const value = bytes[offset++];
+          for (let i = 0; i < count; i++) target[(x++) * 4 + channel] = value;
+        } else {
+          if (count === 0 || x + count > width) throw new Error('Bad HDR run length');
+          for (let i = 0; i < count; i++) target[(x++) * 4 + channel] = bytes[offset++];
+        }
+      }
+    }
+    return offset;
+  }
+
+  // Flat pixels, with old-style RLE (1, 1, 1, n = repeat the previous pixel n << shift times)
+  let x = 0;
+  let shift = 0;
+  while (x < width) {
+    if (offset + 4 > bytes.length) throw new Error('Truncated HDR scanline');
+    if (bytes[offset] === 1 && bytes[offset + 1] === 1 && bytes[offset + 2] === 1 && x > 0) {
+      const count = bytes[offset + 3] << shift;
+      if (x + count > width) throw new Error('Bad HDR run length');
+      for (let i = 0; i < count; i++, x++) target.copyWithin(x * 4, (x - 1) * 4, x * 4);
+      shift += 8;
+    } else {
+      target.set(bytes.subarray(offset, offset + 4), x * 4);
+      x++;
+      shift = 0;
+    }
+    offset += 4;
+  }
+  return offset;
+}
+
+// Float32 -> IEEE half bits (round to nearest, overflow clamped to the largest half)
+const floatView = new Float32Array(1);
+const intView = new Uint32Array(floatView.buffer);
+function toHalfFloat(value: number): number {
+  floatView[0] = Math.min(value, MAX_HALF_FLOAT);
+  const bits = intView[0];
+  const sign = (bits >> 16) & 0x8000;
+  const exponent = (bits >> 23) & 0xff;
+  const mantissa = bits & 0x7fffff;
+
+  if (exponent < 103) return sign; // Too small - zero
+  if (exponent < 113) {            // Subnormal half
+    const full = mantissa | 0x800000;
+    return sign | ((full >> (126 - exponent)) + ((full >> (125 - exponent)) & 1));
+  }
+  const half = sign | ((exponent - 112) << 10) | (mantissa >> 13);
+  return half + ((mantissa >> 12) & 1); // Rounding may carry into the exponent, still a valid half
+}
+
+/**
+ * Loads sky boxes for IBL and caches them per URL. LDR images go through PIXI.Texture.from; Radiance .hdr files are
+ * parsed and uploaded as half-float (WebGL2), float (WebGL1 with float + linear filtering extensions) or
+ * RGBM-encoded RGBA8 otherwise, so the shader always receives radiance above 1.0.
+ * Every map is prefiltered into the IBL atlas once loaded - the cache holds the baked result.
+ */
+export class EnvironmentMapLoader {
+  private readonly cache = new Map<string, Promise<EnvironmentMap>>();
+  private readonly renderer: PIXI.IRenderer;
+
+  constructor(renderer: PIXI.IRenderer) {
+    this.renderer = renderer;
+  }
+
+  load(url: string): Promise<EnvironmentMap> {
+    let pending = this.cache.get(url);
+    if (!pending) {
+      pending = (isHDRPath(url) ? this.loadHDR(url) : this.loadImage(url)).then(map => this.prefilter(map));
+      pending.catch(() => this.cache.delete(url)); // Let a later request retry
+      this.cache.set(url, pending);
+    }
+    return pending;
+  }
+
+  /** Float texture format the current context can sample with linear filtering */
+  get hdrFormat(): 'half' | 'float' | 'rgbm' {
+    if (!(this.renderer instanceof PIXI.Renderer)) return 'rgbm';
+    if (this.renderer.context.webGLVersion === 2) return 'half'; // RGBA16F is always filterable in WebGL2
+    const gl = this.renderer.gl;
+    return gl.getExtension('OES_texture_float') && gl.getExtension('OES_texture_float_linear') ? 'float' : 'rgbm';
+  }
+
+  // The bake reads the sky box on the GPU, so wait for the image instead of handing out a texture still loading
+  private async loadImage(url: string): Promise<Omit<EnvironmentMap, 'prefiltered'>> {
+    const texture = PIXI.Texture.from(url);
+    const baseTexture = texture.baseTexture;
+    if (!baseTexture.valid) {
+      await new Promise<void>((resolve, reject) => {
+        baseTexture.once('loaded', () => resolve());
+        baseTexture.once('error', (_: PIXI.BaseTexture, event: ErrorEvent) => reject(event));
+      });
+    }
+    return { url, texture, encoding: 'direct', hdr: false, format: 'image' };
+  }
+
+  private prefilter(map: Omit<EnvironmentMap, 'prefiltered'>): EnvironmentMap {
+    const startTime = performance.now();
+    const prefiltered = prefilterEnvironmentMap(this.renderer, map.texture, ENVIRONMENT_ENCODING_CODES[map.encoding]);
+    console.log(`🔮 Environment map prefiltered: ${map.url} (${(performance.now() - startTime).toFixed(1)}ms)`);
+    return { ...map, prefiltered };
+  }
+
+  private async loadHDR(url: string): Promise<Omit<EnvironmentMap, 'prefiltered'>> {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    const image = parseRGBE(await response.arrayBuffer());
+
+    const format = this.hdrFormat;
+    const options = {
+      width: image.width,
+      height: image.height,
+      format: PIXI.FORMATS.RGBA,
+      scaleMode: PIXI.SCALE_MODES.LINEAR,
+      mipmap: PIXI.MIPMAP_MODES.OFF,
+      wrapMode: PIXI.WRAP_MODES.CLAMP,
+      alphaMode: PIXI.ALPHA_MODES.NPM, // RGBM keeps its multiplier in alpha - never premultiply
+    };
+
+    let baseTexture: PIXI.BaseTexture;
+    const pixelCount = image.width * image.height;
+    const data = image.data;
+    if (format === 'rgbm') {
+      const encoded = new Uint8Array(pixelCount * 4);
+      for (let i = 0; i < pixelCount; i++) {
+        const r = Math.pow(data[i * 4], 1 / ENVIRONMENT_GAMMA);
+        const g = Math.pow(data[i * 4 + 1], 1 / ENVIRONMENT_GAMMA);
+        const b = Math.pow(data[i * 4 + 2], 1 / ENVIRONMENT_GAMMA);
+        // Smallest multiplier that fits the brightest channel, rounded up so rgb stays <= 1
+        const multiplier = Math.ceil(Math.min(Math.max(r, g, b, 1e-6) / ENVIRONMENT_RGBM_RANGE, 1) * 255) / 255;
+        const scale = 255 / (Math.max(multiplier, 1 / 255) * ENVIRONMENT_RGBM_RANGE);
+        encoded[i * 4] = Math.min(255, Math.round(r * scale));
+        encoded[i * 4 + 1] = Math.min(255, Math.round(g * scale));
+        encoded[i * 4 + 2] = Math.min(255, Math.round(b * scale));
+        encoded[i * 4 + 3] = Math.max(1, Math.round(multiplier * 255));
+      }
+      baseTexture = PIXI.BaseTexture.fromBuffer(encoded, image.width, image.height, { ...options, type: PIXI.TYPES.UNSIGNED_BYTE });
+    } else {
+      const encoded = format === 'half' ? new Uint16Array(pixelCount * 4) : new Float32Array(pixelCount * 4);
+      for (let i = 0; i < pixelCount * 4; i++) {
+        const value = (i & 3) === 3 ? 1 : Math.pow(data[i], 1 / ENVIRONMENT_GAMMA);
+        encoded[i] = format === 'half' ? toHalfFloat(value) : value;
+      }
+      baseTexture = PIXI.BaseTexture.fromBuffer(encoded, image.width, image.height, {
+        ...options,
+        type: format === 'half' ? PIXI.TYPES.HALF_FLOAT : PIXI.TYPES.FLOAT,
+      });
+    }
+
+    console.log(`🌅 HDR environment map loaded: ${url} (${image.width}×${image.height}, ${format})`);
+    return {
+      url,
+      texture: new PIXI.Texture(baseTexture),
+      encoding: format === 'rgbm' ? 'rgbm' : 'direct',
+      hdr: true,
+      format,
+    };
+  }
+
+  destroy() {
+    this.cache.forEach(pending => pending.then(map => {
+      map.prefiltered.destroy(true);
+      if (map.hdr) map.texture.destroy(true); // Image textures live in PIXI's shared texture cache
+    }).catch(() => undefined));
+    this.cache.clear();
+  }
+}
+
+/** IBL sampler uniforms - the prefiltered atlas, or plain WHITE when no map is ready (or IBL is off) */
+export function getEnvironmentMapUniforms(map: EnvironmentMap | null): Record<string, any> {
+  return {
+    uEnvironmentMap: map ? map.prefiltered : PIXI.Texture.WHITE,
+    uEnvironmentPrefiltered: !!map,
+  };
+}
+
+// Sky box adjustments shared by the sprite IBL and the background, in IBLConfig units
+export interface EnvironmentAdjustments {
+  rotation?: number; // Degrees
+  tint?: { r: number; g: number; b: number };
+  exposure?: number; // Stops
+}
+
+/** Rotation / tint / exposure uniforms - MUST match uIBLRotation, uIBLTint and uIBLExposure in fragment.glsl */
+export function getEnvironmentAdjustmentUniforms(adjustments: EnvironmentAdjustments | undefined): Record<string, any> {
+  const tint = adjustments?.tint ?? { r: 1, g: 1, b: 1 };
+  return {
+    uIBLRotation: ((adjustments?.rotation ?? 0) * Math.PI) / 180,
+    uIBLTint: [tint.r, tint.g, tint.b],
+    uIBLExposure: adjustments?.exposure ?? 0, // 0 is valid (as loaded)
+  };
+}
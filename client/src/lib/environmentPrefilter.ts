@@ -0,0 +1,69 @@
+import * as PIXI from 'pixi.js';
+import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import environmentPrefilterSource from '../shaders/environmentPrefilter.glsl?raw';
+import environmentIrradianceSource from '../shaders/environmentIrradiance.glsl?raw';
+
+// IBL atlas layout - MUST match sampleSpecularEnvironment / sampleIrradiance in fragment.glsl
+//   Specular level i (roughness i / (LEVELS - 1)) sits in the left column: x 0, y SIZE - SIZE / 2^i,
+//   SIZE / 2^i × SIZE / 2^(i + 1) - each level is half the previous one, like a mip chain stacked downwards
+//   Irradiance sits right of level 1 at ENVIRONMENT_IRRADIANCE_RECT
+// One RGBA8 texture holds everything (RGBM encoded) so IBL keeps using the single uEnvironmentMap sampler
+export const ENVIRONMENT_ATLAS_SIZE = 256;
+export const ENVIRONMENT_SPECULAR_LEVELS = 5;
+export const ENVIRONMENT_IRRADIANCE_RECT = { x: 128, y: 128, width: 32, height: 16 };
+
+interface AtlasRegion {
+  rect: { x: number; y: number; width: number; height: number };
+  fragment: string;
+  uniforms: Record<string, any>;
+}
+
+/**
+ * Bakes a sky box into the IBL atlas: a GGX-convolved equirect mip chain for specular reflections and a cosine
+ * convolved irradiance map for diffuse, all on the GPU in one render. Runs once per environment map - the caller
+ * owns (and caches) the returned texture.
+ */
+export function prefilterEnvironmentMap(renderer: PIXI.IRenderer, source: PIXI.Texture, sourceEncoding: number): PIXI.RenderTexture {
+  const atlas = PIXI.RenderTexture.create({
+    width: ENVIRONMENT_ATLAS_SIZE,
+    height: ENVIRONMENT_ATLAS_SIZE,
+    scaleMode: PIXI.SCALE_MODES.LINEAR,
+  });
+
+  const regions: AtlasRegion[] = [];
+  for (let level = 0; level < ENVIRONMENT_SPECULAR_LEVELS; level++) {
+    const width = ENVIRONMENT_ATLAS_SIZE / Math.pow(2, level);
+    regions.push({
+      rect: { x: 0, y: ENVIRONMENT_ATLAS_SIZE - width, width, height: width / 2 },
+      fragment: environmentPrefilterSource,
+      uniforms: { uRoughness: level / (ENVIRONMENT_SPECULAR_LEVELS - 1) },
+    });
+  }
+  regions.push({ rect: ENVIRONMENT_IRRADIANCE_RECT, fragment: environmentIrradianceSource, uniforms: {} });
+
+  // One quad per region in atlas pixels - uv (0,0) is the top-left texel of the region
+  const container = new PIXI.Container();
+  regions.forEach(({ rect, fragment, uniforms }) => {
+    const { x, y, width, height } = rect;
+    const geometry = new PIXI.Geometry()
+      .addAttribute('aVertexPosition', [x, y, x + width, y, x + width, y + height, x, y + height], 2)
+      .addAttribute('aTextureCoord', [0, 0, 1, 0, 1, 1, 0, 1], 2)
+      .addIndex([0, 1, 2, 0, 2, 3]);
+    const shader = PIXI.Shader.from(vertexShaderSource, fragment, {
+      ...uniforms,
+      uSource: source,
+      uSourceEncoding: sourceEncoding,
+    });
+    const mesh = new PIXI.Mesh(geometry, shader);
+    mesh.state.blend = false; // RGBM alpha is the multiplier, not coverage
+    container.addChild(mesh);
+  });
+
+  renderer.render(container, { renderTexture: atlas, clear: true });
+
+  // Meshes dispose their geometry once unreferenced - the shaders are ours to free
+  container.children.forEach(child => (child as PIXI.Mesh<PIXI.Shader>).shader.destroy());
+  container.destroy({ children: true });
+
+  return atlas;
+}
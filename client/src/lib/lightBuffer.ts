@@ -0,0 +1,220 @@
+import * as PIXI from 'pixi.js';
+import { Light } from './lights';
+
+// Light buffer layout - MUST match the constants and texel fetches in fragment.glsl
+// Each light occupies one row of the float texture, LIGHT_BUFFER_TEXELS texels wide:
+//   texel 0: position.xyz, type code
+//   texel 1: color.rgb, intensity
+//   texel 2: direction.xyz, radius
+//   texel 3: cone angle, softness, casts shadows (0/1), mask slot (-1 = no mask)
+//   texel 4: mask offset.xy, mask rotation (degrees), mask scale
+//   texel 5: mask size.xy (pixels), source radius (soft shadow penumbra), unused
+//   texel 6: emitter shape - area: width, height, rotation (degrees), unused / line: end position.xyz, tube width
+// Without float textures (WebGL1 lacking OES_texture_float) the buffer is RGBA8 and every value takes one texel
+// of 16.16 fixed point (bytes low to high in rgba), so a light texel spans LIGHT_BUFFER_ENCODED_TEXELS texels
+export const MAX_SHADER_LIGHTS = 128;   // Shader loop bound (MAX_LIGHTS in fragment.glsl)
+export const LIGHT_BUFFER_TEXELS = 7;   // Texels per light row
+export const MAX_LIGHT_MASK_SLOTS = 4;  // Mask samplers (uLightMask0..3) - WebGL1 can't index sampler arrays dynamically
+export const LIGHT_BUFFER_ENCODED_TEXELS = 4; // RGBA8 texels per light texel in the fixed-point fallback
+const FIXED_POINT_ONE = 65536;          // 16 fractional bits - integer part covers -32768..32767
+
+export const LIGHT_TYPE_CODES: Record<string, number> = {
+  point: 0,
+  directional: 1,
+  spotlight: 2,
+  area: 3,
+  line: 4,
+};
+
+// Screen-space footprint of a packed light, used for tiled light culling (index = light buffer row)
+export interface LightBounds {
+  x: number;
+  y: number;
+  radius: number;
+  directional: boolean; // Directional lights have infinite reach and touch every tile
+}
+
+// Resolved per-row light data for passes that render something per light (index = light buffer row)
+export interface PackedLight {
+  type: Light['type'];
+  x: number;            // Position after followMouse
+  y: number;
+  z: number;
+  radius: number;
+  castsShadows: boolean;
+  source: Light;        // The light this row was packed from (color, cone, volumetric settings)
+}
+
+export interface LightBufferOptions {
+  maxLights: number;                 // Performance-limited light count
+  mousePos: { x: number; y: number }; // Position for followMouse lights
+  masksEnabled: boolean;             // Global light mask toggle (performance setting)
+}
+
+/** Float data textures need WebGL2 or OES_texture_float - NEAREST sampling only, so no linear filtering extension */
+export function isFloatDataTextureSupported(renderer: PIXI.IRenderer): boolean {
+  if (!(renderer instanceof PIXI.Renderer)) return false;
+  return renderer.context.webGLVersion === 2 || !!renderer.gl.getExtension('OES_texture_float');
+}
+
+/**
+ * Packs all scene lights into a float RGBA data texture that the sprite shader loops over,
+ * so the light count is a runtime value instead of a fixed set of uniform slots.
+ * Falls back to a fixed-point RGBA8 texture when the context can't upload float textures.
+ */
+export class LightBuffer {
+  private data: Float32Array;
+  private encodedData: Uint8Array | null = null; // RGBA8 fallback upload (null = float texture)
+  private baseTexture: PIXI.BaseTexture<PIXI.BufferResource>;
+  public readonly texture: PIXI.Texture;
+  public readonly encoded: boolean;
+  public lightCount = 0;
+  public lightBounds: LightBounds[] = [];
+  public packedLights: PackedLight[] = [];
+
+  constructor(renderer: PIXI.IRenderer) {
+    this.data = new Float32Array(LIGHT_BUFFER_TEXELS * MAX_SHADER_LIGHTS * 4);
+    this.encoded = !isFloatDataTextureSupported(renderer);
+    // NEAREST + no mipmaps: texels are raw data, never filtered (float linear filtering is an extension anyway)
+    const options = {
+      format: PIXI.FORMATS.RGBA,
+      scaleMode: PIXI.SCALE_MODES.NEAREST,
+      mipmap: PIXI.MIPMAP_MODES.OFF,
+      wrapMode: PIXI.WRAP_MODES.CLAMP,
+    };
+    if (this.encoded) {
+      console.warn('⚠️ Float textures not supported - light buffer falls back to fixed-point RGBA8');
+      this.encodedData = new Uint8Array(this.data.length * LIGHT_BUFFER_ENCODED_TEXELS);
+      this.baseTexture = PIXI.BaseTexture.fromBuffer(this.encodedData, LIGHT_BUFFER_TEXELS * LIGHT_BUFFER_ENCODED_TEXELS, MAX_SHADER_LIGHTS, {
+        ...options,
+        type: PIXI.TYPES.UNSIGNED_BYTE,
+        alphaMode: PIXI.ALPHA_MODES.NPM, // Bytes are data - never premultiply
+      });
+    } else {
+      this.baseTexture = PIXI.BaseTexture.fromBuffer(this.data, LIGHT_BUFFER_TEXELS, MAX_SHADER_LIGHTS, {
+        ...options,
+        type: PIXI.TYPES.FLOAT,
+      });
+    }
+    this.texture = new PIXI.Texture(this.baseTexture);
+  }
+
+  /**
+   * Repacks the buffer from the current lights and returns the shader uniforms to apply.
+   * Ambient lights are handled by uAmbientLight; disabled point/spot lights are skipped entirely.
+   */
+  update(lights: Light[], options: LightBufferOptions): Record<string, any> {
+    // Directional lights are always on (like ambient) - intensity 0 disables them
+    const activeLights = lights
+      .filter(light => LIGHT_TYPE_CODES[light.type] !== undefined)
+      .filter(light => light.type === 'directional' || light.enabled)
+      .slice(0, Math.min(options.maxLights, MAX_SHADER_LIGHTS));
+
+    // Assign mask slots - lights sharing an image share a slot
+    const maskSlots: string[] = [];
+    const maskTextures: PIXI.Texture[] = [];
+
+    this.data.fill(0);
+    this.lightBounds = [];
+    this.packedLights = [];
+    activeLights.forEach((light, index) => {
+      const offset = index * LIGHT_BUFFER_TEXELS * 4;
+      const position = light.followMouse ? { ...options.mousePos, z: light.position.z } : light.position;
+      const direction = light.direction || { x: 0, y: 0, z: -1 };
+      const radius = light.radius || (light.type === 'spotlight' ? 150 : 200);
+      const shape = this.packShape(light, position);
+
+      let maskSlot = -1;
+      let maskTexture: PIXI.Texture | null = null;
+      // Masks project from a single point - point and spot lights only
+      if (light.mask && options.masksEnabled && (light.type === 'point' || light.type === 'spotlight')) {
+        maskSlot = maskSlots.indexOf(light.mask.image);
+        if (maskSlot === -1 && maskSlots.length < MAX_LIGHT_MASK_SLOTS) {
+          maskSlot = maskSlots.length;
+          maskSlots.push(light.mask.image);
+          maskTextures.push(PIXI.Texture.from(`/light_masks/${light.mask.image}`));
+        } else if (maskSlot === -1) {
+          console.warn(`Light mask slots exhausted (${MAX_LIGHT_MASK_SLOTS}) - ${light.id} rendered without mask`);
+        }
+        maskTexture = maskSlot >= 0 ? maskTextures[maskSlot] : null;
+      }
+
+      this.data.set([
+        position.x, position.y, position.z, LIGHT_TYPE_CODES[light.type],
+        light.color.r, light.color.g, light.color.b, light.intensity,
+        direction.x, direction.y, direction.z, radius,
+        light.coneAngle || 30, light.softness || 0.5, light.castsShadows ? 1 : 0, maskSlot,
+        light.mask?.offset.x || 0, light.mask?.offset.y || 0, light.mask?.rotation || 0, light.mask?.scale || 1,
+        maskTexture?.width || 1, maskTexture?.height || 1, light.sourceRadius || 0, 0,
+        ...shape.texel,
+      ], offset);
+
+      // Area/line lights reach `radius` beyond their emitter - cull against the shape's bounding circle
+      this.lightBounds.push({ x: shape.center.x, y: shape.center.y, radius: radius + shape.extent, directional: light.type === 'directional' });
+      this.packedLights.push({ type: light.type, x: position.x, y: position.y, z: position.z, radius, castsShadows: !!light.castsShadows, source: light });
+    });
+
+    this.lightCount = activeLights.length;
+    if (this.encodedData) {
+      this.encodeFixedPoint(this.encodedData);
+    }
+    this.baseTexture.resource.update();
+
+    const uniforms: Record<string, any> = {
+      uLightBuffer: this.texture,
+      uLightBufferSize: [this.baseTexture.width, MAX_SHADER_LIGHTS],
+      uLightBufferEncoded: this.encoded,
+      uLightCount: this.lightCount,
+    };
+    for (let slot = 0; slot < MAX_LIGHT_MASK_SLOTS; slot++) {
+      uniforms[`uLightMask${slot}`] = maskTextures[slot] || PIXI.Texture.WHITE;
+    }
+    return uniforms;
+  }
+
+  // Emitter shape texel plus the shape's bounding circle (centre, extent beyond centre) for tile culling
+  private packShape(light: Light, position: { x: number; y: number; z: number }) {
+    if (light.type === 'area') {
+      const width = light.width || 160;
+      const height = light.height || 40;
+      return {
+        texel: [width, height, light.rotation || 0, 0],
+        center: { x: position.x, y: position.y },
+        extent: Math.hypot(width, height) / 2,
+      };
+    }
+    if (light.type === 'line') {
+      // followMouse moves the whole tube - keep the end point's offset from the start
+      const end = light.endPosition || { x: light.position.x + 160, y: light.position.y, z: light.position.z };
+      const endPosition = {
+        x: end.x + position.x - light.position.x,
+        y: end.y + position.y - light.position.y,
+        z: end.z,
+      };
+      const width = light.width || 12;
+      return {
+        texel: [endPosition.x, endPosition.y, endPosition.z, width],
+        center: { x: (position.x + endPosition.x) / 2, y: (position.y + endPosition.y) / 2 },
+        extent: Math.hypot(endPosition.x - position.x, endPosition.y - position.y) / 2 + width / 2,
+      };
+    }
+    return { texel: [0, 0, 0, 0], center: { x: position.x, y: position.y }, extent: 0 };
+  }
+
+  // 16.16 fixed point, offset so negatives stay unsigned - decodeLightValue in fragment.glsl reverses it
+  private encodeFixedPoint(target: Uint8Array) {
+    const range = 32768 * FIXED_POINT_ONE;
+    this.data.forEach((value, index) => {
+      const fixed = Math.min(Math.max(Math.round(value * FIXED_POINT_ONE) + range, 0), range * 2 - 1);
+      const offset = index * 4;
+      target[offset] = fixed % 256;
+      target[offset + 1] = Math.floor(fixed / 256) % 256;
+      target[offset + 2] = Math.floor(fixed / 65536) % 256;
+      target[offset + 3] = Math.floor(fixed / 16777216);
+    });
+  }
+
+  destroy() {
+    this.texture.destroy(true);
+  }
+}
@@ -0,0 +1,146 @@
+import * as PIXI from 'pixi.js';
+import { LightBounds, isFloatDataTextureSupported } from './lightBuffer';
+
+// Tile grid layout - MUST match the constants and texel fetches in fragment.glsl
+// Each tile occupies LIGHT_TILE_TEXELS consecutive texels of its tile row:
+//   texel 0:     light count (r), unused
+//   texels 1..N: light buffer indices, 4 per texel (rgba)
+export const LIGHT_TILE_SIZE = 32;                                // Tile edge in canvas pixels
+export const MAX_LIGHTS_PER_TILE = 32;                            // Shader loop bound (MAX_LIGHTS_PER_TILE in fragment.glsl)
+export const LIGHT_TILE_TEXELS = 1 + MAX_LIGHTS_PER_TILE / 4;     // Header texel + packed indices
+
+// Per-tile culling results for the performance monitor and heat-map overlay
+export interface LightTileStats {
+  tileSize: number;
+  tilesX: number;
+  tilesY: number;
+  counts: number[];            // Lights touching each tile (row-major, before clamping to MAX_LIGHTS_PER_TILE)
+  maxLightsPerTile: number;
+  averageLightsPerTile: number;
+  overflowTiles: number;       // Tiles with more than MAX_LIGHTS_PER_TILE lights (extra lights are dropped)
+  lightCount: number;
+}
+
+/**
+ * CPU-built screen-space tile grid. Each tile stores the light buffer indices of the lights whose
+ * radius touches it, so the fragment shader only evaluates lights relevant to its own tile.
+ * Needs float data textures - without them `supported` is false and callers keep the full light loop.
+ */
+export class LightTileGrid {
+  public readonly tilesX: number;
+  public readonly tilesY: number;
+  public readonly supported: boolean;
+  public stats: LightTileStats;
+  private data: Float32Array;
+  private baseTexture: PIXI.BaseTexture<PIXI.BufferResource> | null = null;
+  public readonly texture: PIXI.Texture;
+
+  constructor(renderer: PIXI.IRenderer, canvasWidth: number, canvasHeight: number, public readonly tileSize: number = LIGHT_TILE_SIZE) {
+    this.tilesX = Math.ceil(canvasWidth / tileSize);
+    this.tilesY = Math.ceil(canvasHeight / tileSize);
+    this.data = new Float32Array(this.tilesX * LIGHT_TILE_TEXELS * this.tilesY * 4);
+    this.stats = this.createStats(new Array(this.tilesX * this.tilesY).fill(0), 0);
+    this.supported = isFloatDataTextureSupported(renderer);
+    if (!this.supported) {
+      console.warn('⚠️ Float textures not supported - tiled light culling disabled, every pixel loops over all lights');
+      this.texture = PIXI.Texture.EMPTY; // uLightTileBuffer still needs a binding
+      return;
+    }
+    this.baseTexture = PIXI.BaseTexture.fromBuffer(this.data, this.tilesX * LIGHT_TILE_TEXELS, this.tilesY, {
+      format: PIXI.FORMATS.RGBA,
+      type: PIXI.TYPES.FLOAT,
+      scaleMode: PIXI.SCALE_MODES.NEAREST,
+      mipmap: PIXI.MIPMAP_MODES.OFF,
+      wrapMode: PIXI.WRAP_MODES.CLAMP,
+    });
+    this.texture = new PIXI.Texture(this.baseTexture);
+  }
+
+  /**
+   * Rebuilds the per-tile light lists from the packed light bounds and returns the shader uniforms.
+   * Point/spot lights are culled by their radius circle (conservative for spot cones and light height).
+   */
+  update(lights: LightBounds[]): Record<string, any> {
+    if (!this.baseTexture) {
+      return { uLightTileBuffer: this.texture }; // Callers keep uTiledLightingEnabled off
+    }
+
+    const counts: number[] = new Array(this.tilesX * this.tilesY).fill(0);
+    this.data.fill(0);
+
+    lights.forEach((light, lightIndex) => {
+      // Tile range covered by the light's bounding square
+      const minTileX = light.directional ? 0 : Math.max(0, Math.floor((light.x - light.radius) / this.tileSize));
+      const maxTileX = light.directional ? this.tilesX - 1 : Math.min(this.tilesX - 1, Math.floor((light.x + light.radius) / this.tileSize));
+      const minTileY = light.directional ? 0 : Math.max(0, Math.floor((light.y - light.radius) / this.tileSize));
+      const maxTileY = light.directional ? this.tilesY - 1 : Math.min(this.tilesY - 1, Math.floor((light.y + light.radius) / this.tileSize));
+
+      for (let tileY = minTileY; tileY <= maxTileY; tileY++) {
+        for (let tileX = minTileX; tileX <= maxTileX; tileX++) {
+          if (!light.directional && !this.circleTouchesTile(light, tileX, tileY)) continue;
+
+          const tileIndex = tileY * this.tilesX + tileX;
+          const slot = counts[tileIndex]++;
+          if (slot >= MAX_LIGHTS_PER_TILE) continue; // Overflow - reported in stats
+
+          // Index texel: 1 + slot / 4, component slot % 4
+          this.data[this.texelOffset(tileX, tileY, 1 + Math.floor(slot / 4)) + (slot % 4)] = lightIndex;
+        }
+      }
+    });
+
+    // Header texel: clamped light count
+    counts.forEach((count, tileIndex) => {
+      const tileX = tileIndex % this.tilesX;
+      const tileY = Math.floor(tileIndex / this.tilesX);
+      this.data[this.texelOffset(tileX, tileY, 0)] = Math.min(count, MAX_LIGHTS_PER_TILE);
+    });
+
+    this.baseTexture.resource.update();
+    this.stats = this.createStats(counts, lights.length);
+
+    return {
+      uLightTileBuffer: this.texture,
+      uLightTileBufferSize: [this.tilesX * LIGHT_TILE_TEXELS, this.tilesY],
+      uLightTileGrid: [this.tilesX, this.tilesY],
+      uLightTileSize: this.tileSize,
+    };
+  }
+
+  destroy() {
+    if (this.baseTexture) {
+      this.texture.destroy(true);
+    }
+  }
+
+  // Float offset of a tile's texel in the data array
+  private texelOffset(tileX: number, tileY: number, texel: number): number {
+    const rowWidth = this.tilesX * LIGHT_TILE_TEXELS;
+    return (tileY * rowWidth + tileX * LIGHT_TILE_TEXELS + texel) * 4;
+  }
+
+  // Closest point on the tile rectangle to the light centre must lie within the radius
+  private circleTouchesTile(light: LightBounds, tileX: number, tileY: number): boolean {
+    const minX = tileX * this.tileSize;
+    const minY = tileY * this.tileSize;
+    const closestX = Math.max(minX, Math.min(light.x, minX + this.tileSize));
+    const closestY = Math.max(minY, Math.min(light.y, minY + this.tileSize));
+    const dx = light.x - closestX;
+    const dy = light.y - closestY;
+    return dx * dx + dy * dy < light.radius * light.radius;
+  }
+
+  private createStats(counts: number[], lightCount: number): LightTileStats {
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    return {
+      tileSize: this.tileSize,
+      tilesX: this.tilesX,
+      tilesY: this.tilesY,
+      counts,
+      maxLightsPerTile: counts.reduce((max, count) => Math.max(max, count), 0),
+      averageLightsPerTile: counts.length > 0 ? total / counts.length : 0,
+      overflowTiles: counts.filter(count => count > MAX_LIGHTS_PER_TILE).length,
+      lightCount,
+    };
+  }
+}
@@ -1,4 +1,4 @@
-export type LightType = 'ambient' | 'point' | 'directional' | 'spotlight';
+export type LightType = 'ambient' | 'point' | 'directional' | 'spotlight' | 'area' | 'line';
 
 // Mask configuration interface
 export interface MaskConfig {
@@ -41,17 +41,44 @@ export interface LightConfig {
   radius?: number;
   coneAngle?: number;
   softness?: number;
+  width?: number; // Area: rectangle width / Line: tube thickness (pixels)
+  height?: number; // Area: rectangle height (pixels)
+  rotation?: number; // Area: rectangle rotation (degrees)
+  endPosition?: { // Line: second capsule endpoint (position is the first)
+    x: number;
+    y: number;
+    z: number;
+  };
   followMouse?: boolean;
+  parent?: string; // Sprite id the light is attached to - position/direction become relative to the sprite
   castsShadows?: boolean; // Enable/disable shadow casting for this light
+  sourceRadius?: number; // Physical emitter radius (pixels) - larger lights cast softer shadow penumbrae
+  volumetric?: boolean; // Screen-space light shafts (point, spotlight and directional lights)
+  volumetricDensity?: number; // How much light the shafts scatter (0.0 - 2.0)
+  volumetricDecay?: number; // Per-sample falloff of the shafts towards the light (0.8 - 1.0, 1 = none)
   mask?: MaskConfig; // mask configuration object
 }
 
+// Shadow ray technique: 'raymarch' steps the binary occluder map pixel by pixel, 'sdf' sphere-traces
+// a jump-flood distance field built from the same map (far fewer samples, soft edges from the closest miss),
+// 'polar' looks up a 1D polar shadow map per point/spot light (other light types fall back to 'raymarch')
+export type ShadowTechnique = 'raymarch' | 'sdf' | 'polar';
+
+// Must match SHADOW_TECHNIQUE_* constants in fragment.glsl
+export const SHADOW_TECHNIQUE_CODES: Record<ShadowTechnique, number> = {
+  raymarch: 0,
+  sdf: 1,
+  polar: 2,
+};
+
 // Shadow configuration interface
 export interface ShadowConfig {
   enabled: boolean;           // Global shadow enable/disable
   strength: number;          // Shadow opacity/darkness (0.0 - 1.0)  
   maxLength: number;         // Maximum shadow length (pixels)
   height: number;            // Shadow casting height (affects angle)
+  penumbraScale: number;     // Global multiplier for per-light sourceRadius (0 = hard shadows, 1 = physical)
+  technique: ShadowTechnique; // How shadow rays query the occluder map
   // Removed shadow sharpness and shadow bias features (bias redundant with self-interval skipping)
 }
 
@@ -70,7 +97,7 @@ export interface Light {
   type: LightType;
   enabled: boolean;
   
-  // Position (used by point and spotlight)
+  // Position (used by point, spotlight and area; line start point)
   position: {
     x: number;
     y: number;
@@ -94,13 +121,30 @@ export interface Light {
   
   // Special flags
   followMouse?: boolean;
+  parent?: string; // Sprite id the light rides on - position, direction and emitter shape follow the sprite's world transform
   castsShadows?: boolean; // Enable/disable shadow casting for this light
+  sourceRadius?: number; // Physical emitter radius (pixels) - 0 = hard shadows, larger = wider penumbra away from the caster
+  
+  // Volumetric light shafts (point, spotlight and directional only)
+  volumetric?: boolean; // Per-light enable - every shaft is a fullscreen pass, so off by default
+  volumetricDensity?: number; // Scattering strength of the medium (0.0 - 2.0)
+  volumetricDecay?: number; // Falloff along the march towards the light (0.8 - 1.0, 1 = no falloff)
   
   // Type-specific properties
   radius?: number;
   coneAngle?: number;
   softness?: number;
   
+  // Area/line emitter shape
+  width?: number; // Area: rectangle width / Line: tube thickness (pixels)
+  height?: number; // Area: rectangle height (pixels)
+  rotation?: number; // Area: rectangle rotation (degrees)
+  endPosition?: { // Line: second capsule endpoint
+    x: number;
+    y: number;
+    z: number;
+  };
+  
   // Mask properties
   mask?: MaskConfig; // mask configuration object
 }
@@ -122,6 +166,7 @@ export const createDefaultLight = (type: LightType, id?: string): Light => {
       return {
         ...baseLight,
         radius: 200,
+        sourceRadius: 10,
       };
       
     case 'directional':
@@ -139,6 +184,30 @@ export const createDefaultLight = (type: LightType, id?: string): Light => {
         coneAngle: 30,
         softness: 0.5,
         intensity: 2.0,
+        sourceRadius: 6,
+      };
+      
+    case 'area':
+      // Window / light panel: rectangle centred on position, parallel to the sprite plane
+      return {
+        ...baseLight,
+        position: { x: 200, y: 150, z: 60 },
+        radius: 250,
+        width: 160,
+        height: 40,
+        rotation: 0,
+        intensity: 1.5,
+      };
+      
+    case 'line':
+      // Fluorescent tube / light strip: capsule from position to endPosition
+      return {
+        ...baseLight,
+        position: { x: 120, y: 150, z: 50 },
+        endPosition: { x: 280, y: 150, z: 50 },
+        radius: 200,
+        width: 12,
+        intensity: 1.5,
       };
       
     default:
@@ -192,9 +261,16 @@ export const convertConfigToLight = (config: LightConfig): Light => {
     color: (config as any).color?.r !== undefined ? (config as any).color : hexToRgb(config.color as string),
     intensity: (config as any).intensity || config.brightness || 1,
     followMouse: config.followMouse,
-    castsShadows: config.castsShadows !== undefined ? config.castsShadows : true // Default to true
+    parent: config.parent,
+    castsShadows: config.castsShadows !== undefined ? config.castsShadows : true, // Default to true
+    sourceRadius: config.sourceRadius || 0 // Point-sized light (hard shadows) when not configured
   };
 
+  // Volumetric shafts stay off unless configured
+  if (config.volumetric !== undefined) light.volumetric = config.volumetric;
+  if (config.volumetricDensity !== undefined) light.volumetricDensity = config.volumetricDensity;
+  if (config.volumetricDecay !== undefined) light.volumetricDecay = config.volumetricDecay;
+
   // Handle directional light angle conversion
   if (config.type === 'directional' && config.angle !== undefined) {
     const direction = angleToDirection(config.angle);
@@ -205,6 +281,16 @@ export const convertConfigToLight = (config: LightConfig): Light => {
   if (config.radius !== undefined) light.radius = config.radius;
   if (config.coneAngle !== undefined) light.coneAngle = config.coneAngle;
   if (config.softness !== undefined) light.softness = config.softness;
+  if (config.width !== undefined) light.width = config.width;
+  if (config.height !== undefined) light.height = config.height;
+  if (config.rotation !== undefined) light.rotation = config.rotation;
+  if (config.endPosition !== undefined) {
+    light.endPosition = {
+      x: config.endPosition.x || 0,
+      y: config.endPosition.y || 0,
+      z: config.endPosition.z || 0
+    };
+  }
   if (config.mask !== undefined) {
     if (typeof config.mask === 'string') {
       // Handle legacy string format
@@ -322,7 +408,7 @@ export const convertLightToConfig = (light: Light): LightConfig => {
   };
 
   // Add position properties if relevant
-  if (light.type === 'point' || light.type === 'spotlight') {
+  if (light.type === 'point' || light.type === 'spotlight' || light.type === 'area' || light.type === 'line') {
     config.position = {
       x: light.position.x,
       y: light.position.y,
@@ -341,10 +427,24 @@ export const convertLightToConfig = (light: Light): LightConfig => {
 
   // Add type-specific properties
   if (light.followMouse !== undefined) config.followMouse = light.followMouse;
+  if (light.parent) config.parent = light.parent;
   if (light.castsShadows !== undefined) config.castsShadows = light.castsShadows;
+  if (light.sourceRadius !== undefined) config.sourceRadius = light.sourceRadius;
+  if (light.volumetric !== undefined) config.volumetric = light.volumetric;
+  if (light.volumetricDensity !== undefined) config.volumetricDensity = light.volumetricDensity;
+  if (light.volumetricDecay !== undefined) config.volumetricDecay = light.volumetricDecay;
   if (light.radius !== undefined) config.radius = light.radius;
   if (light.coneAngle !== undefined) config.coneAngle = light.coneAngle;
   if (light.softness !== undefined) config.softness = light.softness;
+  if (light.type === 'area') {
+    config.width = light.width;
+    config.height = light.height;
+    config.rotation = light.rotation;
+  }
+  if (light.type === 'line') {
+    config.width = light.width;
+    config.endPosition = light.endPosition ? { ...light.endPosition } : undefined;
+  }
   if (light.mask !== undefined) config.mask = light.mask;
 
   return config;
@@ -0,0 +1,197 @@
+import * as PIXI from 'pixi.js';
+import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import ssrSurfaceSource from '../shaders/ssrSurface.glsl?raw';
+import ssrCompositeSource from '../shaders/ssrComposite.glsl?raw';
+import planarReflectionSource from '../shaders/planarReflection.glsl?raw';
+
+// Surface map layout - MUST match ssrSurface.glsl and the decode in ssrComposite.glsl
+//   RG = rotated normal.xy * 0.5 + 0.5
+//   B  = smoothness (high nibble) and metallic (low nibble)
+//   A  = back-to-front rank of the owning sprite / 255, 0 = no sprite
+export const MAX_REFLECTION_SURFACES = 255; // Rank is stored in an 8-bit channel
+
+export interface ReflectionSettings {
+  intensity: number;
+  normalInfluence: number;
+  blur: number;
+}
+
+// Planar reflector settings in view pixels (sprite-relative horizon already resolved and taken through the camera by the caller)
+export interface PlanarReflectionSettings {
+  horizonY: number;
+  intensity: number;
+  distortion: number;
+  fadeDistance: number;
+}
+
+// Material of one sprite, read from its forward shader uniforms by the caller
+export interface ReflectionSurface {
+  id: string;
+  geometry: PIXI.Geometry;
+  uniforms: Record<string, any>;
+  planar?: PlanarReflectionSettings; // Set for reflectiveSurface sprites
+}
+
+/**
+ * Screen-space reflections: a surface pass records normal, smoothness, metallic and sprite rank per screen pixel,
+ * the lit stage is rendered into sceneTexture, and a fullscreen composite draws it to the screen with smooth sprites
+ * reflecting the sprites above them. Planar reflectors are drawn on top, each mirroring sceneTexture about its own
+ * horizon line. Only what is already on screen can be reflected.
+ */
+export class ScreenSpaceReflections {
+  public readonly sceneTexture: PIXI.RenderTexture;
+  public readonly surfaceTexture: PIXI.RenderTexture;
+  private readonly surfaceContainer = new PIXI.Container();
+  private readonly surfaceMeshes = new Map<string, PIXI.Mesh<PIXI.Shader>>();
+  private readonly planarContainer = new PIXI.Container();
+  private readonly planarMeshes = new Map<string, PIXI.Mesh<PIXI.Shader>>();
+  private readonly compositeQuad: PIXI.Mesh<PIXI.Shader>;
+
+  // type = HALF_FLOAT keeps lighting above 1.0 for the tone mapping resolve (lib/toneMapping.ts)
+  constructor(width: number, height: number, type: PIXI.TYPES = PIXI.TYPES.UNSIGNED_BYTE) {
+    this.sceneTexture = PIXI.RenderTexture.create({ width, height, format: PIXI.FORMATS.RGBA, type });
+    // NEAREST - interpolating packed material bytes or sprite ranks produces garbage
+    this.surfaceTexture = PIXI.RenderTexture.create({ width, height, scaleMode: PIXI.SCALE_MODES.NEAREST });
+    this.surfaceContainer.sortableChildren = true;
+
+    const shader = PIXI.Shader.from(vertexShaderSource, ssrCompositeSource, {
+      uSceneTexture: this.sceneTexture,
+      uSurfaceMap: this.surfaceTexture,
+      uMapSize: [width, height],
+    });
+    // Fullscreen quad in canvas pixels - uv (0,0) is the top-left texel of both targets
+    const geometry = new PIXI.Geometry()
+      .addAttribute('aVertexPosition', [0, 0, width, 0, width, height, 0, height], 2)
+      .addAttribute('aTextureCoord', [0, 0, 1, 0, 1, 1, 0, 1], 2)
+      .addIndex([0, 1, 2, 0, 2, 3]);
+    this.compositeQuad = new PIXI.Mesh(geometry, shader);
+    this.compositeQuad.state.blend = false; // Opaque - the scene texture already holds the background
+  }
+
+  /**
+   * Renders one frame with reflections: surface pass, stage into sceneTexture, composite to the screen, planar
+   * reflectors on top. Surfaces must be ordered back to front (their draw order on the stage).
+   * view = the camera's world-to-view transform - surface geometry is in world space, the targets in view space.
+   * settings = null skips the screen-space reflections (planar reflectors only).
+   * target = the HDR scene target when tone mapping is on, the screen otherwise.
+   */
+  render(renderer: PIXI.IRenderer, stage: PIXI.Container, surfaces: ReflectionSurface[], view: PIXI.Matrix, settings: ReflectionSettings | null, target?: PIXI.RenderTexture) {
+    const ranked = surfaces.slice(0, MAX_REFLECTION_SURFACES);
+    this.surfaceContainer.transform.setFromMatrix(view);
+    this.planarContainer.transform.setFromMatrix(view);
+    this.renderSurfaces(renderer, ranked);
+
+    // Same background as a direct render - render textures clear to transparent by default
+    this.sceneTexture.baseTexture.clearColor = renderer.background.color;
+    renderer.render(stage, { renderTexture: this.sceneTexture, clear: true });
+
+    Object.assign(this.compositeQuad.shader.uniforms, {
+      uIntensity: settings?.intensity ?? 0, // 0 = plain copy of the scene
+      uNormalInfluence: settings?.normalInfluence ?? 0,
+      uBlur: settings?.blur ?? 0,
+    });
+    renderer.render(this.compositeQuad, { renderTexture: target, clear: true });
+
+    this.renderPlanarReflectors(renderer, ranked, target);
+  }
+
+  // Pooled mesh per sprite, sharing the visual sprite's world-space geometry like the G-buffer pass
+  private renderSurfaces(renderer: PIXI.IRenderer, surfaces: ReflectionSurface[]) {
+    this.surfaceContainer.removeChildren();
+
+    surfaces.forEach((surface, rank) => {
+      let mesh = this.surfaceMeshes.get(surface.id);
+      if (!mesh) {
+        mesh = new PIXI.Mesh(surface.geometry, PIXI.Shader.from(vertexShaderSource, ssrSurfaceSource, {}));
+        mesh.state.blend = false; // Packed bytes - the topmost sprite overwrites the texel
+        this.surfaceMeshes.set(surface.id, mesh);
+      }
+
+      const uniforms = surface.uniforms;
+      mesh.geometry = surface.geometry;
+      mesh.zIndex = rank;
+      Object.assign(mesh.shader.uniforms, {
+        uDiffuse: uniforms.uDiffuse,
+        uNormal: uniforms.uNormal,
+        uMetallic: uniforms.uMetallic,
+        uSmoothness: uniforms.uSmoothness,
+        uMetallicChannel: uniforms.uMetallicChannel,
+        uSmoothnessChannel: uniforms.uSmoothnessChannel,
+        uUseNormalMap: uniforms.uUseNormalMap,
+        uMetallicValue: uniforms.uMetallicValue,
+        uSmoothnessValue: uniforms.uSmoothnessValue,
+        uRotation: uniforms.uRotation,
+        uSurfaceDepth: (rank + 1) / 255,
+        uPlanarReflector: !!surface.planar, // Planar reflectors get their reflection from the planar pass only
+      });
+      this.surfaceContainer.addChild(mesh);
+    });
+
+    ScreenSpaceReflections.prunePool(this.surfaceMeshes, surfaces);
+    renderer.render(this.surfaceContainer, { renderTexture: this.surfaceTexture, clear: true });
+  }
+
+  // One mesh per reflective sprite, blended over the composited frame. Each samples the mirror image of sceneTexture
+  // about its horizon and only draws where the surface map says the sprite is the visible one
+  private renderPlanarReflectors(renderer: PIXI.IRenderer, surfaces: ReflectionSurface[], target?: PIXI.RenderTexture) {
+    this.planarContainer.removeChildren();
+    const reflectors = surfaces.filter(surface => surface.planar);
+
+    surfaces.forEach((surface, rank) => {
+      const planar = surface.planar;
+      if (!planar) return;
+
+      let mesh = this.planarMeshes.get(surface.id);
+      if (!mesh) {
+        mesh = new PIXI.Mesh(surface.geometry, PIXI.Shader.from(vertexShaderSource, planarReflectionSource, {
+          uSceneTexture: this.sceneTexture,
+          uSurfaceMap: this.surfaceTexture,
+          uMapSize: [this.sceneTexture.width, this.sceneTexture.height],
+        }));
+        this.planarMeshes.set(surface.id, mesh);
+      }
+
+      const uniforms = surface.uniforms;
+      mesh.geometry = surface.geometry;
+      Object.assign(mesh.shader.uniforms, {
+        uNormal: uniforms.uNormal,
+        uUseNormalMap: uniforms.uUseNormalMap,
+        uRotation: uniforms.uRotation,
+        uSurfaceDepth: (rank + 1) / 255,
+        uHorizonY: planar.horizonY,
+        uIntensity: planar.intensity,
+        uDistortion: planar.distortion,
+        uFadeDistance: planar.fadeDistance,
+      });
+      this.planarContainer.addChild(mesh);
+    });
+
+    ScreenSpaceReflections.prunePool(this.planarMeshes, reflectors);
+    if (reflectors.length > 0) {
+      renderer.render(this.planarContainer, { renderTexture: target, clear: false });
+    }
+  }
+
+  // Drop pooled meshes of sprites that are no longer drawn (the shared geometry stays with the sprite)
+  private static prunePool(pool: Map<string, PIXI.Mesh<PIXI.Shader>>, surfaces: ReflectionSurface[]) {
+    const liveIds = new Set(surfaces.map(surface => surface.id));
+    pool.forEach((mesh, id) => {
+      if (!liveIds.has(id)) {
+        mesh.shader.destroy();
+        mesh.destroy();
+        pool.delete(id);
+      }
+    });
+  }
+
+  destroy() {
+    ScreenSpaceReflections.prunePool(this.surfaceMeshes, []);
+    ScreenSpaceReflections.prunePool(this.planarMeshes, []);
+    this.surfaceContainer.destroy();
+    this.planarContainer.destroy();
+    this.compositeQuad.shader.destroy();
+    this.compositeQuad.destroy();
+    this.sceneTexture.destroy(true);
+    this.surfaceTexture.destroy(true);
+  }
+}
@@ -0,0 +1,149 @@
+import * as PIXI from 'pixi.js';
+import { MAX_SHADER_LIGHTS, PackedLight } from './lightBuffer';
+import { Camera } from './camera';
+import shadowAtlasVertexSource from '../shaders/shadowAtlasVertex.glsl?raw';
+import shadowAtlasFragmentSource from '../shaders/shadowAtlasFragment.glsl?raw';
+
+// Atlas layout - MUST match sampleShadowAtlasDepth in fragment.glsl
+//   row    = light buffer index (only point/spot lights that cast shadows are rendered)
+//   column = angle around the light, -PI..PI
+//   RG     = distance where shadow starts / SHADOW_ATLAS_MAX_DISTANCE, 16-bit (high byte, low byte) - the first
+//            caster pixel unless caster heights let the light pass over it for a while
+//   B      = layer depth of the caster that starts the shadow (128 + depth / LAYER_DEPTH_STEP, like the occluder map)
+//   A      = that caster's shadow opacity * 127, +128 when the light cannot pass over it
+// Tint rows (row + MAX_SHADER_LIGHTS, only rendered while a caster has shadowTint):
+//   RGB    = light absorbed per channel by the caster that starts the shadow (read from the occluder tint map)
+export const SHADOW_ATLAS_ANGLES = 1024;
+export const SHADOW_ATLAS_MAX_DISTANCE = 2048; // Pixels - also the march loop bound in shadowAtlasFragment.glsl
+
+export interface ShadowAtlasStats {
+  rows: number;          // Lights with a row in the atlas
+  rebuiltRows: number;   // Rows re-rendered by the last update
+  totalRebuilds: number; // Row renders since the atlas was created
+}
+
+/**
+ * 1D polar shadow maps for all point and spot lights, one atlas row per light. Each row is rendered once by
+ * marching the occluder map around the light, then sprite shaders shade shadows with a single lookup instead
+ * of marching per pixel. Rows are only re-rendered when their light moves or the shadow casters change.
+ * With tinted casters in the scene each light also gets a tint row, so colored shadows cost a second march.
+ */
+export class ShadowAtlas {
+  public readonly texture: PIXI.RenderTexture;
+  public stats: ShadowAtlasStats = { rows: 0, rebuiltRows: 0, totalRebuilds: 0 };
+  private rowKeys: string[] = [];
+  private casterKey = '';
+  private cameraVersion = -1;
+  private tinted = false;
+  private readonly shader: PIXI.Shader;
+
+  constructor() {
+    // NEAREST - interpolating packed high/low bytes would corrupt depths. Tint rows follow the depth rows
+    this.texture = PIXI.RenderTexture.create({
+      width: SHADOW_ATLAS_ANGLES,
+      height: MAX_SHADER_LIGHTS * 2,
+      scaleMode: PIXI.SCALE_MODES.NEAREST,
+    });
+    this.shader = PIXI.Shader.from(shadowAtlasVertexSource, shadowAtlasFragmentSource, {
+      uMaxDistance: SHADOW_ATLAS_MAX_DISTANCE,
+    });
+  }
+
+  /**
+   * Re-renders the rows whose light moved, plus every row when casterKey (a signature of the shadow casters)
+   * differs from the last build or the camera moved (the occluder map is in view space). Rows themselves are
+   * in world pixels. tintMap (the occluder tint map, same layout as occluderMap) is null when no caster is tinted -
+   * tint rows are skipped and sprites shade the grey shadow opacity. Returns the atlas uniforms for the sprite shaders.
+   */
+  update(renderer: PIXI.IRenderer, lights: PackedLight[], camera: Camera, occluderMap: PIXI.RenderTexture,
+         tintMap: PIXI.RenderTexture | null, occluderMapOffset: number, canvasSize: number[], casterKey: string): Record<string, any> {
+    const castersChanged = casterKey !== this.casterKey || camera.version !== this.cameraVersion || !!tintMap !== this.tinted;
+    this.casterKey = casterKey;
+    this.cameraVersion = camera.version;
+    this.tinted = !!tintMap;
+
+    const dirtyRows: number[] = [];
+    const nextKeys = lights.map((light, row) => {
+      const hasRow = light.castsShadows && (light.type === 'point' || light.type === 'spotlight');
+      const key = hasRow ? `${light.x},${light.y},${light.z},${light.radius}` : '';
+      if (hasRow && (castersChanged || key !== this.rowKeys[row])) {
+        dirtyRows.push(row);
+      }
+      return key;
+    });
+    this.rowKeys = nextKeys;
+
+    if (dirtyRows.length > 0) {
+      this.renderRows(renderer, dirtyRows.map(row => ({ row, light: lights[row] })), camera, occluderMap, tintMap, occluderMapOffset, canvasSize);
+    }
+
+    this.stats = {
+      rows: nextKeys.filter(key => key !== '').length,
+      rebuiltRows: dirtyRows.length,
+      totalRebuilds: this.stats.totalRebuilds + dirtyRows.length,
+    };
+
+    return {
+      uShadowAtlas: this.texture,
+      uShadowAtlasSize: [SHADOW_ATLAS_ANGLES, MAX_SHADER_LIGHTS * 2],
+      uShadowAtlasMaxDistance: SHADOW_ATLAS_MAX_DISTANCE,
+      uShadowAtlasTinted: this.tinted,
+    };
+  }
+
+  /** Forces a full rebuild on the next update (e.g. after switching back to the polar technique) */
+  invalidate() {
+    this.rowKeys = [];
+  }
+
+  // One quad per dirty row (plus its tint row), drawn without clearing so untouched rows keep their depths
+  private renderRows(renderer: PIXI.IRenderer, rows: { row: number; light: PackedLight }[], camera: Camera,
+                     occluderMap: PIXI.RenderTexture, tintMap: PIXI.RenderTexture | null, occluderMapOffset: number, canvasSize: number[]) {
+    const positions: number[] = [];
+    const uvs: number[] = [];
+    const lightData: number[] = [];
+    const tintRows: number[] = [];
+    const indices: number[] = [];
+
+    const quads = rows.map(({ row, light }) => ({ row, light, tint: false }));
+    if (tintMap) {
+      rows.forEach(({ row, light }) => quads.push({ row: row + MAX_SHADER_LIGHTS, light, tint: true }));
+    }
+    quads.forEach(({ row, light, tint }, quad) => {
+      positions.push(0, row, SHADOW_ATLAS_ANGLES, row, SHADOW_ATLAS_ANGLES, row + 1, 0, row + 1);
+      uvs.push(0, 0, 1, 0, 1, 1, 0, 1);
+      for (let vertex = 0; vertex < 4; vertex++) {
+        lightData.push(light.x, light.y, light.radius, light.z);
+        tintRows.push(tint ? 1 : 0);
+      }
+      const base = quad * 4;
+      indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+    });
+
+    const geometry = new PIXI.Geometry()
+      .addAttribute('aVertexPosition', positions, 2)
+      .addAttribute('aTextureCoord', uvs, 2)
+      .addAttribute('aLight', lightData, 4)
+      .addAttribute('aTintRow', tintRows, 1)
+      .addIndex(new Uint16Array(indices));
+
+    Object.assign(this.shader.uniforms, {
+      uOccluderMap: occluderMap,
+      uTintMap: tintMap || PIXI.Texture.EMPTY,
+      uOccluderMapOffset: [occluderMapOffset, occluderMapOffset],
+      uCanvasSize: canvasSize,
+      uWorldToView: camera.getUniforms().uWorldToView,
+    });
+
+    const mesh = new PIXI.Mesh(geometry, this.shader);
+    mesh.state.blend = false; // Packed bytes - write them untouched
+    renderer.render(mesh, { renderTexture: this.texture, clear: false });
+    mesh.destroy();
+    geometry.destroy();
+  }
+
+  destroy() {
+    this.shader.destroy();
+    this.texture.destroy(true);
+  }
+}
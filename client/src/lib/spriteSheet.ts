@@ -0,0 +1,242 @@
+// Sprite sheet animation - frame rectangles come from a TexturePacker or Aseprite JSON atlas, and every material
+// map of an animated sprite (diffuse, normal, metallic, smoothness, emissive, height) is a sheet with the same layout
+
+export type AnimationLoopMode = 'loop' | 'once' | 'pingpong';
+
+const DEFAULT_ANIMATION_FPS = 10; // Atlases without per-frame durations (TexturePacker) and clips without fps
+
+export interface SheetFrame {
+  name: string;
+  x: number;        // Rectangle in sheet pixels
+  y: number;
+  width: number;
+  height: number;
+  duration: number; // Milliseconds from the atlas (Aseprite), 0 = use the clip's fps
+}
+
+export interface AnimationClip {
+  frames: number[];       // Indices into SpriteSheet.frames, in play order
+  fps: number;            // 0 = per-frame atlas durations
+  loop: AnimationLoopMode;
+}
+
+export interface SpriteSheet {
+  url: string;
+  width: number;          // Sheet size in pixels (meta.size)
+  height: number;
+  frameWidth: number;     // Every frame is drawn at the size of the first one
+  frameHeight: number;
+  frames: SheetFrame[];
+  clips: Record<string, AnimationClip>; // Tags / animations from the atlas
+}
+
+// Animation component on a sprite entity (scene.json `animation`)
+export interface SpriteAnimationComponent {
+  sheet: string;             // Atlas JSON path - the material maps are the matching sheet images
+  clip?: string;             // Clip to play (omit = the first atlas clip, or every frame in order)
+  fps?: number;              // Overrides the clip's fps / atlas durations
+  loop?: AnimationLoopMode;  // Overrides the clip's loop mode
+  playing?: boolean;         // false = hold the current frame (default true)
+  clips?: Record<string, {   // Extra or replacement clips by frame name or index
+    frames: (string | number)[];
+    fps?: number;
+    loop?: AnimationLoopMode;
+  }>;
+}
+
+/**
+ * Parses a TexturePacker (JSON hash / JSON array) or Aseprite atlas. Clips come from Aseprite `meta.frameTags`
+ * (forward, reverse, pingpong) or TexturePacker `animations`. Trimmed and rotated frames are not supported -
+ * every sheet of a sprite must share one layout, so export with trimming and rotation off.
+ */
+export function parseSpriteSheet(json: any, url: string): SpriteSheet {
+  const rawFrames: [string, any][] = Array.isArray(json?.frames)
+    ? json.frames.map((frame: any, index: number) => [frame.filename ?? String(index), frame])
+    : Object.entries(json?.frames || {});
+  if (rawFrames.length === 0) throw new Error(`Sprite sheet ${url} has no frames`);
+
+  const frames: SheetFrame[] = rawFrames.map(([name, frame]) => {
+    if (frame.rotated) console.warn(`⚠️ Sprite sheet ${url}: frame "${name}" is rotated - export without rotation`);
+    if (frame.trimmed) console.warn(`⚠️ Sprite sheet ${url}: frame "${name}" is trimmed - export without trimming`);
+    return {
+      name,
+      x: frame.frame.x,
+      y: frame.frame.y,
+      width: frame.frame.w,
+      height: frame.frame.h,
+      duration: frame.duration ?? 0
+    };
+  });
+
+  const frameWidth = frames[0].width;
+  const frameHeight = frames[0].height;
+  if (frames.some(frame => frame.width !== frameWidth || frame.height !== frameHeight)) {
+    console.warn(`⚠️ Sprite sheet ${url}: frames differ in size - all are drawn at ${frameWidth}×${frameHeight}`);
+  }
+
+  const clips: Record<string, AnimationClip> = {};
+
+  // Aseprite tags - ping-pong plays forward then back, reverse tags just flip the frame order
+  (json.meta?.frameTags || []).forEach((tag: any) => {
+    const range: number[] = [];
+    for (let i = tag.from; i <= tag.to; i++) range.push(i);
+    const reverse = tag.direction === 'reverse' || tag.direction === 'pingpong_reverse';
+    clips[tag.name] = {
+      frames: reverse ? range.reverse() : range,
+      fps: 0,
+      loop: tag.direction === 'pingpong' || tag.direction === 'pingpong_reverse' ? 'pingpong' : 'loop'
+    };
+  });
+
+  // TexturePacker animations - lists of frame names
+  Object.entries(json.animations || {}).forEach(([name, frameNames]) => {
+    clips[name] = { frames: resolveFrameRefs(frames, frameNames as string[], url), fps: 0, loop: 'loop' };
+  });
+
+  return {
+    url,
+    width: json.meta?.size?.w ?? frameWidth,
+    height: json.meta?.size?.h ?? frameHeight,
+    frameWidth,
+    frameHeight,
+    frames,
+    clips
+  };
+}
+
+// Frame names or indices to indices - unknown references are dropped with a warning
+function resolveFrameRefs(frames: SheetFrame[], refs: (string | number)[], url: string): number[] {
+  return refs.flatMap(ref => {
+    const index = typeof ref === 'number' ? ref : frames.findIndex(frame => frame.name === ref);
+    if (index < 0 || index >= frames.length) {
+      console.warn(`⚠️ Sprite sheet ${url}: unknown frame "${ref}"`);
+      return [];
+    }
+    return [index];
+  });
+}
+
+const sheetCache = new Map<string, Promise<SpriteSheet>>();
+
+/**
+ * Fetches and parses an atlas, shared by every sprite that uses it.
+ */
+export function loadSpriteSheet(url: string): Promise<SpriteSheet> {
+  let pending = sheetCache.get(url);
+  if (!pending) {
+    pending = fetch(url).then(response => {
+      if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+      return response.json();
+    }).then(json => parseSpriteSheet(json, url));
+    pending.catch(() => sheetCache.delete(url)); // Let a later load retry
+    sheetCache.set(url, pending);
+  }
+  return pending;
+}
+
+/**
+ * Plays clips of one sprite sheet. update() advances by real time and reports frame changes, so callers only
+ * touch geometry (and rebuild the occluder map) when the visible frame actually changed.
+ */
+export class SpriteAnimator {
+  public clipName = '';
+  public playing = true;
+  private clip: AnimationClip = { frames: [], fps: 0, loop: 'loop' };
+  private sequence: number[] = []; // Frame indices of one cycle (ping-pong includes the way back)
+  private step = 0;
+  private elapsed = 0;
+  private finished = false;
+
+  constructor(public readonly sheet: SpriteSheet, settings: SpriteAnimationComponent) {
+    this.apply(settings);
+  }
+
+  get frameIndex(): number {
+    return this.sequence[this.step] ?? 0;
+  }
+
+  get frame(): SheetFrame {
+    return this.sheet.frames[this.frameIndex];
+  }
+
+  /**
+   * Applies changed scene settings - switching clips restarts playback, other changes keep the current frame.
+   */
+  apply(settings: SpriteAnimationComponent) {
+    const clipName = settings.clip || '';
+    const clip = this.resolveClip(settings);
+    const restart = clipName !== this.clipName || this.sequence.length === 0;
+    const wasPlaying = this.playing;
+    this.clipName = clipName;
+    this.clip = clip;
+    this.playing = settings.playing ?? true;
+
+    const sequence = clip.loop === 'pingpong' && clip.frames.length > 2
+      ? [...clip.frames, ...clip.frames.slice(1, -1).reverse()]
+      : clip.frames;
+    this.sequence = sequence.length > 0 ? sequence : [0];
+
+    if (restart) {
+      this.step = 0;
+      this.elapsed = 0;
+      this.finished = false;
+    } else {
+      this.step = Math.min(this.step, this.sequence.length - 1);
+      // A finished one-shot replays when play is pressed again, and carries on when switched to a looping mode
+      if (this.finished && (clip.loop !== 'once' || (this.playing && !wasPlaying))) {
+        this.finished = false;
+        if (clip.loop === 'once') this.step = 0;
+      }
+    }
+  }
+
+  /**
+   * Advances playback by deltaMs. Returns true when the displayed frame changed.
+   */
+  update(deltaMs: number): boolean {
+    if (!this.playing || this.finished || this.sequence.length < 2) return false;
+
+    const previous = this.frameIndex;
+    this.elapsed += Math.min(deltaMs, 1000); // A backgrounded tab resumes instead of fast-forwarding
+
+    let duration = this.frameDuration();
+    while (this.elapsed >= duration) {
+      this.elapsed -= duration;
+      if (this.step + 1 < this.sequence.length) {
+        this.step++;
+      } else if (this.clip.loop === 'once') {
+        this.finished = true; // Hold the last frame
+        break;
+      } else {
+        this.step = 0;
+      }
+      duration = this.frameDuration();
+    }
+    return this.frameIndex !== previous;
+  }
+
+  private frameDuration(): number {
+    if (this.clip.fps > 0) return 1000 / this.clip.fps;
+    return this.frame.duration > 0 ? this.frame.duration : 1000 / DEFAULT_ANIMATION_FPS;
+  }
+
+  // Scene clips override atlas clips of the same name; an empty name means the first clip or all frames
+  private resolveClip(settings: SpriteAnimationComponent): AnimationClip {
+    const sheet = this.sheet;
+    const custom = settings.clip ? settings.clips?.[settings.clip] : undefined;
+    let clip: AnimationClip | undefined = custom
+      ? { frames: resolveFrameRefs(sheet.frames, custom.frames, sheet.url), fps: custom.fps ?? 0, loop: custom.loop || 'loop' }
+      : sheet.clips[settings.clip || Object.keys(sheet.clips)[0] || ''];
+
+    if (!clip) {
+      if (settings.clip) console.warn(`⚠️ Sprite sheet ${sheet.url}: unknown clip "${settings.clip}" - playing every frame`);
+      clip = { frames: sheet.frames.map((_, index) => index), fps: 0, loop: 'loop' };
+    }
+
+    return {
+      frames: clip.frames,
+      fps: settings.fps ?? clip.fps,  // 0 falls back to atlas durations
+      loop: settings.loop || clip.loop
+    };
+  }
+}
@@ -0,0 +1,144 @@
+import * as PIXI from 'pixi.js';
+import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import atlasCopySource from '../shaders/atlasCopy.glsl?raw';
+
+// Parallel material atlases - one per map kind, all with the SAME layout: a sprite's region is at the same rectangle
+// in every atlas, so the one set of remapped UVs reads diffuse, normal, metallic, ... in lockstep
+export type AtlasMapKind = 'diffuse' | 'normal' | 'metallic' | 'smoothness' | 'emissive' | 'height';
+export const ATLAS_MAP_KINDS: AtlasMapKind[] = ['diffuse', 'normal', 'metallic', 'smoothness', 'emissive', 'height'];
+
+const ATLAS_PADDING = 1;     // Edge texels repeated around every region so linear filtering never reads a neighbour
+const MAX_ATLAS_SIZE = 4096; // Capped further by the context's MAX_TEXTURE_SIZE
+
+export interface AtlasRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// One sprite to pack. Region size comes from the diffuse texture; other maps are scaled to fit it.
+// Kinds missing from maps (generated 1x1 defaults) are not packed - a uniform texture reads the same at any UV
+export interface AtlasEntry {
+  id: string;
+  width: number;
+  height: number;
+  maps: Partial<Record<AtlasMapKind, PIXI.Texture>>;
+}
+
+export interface TextureAtlasStats {
+  packed: number;   // Sprites placed in the atlases
+  skipped: number;  // Sprites too large for the remaining space - they keep their own textures
+  width: number;
+  height: number;
+  atlases: number;  // Map kinds with at least one packed file (one render texture each)
+}
+
+/**
+ * Shelf packing, tallest first. The atlas width is the square root of the total area rounded up to a power of two;
+ * entries that do not fit within maxSize are left out of the result.
+ */
+export function packAtlasRects(entries: { id: string; width: number; height: number }[], maxSize: number): { width: number; height: number; rects: Map<string, AtlasRect> } {
+  const cell = (size: number) => size + ATLAS_PADDING * 2;
+  const totalArea = entries.reduce((sum, entry) => sum + cell(entry.width) * cell(entry.height), 0);
+  const widest = entries.reduce((max, entry) => Math.max(max, cell(entry.width)), 1);
+  const width = Math.min(maxSize, Math.max(widest, 2 ** Math.ceil(Math.log2(Math.max(Math.sqrt(totalArea), 1)))));
+
+  const rects = new Map<string, AtlasRect>();
+  let x = 0;
+  let y = 0;
+  let shelfHeight = 0;
+  [...entries].sort((a, b) => b.height - a.height).forEach(entry => {
+    const cellWidth = cell(entry.width);
+    const cellHeight = cell(entry.height);
+    if (cellWidth > width) return;
+    if (x + cellWidth > width) {
+      y += shelfHeight;
+      x = 0;
+      shelfHeight = 0;
+    }
+    if (y + cellHeight > maxSize) return;
+    rects.set(entry.id, { x: x + ATLAS_PADDING, y: y + ATLAS_PADDING, width: entry.width, height: entry.height });
+    x += cellWidth;
+    shelfHeight = Math.max(shelfHeight, cellHeight);
+  });
+
+  return { width, height: Math.max(y + shelfHeight, 1), rects };
+}
+
+/**
+ * Packs sprite material maps into parallel render texture atlases on the GPU. Each region is a straight copy of the
+ * uploaded texture (blending off), so shaders read exactly the texels they read from the separate textures.
+ * Sprites pick up their region through getTexture(): a sub-texture whose frame is the region, so its size stays
+ * the source size and UVs are remapped from the frame.
+ */
+export class TextureAtlas {
+  public readonly rects: Map<string, AtlasRect>;
+  public readonly stats: TextureAtlasStats;
+  private readonly targets = new Map<AtlasMapKind, PIXI.RenderTexture>();
+  private readonly copyShader: PIXI.Shader;
+
+  constructor(renderer: PIXI.IRenderer, entries: AtlasEntry[]) {
+    const maxTextureSize = renderer instanceof PIXI.Renderer ? renderer.gl.getParameter(renderer.gl.MAX_TEXTURE_SIZE) : MAX_ATLAS_SIZE;
+    const packing = packAtlasRects(entries, Math.min(MAX_ATLAS_SIZE, maxTextureSize));
+    this.rects = packing.rects;
+
+    this.copyShader = PIXI.Shader.from(vertexShaderSource, atlasCopySource, { uSource: PIXI.Texture.EMPTY });
+
+    ATLAS_MAP_KINDS.forEach(kind => {
+      const sources = entries.filter(entry => this.rects.has(entry.id) && entry.maps[kind]);
+      if (sources.length === 0) return;
+
+      const target = PIXI.RenderTexture.create({ width: packing.width, height: packing.height });
+      sources.forEach((entry, index) => {
+        this.drawRegion(renderer, entry.maps[kind]!, this.rects.get(entry.id)!, target, index === 0);
+      });
+      this.targets.set(kind, target);
+    });
+
+    this.stats = {
+      packed: this.rects.size,
+      skipped: entries.length - this.rects.size,
+      width: packing.width,
+      height: packing.height,
+      atlases: this.targets.size,
+    };
+  }
+
+  /** Region of a packed sprite in the atlas of one map kind - null when the sprite or the kind was not packed */
+  getTexture(id: string, kind: AtlasMapKind): PIXI.Texture | null {
+    const rect = this.rects.get(id);
+    const target = this.targets.get(kind);
+    if (!rect || !target) return null;
+    return new PIXI.Texture(target.baseTexture, new PIXI.Rectangle(rect.x, rect.y, rect.width, rect.height));
+  }
+
+  // Quad over the region grown by the padding, with UVs running past 0..1 - clamp-to-edge sampling of the source
+  // repeats its border texels into the padding
+  private drawRegion(renderer: PIXI.IRenderer, source: PIXI.Texture, rect: AtlasRect, target: PIXI.RenderTexture, clear: boolean) {
+    const padU = ATLAS_PADDING / rect.width;
+    const padV = ATLAS_PADDING / rect.height;
+    const x0 = rect.x - ATLAS_PADDING;
+    const y0 = rect.y - ATLAS_PADDING;
+    const x1 = rect.x + rect.width + ATLAS_PADDING;
+    const y1 = rect.y + rect.height + ATLAS_PADDING;
+
+    const geometry = new PIXI.Geometry()
+      .addAttribute('aVertexPosition', [x0, y0, x1, y0, x1, y1, x0, y1], 2)
+      .addAttribute('aTextureCoord', [-padU, -padV, 1 + padU, -padV, 1 + padU, 1 + padV, -padU, 1 + padV], 2)
+      .addIndex([0, 1, 2, 0, 2, 3]);
+
+    this.copyShader.uniforms.uSource = source;
+    const mesh = new PIXI.Mesh(geometry, this.copyShader);
+    mesh.state.blend = false; // Copy texels untouched - alpha-packed material masks must survive
+    renderer.render(mesh, { renderTexture: target, clear });
+    mesh.destroy();
+    geometry.destroy();
+  }
+
+  destroy() {
+    this.copyShader.destroy();
+    this.targets.forEach(target => target.destroy(true));
+    this.targets.clear();
+  }
+}
@@ -0,0 +1,149 @@
+import * as PIXI from 'pixi.js';
+import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import toneMappingSource from '../shaders/toneMapping.glsl?raw';
+import luminanceReduceSource from '../shaders/luminanceReduce.glsl?raw';
+import luminanceAdaptSource from '../shaders/luminanceAdapt.glsl?raw';
+import { getColorGradingUniforms } from './colorGrading';
+
+// Tone mapping operators - MUST match uOperator in toneMapping.glsl
+export type ToneMappingOperator = 'none' | 'reinhard' | 'aces' | 'agx';
+export const TONE_MAPPING_OPERATOR_CODES: Record<ToneMappingOperator, number> = {
+  none: 0,
+  reinhard: 1,
+  aces: 2,
+  agx: 3,
+};
+
+export interface ToneMappingSettings {
+  operator: ToneMappingOperator;
+  exposure: number;         // Stops, applied on top of auto exposure
+  autoExposure: boolean;
+  adaptationSpeed: number;  // Auto exposure convergence per second (higher = faster)
+}
+
+// Auto exposure reduction chain - scene -> 64² -> 16² -> 4² -> 1², each step a 4×4 average (luminanceReduce.glsl)
+const LUMINANCE_REDUCTION_SIZES = [64, 16, 4, 1];
+
+/** True when the settings change the image - the plain 8-bit render is identical otherwise, so skip the pass */
+export function isToneMappingActive(settings: ToneMappingSettings): boolean {
+  return settings.operator !== 'none' || settings.exposure !== 0 || settings.autoExposure;
+}
+
+// Fullscreen quad in target pixels - uv (0,0) is the top-left texel
+function createQuadGeometry(width: number, height: number): PIXI.Geometry {
+  return new PIXI.Geometry()
+    .addAttribute('aVertexPosition', [0, 0, width, 0, width, height, 0, height], 2)
+    .addAttribute('aTextureCoord', [0, 0, 1, 0, 1, 1, 0, 1], 2)
+    .addIndex([0, 1, 2, 0, 2, 3]);
+}
+
+/**
+ * HDR scene target and its resolve to the screen. renderScene() (or the reflection composite) fills hdrTexture -
+ * half-float where the context can render to it, so lighting above 1.0 survives - then resolve() exposes and tone
+ * maps it. Auto exposure
+ * reduces the frame to its average log luminance on the GPU and eases towards it - nothing is read back.
+ */
+export class ToneMapping {
+  public readonly hdrTexture: PIXI.RenderTexture;
+  public readonly halfFloat: boolean;
+  private readonly resolveQuad: PIXI.Mesh<PIXI.Shader>;
+  private readonly reductionTargets: PIXI.RenderTexture[];
+  private readonly reductionQuads: PIXI.Mesh<PIXI.Shader>[];
+  private readonly adaptedTargets: PIXI.RenderTexture[];
+  private readonly adaptQuads: PIXI.Mesh<PIXI.Shader>[];
+  private adaptedIndex = 0;
+  private lastResolveTime: number | null = null;
+
+  constructor(renderer: PIXI.IRenderer, width: number, height: number) {
+    this.halfFloat = ToneMapping.isHalfFloatSupported(renderer);
+    const type = this.halfFloat ? PIXI.TYPES.HALF_FLOAT : PIXI.TYPES.UNSIGNED_BYTE;
+    this.hdrTexture = PIXI.RenderTexture.create({ width, height, format: PIXI.FORMATS.RGBA, type });
+
+    this.resolveQuad = new PIXI.Mesh(createQuadGeometry(width, height), PIXI.Shader.from(vertexShaderSource, toneMappingSource, {
+      uHDRTexture: this.hdrTexture,
+      ...getColorGradingUniforms(null, null),
+    }));
+    this.resolveQuad.state.blend = false;
+
+    // Reduction chain - LINEAR so the first pass's taps average the scene texels between them
+    this.reductionTargets = LUMINANCE_REDUCTION_SIZES.map(size => PIXI.RenderTexture.create({ width: size, height: size, type }));
+    this.reductionQuads = LUMINANCE_REDUCTION_SIZES.map((size, index) => {
+      const shader = PIXI.Shader.from(vertexShaderSource, luminanceReduceSource, {
+        uSource: index === 0 ? this.hdrTexture : this.reductionTargets[index - 1],
+        uTargetSize: [size, size],
+        uFromScene: index === 0,
+      });
+      const quad = new PIXI.Mesh(createQuadGeometry(size, size), shader);
+      quad.state.blend = false;
+      return quad;
+    });
+
+    // Adapted luminance ping-pong - each quad reads the other target as last frame's value
+    this.adaptedTargets = [0, 1].map(() => PIXI.RenderTexture.create({ width: 1, height: 1, type }));
+    const average = this.reductionTargets[this.reductionTargets.length - 1];
+    this.adaptQuads = [0, 1].map(index => {
+      const quad = new PIXI.Mesh(createQuadGeometry(1, 1), PIXI.Shader.from(vertexShaderSource, luminanceAdaptSource, {
+        uAverageLuminance: average,
+        uPreviousLuminance: this.adaptedTargets[1 - index],
+        uAdaptationRate: 1,
+      }));
+      quad.state.blend = false;
+      return quad;
+    });
+  }
+
+  /** Half-float color attachments need WebGL2 with EXT_color_buffer_float - RGBA8 otherwise (no headroom above 1.0) */
+  static isHalfFloatSupported(renderer: PIXI.IRenderer): boolean {
+    return renderer instanceof PIXI.Renderer && renderer.context.webGLVersion === 2 &&
+      !!renderer.gl.getExtension('EXT_color_buffer_float');
+  }
+
+  /** Renders the stage into hdrTexture - same background as a direct render (render textures clear to transparent) */
+  renderScene(renderer: PIXI.IRenderer, stage: PIXI.Container) {
+    this.hdrTexture.baseTexture.clearColor = renderer.background.color;
+    renderer.render(stage, { renderTexture: this.hdrTexture, clear: true });
+  }
+
+  /** Exposes and tone maps hdrTexture to the screen, then color grades it (uniforms from getColorGradingUniforms) */
+  resolve(renderer: PIXI.IRenderer, settings: ToneMappingSettings, grading: Record<string, any> = getColorGradingUniforms(null, null)) {
+    const now = performance.now();
+    const deltaSeconds = this.lastResolveTime === null ? 0 : (now - this.lastResolveTime) / 1000;
+    this.lastResolveTime = now;
+
+    if (settings.autoExposure) {
+      this.updateAdaptedLuminance(renderer, settings, deltaSeconds);
+    } else {
+      this.lastResolveTime = null; // Re-enabling auto exposure starts from the current frame, not a stale value
+    }
+
+    Object.assign(this.resolveQuad.shader.uniforms, {
+      uAdaptedLuminance: this.adaptedTargets[this.adaptedIndex],
+      uOperator: TONE_MAPPING_OPERATOR_CODES[settings.operator] ?? 0,
+      uExposure: Math.pow(2, settings.exposure),
+      uAutoExposure: settings.autoExposure,
+      ...grading,
+    });
+    renderer.render(this.resolveQuad, { clear: true });
+  }
+
+  private updateAdaptedLuminance(renderer: PIXI.IRenderer, settings: ToneMappingSettings, deltaSeconds: number) {
+    this.reductionQuads.forEach((quad, index) => {
+      renderer.render(quad, { renderTexture: this.reductionTargets[index], clear: true });
+    });
+
+    // Frame-rate independent easing - the first frame jumps straight to the measured value
+    const next = 1 - this.adaptedIndex;
+    const adaptationRate = deltaSeconds <= 0 ? 1 : 1 - Math.exp(-deltaSeconds * Math.max(settings.adaptationSpeed, 0));
+    this.adaptQuads[next].shader.uniforms.uAdaptationRate = adaptationRate;
+    renderer.render(this.adaptQuads[next], { renderTexture: this.adaptedTargets[next], clear: true });
+    this.adaptedIndex = next;
+  }
+
+  destroy() {
+    [this.resolveQuad, ...this.reductionQuads, ...this.adaptQuads].forEach(quad => {
+      quad.shader.destroy();
+      quad.destroy();
+    });
+    [this.hdrTexture, ...this.reductionTargets, ...this.adaptedTargets].forEach(target => target.destroy(true));
+  }
+}
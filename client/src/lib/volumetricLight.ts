@@ -0,0 +1,81 @@
+import * as PIXI from 'pixi.js';
+import vertexShaderSource from '../shaders/vertex.glsl?raw';
+import volumetricLightSource from '../shaders/volumetricLight.glsl?raw';
+import { LIGHT_TYPE_CODES, PackedLight } from './lightBuffer';
+import { Camera } from './camera';
+
+// Every shaft pass is a fullscreen march - cap how many lights can have one
+export const MAX_VOLUMETRIC_LIGHTS = 8;
+
+// Defaults for lights that enable shafts without tuning them
+export const DEFAULT_VOLUMETRIC_DENSITY = 0.5;
+export const DEFAULT_VOLUMETRIC_DECAY = 0.97;
+
+/** Light types with a single emitting point or direction - area and line lights have no shaft pass */
+export function supportsVolumetricLight(type: PackedLight['type']): boolean {
+  return type === 'point' || type === 'spotlight' || type === 'directional';
+}
+
+/**
+ * Screen-space volumetric light: for each light with `volumetric` on, a fullscreen quad marches every pixel
+ * towards the light through the occluder map and adds the scattered light onto the target. Runs before bloom,
+ * so bright shafts glow too.
+ */
+export class VolumetricLight {
+  private readonly quad: PIXI.Mesh<PIXI.Shader>;
+
+  constructor(width: number, height: number) {
+    const shader = PIXI.Shader.from(vertexShaderSource, volumetricLightSource, {
+      uOccluderMap: PIXI.Texture.EMPTY,
+      uOccluderMapOffset: [0, 0],
+      uCanvasSize: [width, height],
+    });
+    // Fullscreen quad in canvas pixels - uv (0,0) is the top-left texel
+    const geometry = new PIXI.Geometry()
+      .addAttribute('aVertexPosition', [0, 0, width, 0, width, height, 0, height], 2)
+      .addAttribute('aTextureCoord', [0, 0, 1, 0, 1, 1, 0, 1], 2)
+      .addIndex([0, 1, 2, 0, 2, 3]);
+    this.quad = new PIXI.Mesh(geometry, shader);
+    this.quad.blendMode = PIXI.BLEND_MODES.ADD;
+  }
+
+  /**
+   * Adds the shafts of every volumetric light onto target (the screen when omitted). occluderMapOffset is the
+   * buffer zone the occluder map extends beyond the canvas on each side. The march runs in view space, so
+   * light positions, sizes and directions are taken through the camera. Returns the number of passes drawn.
+   */
+  render(renderer: PIXI.IRenderer, lights: PackedLight[], camera: Camera, occluderMap: PIXI.RenderTexture, occluderMapOffset: number, target?: PIXI.RenderTexture): number {
+    const volumetricLights = lights
+      .filter(light => light.source.volumetric && supportsVolumetricLight(light.type) && light.source.intensity > 0)
+      .slice(0, MAX_VOLUMETRIC_LIGHTS);
+
+    const uniforms = this.quad.shader.uniforms;
+    uniforms.uOccluderMap = occluderMap;
+    uniforms.uOccluderMapOffset = [occluderMapOffset, occluderMapOffset];
+
+    volumetricLights.forEach(light => {
+      const source = light.source;
+      const direction = source.direction || { x: 0, y: 0, z: -1 };
+      const position = camera.worldToView(light);
+      const viewDirection = camera.directionToView(direction);
+      Object.assign(uniforms, {
+        uLightType: LIGHT_TYPE_CODES[light.type],
+        uLightPosition: [position.x, position.y, light.z * camera.zoom],
+        uLightDirection: [viewDirection.x, viewDirection.y, direction.z],
+        uLightColor: [source.color.r * source.intensity, source.color.g * source.intensity, source.color.b * source.intensity],
+        uLightRadius: light.radius * camera.zoom,
+        uConeAngle: source.coneAngle || 30,
+        uSoftness: source.softness || 0.5,
+        uDensity: source.volumetricDensity ?? DEFAULT_VOLUMETRIC_DENSITY,
+        uDecay: source.volumetricDecay ?? DEFAULT_VOLUMETRIC_DECAY,
+      });
+      renderer.render(this.quad, { renderTexture: target, clear: false });
+    });
+    return volumetricLights.length;
+  }
+
+  destroy() {
+    this.quad.shader.destroy();
+    this.quad.destroy();
+  }
+}
@@ -0,0 +1,16 @@
+// Texture atlas copy pass - draws one sprite material map into its padded region of an atlas (lib/textureAtlas.ts).
+// Straight copy without blending; UVs run past 0..1 over the padding so clamp-to-edge repeats the border texels.
+// Needs highp where available - mediump UVs cannot address single texels across a 4096px atlas
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSource;
+
+void main() {
+  gl_FragColor = texture2D(uSource, vTextureCoord);
+}
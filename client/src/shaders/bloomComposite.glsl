@@ -0,0 +1,15 @@
+// Bloom composite - adds the finished glow onto the HDR scene target (additive blend, alpha untouched)
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uBloom;    // Top of the upsample chain, half resolution
+uniform float uIntensity;    // Already divided by the level count - every level adds its own copy of the glow
+
+void main(void) {
+  gl_FragColor = vec4(texture2D(uBloom, vTextureCoord).rgb * uIntensity, 0.0);
+}
@@ -0,0 +1,39 @@
+// Bloom downsample (dual filter) - 5 taps: the centre plus four diagonal neighbours half a source texel out, so
+// each output texel averages a 4×4 footprint. The first pass also keeps only what is brighter than the threshold
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSource;
+uniform vec2 uSourceTexel;   // 1 / source size
+uniform bool uPrefilter;     // First pass - reads the HDR scene and applies the threshold
+uniform float uThreshold;    // Display-space brightness where bloom starts (1.0 = white)
+
+// Soft knee - bloom fades in over half the threshold instead of switching on at a hard edge
+vec3 applyThreshold(vec3 color) {
+  float brightness = max(color.r, max(color.g, color.b));
+  float knee = uThreshold * 0.5;
+  float soft = clamp(brightness - uThreshold + knee, 0.0, 2.0 * knee);
+  soft = soft * soft / (4.0 * knee + 1e-4);
+  float contribution = max(soft, brightness - uThreshold) / max(brightness, 1e-4);
+  return color * contribution;
+}
+
+void main(void) {
+  vec2 halfTexel = uSourceTexel * 0.5;
+  vec3 sum = texture2D(uSource, vTextureCoord).rgb * 4.0;
+  sum += texture2D(uSource, vTextureCoord + vec2(-halfTexel.x, -halfTexel.y)).rgb;
+  sum += texture2D(uSource, vTextureCoord + vec2(halfTexel.x, -halfTexel.y)).rgb;
+  sum += texture2D(uSource, vTextureCoord + vec2(-halfTexel.x, halfTexel.y)).rgb;
+  sum += texture2D(uSource, vTextureCoord + vec2(halfTexel.x, halfTexel.y)).rgb;
+  vec3 color = sum / 8.0;
+
+  if (uPrefilter) {
+    color = applyThreshold(max(color, vec3(0.0)));
+  }
+  gl_FragColor = vec4(color, 1.0);
+}
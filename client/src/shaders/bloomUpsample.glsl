@@ -0,0 +1,28 @@
+// Bloom upsample (dual filter) - 8-tap tent around each texel of the smaller level, spread by the radius, plus the
+// same-sized downsample level so every mip contributes its own blur width to the final glow
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSource;   // Next smaller level (upsampled so far)
+uniform sampler2D uBase;     // Downsample level of this size
+uniform vec2 uSourceTexel;   // 1 / source size
+uniform float uRadius;       // Tap spread multiplier
+
+void main(void) {
+  vec2 offset = uSourceTexel * 0.5 * uRadius;
+  vec3 sum = texture2D(uSource, vTextureCoord + vec2(-offset.x * 2.0, 0.0)).rgb;
+  sum += texture2D(uSource, vTextureCoord + vec2(offset.x * 2.0, 0.0)).rgb;
+  sum += texture2D(uSource, vTextureCoord + vec2(0.0, -offset.y * 2.0)).rgb;
+  sum += texture2D(uSource, vTextureCoord + vec2(0.0, offset.y * 2.0)).rgb;
+  sum += texture2D(uSource, vTextureCoord + vec2(-offset.x, -offset.y)).rgb * 2.0;
+  sum += texture2D(uSource, vTextureCoord + vec2(offset.x, -offset.y)).rgb * 2.0;
+  sum += texture2D(uSource, vTextureCoord + vec2(-offset.x, offset.y)).rgb * 2.0;
+  sum += texture2D(uSource, vTextureCoord + vec2(offset.x, offset.y)).rgb * 2.0;
+
+  gl_FragColor = vec4(sum / 12.0 + texture2D(uBase, vTextureCoord).rgb, 1.0);
+}
@@ -0,0 +1,35 @@
+// Sky box background - looks through the canvas into the environment with a fixed pinhole camera, so the backdrop
+// turns with the same yaw, tint and exposure the sprites use for IBL. Canvas y is down, so the sky stays on top
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSource;      // Sky box as loaded by EnvironmentMapLoader (full resolution, not the IBL atlas)
+uniform float uSourceEncoding;  // 0 = direct radiance, 1 = RGBM
+uniform vec2 uMapSize;          // Canvas size in pixels
+uniform float uIBLRotation;
+uniform vec3 uIBLTint;
+uniform float uIBLExposure;
+
+const float PI = 3.14159265;
+const float RGBM_RANGE = 16.0;          // Must match ENVIRONMENT_RGBM_RANGE in lib/environmentMap.ts
+const float TAN_HALF_FOV = 0.57735027;  // 60 degree vertical field of view
+
+// Same mapping as directionToEquirectUV in fragment.glsl
+vec2 directionToEquirectUV(vec3 d) {
+  return vec2(fract((atan(d.x, d.z) - uIBLRotation) / (2.0 * PI) + 0.5), asin(clamp(d.y, -1.0, 1.0)) / PI + 0.5);
+}
+
+void main(void) {
+  // The sprites reflect +z (towards the viewer), so looking into the canvas sees -z
+  vec2 ndc = vTextureCoord * 2.0 - 1.0;
+  vec3 dir = normalize(vec3(ndc.x * TAN_HALF_FOV * uMapSize.x / uMapSize.y, ndc.y * TAN_HALF_FOV, -1.0));
+
+  vec4 texel = texture2D(uSource, directionToEquirectUV(dir));
+  vec3 radiance = uSourceEncoding > 0.5 ? texel.rgb * texel.a * RGBM_RANGE : texel.rgb;
+  gl_FragColor = vec4(clamp(radiance * uIBLTint * exp2(uIBLExposure), 0.0, 1.0), 1.0);
+}
@@ -0,0 +1,59 @@
+// Environment irradiance - cosine-convolves the whole sky box into the small diffuse region of the IBL atlas
+// (layout in lib/environmentPrefilter.ts). Output is irradiance / PI, i.e. the radiance a white Lambert surface reflects
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSource;      // Sky box as loaded by EnvironmentMapLoader
+uniform float uSourceEncoding;  // 0 = direct radiance, 1 = RGBM
+
+const int GRID_X = 32;                 // Sky box samples per output texel (constant loop bounds for WebGL1)
+const int GRID_Y = 16;
+const float PI = 3.14159265;
+const float RGBM_RANGE = 16.0;         // Must match ENVIRONMENT_RGBM_RANGE in lib/environmentMap.ts
+
+vec3 equirectUVToDirection(vec2 uv) {
+  float phi = (uv.x - 0.5) * 2.0 * PI;
+  float theta = (uv.y - 0.5) * PI;
+  return vec3(sin(phi) * cos(theta), sin(theta), cos(phi) * cos(theta));
+}
+
+vec3 sampleSource(vec2 uv) {
+  vec4 texel = texture2D(uSource, uv);
+  if (uSourceEncoding > 0.5) {
+    return texel.rgb * texel.a * RGBM_RANGE;
+  }
+  return texel.rgb;
+}
+
+vec4 encodeRGBM(vec3 color) {
+  vec3 scaled = color / RGBM_RANGE;
+  float multiplier = clamp(max(max(scaled.r, scaled.g), max(scaled.b, 1e-6)), 0.0, 1.0);
+  multiplier = max(ceil(multiplier * 255.0) / 255.0, 1.0 / 255.0);
+  return vec4(clamp(scaled / multiplier, 0.0, 1.0), multiplier);
+}
+
+void main(void) {
+  vec3 N = equirectUVToDirection(vTextureCoord);
+
+  vec3 radiance = vec3(0.0);
+  float weightSum = 0.0;
+  for (int y = 0; y < GRID_Y; y++) {
+    for (int x = 0; x < GRID_X; x++) {
+      vec2 uv = vec2((float(x) + 0.5) / float(GRID_X), (float(y) + 0.5) / float(GRID_Y));
+      vec3 L = equirectUVToDirection(uv);
+      // Equirect texels shrink towards the poles - solid angle goes with cos(latitude)
+      float solidAngle = cos((uv.y - 0.5) * PI);
+      float weight = max(dot(N, L), 0.0) * solidAngle;
+      radiance += sampleSource(uv) * weight;
+      weightSum += weight;
+    }
+  }
+
+  // Normalising by the cosine-weighted solid angle gives E / PI directly
+  gl_FragColor = encodeRGBM(radiance / max(weightSum, 1e-4));
+}
@@ -0,0 +1,81 @@
+// Environment prefilter - GGX-convolves one equirect level of the IBL atlas (layout in lib/environmentPrefilter.ts).
+// Split-sum approximation with N = V = R: importance-sampled GGX lobes around each output direction, weighted by N.L
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSource;      // Sky box as loaded by EnvironmentMapLoader
+uniform float uSourceEncoding;  // 0 = direct radiance, 1 = RGBM
+uniform float uRoughness;       // Roughness of this level, 0 = plain downsampled copy
+
+const int SAMPLE_COUNT = 64;           // Constant loop bound for WebGL1
+const float PI = 3.14159265;
+const float RGBM_RANGE = 16.0;         // Must match ENVIRONMENT_RGBM_RANGE in lib/environmentMap.ts
+const float GOLDEN_RATIO = 0.618034;   // Second coordinate of the low-discrepancy sequence (no bit ops in GLSL 100)
+
+// Same mapping as directionToEquirectUV in fragment.glsl
+vec2 directionToEquirectUV(vec3 d) {
+  return vec2(atan(d.x, d.z) / (2.0 * PI) + 0.5, asin(clamp(d.y, -1.0, 1.0)) / PI + 0.5);
+}
+
+vec3 equirectUVToDirection(vec2 uv) {
+  float phi = (uv.x - 0.5) * 2.0 * PI;
+  float theta = (uv.y - 0.5) * PI;
+  return vec3(sin(phi) * cos(theta), sin(theta), cos(phi) * cos(theta));
+}
+
+vec3 sampleSource(vec3 dir) {
+  vec4 texel = texture2D(uSource, directionToEquirectUV(dir));
+  if (uSourceEncoding > 0.5) {
+    return texel.rgb * texel.a * RGBM_RANGE;
+  }
+  return texel.rgb;
+}
+
+// Atlas texels are RGBM so radiance above 1.0 survives the RGBA8 target - multiplier rounded up so rgb stays <= 1
+vec4 encodeRGBM(vec3 color) {
+  vec3 scaled = color / RGBM_RANGE;
+  float multiplier = clamp(max(max(scaled.r, scaled.g), max(scaled.b, 1e-6)), 0.0, 1.0);
+  multiplier = max(ceil(multiplier * 255.0) / 255.0, 1.0 / 255.0);
+  return vec4(clamp(scaled / multiplier, 0.0, 1.0), multiplier);
+}
+
+void main(void) {
+  vec3 N = equirectUVToDirection(vTextureCoord);
+
+  if (uRoughness <= 0.0) {
+    gl_FragColor = encodeRGBM(sampleSource(N));
+    return;
+  }
+
+  // Tangent frame around N
+  vec3 up = abs(N.y) < 0.999 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0);
+  vec3 T = normalize(cross(up, N));
+  vec3 B = cross(N, T);
+
+  float alpha = uRoughness * uRoughness;
+  vec3 radiance = vec3(0.0);
+  float weightSum = 0.0;
+  for (int i = 0; i < SAMPLE_COUNT; i++) {
+    vec2 xi = vec2((float(i) + 0.5) / float(SAMPLE_COUNT), fract(float(i) * GOLDEN_RATIO));
+
+    // GGX half vector distribution
+    float phi = 2.0 * PI * xi.y;
+    float cosTheta = sqrt((1.0 - xi.x) / (1.0 + (alpha * alpha - 1.0) * xi.x));
+    float sinTheta = sqrt(1.0 - cosTheta * cosTheta);
+    vec3 H = T * (cos(phi) * sinTheta) + B * (sin(phi) * sinTheta) + N * cosTheta;
+    vec3 L = 2.0 * dot(N, H) * H - N;
+
+    float NdotL = dot(N, L);
+    if (NdotL > 0.0) {
+      radiance += sampleSource(L) * NdotL;
+      weightSum += NdotL;
+    }
+  }
+
+  gl_FragColor = encodeRGBM(radiance / max(weightSum, 1e-4));
+}
@@ -3,13 +3,18 @@ varying vec2 vTextureCoord;
 varying vec2 vWorldPos; // Actual world position from vertex shader
 uniform sampler2D uDiffuse;
 uniform sampler2D uNormal;
-uniform sampler2D uMetallic;      // Metallic texture map (R channel = metallic)
-uniform sampler2D uSmoothness;    // Smoothness texture map (R channel = smoothness)
+uniform sampler2D uMetallic;      // Metallic texture map (channel selected by uMetallicChannel)
+uniform sampler2D uSmoothness;    // Smoothness texture map (channel selected by uSmoothnessChannel)
+uniform vec4 uMetallicChannel;    // Channel selection mask for metallic map (e.g. (1,0,0,0) = R)
+uniform vec4 uSmoothnessChannel;  // Channel selection mask for smoothness map
 uniform bool uUseNormalMap;       // Flag to control whether to use normal map or default flat normals
 uniform vec3 uAlbedoColor;        // Albedo tint color (RGB 0-1)
 uniform float uAlbedoTint;        // Albedo tint percentage (0.0-1.0)
 uniform float uMetallicValue;     // Scalar metallic value (0.0-1.0)
 uniform float uSmoothnessValue;   // Scalar smoothness value (0.0-1.0)
+uniform sampler2D uEmissive;      // Emissive texture map (RGB glow)
+uniform vec3 uEmissiveColor;      // Emissive tint color (RGB 0-1)
+uniform float uEmissiveIntensity; // Emissive strength (0.0 = no emission)
 uniform vec2 uSpritePos;
 uniform vec2 uSpriteSize;
 // Self-shadow avoidance for occluder map
@@ -21,47 +26,44 @@ uniform float uAmbientLight;
 uniform vec3 uAmbientColor;
 uniform float uRotation; // Sprite rotation for UV transformation
 uniform vec2 uPivotPoint; // World-space pivot point for rotation
+uniform float uLayerDepth; // Parallax layer plane of this sprite (pixels on the light z axis, 0 = world layer)
 
-// Multi-pass rendering control
-uniform int uPassMode; // 0 = base pass (ambient only), 1 = lighting pass (incremental)
+// Light Buffer System - all lights packed into a float data texture (see lib/lightBuffer.ts)
+// One row per light, LIGHT_BUFFER_TEXELS texels wide; uLightCount rows are valid
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+uniform highp sampler2D uLightBuffer;
+#else
+uniform mediump sampler2D uLightBuffer;
+#endif
+uniform vec2 uLightBufferSize; // (texels per light, row capacity)
+uniform bool uLightBufferEncoded; // RGBA8 fallback without float textures - one 16.16 fixed-point value per texel
+uniform int uLightCount;       // Number of valid light rows (runtime light count)
 
-// Expanded Light System - supports 8 lights (more PIXI.js compatible)
-// Point Lights (0-3)
-uniform bool uPoint0Enabled; uniform vec3 uPoint0Position; uniform vec3 uPoint0Color; uniform float uPoint0Intensity; uniform float uPoint0Radius;
-uniform bool uPoint1Enabled; uniform vec3 uPoint1Position; uniform vec3 uPoint1Color; uniform float uPoint1Intensity; uniform float uPoint1Radius;
-uniform bool uPoint2Enabled; uniform vec3 uPoint2Position; uniform vec3 uPoint2Color; uniform float uPoint2Intensity; uniform float uPoint2Radius;
-uniform bool uPoint3Enabled; uniform vec3 uPoint3Position; uniform vec3 uPoint3Color; uniform float uPoint3Intensity; uniform float uPoint3Radius;
+// Light mask slots - lights reference a slot by index (sampler arrays can't be indexed dynamically in WebGL1)
+uniform sampler2D uLightMask0; uniform sampler2D uLightMask1; uniform sampler2D uLightMask2; uniform sampler2D uLightMask3;
 
-// Point Light Masks
-uniform bool uPoint0HasMask; uniform sampler2D uPoint0Mask; uniform vec2 uPoint0MaskOffset; uniform float uPoint0MaskRotation; uniform float uPoint0MaskScale; uniform vec2 uPoint0MaskSize;
-uniform bool uPoint1HasMask; uniform sampler2D uPoint1Mask; uniform vec2 uPoint1MaskOffset; uniform float uPoint1MaskRotation; uniform float uPoint1MaskScale; uniform vec2 uPoint1MaskSize;
-uniform bool uPoint2HasMask; uniform sampler2D uPoint2Mask; uniform vec2 uPoint2MaskOffset; uniform float uPoint2MaskRotation; uniform float uPoint2MaskScale; uniform vec2 uPoint2MaskSize;
-uniform bool uPoint3HasMask; uniform sampler2D uPoint3Mask; uniform vec2 uPoint3MaskOffset; uniform float uPoint3MaskRotation; uniform float uPoint3MaskScale; uniform vec2 uPoint3MaskSize;
+// Must match MAX_SHADER_LIGHTS / LIGHT_TYPE_CODES in lib/lightBuffer.ts
+const int MAX_LIGHTS = 128;
+const float LIGHT_TYPE_POINT = 0.0;
+const float LIGHT_TYPE_DIRECTIONAL = 1.0;
+const float LIGHT_TYPE_SPOTLIGHT = 2.0;
+const float LIGHT_TYPE_AREA = 3.0;
+const float LIGHT_TYPE_LINE = 4.0;
 
-// Point Light Shadow Casting Flags
-uniform bool uPoint0CastsShadows; uniform bool uPoint1CastsShadows; uniform bool uPoint2CastsShadows; uniform bool uPoint3CastsShadows;
+// Tiled Light Culling - per screen tile list of light buffer indices (see lib/lightTiles.ts)
+uniform bool uTiledLightingEnabled; // false = evaluate every light for every pixel
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+uniform highp sampler2D uLightTileBuffer;
+#else
+uniform mediump sampler2D uLightTileBuffer;
+#endif
+uniform vec2 uLightTileBufferSize; // Texture size in texels
+uniform vec2 uLightTileGrid;       // Tile count (x, y)
+uniform float uLightTileSize;      // Tile edge in canvas pixels
 
-// Directional Lights (0-1) 
-uniform bool uDir0Enabled; uniform vec3 uDir0Direction; uniform vec3 uDir0Color; uniform float uDir0Intensity;
-uniform bool uDir1Enabled; uniform vec3 uDir1Direction; uniform vec3 uDir1Color; uniform float uDir1Intensity;
-
-// Directional Light Shadow Casting Flags
-uniform bool uDir0CastsShadows; uniform bool uDir1CastsShadows;
-
-// Spotlights (0-3)
-uniform bool uSpot0Enabled; uniform vec3 uSpot0Position; uniform vec3 uSpot0Direction; uniform vec3 uSpot0Color; uniform float uSpot0Intensity; uniform float uSpot0Radius; uniform float uSpot0ConeAngle; uniform float uSpot0Softness;
-uniform bool uSpot1Enabled; uniform vec3 uSpot1Position; uniform vec3 uSpot1Direction; uniform vec3 uSpot1Color; uniform float uSpot1Intensity; uniform float uSpot1Radius; uniform float uSpot1ConeAngle; uniform float uSpot1Softness;
-uniform bool uSpot2Enabled; uniform vec3 uSpot2Position; uniform vec3 uSpot2Direction; uniform vec3 uSpot2Color; uniform float uSpot2Intensity; uniform float uSpot2Radius; uniform float uSpot2ConeAngle; uniform float uSpot2Softness;
-uniform bool uSpot3Enabled; uniform vec3 uSpot3Position; uniform vec3 uSpot3Direction; uniform vec3 uSpot3Color; uniform float uSpot3Intensity; uniform float uSpot3Radius; uniform float uSpot3ConeAngle; uniform float uSpot3Softness;
-
-// Spotlight Masks
-uniform bool uSpot0HasMask; uniform sampler2D uSpot0Mask; uniform vec2 uSpot0MaskOffset; uniform float uSpot0MaskRotation; uniform float uSpot0MaskScale; uniform vec2 uSpot0MaskSize;
-uniform bool uSpot1HasMask; uniform sampler2D uSpot1Mask; uniform vec2 uSpot1MaskOffset; uniform float uSpot1MaskRotation; uniform float uSpot1MaskScale; uniform vec2 uSpot1MaskSize;
-uniform bool uSpot2HasMask; uniform sampler2D uSpot2Mask; uniform vec2 uSpot2MaskOffset; uniform float uSpot2MaskRotation; uniform float uSpot2MaskScale; uniform vec2 uSpot2MaskSize;
-uniform bool uSpot3HasMask; uniform sampler2D uSpot3Mask; uniform vec2 uSpot3MaskOffset; uniform float uSpot3MaskRotation; uniform float uSpot3MaskScale; uniform vec2 uSpot3MaskSize;
-
-// Spotlight Shadow Casting Flags
-uniform bool uSpot0CastsShadows; uniform bool uSpot1CastsShadows; uniform bool uSpot2CastsShadows; uniform bool uSpot3CastsShadows;
+// Must match MAX_LIGHTS_PER_TILE / LIGHT_TILE_TEXELS in lib/lightTiles.ts
+const int MAX_LIGHTS_PER_TILE = 32;
+const float LIGHT_TILE_TEXELS = 9.0; // Header texel (count) + 8 texels of 4 packed indices
 
 // Shadow Caster Uniforms - integrated shadow calculation with zOrder hierarchy
 uniform float uShadowStrength; // Global shadow strength
@@ -69,13 +71,58 @@ uniform bool uShadowsEnabled;
 // Global Light Mask Control
 uniform bool uMasksEnabled; // Global toggle for all light masks
 uniform float uShadowMaxLength; // Maximum shadow length to prevent extremely long shadows
+uniform float uShadowPenumbraScale; // Global multiplier for per-light source radius (0 = hard shadows)
 uniform float uCurrentSpriteZOrder; // Z-order of current sprite (used for shadows and AO hierarchy)
 // Removed shadow sharpness and shadow bias features
 
 // Occluder Map System (for unlimited shadow casters)
 uniform bool uUseOccluderMap; // Switch between per-caster and occluder map
 uniform vec2 uOccluderMapOffset; // Offset for expanded occlusion map (buffer zone)
-uniform sampler2D uOccluderMap; // Binary alpha map of all shadow casters
+uniform sampler2D uOccluderMap; // Caster coverage in alpha, caster height and shadow opacity (premultiplied) in red/green
+
+// Camera (lib/camera.ts) - lighting runs in world space, but the occluder map, distance field, emissive light map
+// and light tiles are rendered in view space, so every lookup into them converts its position first
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+uniform highp mat3 uWorldToView;
+uniform highp mat3 uViewToWorld;
+#else
+uniform mediump mat3 uWorldToView;
+uniform mediump mat3 uViewToWorld;
+#endif
+uniform float uCameraZoom; // View pixels per world pixel
+
+vec2 worldToView(vec2 worldPos) {
+  return (uWorldToView * vec3(worldPos, 1.0)).xy;
+}
+
+// Caster heights are stored as height / OCCLUDER_HEIGHT_RANGE - must match PixiDemo.tsx.
+// A stored 1.0 is an unlimited caster that blocks every light regardless of its height
+const float OCCLUDER_HEIGHT_RANGE = 512.0;
+const float OCCLUDER_HEIGHT_UNLIMITED = 1000000.0;
+
+// Caster layer depth in blue (premultiplied): 128 = depth 0, one step per LAYER_DEPTH_STEP pixels - must match PixiDemo.tsx
+const float LAYER_DEPTH_STEP = 4.0;
+
+// Shadow ray technique - must match SHADOW_TECHNIQUE_CODES in lib/lights.ts
+const float SHADOW_TECHNIQUE_RAYMARCH = 0.0; // Pixel-by-pixel march through uOccluderMap
+const float SHADOW_TECHNIQUE_SDF = 1.0;      // Sphere trace through the distance field in uShadowTechniqueMap
+const float SHADOW_TECHNIQUE_POLAR = 2.0;    // Single lookup in uShadowAtlas (point/spot lights)
+uniform float uShadowTechnique;
+// Per-technique shadow map - one sampler shared by the techniques to stay within 16 texture units:
+//   sdf      - jump flood distance to nearest caster pixel, 8.8 fixed point in RG, its height in B and
+//              shadow opacity in A (lib/distanceField.ts)
+//   raymarch - occluder tint map: light absorbed per channel in RGB, premultiplied by coverage in A
+uniform sampler2D uShadowTechniqueMap;
+
+// Polar shadow atlas - row = light buffer index, column = angle, RG = 16-bit shadow start distance (lib/shadowAtlas.ts)
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+uniform highp sampler2D uShadowAtlas;
+#else
+uniform mediump sampler2D uShadowAtlas;
+#endif
+uniform vec2 uShadowAtlasSize;         // (angles, rows) - tint rows follow the MAX_LIGHTS depth rows
+uniform float uShadowAtlasMaxDistance; // Distance encoded by 0xFFFF
+uniform bool uShadowAtlasTinted;       // Tint rows rendered (a caster has shadowTint) - grey shadow opacity otherwise
 
 // Ambient Occlusion System (completely independent from lighting/shadows)
 uniform bool uAOEnabled; // Enable/disable ambient occlusion
@@ -90,8 +137,66 @@ uniform float uAOBias; // Bias to prevent self-occlusion
 // Image-Based Lighting (IBL) System - Environmental/Indirect Lighting
 uniform bool uIBLEnabled; // Enable/disable IBL
 uniform float uIBLIntensity; // IBL strength multiplier (0.0-5.0)
-uniform sampler2D uEnvironmentMap; // Equirectangular environment map for IBL
+uniform sampler2D uEnvironmentMap; // Prefiltered IBL atlas (lib/environmentPrefilter.ts), WHITE until a map is baked
+uniform bool uEnvironmentPrefiltered; // False while uEnvironmentMap is the WHITE placeholder
 uniform float uIBLPixelStep; // Pixel correspondence (0.0-2.0): how many pixels in skybox per pixel in sprite
+uniform float uIBLRotation; // Environment yaw in radians
+uniform vec3 uIBLTint; // Environment color multiplier
+uniform float uIBLExposure; // Environment exposure in stops (0 = as loaded)
+
+// Emissive Light System - emissive sprites act as cheap area lights for their neighbours
+uniform bool uEmissiveLightEnabled; // Enable/disable emissive light gathering
+uniform sampler2D uEmissiveLightMap; // Low-res canvas-space map of emitted light (stored at 1/EMISSIVE_LIGHT_SCALE)
+uniform float uEmissiveLightRadius; // Gather radius in pixels
+
+// Must match EMISSIVE_LIGHT_SCALE in PixiDemo.tsx (emissive light map stores color / scale to fit 8-bit range)
+const float EMISSIVE_LIGHT_SCALE = 4.0;
+
+// Deferred Lighting - this shader doubles as the fullscreen lighting pass when compiled with
+// DEFERRED_LIGHTING defined: material comes from the G-buffer, per-sprite values from the receiver buffer
+// (layouts in lib/deferred.ts)
+#ifdef DEFERRED_LIGHTING
+uniform sampler2D uGBufferAlbedo;   // Premultiplied albedo, coverage alpha
+uniform sampler2D uGBufferNormal;   // Normal * 0.5 + 0.5
+uniform sampler2D uGBufferMaterial; // Metallic, smoothness, receiver index / 255, ownership
+uniform sampler2D uGBufferEmissive; // Emissive / EMISSIVE_LIGHT_SCALE
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+uniform highp sampler2D uReceiverBuffer;
+#else
+uniform mediump sampler2D uReceiverBuffer;
+#endif
+uniform vec2 uReceiverBufferSize; // (texels per receiver, row capacity)
+#endif
+
+// Current receiver - set at the start of main() from sprite uniforms (forward) or the receiver buffer (deferred)
+vec2 receiverMin;
+vec2 receiverMax;
+float receiverZOrder;
+float receiverDepth; // Parallax layer plane - light heights and caster heights are measured from it
+vec2 receiverSpritePos;
+vec2 receiverSpriteSize;
+
+// Gathers light emitted by nearby emissive sprites from the low-res emissive light map.
+// Two rings of 8 taps plus a centre tap, weighted by quadratic distance falloff - no shadowing.
+vec3 calculateEmissiveLight(vec2 pixelPos) {
+  vec3 gathered = texture2D(uEmissiveLightMap, worldToView(pixelPos) / uCanvasSize).rgb;
+  float totalWeight = 1.0;
+  
+  for (int ring = 1; ring <= 2; ring++) {
+    float ringDistance = uEmissiveLightRadius * float(ring) / 3.0;
+    float falloff = 1.0 - ringDistance / uEmissiveLightRadius;
+    float weight = falloff * falloff;
+    
+    for (int i = 0; i < 8; i++) {
+      float angle = float(i) * 0.785398 + float(ring) * 0.392699; // 45° steps, rings offset by 22.5°
+      vec2 samplePos = pixelPos + vec2(cos(angle), sin(angle)) * ringDistance;
+      gathered += texture2D(uEmissiveLightMap, worldToView(samplePos) / uCanvasSize).rgb * weight;
+    }
+    totalWeight += 8.0 * weight;
+  }
+  
+  return gathered / totalWeight * EMISSIVE_LIGHT_SCALE;
+}
 
 // Function to sample mask with transforms
 float sampleMask(sampler2D maskTexture, vec2 pixelPos, vec2 lightPos, vec2 offset, float rotation, float scale, vec2 maskSize) {
@@ -121,9 +226,82 @@ float sampleMask(sampler2D maskTexture, vec2 pixelPos, vec2 lightPos, vec2 offse
 }
 
 
+// Decode one fixed-point light buffer value (bytes low to high in rgba, see LightBuffer.encodeFixedPoint)
+// Integer and fraction halves are summed separately - the full 32-bit value doesn't fit a float mantissa
+float decodeLightValue(float column, float row) {
+  vec4 bytes = floor(texture2D(uLightBuffer, vec2((column + 0.5) / uLightBufferSize.x, row)) * 255.0 + 0.5);
+  return (bytes.a * 256.0 + bytes.b - 32768.0) + (bytes.g * 256.0 + bytes.r) / 65536.0;
+}
+
+// Fetch one texel of a light row from the light buffer
+vec4 fetchLightTexel(int lightIndex, float texel) {
+  float row = (float(lightIndex) + 0.5) / uLightBufferSize.y;
+  if (uLightBufferEncoded) {
+    float column = texel * 4.0; // LIGHT_BUFFER_ENCODED_TEXELS
+    return vec4(decodeLightValue(column, row), decodeLightValue(column + 1.0, row),
+                decodeLightValue(column + 2.0, row), decodeLightValue(column + 3.0, row));
+  }
+  return texture2D(uLightBuffer, vec2((texel + 0.5) / uLightBufferSize.x, row));
+}
+
+// Fetch one texel of a tile's light list (texel 0 = count, texels 1+ = 4 light indices each)
+vec4 fetchTileTexel(vec2 tile, float texel) {
+  vec2 tileUV = vec2((tile.x * LIGHT_TILE_TEXELS + texel + 0.5) / uLightTileBufferSize.x, (tile.y + 0.5) / uLightTileBufferSize.y);
+  return texture2D(uLightTileBuffer, tileUV);
+}
+
+// Sample the mask bound to a mask slot (branch per slot - samplers must be indexed with constants)
+float sampleLightMask(float slot, vec2 pixelPos, vec2 lightPos, vec4 maskTransform, vec2 maskSize) {
+  vec2 offset = maskTransform.xy;
+  float rotation = maskTransform.z;
+  float scale = maskTransform.w;
+  
+  if (slot < 0.5) return sampleMask(uLightMask0, pixelPos, lightPos, offset, rotation, scale, maskSize);
+  if (slot < 1.5) return sampleMask(uLightMask1, pixelPos, lightPos, offset, rotation, scale, maskSize);
+  if (slot < 2.5) return sampleMask(uLightMask2, pixelPos, lightPos, offset, rotation, scale, maskSize);
+  return sampleMask(uLightMask3, pixelPos, lightPos, offset, rotation, scale, maskSize);
+}
+
+// Decode a normalized caster height (0-1) to pixels, 1.0 meaning unlimited
+float decodeOccluderHeight(float normalizedHeight) {
+  return normalizedHeight > 0.999 ? OCCLUDER_HEIGHT_UNLIMITED : normalizedHeight * OCCLUDER_HEIGHT_RANGE;
+}
+
+// Parallax layer depth (pixels) of the caster at an occluder map texel - blue is premultiplied by coverage
+float occluderDepth(vec4 occluder) {
+  return (floor(occluder.b / max(occluder.a, 0.001) * 255.0 + 0.5) - 128.0) * LAYER_DEPTH_STEP;
+}
+
+// Raises a caster height (pixels above its own layer) to the receiver's plane. Casters on layers behind the
+// receiver never shadow it - they get a height no ray passes under
+float heightAboveReceiver(float casterHeight, float casterDepth) {
+  float depthAbove = casterDepth - receiverDepth;
+  return depthAbove < -0.5 * LAYER_DEPTH_STEP ? -OCCLUDER_HEIGHT_UNLIMITED : casterHeight + depthAbove;
+}
+
+// Caster height (pixels above the receiver's plane) at an occluder map texel - red is premultiplied by coverage
+float occluderHeight(vec4 occluder) {
+  return heightAboveReceiver(decodeOccluderHeight(occluder.r / max(occluder.a, 0.001)), occluderDepth(occluder));
+}
+
+// True when the occluder map texel holds a caster tall enough to cut a ray passing at rayHeight
+bool occluderBlocksRay(vec4 occluder, float rayHeight) {
+  return occluder.a > 0.5 && occluderHeight(occluder) > rayHeight;
+}
+
+// Light absorbed per channel by the caster at an occluder map UV - grey (shadow opacity) for plain casters,
+// the complement of the diffuse color for tinted ones. Read from the tint map bound for the ray march technique
+vec3 occluderAbsorbance(vec2 occluderMapUV) {
+  vec4 tint = texture2D(uShadowTechniqueMap, occluderMapUV);
+  return tint.rgb / max(tint.a, 0.001);
+}
+
 // Directional light shadow calculation using occluder map - specialized for parallel rays
-float calculateDirectionalShadowOccluderMap(vec2 lightDirection, vec2 pixelPos) {
-  if (!uShadowsEnabled) return 1.0;
+// rayRise is the ray's climb per pixel travelled towards the light (|dir.z| / |dir.xy|) - low casters only
+// shadow pixels close behind them, and the shadow lengthens as the light gets lower.
+// Returns a per-channel shadow factor - translucent and tinted casters filter the light instead of blocking it
+vec3 calculateDirectionalShadowOccluderMap(vec2 lightDirection, vec2 pixelPos, float rayRise) {
+  if (!uShadowsEnabled) return vec3(1.0);
   
   // For directional lights, cast ray backwards from pixel position in light direction
   // This simulates parallel rays from infinite distance (sun/moon lighting)
@@ -133,6 +311,11 @@ float calculateDirectionalShadowOccluderMap(vec2 lightDirection, vec2 pixelPos)
   float stepSize = 2.0; // Pixel steps along the ray
   float maxDistance = 500.0; // Reasonable maximum distance for occluder search
   
+  // Densest caster along the ray (per channel) and its distance from the pixel
+  vec3 occlusion = vec3(0.0);
+  float maxStrength = 0.0;
+  float shadowLength = 0.0;
+  
   // Use constant loop bounds for WebGL compatibility
   for (int i = 1; i < 200; i++) {
     float distance = float(i) * stepSize;
@@ -144,8 +327,8 @@ float calculateDirectionalShadowOccluderMap(vec2 lightDirection, vec2 pixelPos)
     
     vec2 samplePos = pixelPos + rayDir * distance;
     
-    // Convert world position to UV coordinates
-    vec2 occluderUV = samplePos / uCanvasSize;
+    // Convert world position to view UV coordinates
+    vec2 occluderUV = worldToView(samplePos) / uCanvasSize;
     
     // Check bounds - allow expanded area for off-screen shadow casting
     vec2 expandedMapSize = uCanvasSize + 2.0 * uOccluderMapOffset;
@@ -157,7 +340,7 @@ float calculateDirectionalShadowOccluderMap(vec2 lightDirection, vec2 pixelPos)
     
     // ADVANCED SELF-SHADOW AVOIDANCE: Use ray-AABB intersection like point/spot lights
     // Calculate if this sample distance falls within the sprite's self-intersection interval
-    vec2 spriteSize = uReceiverMax - uReceiverMin;
+    vec2 spriteSize = receiverMax - receiverMin;
     float spriteArea = spriteSize.x * spriteSize.y;
     bool isBackgroundSprite = spriteArea > 400000.0; // Background is ~480,000 pixels
     
@@ -168,8 +351,8 @@ float calculateDirectionalShadowOccluderMap(vec2 lightDirection, vec2 pixelPos)
         abs(rayDir.y) > 0.0001 ? 1.0 / rayDir.y : 1000000.0
       );
       
-      vec2 t1 = (uReceiverMin - pixelPos) * invDir;
-      vec2 t2 = (uReceiverMax - pixelPos) * invDir; 
+      vec2 t1 = (receiverMin - pixelPos) * invDir;
+      vec2 t2 = (receiverMax - pixelPos) * invDir; 
       
       vec2 tNear = min(t1, t2);
       vec2 tFar = max(t1, t2);
@@ -186,46 +369,89 @@ float calculateDirectionalShadowOccluderMap(vec2 lightDirection, vec2 pixelPos)
     
     // Sample occluder map alpha (adjust UV for expanded map offset)
     vec2 adjustedUV = (occluderUV * uCanvasSize + uOccluderMapOffset) / expandedMapSize;
-    float occluderAlpha = texture2D(uOccluderMap, adjustedUV).a;
-    
-    // If we hit an occluder, cast shadow with distance-based softness
-    if (occluderAlpha > 0.0) {
-      float shadowLength = distance; // Distance from occluder to receiver (pixel)
-      
-      // Limit shadow by actual shadow length
-      if (shadowLength > uShadowMaxLength) {
-        return 1.0; // Shadow is longer than max allowed
+    vec4 occluder = texture2D(uOccluderMap, adjustedUV);
+    
+    // If we hit an occluder taller than the ray at this point, record how much light it absorbs
+    if (occluder.a > 0.0 && occluderHeight(occluder) > distance * rayRise) {
+      vec3 absorbance = occluderAbsorbance(adjustedUV);
+      float strength = max(max(absorbance.r, absorbance.g), absorbance.b);
+      if (strength > maxStrength) {
+        maxStrength = strength;
+        shadowLength = distance; // Distance from occluder to receiver (pixel)
       }
+      occlusion = max(occlusion, absorbance);
       
-      // Gradual fade-out towards max shadow length to avoid hard cutoffs
-      float maxLengthFade = 1.0 - smoothstep(uShadowMaxLength * 0.7, uShadowMaxLength, shadowLength);
-      if (maxLengthFade <= 0.0) return 1.0; // Completely faded out
-      
-      // Binary shadow detection - clean and artifact-free
-      float shadowValue = 1.0;
-      
-      // Calculate final shadow strength with distance-based softness
-      float normalizedDistance = shadowLength / uShadowMaxLength;
-      float distanceFade = exp(-normalizedDistance * 2.0);
-      
-      float finalShadowStrength = uShadowStrength * shadowValue * distanceFade * maxLengthFade;
-      
-      return 1.0 - clamp(finalShadowStrength, 0.0, uShadowStrength);
+      // Opaque caster - nothing further along can darken the shadow. Translucent ones keep marching
+      if (min(min(occlusion.r, occlusion.g), occlusion.b) >= 1.0) break;
     }
   }
   
-  return 1.0; // Not in shadow
+  if (maxStrength <= 0.0) return vec3(1.0); // Not in shadow
+  
+  // Limit shadow by actual shadow length
+  if (shadowLength > uShadowMaxLength) {
+    return vec3(1.0); // Shadow is longer than max allowed
+  }
+  
+  // Gradual fade-out towards max shadow length to avoid hard cutoffs
+  float maxLengthFade = 1.0 - smoothstep(uShadowMaxLength * 0.7, uShadowMaxLength, shadowLength);
+  if (maxLengthFade <= 0.0) return vec3(1.0); // Completely faded out
+  
+  // Calculate final shadow strength with distance-based softness
+  float normalizedDistance = shadowLength / uShadowMaxLength;
+  float distanceFade = exp(-normalizedDistance * 2.0);
+  
+  float finalShadowStrength = uShadowStrength * distanceFade * maxLengthFade;
+  
+  return vec3(1.0) - clamp(finalShadowStrength * occlusion, 0.0, uShadowStrength);
+}
+
+
+// Turns an occlusion amount (0-1) and the blocker-to-receiver distance into the final shadow factor:
+// shadows fade out towards uShadowMaxLength and weaken with distance from their caster
+float applyShadowFalloff(float occlusion, float shadowLength) {
+  if (occlusion <= 0.0) return 1.0; // Not in shadow
+  
+  // Limit shadow by max shadow length (same logic as directional lights)
+  if (shadowLength > uShadowMaxLength) {
+    return 1.0; // Shadow is longer than max allowed
+  }
+  
+  // Gradual fade-out towards max shadow length to avoid hard cutoffs (same as directional)
+  float maxLengthFade = 1.0 - smoothstep(uShadowMaxLength * 0.7, uShadowMaxLength, shadowLength);
+  if (maxLengthFade <= 0.0) return 1.0; // Completely faded out
+  
+  // Apply shadow strength with distance-based softness (enhanced like directional)
+  float normalizedDistance = shadowLength / uShadowMaxLength;
+  float distanceFade = exp(-normalizedDistance * 2.0);
+  
+  float finalShadowStrength = uShadowStrength * distanceFade * maxLengthFade * occlusion;
+  
+  return 1.0 - clamp(finalShadowStrength, 0.0, uShadowStrength);
 }
 
+// Colored shadows - per channel occlusion (translucent and tinted casters) with the same falloff
+vec3 applyShadowFalloff(vec3 occlusion, float shadowLength) {
+  return vec3(
+    applyShadowFalloff(occlusion.r, shadowLength),
+    applyShadowFalloff(occlusion.g, shadowLength),
+    applyShadowFalloff(occlusion.b, shadowLength)
+  );
+}
 
 // Occluder map shadow calculation - with proper self-shadow avoidance
-float calculateShadowOccluderMap(vec2 lightPos, vec2 pixelPos) {
-  if (!uShadowsEnabled) return 1.0;
+// lightSize > 0 turns the ray into a cone march: the light disc (radius lightSize) seen from the pixel narrows
+// linearly towards the pixel, so blockers near the receiver give hard edges and distant ones wide penumbrae.
+// The ray descends from lightHeight to the receiver (z = 0), so casters lower than the ray don't block it.
+// Occlusion is tracked per channel: translucent and tinted casters filter the light, and overlapping ones
+// don't stack - the densest caster along the ray decides
+vec3 calculateShadowOccluderMap(vec2 lightPos, vec2 pixelPos, float lightSize, float lightHeight) {
+  if (!uShadowsEnabled) return vec3(1.0);
   
   vec2 rayDir = pixelPos - lightPos;
   float rayLength = length(rayDir);
   
-  if (rayLength < 0.001) return 1.0; // Same position as light
+  if (rayLength < 0.001) return vec3(1.0); // Same position as light
   
   rayDir /= rayLength; // Normalize
   
@@ -236,8 +462,8 @@ float calculateShadowOccluderMap(vec2 lightPos, vec2 pixelPos) {
     abs(rayDir.y) > 0.0001 ? 1.0 / rayDir.y : 1000000.0
   );
   
-  vec2 t1 = (uReceiverMin - lightPos) * invDir;
-  vec2 t2 = (uReceiverMax - lightPos) * invDir;
+  vec2 t1 = (receiverMin - lightPos) * invDir;
+  vec2 t2 = (receiverMax - lightPos) * invDir;
   
   vec2 tNear = min(t1, t2);
   vec2 tFar = max(t1, t2);
@@ -246,14 +472,14 @@ float calculateShadowOccluderMap(vec2 lightPos, vec2 pixelPos) {
   float tExitSelf = min(min(tFar.x, tFar.y), rayLength);
   
   // Check if light is inside receiver sprite bounds
-  bool lightInsideReceiver = (lightPos.x >= uReceiverMin.x && lightPos.x <= uReceiverMax.x && 
-                             lightPos.y >= uReceiverMin.y && lightPos.y <= uReceiverMax.y);
+  bool lightInsideReceiver = (lightPos.x >= receiverMin.x && lightPos.x <= receiverMax.x && 
+                             lightPos.y >= receiverMin.y && lightPos.y <= receiverMax.y);
   
   // MINIMAL FIX: Modified behavior when light is inside sprite for physical accuracy
   float startDistance = 1.0; // Normal start distance for shadows
   
   // Calculate sprite size to avoid applying fix to background sprites
-  vec2 spriteSize = uReceiverMax - uReceiverMin;
+  vec2 spriteSize = receiverMax - receiverMin;
   float spriteArea = spriteSize.x * spriteSize.y;
   bool isBackgroundSprite = spriteArea > 400000.0; // Background is ~480,000 pixels
   
@@ -268,6 +494,11 @@ float calculateShadowOccluderMap(vec2 lightPos, vec2 pixelPos) {
   float stepSize = 1.0; // Sample every pixel
   float eps = 1.5; // Small epsilon for edge cases
   
+  // Strongest partial occlusion along the cone (per channel) and its blocker-to-receiver distance
+  vec3 maxOcclusion = vec3(0.0);
+  float maxStrength = 0.0;
+  float blockerShadowLength = 0.0;
+  
   for (int i = 1; i < 500; i++) {
     float distance = startDistance + float(i - 1) * stepSize;
     
@@ -280,7 +511,7 @@ float calculateShadowOccluderMap(vec2 lightPos, vec2 pixelPos) {
     }
     
     vec2 samplePos = lightPos + rayDir * distance;
-    vec2 occluderUV = samplePos / uCanvasSize;
+    vec2 occluderUV = worldToView(samplePos) / uCanvasSize;
     
     // Skip out of bounds samples - allow expanded area for off-screen shadow casting
     vec2 expandedMapSize = uCanvasSize + 2.0 * uOccluderMapOffset;
@@ -290,33 +521,262 @@ float calculateShadowOccluderMap(vec2 lightPos, vec2 pixelPos) {
       continue;
     }
     
-    // Sample occluder map - if we hit an occluder, we're in shadow (adjust UV for expanded map offset)
-    vec2 adjustedUV = (occluderUV * uCanvasSize + uOccluderMapOffset) / expandedMapSize;
-    float occluderAlpha = texture2D(uOccluderMap, adjustedUV).a;
-    if (occluderAlpha > 0.5) {
-      // Calculate shadow length from light to pixel (like directional lights)
-      float shadowLength = rayLength - distance; // Distance from occluder to receiver (pixel)
-      
-      // Limit shadow by max shadow length (same logic as directional lights)
-      if (shadowLength > uShadowMaxLength) {
-        return 1.0; // Shadow is longer than max allowed
+    // Cone half-width at this sample: full light radius at the light, zero at the pixel
+    float coneHalfWidth = lightSize * (rayLength - distance) / rayLength;
+    float rayHeight = lightHeight * (rayLength - distance) / rayLength;
+    vec3 occlusion = vec3(0.0);
+    if (coneHalfWidth < 0.5) {
+      // Hard shadow ray - sample occluder map, a hit absorbs the caster's share of the light (adjust UV for expanded map offset)
+      vec2 adjustedUV = (occluderUV * uCanvasSize + uOccluderMapOffset) / expandedMapSize;
+      if (occluderBlocksRay(texture2D(uOccluderMap, adjustedUV), rayHeight)) {
+        occlusion = occluderAbsorbance(adjustedUV);
       }
-      
-      // Gradual fade-out towards max shadow length to avoid hard cutoffs (same as directional)
-      float maxLengthFade = 1.0 - smoothstep(uShadowMaxLength * 0.7, uShadowMaxLength, shadowLength);
-      if (maxLengthFade <= 0.0) return 1.0; // Completely faded out
-      
-      // Apply shadow strength with distance-based softness (enhanced like directional)
-      float normalizedDistance = shadowLength / uShadowMaxLength;
-      float distanceFade = exp(-normalizedDistance * 2.0);
-      
-      float finalShadowStrength = uShadowStrength * distanceFade * maxLengthFade;
-      
-      return 1.0 - clamp(finalShadowStrength, 0.0, uShadowStrength);
+    } else {
+      // Cone march: 5 taps across the cone, fraction covered approximates how much of the light is blocked
+      vec2 perpendicular = vec2(-rayDir.y, rayDir.x) * coneHalfWidth;
+      vec3 covered = vec3(0.0);
+      for (int tap = 0; tap < 5; tap++) {
+        vec2 tapPos = samplePos + perpendicular * (float(tap) * 0.5 - 1.0);
+        // Taps landing on the receiver's own bounds would self-shadow - treat as clear
+        bool onReceiver = !isBackgroundSprite && tapPos.x >= receiverMin.x && tapPos.x <= receiverMax.x && 
+                          tapPos.y >= receiverMin.y && tapPos.y <= receiverMax.y;
+        vec2 tapUV = (worldToView(tapPos) + uOccluderMapOffset) / expandedMapSize;
+        if (!onReceiver && occluderBlocksRay(texture2D(uOccluderMap, tapUV), rayHeight)) {
+          covered += occluderAbsorbance(tapUV);
+        }
+      }
+      occlusion = covered / 5.0;
+    }
+    
+    float strength = max(max(occlusion.r, occlusion.g), occlusion.b);
+    if (strength > maxStrength) {
+      maxStrength = strength;
+      blockerShadowLength = rayLength - distance; // Distance from occluder to receiver (pixel)
     }
+    maxOcclusion = max(maxOcclusion, occlusion);
+    if (min(min(maxOcclusion.r, maxOcclusion.g), maxOcclusion.b) >= 1.0) break; // Fully blocked - no need to march further
   }
   
-  return 1.0; // Not in shadow
+  return applyShadowFalloff(maxOcclusion, blockerShadowLength);
+}
+
+// Distance (world pixels) from a world position to the nearest shadow caster pixel, read from the jump flood field.
+// Outside the expanded map no caster exists, so the distance to the map edge combined with the edge texel's
+// distance is a safe lower bound (the map is convex). The field is in view pixels - divided by the zoom
+float sampleOccluderDistance(vec2 worldPos) {
+  vec2 expandedMapSize = uCanvasSize + 2.0 * uOccluderMapOffset;
+  vec2 mapPos = worldToView(worldPos) + uOccluderMapOffset;
+  vec2 edgePos = clamp(mapPos, vec2(0.5), expandedMapSize - 0.5);
+  vec2 encoded = texture2D(uShadowTechniqueMap, edgePos / expandedMapSize).rg;
+  float edgeDistance = encoded.r * 255.0 + encoded.g * 255.0 / 256.0;
+  vec2 outside = mapPos - edgePos;
+  return sqrt(dot(outside, outside) + edgeDistance * edgeDistance) / uCameraZoom;
+}
+
+// Height (pixels above the receiver's plane, x) and shadow opacity (y) of the caster pixel nearest to a world position,
+// stored alongside its distance. The field has no layer depth - it is read from the occluder map when the position
+// is on a caster, near misses are treated as on the receiver's layer
+vec2 sampleOccluderSeed(vec2 worldPos) {
+  vec2 expandedMapSize = uCanvasSize + 2.0 * uOccluderMapOffset;
+  vec2 edgePos = clamp(worldToView(worldPos) + uOccluderMapOffset, vec2(0.5), expandedMapSize - 0.5);
+  vec2 seed = texture2D(uShadowTechniqueMap, edgePos / expandedMapSize).ba;
+  vec4 occluder = texture2D(uOccluderMap, edgePos / expandedMapSize);
+  float casterDepth = occluder.a > 0.5 ? occluderDepth(occluder) : receiverDepth;
+  return vec2(heightAboveReceiver(decodeOccluderHeight(seed.x), casterDepth), seed.y);
+}
+
+// Distance field shadow - sphere-traces from the light towards the pixel, stepping by the distance to the
+// nearest caster so open space is crossed in a handful of samples. The closest miss relative to the cone
+// half-width (light size shrinking towards the pixel) gives the soft penumbra without extra taps.
+// Only the nearest caster's height is known, so a caster below the ray is crossed pixel by pixel
+float calculateShadowDistanceField(vec2 lightPos, vec2 pixelPos, float lightSize, float lightHeight) {
+  vec2 rayDir = pixelPos - lightPos;
+  float rayLength = length(rayDir);
+  
+  if (rayLength < 0.001) return 1.0; // Same position as light
+  
+  rayDir /= rayLength; // Normalize
+  
+  // Self-interval: where ray intersects current sprite's AABB (same as the occluder map march)
+  vec2 invDir = vec2(
+    abs(rayDir.x) > 0.0001 ? 1.0 / rayDir.x : 1000000.0,
+    abs(rayDir.y) > 0.0001 ? 1.0 / rayDir.y : 1000000.0
+  );
+  vec2 t1 = (receiverMin - lightPos) * invDir;
+  vec2 t2 = (receiverMax - lightPos) * invDir;
+  float tEnterSelf = max(max(min(t1, t2).x, min(t1, t2).y), 0.0);
+  float tExitSelf = min(min(max(t1, t2).x, max(t1, t2).y), rayLength);
+  
+  vec2 spriteSize = receiverMax - receiverMin;
+  bool isBackgroundSprite = spriteSize.x * spriteSize.y > 400000.0; // Background is ~480,000 pixels
+  
+  float eps = 1.5; // Small epsilon for edge cases
+  float maxOcclusion = 0.0;
+  float blockerShadowLength = 0.0;
+  float distance = 1.0;
+  
+  for (int i = 0; i < 128; i++) {
+    // Stop when we reach the pixel
+    if (distance >= rayLength - eps) break;
+    
+    float coneHalfWidth = lightSize * (rayLength - distance) / rayLength;
+    
+    // The receiver is in the field too - hop over its bounds (widened by the cone so its own edge
+    // doesn't register as a near miss) instead of stepping through them
+    if (!isBackgroundSprite && tEnterSelf < tExitSelf && distance > tEnterSelf - eps - coneHalfWidth && distance < tExitSelf + eps) {
+      distance = tExitSelf + eps;
+      continue;
+    }
+    
+    vec2 samplePos = lightPos + rayDir * distance;
+    float sceneDistance = sampleOccluderDistance(samplePos);
+    
+    // Inside a caster: full occlusion. Near miss: partial, fading out over the cone half-width
+    float occlusion = sceneDistance < 1.0 ? 1.0 : 1.0 - clamp((sceneDistance - 1.0) / max(coneHalfWidth, 0.001), 0.0, 1.0);
+    float rayHeight = lightHeight * (rayLength - distance) / rayLength;
+    if (occlusion > 0.0) {
+      vec2 seed = sampleOccluderSeed(samplePos);
+      occlusion = seed.x > rayHeight ? occlusion * seed.y : 0.0; // Translucent casters block partially, low ones not at all
+    }
+    if (occlusion > maxOcclusion) {
+      maxOcclusion = occlusion;
+      blockerShadowLength = rayLength - distance; // Distance from occluder to receiver (pixel)
+      if (maxOcclusion >= 1.0) break; // Fully blocked - no need to trace further
+    }
+    
+    distance += max(sceneDistance, 1.0);
+  }
+  
+  return applyShadowFalloff(maxOcclusion, blockerShadowLength);
+}
+
+// Directional distance field shadow - sphere-traces from the pixel back towards the light (parallel rays)
+float calculateDirectionalShadowDistanceField(vec2 lightDirection, vec2 pixelPos, float rayRise) {
+  vec2 rayDir = normalize(lightDirection);
+  float maxDistance = 500.0; // Same search range as the occluder map march
+  
+  // Self-interval from the pixel's side - the ray starts inside the receiver
+  vec2 invDir = vec2(
+    abs(rayDir.x) > 0.0001 ? 1.0 / rayDir.x : 1000000.0,
+    abs(rayDir.y) > 0.0001 ? 1.0 / rayDir.y : 1000000.0
+  );
+  vec2 t1 = (receiverMin - pixelPos) * invDir;
+  vec2 t2 = (receiverMax - pixelPos) * invDir;
+  float tExitSelf = min(min(max(t1, t2).x, max(t1, t2).y), maxDistance);
+  
+  vec2 spriteSize = receiverMax - receiverMin;
+  bool isBackgroundSprite = spriteSize.x * spriteSize.y > 400000.0; // Background is ~480,000 pixels
+  
+  float eps = 2.0;
+  float distance = isBackgroundSprite ? 2.0 : max(tExitSelf + eps, 2.0);
+  float maxOpacity = 0.0;
+  float shadowLength = 0.0;
+  
+  for (int i = 0; i < 64; i++) {
+    if (distance >= maxDistance) break;
+    
+    vec2 samplePos = pixelPos + rayDir * distance;
+    float sceneDistance = sampleOccluderDistance(samplePos);
+    if (sceneDistance < 1.0) {
+      vec2 seed = sampleOccluderSeed(samplePos);
+      if (seed.x > distance * rayRise && seed.y > maxOpacity) {
+        maxOpacity = seed.y;
+        shadowLength = distance;
+        if (maxOpacity > 0.99) break; // Opaque - translucent casters keep tracing, a denser one may follow
+      }
+    }
+    
+    distance += max(sceneDistance, 1.0);
+  }
+  
+  return applyShadowFalloff(maxOpacity, shadowLength);
+}
+
+// Distance from the light at which shadow starts along the given angle on the receiver's layer plane, from the
+// light's polar atlas row (layout in shadowAtlasFragment.glsl). absorbance = light absorbed per channel by the caster
+// that starts it - its tint row when tinted casters are present, its grey shadowOpacity otherwise.
+// The atlas measures heights from the world plane: every caster the light passes over keeps the same height gap
+// below the light on any plane, so its start scales with the light's height above the receiver. Casters on layers
+// behind the receiver never shadow it - no shadow (uShadowAtlasMaxDistance) is returned for them
+float sampleShadowAtlasDepth(int lightIndex, float angle, float lightHeight, out vec3 absorbance) {
+  vec2 atlasUV = vec2(fract(angle / 6.28318530718 + 0.5), (float(lightIndex) + 0.5) / uShadowAtlasSize.y);
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+  highp vec4 encoded = texture2D(uShadowAtlas, atlasUV);
+#else
+  vec4 encoded = texture2D(uShadowAtlas, atlasUV); // Coarser decode, but compiles on mediump-only GPUs
+#endif
+  float start = (encoded.r * 255.0 * 256.0 + encoded.g * 255.0) / 65535.0 * uShadowAtlasMaxDistance;
+  float casterDepth = (floor(encoded.b * 255.0 + 0.5) - 128.0) * LAYER_DEPTH_STEP;
+  float flags = floor(encoded.a * 255.0 + 0.5);
+  bool blocksAll = flags > 127.5;
+  
+  if (start >= uShadowAtlasMaxDistance || casterDepth - receiverDepth < -0.5 * LAYER_DEPTH_STEP) {
+    absorbance = vec3(0.0);
+    return uShadowAtlasMaxDistance;
+  }
+  if (uShadowAtlasTinted) {
+    absorbance = texture2D(uShadowAtlas, atlasUV + vec2(0.0, float(MAX_LIGHTS) / uShadowAtlasSize.y)).rgb;
+  } else {
+    absorbance = vec3((blocksAll ? flags - 128.0 : flags) / 127.0);
+  }
+  if (!blocksAll && lightHeight > 1.0) {
+    start *= max(lightHeight - receiverDepth, 0.0) / lightHeight;
+  }
+  return start;
+}
+
+// Polar shadow map lookup - the pixel is shadowed when the light's shadow along its angle starts closer than
+// the pixel (the atlas pass already accounts for caster and light heights). Shadows starting at or beyond where
+// the ray enters the receiver's own bounds are the receiver itself, so they are ignored (self-shadow avoidance);
+// the cost is that only the nearest shadow start per angle is known. Translucent and tinted casters filter the light
+// per channel like the ray march. lightSize > 0 filters 5 neighbouring angles spanning the light disc seen from the pixel
+vec3 calculateShadowPolar(int lightIndex, vec3 lightPos3D, vec2 pixelPos, float lightSize) {
+  vec2 lightPos = lightPos3D.xy;
+  vec2 rayDir = pixelPos - lightPos;
+  float rayLength = length(rayDir);
+  
+  if (rayLength < 0.001) return vec3(1.0); // Same position as light
+  
+  rayDir /= rayLength; // Normalize
+  
+  // Where the ray enters the receiver's AABB (0 when the light is inside it - nothing can shadow then)
+  vec2 invDir = vec2(
+    abs(rayDir.x) > 0.0001 ? 1.0 / rayDir.x : 1000000.0,
+    abs(rayDir.y) > 0.0001 ? 1.0 / rayDir.y : 1000000.0
+  );
+  vec2 t1 = (receiverMin - lightPos) * invDir;
+  vec2 t2 = (receiverMax - lightPos) * invDir;
+  float tEnterSelf = max(max(min(t1, t2).x, min(t1, t2).y), 0.0);
+  
+  vec2 spriteSize = receiverMax - receiverMin;
+  bool isBackgroundSprite = spriteSize.x * spriteSize.y > 400000.0; // Background is ~480,000 pixels
+  
+  float eps = 1.5; // Small epsilon for edge cases
+  float visibleUntil = (isBackgroundSprite ? rayLength : min(rayLength, tEnterSelf)) - eps;
+  
+  float angle = atan(rayDir.y, rayDir.x);
+  float angularSpread = lightSize / rayLength; // Half-angle of the light disc seen from the pixel
+  
+  // Hard shadow - a single lookup decides
+  if (angularSpread < 0.0001) {
+    vec3 absorbance;
+    float depth = sampleShadowAtlasDepth(lightIndex, angle, lightPos3D.z, absorbance);
+    return depth < visibleUntil ? applyShadowFalloff(absorbance, rayLength - depth) : vec3(1.0);
+  }
+  
+  vec3 occlusion = vec3(0.0);
+  float blockerDepth = rayLength;
+  for (int tap = 0; tap < 5; tap++) {
+    float tapAngle = angle + angularSpread * (float(tap) * 0.5 - 1.0);
+    vec3 absorbance;
+    float depth = sampleShadowAtlasDepth(lightIndex, tapAngle, lightPos3D.z, absorbance);
+    if (depth < visibleUntil) {
+      occlusion += absorbance;
+      blockerDepth = min(blockerDepth, depth);
+    }
+  }
+  
+  return applyShadowFalloff(occlusion / 5.0, rayLength - blockerDepth);
 }
 
 // Directional light shadow calculation - uses parallel rays for consistent shadows
@@ -356,20 +816,49 @@ float calculateDirectionalShadow(vec4 caster, vec2 pixelPos, vec2 lightDirection
   return 1.0; // Not in shadow
 }
 
-// Unified directional light shadow calculation using occluder map
-float calculateDirectionalShadowUnified(vec2 lightDirection, vec2 pixelPos) {
-  if (!uShadowsEnabled) return 1.0;
+// Unified directional light shadow calculation using occluder map (per channel - tinted casters color the light)
+vec3 calculateDirectionalShadowUnified(vec3 lightDirection, vec2 pixelPos) {
+  if (!uShadowsEnabled) return vec3(1.0);
+  
+  // How fast the ray climbs towards the light - decides which caster heights can reach the pixel
+  float rayRise = abs(lightDirection.z) / max(length(lightDirection.xy), 0.001);
+  
+  if (abs(uShadowTechnique - SHADOW_TECHNIQUE_SDF) < 0.5) {
+    // Grey - the distance field holds the tint map's sampler slot (shadowTint is disabled for sdf in the UI)
+    return vec3(calculateDirectionalShadowDistanceField(lightDirection.xy, pixelPos, rayRise));
+  }
   
   // Use occluder map approach for all directional light shadows
-  return calculateDirectionalShadowOccluderMap(lightDirection, pixelPos);
+  return calculateDirectionalShadowOccluderMap(lightDirection.xy, pixelPos, rayRise);
 }
 
-// Unified shadow calculation using occluder map
-float calculateShadowUnified(vec2 lightPos, vec2 pixelPos) {
-  if (!uShadowsEnabled) return 1.0;
+// Unified shadow calculation using occluder map (per channel - tinted casters color the light)
+vec3 calculateShadowUnified(vec3 lightPos, vec2 pixelPos, float lightSize) {
+  if (!uShadowsEnabled) return vec3(1.0);
+  
+  // Rays descend to the receiver's layer plane, not the world ground
+  float lightHeight = lightPos.z - receiverDepth;
+  
+  if (abs(uShadowTechnique - SHADOW_TECHNIQUE_SDF) < 0.5) {
+    // Grey - the distance field holds the tint map's sampler slot (shadowTint is disabled for sdf in the UI)
+    return vec3(calculateShadowDistanceField(lightPos.xy, pixelPos, lightSize, lightHeight));
+  }
   
   // Use occluder map approach for all point/spot light shadows
-  return calculateShadowOccluderMap(lightPos, pixelPos);
+  return calculateShadowOccluderMap(lightPos.xy, pixelPos, lightSize, lightHeight);
+}
+
+// Area/line light shadow - averages shadow rays from five points spread across the emitter
+// (centre and both half-axes), so the penumbra widens with the emitter's size
+vec3 calculateShapedLightShadow(vec3 emitterCenter, vec2 spanA, vec2 spanB, vec2 pixelPos, float lightSize) {
+  if (!uShadowsEnabled) return vec3(1.0);
+  
+  vec3 shadow = calculateShadowUnified(emitterCenter, pixelPos, lightSize);
+  shadow += calculateShadowUnified(emitterCenter + vec3(spanA, 0.0), pixelPos, lightSize);
+  shadow += calculateShadowUnified(emitterCenter - vec3(spanA, 0.0), pixelPos, lightSize);
+  shadow += calculateShadowUnified(emitterCenter + vec3(spanB, 0.0), pixelPos, lightSize);
+  shadow += calculateShadowUnified(emitterCenter - vec3(spanB, 0.0), pixelPos, lightSize);
+  return shadow / 5.0;
 }
 
 // Ambient Occlusion calculation - respects z-order hierarchy (only higher z-order sprites cast AO)
@@ -379,7 +868,7 @@ float calculateAmbientOcclusion(vec2 pixelPos) {
   
   // FIXED: Completely exclude sprite pixels from AO to prevent AO appearing on sprites
   vec2 mapSize = uCanvasSize + 2.0 * uOccluderMapOffset;
-  vec2 currentUV = pixelPos / uCanvasSize;
+  vec2 currentUV = worldToView(pixelPos) / uCanvasSize;
   vec2 bufferUV = uOccluderMapOffset / uCanvasSize;
   
   if (currentUV.x >= -bufferUV.x && currentUV.x <= 1.0 + bufferUV.x && 
@@ -395,7 +884,7 @@ float calculateAmbientOcclusion(vec2 pixelPos) {
   
   // CRITICAL: Only apply AO if there could be sprites above this one
   // If current sprite is at the highest z-order layer, it should receive no AO
-  float currentZ = uCurrentSpriteZOrder;
+  float currentZ = receiverZOrder;
   
   float totalOcclusion = 0.0;
   float validSamples = 0.0;
@@ -416,7 +905,7 @@ float calculateAmbientOcclusion(vec2 pixelPos) {
     vec2 sampleOffset = vec2(cos(angle), sin(angle)) * uAORadius;
     
     vec2 samplePos = pixelPos + sampleOffset;
-    vec2 sampleUV = samplePos / uCanvasSize;
+    vec2 sampleUV = worldToView(samplePos) / uCanvasSize;
     
     // Check bounds for expanded map
     vec2 bufferUV = uOccluderMapOffset / uCanvasSize;
@@ -567,6 +1056,174 @@ vec3 calculatePBR(vec3 albedo, vec3 normal, vec3 lightDir, vec3 lightColor, floa
   return (diffuse + specular) * lightColor * lightIntensity * NdotL;
 }
 
+// Area (oriented rectangle) and line (capsule) lights. Shading uses the representative point - the emitter
+// point closest to the fragment - with roughness widened by the emitter's angular size for soft highlights
+vec3 calculateShapedLight(vec3 lightPos3D, float lightType, vec4 shape, vec3 lightColor, float lightIntensity,
+                          float lightRadius, bool castsShadows, float lightSize, vec3 albedo, vec3 normal, vec3 worldPos3D,
+                          float metallic, float smoothness, vec3 viewDir) {
+  vec2 pixelPos = worldPos3D.xy;
+  vec3 closest;        // Representative point on the emitter
+  vec3 emitterCenter;  // Shadow sample spread: centre +/- half-axes (z = emitter height)
+  vec2 spanA;
+  vec2 spanB;
+  
+  if (abs(lightType - LIGHT_TYPE_LINE) < 0.5) {
+    // Line: closest point on the segment, pushed out by the tube radius (capsule)
+    vec3 segment = shape.xyz - lightPos3D;
+    float tubeRadius = shape.w * 0.5;
+    float t = clamp(dot(pixelPos - lightPos3D.xy, segment.xy) / max(dot(segment.xy, segment.xy), 0.0001), 0.0, 1.0);
+    closest = lightPos3D + segment * t;
+    
+    vec2 toPixel = pixelPos - closest.xy;
+    float toPixelLength = length(toPixel);
+    if (toPixelLength > 0.001) {
+      closest.xy += toPixel / toPixelLength * min(tubeRadius, toPixelLength);
+    }
+    
+    emitterCenter = lightPos3D + segment * 0.5;
+    spanA = segment.xy * 0.5;
+    vec2 segmentDir = length(segment.xy) > 0.001 ? normalize(segment.xy) : vec2(1.0, 0.0);
+    spanB = vec2(-segmentDir.y, segmentDir.x) * tubeRadius;
+  } else {
+    // Area: clamp the fragment into the rotated rectangle (light plane at the light's height)
+    float rotation = radians(shape.z);
+    vec2 axisX = vec2(cos(rotation), sin(rotation));
+    vec2 axisY = vec2(-axisX.y, axisX.x);
+    vec2 halfSize = shape.xy * 0.5;
+    vec2 local = pixelPos - lightPos3D.xy;
+    vec2 clamped = clamp(vec2(dot(local, axisX), dot(local, axisY)), -halfSize, halfSize);
+    closest = vec3(lightPos3D.xy + axisX * clamped.x + axisY * clamped.y, lightPos3D.z);
+    
+    emitterCenter = lightPos3D;
+    spanA = axisX * halfSize.x;
+    spanB = axisY * halfSize.y;
+  }
+  
+  // Light-to-fragment vector with Y-flip, same convention as point lights
+  vec3 lightDir3D = closest - worldPos3D;
+  lightDir3D.y = -lightDir3D.y;
+  float lightDistance = length(lightDir3D);
+  
+  // Radius is measured from the emitter surface
+  if (lightDistance >= lightRadius) return vec3(0.0);
+  
+  // Fragment directly under the emitter at zero height - light arrives straight down
+  vec3 lightDir = lightDistance > 0.001 ? lightDir3D / lightDistance : vec3(0.0, 0.0, 1.0);
+  
+  float attenuation = 1.0 - clamp(lightDistance / lightRadius, 0.0, 1.0);
+  attenuation = attenuation * attenuation;
+  
+  // Widen the specular lobe by the emitter's half-size over distance (roughness modification)
+  float emitterHalfSize = max(length(spanA), length(spanB));
+  float roughness = max(1.0 - smoothness, 0.04);
+  float widenedRoughness = clamp(roughness + emitterHalfSize / (2.0 * max(lightDistance, 1.0)), 0.04, 1.0);
+  
+  vec3 contribution = calculatePBR(albedo, normal, lightDir, lightColor, lightIntensity * attenuation * 2.0,
+                                   metallic, 1.0 - widenedRoughness, viewDir);
+  
+  if (castsShadows) {
+    contribution *= calculateShapedLightShadow(emitterCenter, spanA, spanB, pixelPos, lightSize);
+  }
+  return contribution;
+}
+
+// Evaluate a single light from the light buffer
+// Point, directional, area and line lights use PBR, spotlights use Lambert
+vec3 calculateBufferedLight(int lightIndex, vec3 albedo, vec3 normal, vec3 worldPos3D, 
+                            float metallic, float smoothness, vec3 viewDir) {
+  vec4 positionType = fetchLightTexel(lightIndex, 0.0);
+  vec4 colorIntensity = fetchLightTexel(lightIndex, 1.0);
+  vec4 directionRadius = fetchLightTexel(lightIndex, 2.0);
+  vec4 spotParams = fetchLightTexel(lightIndex, 3.0); // cone angle, softness, casts shadows, mask slot
+  
+  float lightType = positionType.w;
+  vec3 lightColor = colorIntensity.rgb;
+  float lightIntensity = colorIntensity.a;
+  bool castsShadows = spotParams.z > 0.5;
+  
+  if (lightIntensity <= 0.0) return vec3(0.0);
+  
+  // Source radius (texel 5.z) drives the shadow penumbra, scaled globally by the shadow config
+  float lightSize = fetchLightTexel(lightIndex, 5.0).z * uShadowPenumbraScale;
+  
+  // Directional Light: parallel rays from infinite distance, no attenuation or masks
+  if (abs(lightType - LIGHT_TYPE_DIRECTIONAL) < 0.5) {
+    vec3 lightDir = normalize(vec3(directionRadius.x, -directionRadius.y, -directionRadius.z)); // Fix X-axis direction
+    vec3 pbrContribution = calculatePBR(albedo, normal, lightDir, lightColor, 
+                                       lightIntensity * 2.0, metallic, smoothness, viewDir);
+    
+    // Calculate shadow for directional light (infinite range, always calculate shadows)
+    if (castsShadows) {
+      pbrContribution *= calculateDirectionalShadowUnified(directionRadius.xyz, worldPos3D.xy);
+    }
+    return pbrContribution;
+  }
+  
+  // Area/Line: emitter shape from texel 6, masks don't apply
+  if (lightType > LIGHT_TYPE_SPOTLIGHT + 0.5) {
+    return calculateShapedLight(positionType.xyz, lightType, fetchLightTexel(lightIndex, 6.0), lightColor,
+                                lightIntensity, directionRadius.w, castsShadows, lightSize, albedo, normal, worldPos3D,
+                                metallic, smoothness, viewDir);
+  }
+  
+  // Point/Spot: light-to-fragment vector with Y-flip for coordinate system consistency
+  vec3 lightPos3D = positionType.xyz;
+  vec3 lightDir3D = lightPos3D - worldPos3D;
+  lightDir3D.y = -lightDir3D.y;
+  
+  float lightDistance = length(lightDir3D);
+  float lightRadius = directionRadius.w;
+  
+  // Outside the light's radius - skip shadow ray marching entirely
+  if (lightDistance >= lightRadius) return vec3(0.0);
+  
+  vec3 lightDir = normalize(lightDir3D);
+  
+  // Quadratic attenuation
+  float attenuation = 1.0 - clamp(lightDistance / lightRadius, 0.0, 1.0);
+  attenuation = attenuation * attenuation;
+  
+  vec3 contribution;
+  if (abs(lightType - LIGHT_TYPE_SPOTLIGHT) < 0.5) {
+    // Convert spotlight direction from UI space (+Y down) to shader space
+    vec3 S = normalize(vec3(directionRadius.x, -directionRadius.y, directionRadius.z));
+    
+    // Cone calculation with softness
+    float cosAng = dot(-lightDir, S);
+    float outer = cos(radians(spotParams.x));
+    float inner = cos(radians(spotParams.x * (1.0 - spotParams.y)));
+    float spotFactor = smoothstep(outer, inner, cosAng);
+    if (spotFactor <= 0.0) return vec3(0.0);
+    
+    float lambert = max(dot(normal, lightDir), 0.0);
+    contribution = albedo * lightColor * (lambert * lightIntensity * attenuation * spotFactor);
+  } else {
+    // Point light: PBR lighting (boost intensity for PBR energy conservation)
+    contribution = calculatePBR(albedo, normal, lightDir, lightColor, 
+                                lightIntensity * attenuation * 2.0, metallic, smoothness, viewDir);
+  }
+  
+  vec3 shadowFactor = vec3(1.0);
+  if (castsShadows) {
+    if (abs(uShadowTechnique - SHADOW_TECHNIQUE_POLAR) < 0.5) {
+      shadowFactor = calculateShadowPolar(lightIndex, lightPos3D, worldPos3D.xy, lightSize);
+    } else {
+      shadowFactor = calculateShadowUnified(lightPos3D, worldPos3D.xy, lightSize);
+    }
+  }
+  
+  // Apply mask ONLY in fully lit areas (shadowFactor == 1.0)
+  float maskSlot = spotParams.w;
+  if (uMasksEnabled && maskSlot > -0.5 && min(min(shadowFactor.r, shadowFactor.g), shadowFactor.b) >= 0.99) {
+    vec4 maskTransform = fetchLightTexel(lightIndex, 4.0); // offset.xy, rotation, scale
+    vec2 maskSize = fetchLightTexel(lightIndex, 5.0).xy;
+    contribution *= sampleLightMask(maskSlot, worldPos3D.xy, lightPos3D.xy, maskTransform, maskSize);
+  }
+  
+  // Apply THIS light's shadow
+  return contribution * shadowFactor;
+}
+
 // ======= Image-Based Lighting (IBL) Functions =======
 
 // Convert 3D direction to equirectangular UV coordinates
@@ -578,14 +1235,55 @@ vec2 directionToEquirectUV(vec3 dir) {
   float phi = atan(d.x, d.z); // Azimuth angle
   float theta = asin(d.y); // Elevation angle
   
-  // Map to UV space [0,1]
+  // Map to UV space [0,1] - yaw turns the sky box about the vertical axis
   vec2 uv;
-  uv.x = phi / (2.0 * 3.14159265) + 0.5;
+  uv.x = fract((phi - uIBLRotation) / (2.0 * 3.14159265) + 0.5);
   uv.y = theta / 3.14159265 + 0.5;
   
   return uv;
 }
 
+// IBL atlas layout - MUST match lib/environmentPrefilter.ts (and ENVIRONMENT_RGBM_RANGE in lib/environmentMap.ts)
+const float ENVIRONMENT_RGBM_RANGE = 16.0;
+const float ENVIRONMENT_ATLAS_SIZE = 256.0;
+const float ENVIRONMENT_SPECULAR_LEVELS = 5.0;
+const vec4 ENVIRONMENT_IRRADIANCE_RECT = vec4(128.0, 128.0, 32.0, 16.0); // x, y, width, height in atlas pixels
+
+// One equirect region of the atlas - clamped half a texel inside so bilinear taps never bleed into a neighbour
+vec3 sampleEnvironmentRegion(vec2 uv, vec4 rect) {
+  vec2 inset = 0.5 / rect.zw;
+  vec2 atlasUV = (rect.xy + clamp(uv, inset, 1.0 - inset) * rect.zw) / ENVIRONMENT_ATLAS_SIZE;
+  vec4 texel = texture2D(uEnvironmentMap, atlasUV);
+  return texel.rgb * texel.a * ENVIRONMENT_RGBM_RANGE; // RGBM - HDR maps may exceed 1.0
+}
+
+// Specular level i is SIZE / 2^i wide, stacked downwards in the left column
+vec4 environmentSpecularRect(float level) {
+  float width = ENVIRONMENT_ATLAS_SIZE * exp2(-level);
+  return vec4(0.0, ENVIRONMENT_ATLAS_SIZE - width, width, width * 0.5);
+}
+
+// GGX-prefiltered radiance - blends the two baked levels around this roughness like trilinear mip filtering
+vec3 sampleSpecularEnvironment(vec2 uv, float roughness) {
+  if (!uEnvironmentPrefiltered) {
+    return texture2D(uEnvironmentMap, uv).rgb;
+  }
+  float level = clamp(roughness, 0.0, 1.0) * (ENVIRONMENT_SPECULAR_LEVELS - 1.0);
+  float lowerLevel = floor(level);
+  float upperLevel = min(lowerLevel + 1.0, ENVIRONMENT_SPECULAR_LEVELS - 1.0);
+  vec3 lower = sampleEnvironmentRegion(uv, environmentSpecularRect(lowerLevel));
+  vec3 upper = sampleEnvironmentRegion(uv, environmentSpecularRect(upperLevel));
+  return mix(lower, upper, level - lowerLevel);
+}
+
+// Cosine-convolved irradiance / PI for diffuse IBL
+vec3 sampleIrradiance(vec2 uv) {
+  if (!uEnvironmentPrefiltered) {
+    return texture2D(uEnvironmentMap, uv).rgb;
+  }
+  return sampleEnvironmentRegion(uv, ENVIRONMENT_IRRADIANCE_RECT);
+}
+
 // Calculate IBL contribution (diffuse irradiance + specular reflection)
 vec3 calculateIBL(vec3 albedo, vec3 normal, vec3 viewDir, float metallic, float smoothness, vec2 pixelPosInSprite) {
   if (!uIBLEnabled || uIBLIntensity <= 0.0) {
@@ -615,8 +1313,8 @@ vec3 calculateIBL(vec3 albedo, vec3 normal, vec3 viewDir, float metallic, float
   vec3 positionalOffset = vec3(0.0);
   if (uIBLPixelStep > 0.0) {
     // Normalize pixel position to [-1, 1] range based on sprite bounds
-    vec2 spriteCenter = uSpritePos + uSpriteSize * 0.5;
-    vec2 relativePos = (vWorldPos - spriteCenter) / max(uSpriteSize.x, uSpriteSize.y);
+    vec2 spriteCenter = receiverSpritePos + receiverSpriteSize * 0.5;
+    vec2 relativePos = (pixelPosInSprite - spriteCenter) / max(receiverSpriteSize.x, receiverSpriteSize.y);
     
     // Scale by pixel step (controls how much skybox changes per sprite pixel)
     float offsetScale = uIBLPixelStep * 0.5;
@@ -624,35 +1322,18 @@ vec3 calculateIBL(vec3 albedo, vec3 normal, vec3 viewDir, float metallic, float
   }
   
   // === Diffuse IBL (Irradiance) ===
-  // Sample environment map with normal direction + positional offset for diffuse lighting
+  // Sample the baked irradiance map with normal direction + positional offset for diffuse lighting
   vec3 diffuseDir = normalize(normal + positionalOffset);
   vec2 diffuseUV = directionToEquirectUV(diffuseDir);
-  vec3 irradiance = texture2D(uEnvironmentMap, diffuseUV).rgb;
+  vec3 environmentColor = uIBLTint * exp2(uIBLExposure); // Same adjustment as the background (environmentBackground.glsl)
+  vec3 irradiance = sampleIrradiance(diffuseUV) * environmentColor;
   vec3 diffuseIBL = kD * albedo * irradiance;
   
   // === Specular IBL (Reflection) ===
-  // Sample environment with reflection vector + positional offset, blur based on roughness
+  // Sample the GGX-prefiltered level for this roughness with reflection vector + positional offset
   vec3 specularDir = normalize(R + positionalOffset);
   vec2 specularUV = directionToEquirectUV(specularDir);
-  
-  // Manual blur approximation for roughness (sample neighboring pixels)
-  vec3 specularSample = texture2D(uEnvironmentMap, specularUV).rgb;
-  
-  // Apply roughness-based blur by sampling additional directions
-  if (roughness > 0.1) {
-    float blurAmount = roughness * 0.02; // Blur radius based on roughness
-    vec3 blurSum = specularSample;
-    float samples = 1.0;
-    
-    // Simple 4-tap blur for rough surfaces
-    blurSum += texture2D(uEnvironmentMap, specularUV + vec2(blurAmount, 0.0)).rgb;
-    blurSum += texture2D(uEnvironmentMap, specularUV + vec2(-blurAmount, 0.0)).rgb;
-    blurSum += texture2D(uEnvironmentMap, specularUV + vec2(0.0, blurAmount)).rgb;
-    blurSum += texture2D(uEnvironmentMap, specularUV + vec2(0.0, -blurAmount)).rgb;
-    samples += 4.0;
-    
-    specularSample = blurSum / samples;
-  }
+  vec3 specularSample = sampleSpecularEnvironment(specularUV, roughness) * environmentColor;
   
   // Reduce specular intensity for more subtle reflections
   // Apply roughness falloff to reduce bright edges
@@ -666,7 +1347,69 @@ vec3 calculateIBL(vec3 albedo, vec3 normal, vec3 viewDir, float metallic, float
   return iblContribution;
 }
 
+// Receiver buffer fetch (deferred) - one row per receiver index, texel centres
+#ifdef DEFERRED_LIGHTING
+vec4 fetchReceiverTexel(float receiverIndex, float texel) {
+  vec2 texelUV = (vec2(texel, receiverIndex) + 0.5) / uReceiverBufferSize;
+  return texture2D(uReceiverBuffer, texelUV);
+}
+#endif
+
 void main(void) {
+#ifdef DEFERRED_LIGHTING
+  // Fullscreen quad: vTextureCoord spans the canvas, so it addresses the G-buffer directly
+  vec2 gBufferUV = vTextureCoord;
+  vec4 albedoSample = texture2D(uGBufferAlbedo, gBufferUV);
+  
+  // Nothing was written here - leave the stage background visible
+  if (albedoSample.a < 0.01) {
+    discard;
+  }
+  
+  // Un-premultiply the blended albedo (coverage stays in alpha for the final composite)
+  vec4 diffuseColor = vec4(albedoSample.rgb / albedoSample.a, albedoSample.a);
+  vec4 materialSample = texture2D(uGBufferMaterial, gBufferUV);
+  
+  // The fullscreen quad covers the view - back to world space for lighting
+  vec2 worldPos = (uViewToWorld * vec3(vWorldPos, 1.0)).xy;
+  vec3 worldPos3D = vec3(worldPos.x, worldPos.y, receiverDepth); // On the layer plane - nearer layers are closer to the lights
+  
+  float finalMetallic = materialSample.r;
+  float finalSmoothness = materialSample.g;
+  vec3 normal = texture2D(uGBufferNormal, gBufferUV).rgb * 2.0 - 1.0;
+  vec3 emissive = texture2D(uGBufferEmissive, gBufferUV).rgb * EMISSIVE_LIGHT_SCALE;
+  
+  if (materialSample.a > 0.5) {
+    // Owning sprite's values from the receiver buffer
+    float receiverIndex = floor(materialSample.b * 255.0 + 0.5);
+    vec4 bounds = fetchReceiverTexel(receiverIndex, 0.0);
+    vec4 spriteRect = fetchReceiverTexel(receiverIndex, 1.0);
+    receiverMin = bounds.xy;
+    receiverMax = bounds.zw;
+    receiverSpritePos = spriteRect.xy;
+    receiverSpriteSize = spriteRect.zw;
+    vec4 layering = fetchReceiverTexel(receiverIndex, 2.0);
+    receiverZOrder = layering.r;
+    receiverDepth = layering.g;
+  } else {
+    // Only faint sprite edges cover this pixel - no owner, flat unshadowed-by-self surface
+    receiverMin = vec2(0.0);
+    receiverMax = vec2(0.0);
+    receiverSpritePos = worldPos;
+    receiverSpriteSize = vec2(1.0);
+    receiverZOrder = 0.0;
+    receiverDepth = 0.0;
+    normal = vec3(0.0, 0.0, 1.0);
+  }
+#else
+  // Current receiver comes straight from the sprite uniforms
+  receiverMin = uReceiverMin;
+  receiverMax = uReceiverMax;
+  receiverZOrder = uCurrentSpriteZOrder;
+  receiverDepth = uLayerDepth;
+  receiverSpritePos = uSpritePos;
+  receiverSpriteSize = uSpriteSize;
+  
   // Use UV coordinates directly since geometry is already rotated
   vec2 uv = vTextureCoord;
   
@@ -683,11 +1426,12 @@ void main(void) {
   
   // Use actual world position from vertex shader (includes container transforms)
   vec2 worldPos = vWorldPos;
-  vec3 worldPos3D = vec3(worldPos.x, worldPos.y, 0.0);
+  vec3 worldPos3D = vec3(worldPos.x, worldPos.y, receiverDepth); // On the layer plane - nearer layers are closer to the lights
   
-  // Use scalar PBR material properties (texture support can be added later)
-  float finalMetallic = uMetallicValue;
-  float finalSmoothness = uSmoothnessValue;
+  // PBR material properties: scalar values modulated by the selected map channel
+  // Sprites without maps get 1x1 white textures, so the scalar value passes through unchanged
+  float finalMetallic = uMetallicValue * dot(texture2D(uMetallic, uv), uMetallicChannel);
+  float finalSmoothness = uSmoothnessValue * dot(texture2D(uSmoothness, uv), uSmoothnessChannel);
   
   // Use normal map if enabled, otherwise use flat normal (0, 0, 1)
   vec3 normal;
@@ -709,6 +1453,13 @@ void main(void) {
     normal = vec3(0.0, 0.0, 1.0); // Flat normal pointing outward
   }
   
+  // Emissive glow from the sprite's emissive map
+  vec3 emissive = vec3(0.0);
+  if (uEmissiveIntensity > 0.0) {
+    emissive = texture2D(uEmissive, uv).rgb * uEmissiveColor * uEmissiveIntensity;
+  }
+#endif
+  
   // Calculate view direction for PBR (from surface to camera)
   // For 2.5D, use consistent view direction to avoid ring artifacts
   vec3 viewDir = vec3(0.0, 0.0, 1.0); // Camera looking straight down at surface
@@ -720,430 +1471,39 @@ void main(void) {
   }
   #endif
   
-  // Multi-pass rendering: handle base vs lighting passes
-  vec3 finalColor;
-  
-  // Calculate global shadow factor - available to all lighting calculations
-  float globalShadowFactor = 1.0;
-  
-  if (uPassMode == 0) {
-    // Base pass: ambient lighting only
-    finalColor = diffuseColor.rgb * uAmbientLight * uAmbientColor;
-    
-    // Skip all dynamic lights in base pass
-    gl_FragColor = vec4(finalColor * uColor, diffuseColor.a);
-    return;
-  } else {
-    
-    // Start with ambient light only (no global shadow system)
-    finalColor = diffuseColor.rgb * uAmbientLight * uAmbientColor;
-  }
-  
-  // Point Light 0
-  if (uPoint0Enabled) {
-    vec3 lightPos3D = uPoint0Position;
-    vec3 lightDir3D = lightPos3D - worldPos3D;
-    lightDir3D.y = -lightDir3D.y; // Y-flip for coordinate system consistency
-    
-    float lightDistance = length(lightDir3D);
-    vec3 lightDir = normalize(lightDir3D);
-    
-    
-    // Restore quadratic attenuation
-    float attenuation = 1.0 - clamp(lightDistance / uPoint0Radius, 0.0, 1.0);
-    attenuation = attenuation * attenuation;
-    
-    // FIX: Handle severely corrupted normals only (preserve legitimate normal maps)
-    vec3 safeNormal = normal;
-    
-    // Only replace SEVERELY corrupted normals (much more lenient)
-    if (length(safeNormal) < 0.3 || length(safeNormal) > 2.0) {
-      safeNormal = vec3(0.0, 0.0, 1.0); // Flat surface normal
-    }
-    
-    // Calculate traditional intensity for mask compatibility
-    float normalDot = max(dot(safeNormal, lightDir), 0.0);
-    float intensity = normalDot * uPoint0Intensity * attenuation;
-    
-    // Use PBR lighting calculation for final color (boost intensity for PBR energy conservation)
-    vec3 pbrContribution = calculatePBR(diffuseColor.rgb, safeNormal, lightDir, uPoint0Color, 
-                                       uPoint0Intensity * attenuation * 2.0, finalMetallic, finalSmoothness, viewDir);
-    
-    // Calculate shadow for THIS light - temporarily remove intensity check
-    float shadowFactor = 1.0;
-    if (uPoint0CastsShadows) {
-      shadowFactor = calculateShadowUnified(uPoint0Position.xy, worldPos.xy);
-    }
-    
-    // Apply mask ONLY in fully lit areas (shadowFactor == 1.0) - using traditional intensity for compatibility
-    if (uMasksEnabled && uPoint0HasMask && shadowFactor >= 0.99) {
-      float maskValue = sampleMask(uPoint0Mask, worldPos.xy, uPoint0Position.xy, uPoint0MaskOffset, uPoint0MaskRotation, uPoint0MaskScale, uPoint0MaskSize);
-      intensity *= maskValue; // Apply mask to intensity for compatibility
-      pbrContribution *= maskValue; // Also apply mask to PBR
-    }
-    
-    // Apply shadow to PBR contribution
-    pbrContribution *= shadowFactor;
-    
-    finalColor += pbrContribution;
-  }
-  
-  // Point Light 1
-  if (uPoint1Enabled) {
-    vec3 lightPos3D = uPoint1Position;
-    vec3 lightDir3D = lightPos3D - worldPos3D;
-    lightDir3D.y = -lightDir3D.y; // Y-flip for coordinate system consistency
-    
-    float lightDistance = length(lightDir3D);
-    vec3 lightDir = normalize(lightDir3D);
-    
-    // Removed Y-flip branch that was causing triangular light shapes
-    float attenuation = 1.0 - clamp(lightDistance / uPoint1Radius, 0.0, 1.0);
-    attenuation = attenuation * attenuation;
-    
-    // Use PBR lighting calculation for final color (boost intensity for PBR energy conservation)
-    vec3 pbrContribution = calculatePBR(diffuseColor.rgb, normal, lightDir, uPoint1Color, 
-                                       uPoint1Intensity * attenuation * 2.0, finalMetallic, finalSmoothness, viewDir);
-    
-    // Calculate shadow for THIS light - temporarily remove intensity check
-    float shadowFactor = 1.0;
-    if (uPoint1CastsShadows) {
-      shadowFactor = calculateShadowUnified(uPoint1Position.xy, worldPos.xy);
-    }
-    
-    // Calculate traditional intensity for mask compatibility
-    float normalDot = max(dot(normal, lightDir), 0.0);
-    float intensity = normalDot * uPoint1Intensity * attenuation;
-    
-    // Apply mask ONLY in fully lit areas (shadowFactor == 1.0)
-    if (uMasksEnabled && uPoint1HasMask && shadowFactor >= 0.99) {
-      float maskValue = sampleMask(uPoint1Mask, worldPos.xy, uPoint1Position.xy, uPoint1MaskOffset, uPoint1MaskRotation, uPoint1MaskScale, uPoint1MaskSize);
-      pbrContribution *= maskValue; // Apply mask to PBR
-    }
-    
-    // Apply THIS light's shadow
-    pbrContribution *= shadowFactor;
-    
-    finalColor += pbrContribution;
-  }
+  // Start with ambient light only (no global shadow system)
+  vec3 finalColor = diffuseColor.rgb * uAmbientLight * uAmbientColor;
   
-  // Point Light 2
-  if (uPoint2Enabled) {
-    vec3 lightPos3D = uPoint2Position;
-    vec3 lightDir3D = lightPos3D - worldPos3D;
-    lightDir3D.y = -lightDir3D.y; // Y-flip for coordinate system consistency
-    
-    float lightDistance = length(lightDir3D);
-    vec3 lightDir = normalize(lightDir3D);
-    
-    // Removed Y-flip branch that was causing triangular light shapes
-    float attenuation = 1.0 - clamp(lightDistance / uPoint2Radius, 0.0, 1.0);
-    attenuation = attenuation * attenuation;
-    
-    // Use PBR lighting calculation (boost intensity for PBR energy conservation)
-    vec3 pbrContribution = calculatePBR(diffuseColor.rgb, normal, lightDir, uPoint2Color, 
-                                       uPoint2Intensity * attenuation * 2.0, finalMetallic, finalSmoothness, viewDir);
-    
-    // Calculate traditional intensity for shadow check compatibility
-    float normalDot = max(dot(normal, lightDir), 0.0);
-    float intensity = normalDot * uPoint2Intensity * attenuation;
-    
-    // Calculate shadow ONLY if this light reaches this pixel (has intensity > 0)
-    float shadowFactor = 1.0;
-    if (uPoint2CastsShadows && intensity > 0.0) {
-      shadowFactor = calculateShadowUnified(uPoint2Position.xy, worldPos.xy);
-    }
-    
-    // Apply mask ONLY in fully lit areas (shadowFactor == 1.0)
-    if (uMasksEnabled && uPoint2HasMask && shadowFactor >= 0.99) {
-      float maskValue = sampleMask(uPoint2Mask, worldPos.xy, uPoint2Position.xy, uPoint2MaskOffset, uPoint2MaskRotation, uPoint2MaskScale, uPoint2MaskSize);
-      pbrContribution *= maskValue;
-    }
-    
-    // Apply THIS light's shadow
-    pbrContribution *= shadowFactor;
-    
-    finalColor += pbrContribution;
+  // FIX: Handle severely corrupted normals only (preserve legitimate normal maps)
+  vec3 safeNormal = normal;
+  if (length(safeNormal) < 0.3 || length(safeNormal) > 2.0) {
+    safeNormal = vec3(0.0, 0.0, 1.0); // Flat surface normal
   }
   
-  // Point Light 3
-  if (uPoint3Enabled) {
-    vec3 lightPos3D = uPoint3Position;
-    vec3 lightDir3D = lightPos3D - worldPos3D;
-    lightDir3D.y = -lightDir3D.y; // Y-flip for coordinate system consistency
-    
-    float lightDistance = length(lightDir3D);
-    vec3 lightDir = normalize(lightDir3D);
-    
-    // Removed Y-flip branch that was causing triangular light shapes
-    float attenuation = 1.0 - clamp(lightDistance / uPoint3Radius, 0.0, 1.0);
-    attenuation = attenuation * attenuation;
+  if (uTiledLightingEnabled) {
+    // Tiled culling: only evaluate the lights whose radius touches this pixel's screen tile
+    vec2 tile = clamp(floor(worldToView(worldPos) / uLightTileSize), vec2(0.0), uLightTileGrid - 1.0);
+    float tileLightCount = fetchTileTexel(tile, 0.0).r;
     
-    // Use PBR lighting calculation (boost intensity for PBR energy conservation)
-    vec3 pbrContribution = calculatePBR(diffuseColor.rgb, normal, lightDir, uPoint3Color, 
-                                       uPoint3Intensity * attenuation * 2.0, finalMetallic, finalSmoothness, viewDir);
-    
-    // Calculate traditional intensity for shadow check compatibility
-    float normalDot = max(dot(normal, lightDir), 0.0);
-    float intensity = normalDot * uPoint3Intensity * attenuation;
-    
-    // Calculate shadow ONLY if this light reaches this pixel (has intensity > 0)
-    float shadowFactor = 1.0;
-    if (uPoint3CastsShadows && intensity > 0.0) {
-      shadowFactor = calculateShadowUnified(uPoint3Position.xy, worldPos.xy);
-    }
-    
-    // Apply mask ONLY in fully lit areas (shadowFactor == 1.0)
-    if (uMasksEnabled && uPoint3HasMask && shadowFactor >= 0.99) {
-      float maskValue = sampleMask(uPoint3Mask, worldPos.xy, uPoint3Position.xy, uPoint3MaskOffset, uPoint3MaskRotation, uPoint3MaskScale, uPoint3MaskSize);
-      pbrContribution *= maskValue;
-    }
-    
-    // Apply THIS light's shadow
-    pbrContribution *= shadowFactor;
-    
-    finalColor += pbrContribution;
-  }
-  
-  // Directional Light 0
-  if (uDir0Enabled) {
-    // Directional lights: parallel rays from infinite distance with normal mapping
-    vec3 lightDir = normalize(vec3(uDir0Direction.x, -uDir0Direction.y, -uDir0Direction.z)); // Fix X-axis direction
-    
-    // Normal mapping with safe validation
-    vec3 safeNormal = normal;
-    if (length(safeNormal) < 0.3 || length(safeNormal) > 2.0) {
-      safeNormal = vec3(0.0, 0.0, 1.0); // Flat surface normal
-    }
-    
-    // Use PBR lighting calculation for directional light (boost intensity for PBR energy conservation)
-    vec3 pbrContribution = calculatePBR(diffuseColor.rgb, safeNormal, lightDir, uDir0Color, 
-                                       uDir0Intensity * 2.0, finalMetallic, finalSmoothness, viewDir);
-    
-    // Calculate shadow for directional light (infinite range, always calculate shadows)
-    float shadowFactor = 1.0;
-    if (uDir0CastsShadows) {
-      shadowFactor = calculateDirectionalShadowUnified(uDir0Direction.xy, worldPos.xy);
-    }
-    
-    // Apply THIS light's shadow
-    pbrContribution *= shadowFactor;
-    
-    finalColor += pbrContribution;
-  }
-  
-  // Directional Light 1
-  if (uDir1Enabled) {
-    // Directional lights: parallel rays from infinite distance with normal mapping
-    vec3 lightDir = normalize(vec3(uDir1Direction.x, -uDir1Direction.y, -uDir1Direction.z)); // Fix X-axis direction
-    
-    // Normal mapping with safe validation
-    vec3 safeNormal = normal;
-    if (length(safeNormal) < 0.3 || length(safeNormal) > 2.0) {
-      safeNormal = vec3(0.0, 0.0, 1.0); // Flat surface normal
-    }
-    
-    float normalDot = max(dot(safeNormal, lightDir), 0.0);
-    float intensity = normalDot * uDir1Intensity;
-    
-    // Calculate shadow for directional light (infinite range, always calculate shadows)
-    float shadowFactor = 1.0;
-    if (uDir1CastsShadows) {
-      shadowFactor = calculateDirectionalShadowUnified(uDir1Direction.xy, worldPos.xy);
-    }
-    
-    // Apply THIS light's shadow
-    intensity *= shadowFactor;
-    
-    finalColor += diffuseColor.rgb * uDir1Color * intensity;
-  }
-  
-  // Spotlight 0
-  if (uSpot0Enabled) {
-    // Calculate light-to-fragment vector with Y-flip for coordinate system
-    vec3 L3 = uSpot0Position - worldPos3D;
-    L3.y = -L3.y;
-    float dist = length(L3);
-    vec3 L = normalize(L3);
-    
-    // Distance attenuation with quadratic falloff
-    float atten = 1.0 - clamp(dist / uSpot0Radius, 0.0, 1.0);
-    atten *= atten;
-    
-    // Convert spotlight direction from UI space (+Y down) to shader space
-    vec3 S = normalize(vec3(uSpot0Direction.x, -uSpot0Direction.y, uSpot0Direction.z));
-    
-    // Cone calculation with softness
-    float cosAng = dot(-L, S);
-    float outer = cos(radians(uSpot0ConeAngle));
-    float inner = cos(radians(uSpot0ConeAngle * (1.0 - uSpot0Softness)));
-    float spotFactor = smoothstep(outer, inner, cosAng);
-    
-    // Lambert lighting with safe normal validation  
-    vec3 safeNormal = normal;
-    if (length(safeNormal) < 0.3 || length(safeNormal) > 2.0) {
-      safeNormal = vec3(0.0, 0.0, 1.0);
-    }
-    float lambert = max(dot(safeNormal, L), 0.0);
-    float intensity = lambert * uSpot0Intensity * atten * spotFactor;
-    
-    // Calculate shadow for THIS light - temporarily remove intensity check
-    float shadowFactor = 1.0;
-    if (uSpot0CastsShadows) {
-      shadowFactor = calculateShadowUnified(uSpot0Position.xy, worldPos.xy);
-    }
-    
-    // Apply mask ONLY in fully lit areas (shadowFactor == 1.0)
-    if (uMasksEnabled && uSpot0HasMask && shadowFactor >= 0.99) {
-      float maskValue = sampleMask(uSpot0Mask, worldPos.xy, uSpot0Position.xy, uSpot0MaskOffset, uSpot0MaskRotation, uSpot0MaskScale, uSpot0MaskSize);
-      intensity *= maskValue; // Apply mask only where there's no shadow
-    }
-    
-    // Apply THIS light's shadow
-    intensity *= shadowFactor;
-    
-    finalColor += diffuseColor.rgb * uSpot0Color * intensity;
-  }
-  
-  // Spotlight 1
-  if (uSpot1Enabled) {
-    // Calculate light-to-fragment vector with Y-flip for coordinate system
-    vec3 L3 = uSpot1Position - worldPos3D;
-    L3.y = -L3.y;
-    float dist = length(L3);
-    vec3 L = normalize(L3);
-    
-    // Distance attenuation with quadratic falloff
-    float atten = 1.0 - clamp(dist / uSpot1Radius, 0.0, 1.0);
-    atten *= atten;
-    
-    // Convert spotlight direction from UI space (+Y down) to shader space
-    vec3 S = normalize(vec3(uSpot1Direction.x, -uSpot1Direction.y, uSpot1Direction.z));
-    
-    // Cone calculation with softness
-    float cosAng = dot(-L, S);
-    float outer = cos(radians(uSpot1ConeAngle));
-    float inner = cos(radians(uSpot1ConeAngle * (1.0 - uSpot1Softness)));
-    float spotFactor = smoothstep(outer, inner, cosAng);
-    
-    // Lambert lighting with safe normal validation  
-    vec3 safeNormal = normal;
-    if (length(safeNormal) < 0.3 || length(safeNormal) > 2.0) {
-      safeNormal = vec3(0.0, 0.0, 1.0);
-    }
-    float lambert = max(dot(safeNormal, L), 0.0);
-    float intensity = lambert * uSpot1Intensity * atten * spotFactor;
-    
-    // Calculate shadow ONLY if this light reaches this pixel (has intensity > 0)
-    float shadowFactor = 1.0;
-    if (uSpot1CastsShadows && intensity > 0.0) {
-      shadowFactor = calculateShadowUnified(uSpot1Position.xy, worldPos.xy);
-    }
-    
-    // Apply mask ONLY in fully lit areas (shadowFactor == 1.0)
-    if (uMasksEnabled && uSpot1HasMask && shadowFactor >= 0.99) {
-      float maskValue = sampleMask(uSpot1Mask, worldPos.xy, uSpot1Position.xy, uSpot1MaskOffset, uSpot1MaskRotation, uSpot1MaskScale, uSpot1MaskSize);
-      intensity *= maskValue; // Apply mask only where there's no shadow
-    }
-    
-    // Apply THIS light's shadow
-    intensity *= shadowFactor;
-    
-    finalColor += diffuseColor.rgb * uSpot1Color * intensity;
-  }
-  
-  // Spotlight 2
-  if (uSpot2Enabled) {
-    // Calculate light-to-fragment vector with Y-flip for coordinate system
-    vec3 L3 = uSpot2Position - worldPos3D;
-    L3.y = -L3.y;
-    float dist = length(L3);
-    vec3 L = normalize(L3);
-    
-    // Distance attenuation with quadratic falloff
-    float atten = 1.0 - clamp(dist / uSpot2Radius, 0.0, 1.0);
-    atten *= atten;
-    
-    // Convert spotlight direction from UI space (+Y down) to shader space
-    vec3 S = normalize(vec3(uSpot2Direction.x, -uSpot2Direction.y, uSpot2Direction.z));
-    
-    // Cone calculation with softness
-    float cosAng = dot(-L, S);
-    float outer = cos(radians(uSpot2ConeAngle));
-    float inner = cos(radians(uSpot2ConeAngle * (1.0 - uSpot2Softness)));
-    float spotFactor = smoothstep(outer, inner, cosAng);
-    
-    // Lambert lighting with safe normal validation  
-    vec3 safeNormal = normal;
-    if (length(safeNormal) < 0.3 || length(safeNormal) > 2.0) {
-      safeNormal = vec3(0.0, 0.0, 1.0);
-    }
-    float lambert = max(dot(safeNormal, L), 0.0);
-    float intensity = lambert * uSpot2Intensity * atten * spotFactor;
-    
-    // Calculate shadow ONLY if this light reaches this pixel (has intensity > 0)
-    float shadowFactor = 1.0;
-    if (uSpot2CastsShadows && intensity > 0.0) {
-      shadowFactor = calculateShadowUnified(uSpot2Position.xy, worldPos.xy);
-    }
-    
-    // Apply mask ONLY in fully lit areas (shadowFactor == 1.0)
-    if (uMasksEnabled && uSpot2HasMask && shadowFactor >= 0.99) {
-      float maskValue = sampleMask(uSpot2Mask, worldPos.xy, uSpot2Position.xy, uSpot2MaskOffset, uSpot2MaskRotation, uSpot2MaskScale, uSpot2MaskSize);
-      intensity *= maskValue; // Apply mask only where there's no shadow
-    }
-    
-    // Apply THIS light's shadow
-    intensity *= shadowFactor;
-    
-    finalColor += diffuseColor.rgb * uSpot2Color * intensity;
-  }
-  
-  // Spotlight 3
-  if (uSpot3Enabled) {
-    // Calculate light-to-fragment vector with Y-flip for coordinate system
-    vec3 L3 = uSpot3Position - worldPos3D;
-    L3.y = -L3.y;
-    float dist = length(L3);
-    vec3 L = normalize(L3);
-    
-    // Distance attenuation with quadratic falloff
-    float atten = 1.0 - clamp(dist / uSpot3Radius, 0.0, 1.0);
-    atten *= atten;
-    
-    // Convert spotlight direction from UI space (+Y down) to shader space
-    vec3 S = normalize(vec3(uSpot3Direction.x, -uSpot3Direction.y, uSpot3Direction.z));
-    
-    // Cone calculation with softness
-    float cosAng = dot(-L, S);
-    float outer = cos(radians(uSpot3ConeAngle));
-    float inner = cos(radians(uSpot3ConeAngle * (1.0 - uSpot3Softness)));
-    float spotFactor = smoothstep(outer, inner, cosAng);
-    
-    // Lambert lighting with safe normal validation  
-    vec3 safeNormal = normal;
-    if (length(safeNormal) < 0.3 || length(safeNormal) > 2.0) {
-      safeNormal = vec3(0.0, 0.0, 1.0);
-    }
-    float lambert = max(dot(safeNormal, L), 0.0);
-    float intensity = lambert * uSpot3Intensity * atten * spotFactor;
-    
-    // Calculate shadow ONLY if this light reaches this pixel (has intensity > 0)
-    float shadowFactor = 1.0;
-    if (uSpot3CastsShadows && intensity > 0.0) {
-      shadowFactor = calculateShadowUnified(uSpot3Position.xy, worldPos.xy);
+    for (int i = 0; i < MAX_LIGHTS_PER_TILE; i++) {
+      if (float(i) >= tileLightCount) break;
+      
+      // Unpack light index: 4 indices per texel, component selected without dynamic vector indexing
+      float slot = float(i);
+      vec4 indices = fetchTileTexel(tile, 1.0 + floor(slot / 4.0));
+      vec4 componentMask = vec4(equal(vec4(mod(slot, 4.0)), vec4(0.0, 1.0, 2.0, 3.0)));
+      int lightIndex = int(dot(indices, componentMask) + 0.5);
+      
+      finalColor += calculateBufferedLight(lightIndex, diffuseColor.rgb, safeNormal, worldPos3D, 
+                                           finalMetallic, finalSmoothness, viewDir);
     }
-    
-    // Apply mask ONLY in fully lit areas (shadowFactor == 1.0)
-    if (uMasksEnabled && uSpot3HasMask && shadowFactor >= 0.99) {
-      float maskValue = sampleMask(uSpot3Mask, worldPos.xy, uSpot3Position.xy, uSpot3MaskOffset, uSpot3MaskRotation, uSpot3MaskScale, uSpot3MaskSize);
-      intensity *= maskValue; // Apply mask only where there's no shadow
+  } else {
+    // Accumulate all lights from the light buffer (constant loop bound for WebGL1, runtime count via break)
+    for (int i = 0; i < MAX_LIGHTS; i++) {
+      if (i >= uLightCount) break;
+      finalColor += calculateBufferedLight(i, diffuseColor.rgb, safeNormal, worldPos3D, 
+                                           finalMetallic, finalSmoothness, viewDir);
     }
-    
-    // Apply THIS light's shadow
-    intensity *= shadowFactor;
-    
-    finalColor += diffuseColor.rgb * uSpot3Color * intensity;
   }
   
   // Apply color tinting
@@ -1158,12 +1518,20 @@ void main(void) {
   
   // Apply Ambient Occlusion with reduced effect on solid sprites
   if (uAOEnabled) {
-    float aoFactor = calculateAmbientOcclusion(vWorldPos);
+    float aoFactor = calculateAmbientOcclusion(worldPos);
     // Reduce AO effect on solid sprite areas, but don't eliminate it completely
     float aoInfluence = mix(0.3, 1.0, 1.0 - diffuseColor.a); // Sprites get 30% AO, background gets full AO
     float aoEffect = mix(1.0, aoFactor, aoInfluence);
     finalColor *= aoEffect;
   }
   
+  // Emissive light from nearby glowing sprites - lights this surface like any other light (albedo-weighted)
+  if (uEmissiveLightEnabled) {
+    finalColor += diffuseColor.rgb * calculateEmissiveLight(worldPos);
+  }
+  
+  // Emissive glow - added AFTER all lighting, shadows and AO so it stays bright in dark scenes
+  finalColor += emissive;
+  
   gl_FragColor = vec4(finalColor, diffuseColor.a);
 }
\ No newline at end of file
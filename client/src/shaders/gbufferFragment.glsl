@@ -0,0 +1,71 @@
+#version 300 es
+// G-buffer pass - writes sprite material into the deferred targets (layout in lib/deferred.ts).
+// Lighting is evaluated once per screen pixel afterwards by fragment.glsl compiled with DEFERRED_LIGHTING.
+precision mediump float;
+in vec2 vTextureCoord;
+
+uniform sampler2D uDiffuse;
+uniform sampler2D uNormal;
+uniform sampler2D uMetallic;
+uniform sampler2D uSmoothness;
+uniform vec4 uMetallicChannel;
+uniform vec4 uSmoothnessChannel;
+uniform bool uUseNormalMap;
+uniform vec3 uAlbedoColor;
+uniform float uAlbedoTint;
+uniform float uMetallicValue;
+uniform float uSmoothnessValue;
+uniform sampler2D uEmissive;
+uniform vec3 uEmissiveColor;
+uniform float uEmissiveIntensity;
+uniform float uRotation;
+uniform float uReceiverIndex; // Row of this sprite in the receiver buffer
+
+// Must match EMISSIVE_LIGHT_SCALE in fragment.glsl
+const float EMISSIVE_LIGHT_SCALE = 4.0;
+
+layout(location = 0) out vec4 outAlbedo;
+layout(location = 1) out vec4 outNormal;
+layout(location = 2) out vec4 outMaterial;
+layout(location = 3) out vec4 outEmissive;
+
+void main(void) {
+  vec2 uv = vTextureCoord;
+  vec4 diffuseColor = texture(uDiffuse, uv);
+  diffuseColor.rgb = mix(diffuseColor.rgb, uAlbedoColor, uAlbedoTint);
+  
+  // Same alpha test as the forward shader
+  if (diffuseColor.a < 0.01) {
+    discard;
+  }
+  
+  float metallic = uMetallicValue * dot(texture(uMetallic, uv), uMetallicChannel);
+  float smoothness = uSmoothnessValue * dot(texture(uSmoothness, uv), uSmoothnessChannel);
+  
+  // Normal in screen space - reverse sprite rotation exactly like the forward shader
+  vec3 normal = vec3(0.0, 0.0, 1.0);
+  if (uUseNormalMap) {
+    vec3 normalMapSample = texture(uNormal, uv).rgb * 2.0 - 1.0;
+    float cosR = cos(-uRotation);
+    float sinR = sin(-uRotation);
+    normal = vec3(
+      normalMapSample.x * cosR - normalMapSample.y * sinR,
+      normalMapSample.x * sinR + normalMapSample.y * cosR,
+      normalMapSample.z
+    );
+  }
+  
+  vec3 emissive = vec3(0.0);
+  if (uEmissiveIntensity > 0.0) {
+    emissive = texture(uEmissive, uv).rgb * uEmissiveColor * uEmissiveIntensity;
+  }
+  
+  // Albedo blends with coverage (premultiplied, soft sprite edges survive).
+  // Normal/material/emissive can't be blended meaningfully - the sprite owns the texel once coverage >= 50%,
+  // otherwise the sprite below keeps it (premultiplied blend with alpha 0 leaves the target untouched)
+  float owner = step(0.5, diffuseColor.a);
+  outAlbedo = vec4(diffuseColor.rgb * diffuseColor.a, diffuseColor.a);
+  outNormal = vec4(normal * 0.5 + 0.5, 1.0) * owner;
+  outMaterial = vec4(metallic, smoothness, uReceiverIndex / 255.0, 1.0) * owner;
+  outEmissive = vec4(clamp(emissive / EMISSIVE_LIGHT_SCALE, 0.0, 1.0), 1.0) * owner;
+}
@@ -0,0 +1,15 @@
+#version 300 es
+// G-buffer pass vertex shader - same transform as vertex.glsl, GLSL 300 es for multiple render targets
+in vec2 aVertexPosition;
+in vec2 aTextureCoord;
+
+uniform mat3 projectionMatrix;
+uniform mat3 translationMatrix;
+
+out vec2 vTextureCoord;
+
+void main(void) {
+  vTextureCoord = aTextureCoord;
+  vec3 worldPos = translationMatrix * vec3(aVertexPosition, 1.0);
+  gl_Position = vec4((projectionMatrix * worldPos).xy, 0.0, 1.0);
+}
@@ -0,0 +1,42 @@
+// Jump flood resolve - converts the nearest-seed map into the distance (pixels) to the closest occluder,
+// stored as 8.8 fixed point in RG and clamped to uMaxDistance, plus that occluder pixel's normalized height in B
+// and shadow opacity in A. Decoded by sampleOccluderDistance / sampleOccluderSeed in fragment.glsl
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSeedMap;
+uniform sampler2D uOccluderMap;
+uniform vec2 uMapSize;
+uniform float uMaxDistance;
+
+vec2 decodeSeed(vec4 encoded) {
+  vec4 bytes = floor(encoded * 255.0 + 0.5);
+  return vec2(bytes.r * 256.0 + bytes.g, bytes.b * 256.0 + bytes.a);
+}
+
+void main() {
+  vec2 pixel = floor(vTextureCoord * uMapSize);
+  vec4 encoded = texture2D(uSeedMap, vTextureCoord);
+  
+  float seedDistance = uMaxDistance; // No occluder anywhere in the map
+  float seedHeight = 0.0;
+  float seedOpacity = 0.0;
+  if (!all(greaterThan(encoded, vec4(0.999)))) {
+    vec2 seed = decodeSeed(encoded);
+    seedDistance = min(length(seed - pixel), uMaxDistance);
+    
+    // Occluder red/green are height/opacity premultiplied by coverage (seeds always have coverage > 0.5)
+    vec4 occluder = texture2D(uOccluderMap, (seed + 0.5) / uMapSize);
+    seedHeight = occluder.r / max(occluder.a, 0.001);
+    seedOpacity = occluder.g / max(occluder.a, 0.001);
+  }
+  
+  float whole = floor(seedDistance);
+  float fraction = floor(fract(seedDistance) * 256.0);
+  gl_FragColor = vec4(whole / 255.0, fraction / 255.0, seedHeight, seedOpacity);
+}
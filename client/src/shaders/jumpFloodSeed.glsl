@@ -0,0 +1,26 @@
+// Jump flood seed pass - every occluder pixel becomes a seed pointing at itself, everything else is empty
+// Seed coordinates are packed as 16-bit integers (high/low byte pairs) so RGBA8 targets work on WebGL1
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uOccluderMap;
+uniform vec2 uMapSize;
+
+vec4 encodeSeed(vec2 seed) {
+  vec2 high = floor(seed / 256.0);
+  vec2 low = seed - high * 256.0;
+  return vec4(high.x, low.x, high.y, low.y) / 255.0;
+}
+
+void main() {
+  vec2 pixel = floor(vTextureCoord * uMapSize);
+  float occluderAlpha = texture2D(uOccluderMap, vTextureCoord).a;
+  
+  // vec4(1.0) marks "no seed yet" - decodes to 65535, outside any map we allocate
+  gl_FragColor = occluderAlpha > 0.5 ? encodeSeed(pixel) : vec4(1.0);
+}
@@ -0,0 +1,52 @@
+// Jump flood step - each pixel adopts the closest seed among its 8 neighbours at uStepSize distance
+// (plus its own), halving the step every pass until every pixel knows its nearest occluder pixel
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSeedMap;
+uniform vec2 uMapSize;
+uniform float uStepSize;
+
+vec4 encodeSeed(vec2 seed) {
+  vec2 high = floor(seed / 256.0);
+  vec2 low = seed - high * 256.0;
+  return vec4(high.x, low.x, high.y, low.y) / 255.0;
+}
+
+vec2 decodeSeed(vec4 encoded) {
+  vec4 bytes = floor(encoded * 255.0 + 0.5);
+  return vec2(bytes.r * 256.0 + bytes.g, bytes.b * 256.0 + bytes.a);
+}
+
+void main() {
+  vec2 pixel = floor(vTextureCoord * uMapSize);
+  
+  vec4 bestSeed = vec4(1.0);
+  float bestDistance = -1.0;
+  
+  for (int y = -1; y <= 1; y++) {
+    for (int x = -1; x <= 1; x++) {
+      vec2 neighbor = pixel + vec2(float(x), float(y)) * uStepSize;
+      if (neighbor.x < 0.0 || neighbor.y < 0.0 || neighbor.x >= uMapSize.x || neighbor.y >= uMapSize.y) {
+        continue;
+      }
+      
+      vec4 encoded = texture2D(uSeedMap, (neighbor + 0.5) / uMapSize);
+      if (all(greaterThan(encoded, vec4(0.999)))) continue; // Neighbour has no seed yet
+      
+      vec2 offset = decodeSeed(encoded) - pixel;
+      float seedDistance = dot(offset, offset);
+      if (bestDistance < 0.0 || seedDistance < bestDistance) {
+        bestDistance = seedDistance;
+        bestSeed = encoded;
+      }
+    }
+  }
+  
+  gl_FragColor = bestSeed;
+}
@@ -0,0 +1,19 @@
+// Auto-exposure adaptation - eases the 1×1 adapted luminance towards this frame's average so exposure changes
+// gradually, like an eye adjusting. Ping-pongs between two 1×1 targets (lib/toneMapping.ts)
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uAverageLuminance;  // This frame, normalised log2 luminance
+uniform sampler2D uPreviousLuminance; // Last frame's adapted value
+uniform float uAdaptationRate;        // 0 = keep previous, 1 = jump to this frame
+
+void main(void) {
+  float average = texture2D(uAverageLuminance, vec2(0.5)).r;
+  float previous = texture2D(uPreviousLuminance, vec2(0.5)).r;
+  gl_FragColor = vec4(mix(previous, average, uAdaptationRate), 0.0, 0.0, 1.0);
+}
@@ -0,0 +1,38 @@
+// Auto-exposure luminance reduction - each output texel averages a 4×4 grid of taps over its footprint in the
+// source. The first pass reads the HDR scene and writes normalised log2 luminance, later passes average that down
+// to 1×1 (the geometric mean of the scene). Layout in lib/toneMapping.ts
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSource;
+uniform vec2 uTargetSize;  // Output size in texels - one output texel covers 1 / uTargetSize of the source
+uniform bool uFromScene;   // First pass - convert scene color to log luminance
+
+const float GAMMA = 2.2;                // Sprite shaders light in display space - luminance is measured linear
+const float MIN_LOG_LUMINANCE = -12.0;  // Must match toneMapping.glsl
+const float MAX_LOG_LUMINANCE = 4.0;
+
+float encodeLogLuminance(vec3 color) {
+  vec3 linearColor = pow(max(color, vec3(0.0)), vec3(GAMMA));
+  float luminance = dot(linearColor, vec3(0.2126, 0.7152, 0.0722));
+  float logLuminance = log2(max(luminance, exp2(MIN_LOG_LUMINANCE)));
+  // Normalised so the RGBA8 fallback target can hold it too (16 stops / 255 levels)
+  return clamp((logLuminance - MIN_LOG_LUMINANCE) / (MAX_LOG_LUMINANCE - MIN_LOG_LUMINANCE), 0.0, 1.0);
+}
+
+void main(void) {
+  float sum = 0.0;
+  for (int y = 0; y < 4; y++) {
+    for (int x = 0; x < 4; x++) {
+      vec2 offset = (vec2(float(x), float(y)) + 0.5) / 4.0 - 0.5;
+      vec4 texel = texture2D(uSource, vTextureCoord + offset / uTargetSize);
+      sum += uFromScene ? encodeLogLuminance(texel.rgb) : texel.r;
+    }
+  }
+  gl_FragColor = vec4(sum / 16.0, 0.0, 0.0, 1.0);
+}
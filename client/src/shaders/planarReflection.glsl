@@ -0,0 +1,67 @@
+// Planar reflection - drawn with the geometry of a reflectiveSurface sprite over the composited frame.
+// Each pixel below the horizon line shows the lit scene mirrored about that line, rippled by the sprite's normal map
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+varying vec2 vWorldPos;
+
+uniform sampler2D uSceneTexture; // Lit stage, premultiplied
+uniform sampler2D uSurfaceMap;   // ssrSurface.glsl output - sprite ranks in alpha
+uniform vec2 uMapSize;
+uniform sampler2D uNormal;
+uniform bool uUseNormalMap;
+uniform float uRotation;
+uniform float uSurfaceDepth;     // This sprite's rank in the surface map
+uniform float uHorizonY;         // Mirror line in canvas pixels
+uniform float uIntensity;
+uniform float uDistortion;
+uniform float uFadeDistance;     // 0 = no fade
+
+const float MAX_DISTORTION_PIXELS = 32.0; // Mirror offset for a fully tilted normal at distortion 1
+
+// True when the texel belongs to a sprite other than the reflector (0 depth = no sprite)
+bool isOtherSurface(float depth) {
+  return depth > 0.0 && abs(depth - uSurfaceDepth) > 0.5 / 255.0;
+}
+
+void main(void) {
+  vec2 screenUV = vWorldPos / uMapSize;
+  float below = vWorldPos.y - uHorizonY;
+
+  // Only where this sprite is the visible surface - sprites standing on it keep covering the reflection
+  float ownerDepth = texture2D(uSurfaceMap, screenUV).a;
+  if (below < 0.0 || abs(ownerDepth - uSurfaceDepth) > 0.5 / 255.0) {
+    discard;
+  }
+
+  // Normal in screen space - reverse sprite rotation exactly like the forward shader
+  vec2 normal = vec2(0.0);
+  if (uUseNormalMap) {
+    vec2 normalMapSample = texture2D(uNormal, vTextureCoord).xy * 2.0 - 1.0;
+    float cosR = cos(-uRotation);
+    float sinR = sin(-uRotation);
+    normal = vec2(
+      normalMapSample.x * cosR - normalMapSample.y * sinR,
+      normalMapSample.x * sinR + normalMapSample.y * cosR
+    );
+  }
+
+  vec2 mirror = vec2(vWorldPos.x, uHorizonY - below) + normal * uDistortion * MAX_DISTORTION_PIXELS;
+  vec2 mirrorUV = mirror / uMapSize;
+  if (mirrorUV.y < 0.0 || mirrorUV.x < 0.0 || mirrorUV.x > 1.0) {
+    discard;
+  }
+
+  // Never reflect the reflector itself or empty background
+  if (!isOtherSurface(texture2D(uSurfaceMap, mirrorUV).a)) {
+    discard;
+  }
+
+  float fade = uFadeDistance > 0.0 ? clamp(1.0 - below / uFadeDistance, 0.0, 1.0) : 1.0;
+  float alpha = clamp(uIntensity * fade, 0.0, 1.0);
+  gl_FragColor = vec4(texture2D(uSceneTexture, mirrorUV).rgb * alpha, alpha);
+}
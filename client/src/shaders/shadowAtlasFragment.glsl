@@ -0,0 +1,100 @@
+// Polar shadow atlas pass - each texel of a light's row is one angle around the light. Marches the occluder map
+// outwards along that angle and stores the distance at which shadow starts as a 16-bit value in RG
+// (uMaxDistance = no shadow within the light's radius). Decoded by sampleShadowAtlasDepth in fragment.glsl.
+// A caster of height h at distance d cuts the ray from the light (height z) to a ground pixel at distance r
+// when h > z * (1 - d / r), i.e. it shadows everything beyond d * z / (z - h) - unlimited or taller casters
+// shadow everything beyond d.
+// Heights are measured from the world plane (depth 0) with the caster's layer depth added. The caster that starts
+// the shadow is described in BA so fragment.glsl can move the start to the receiver's plane and skip casters behind it:
+//   B = its layer depth, encoded like the occluder map's blue (128 + depth / LAYER_DEPTH_STEP)
+//   A = its shadow opacity in the low 7 bits, +128 when the light cannot pass over it (start = d on every plane)
+// Only one caster per angle fits, so casters on the world layer or in front of it win; casters on layers behind the
+// world only fill angles none of those shadow
+// Tint rows run the same march and store that caster's per-channel absorbance from the tint map in RGB instead
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord; // x = angle, 0..1 maps to -PI..PI (atan convention)
+varying vec4 vLight;
+varying float vTintRow;
+
+uniform sampler2D uOccluderMap;
+uniform sampler2D uTintMap; // Occluder tint map (same layout as uOccluderMap) - light absorbed per channel, premultiplied
+uniform vec2 uOccluderMapOffset;
+uniform vec2 uCanvasSize;
+uniform mat3 uWorldToView; // Camera (lib/camera.ts) - rows are marched in world pixels, the occluder map is in view space
+uniform float uMaxDistance;
+
+// Must match OCCLUDER_HEIGHT_RANGE / LAYER_DEPTH_STEP in fragment.glsl / PixiDemo.tsx
+const float OCCLUDER_HEIGHT_RANGE = 512.0;
+const float LAYER_DEPTH_STEP = 4.0;
+
+void main() {
+  float angle = vTextureCoord.x * 6.28318530718 - 3.14159265359;
+  vec2 rayDir = vec2(cos(angle), sin(angle));
+  vec2 expandedMapSize = uCanvasSize + 2.0 * uOccluderMapOffset;
+  float maxDistance = min(vLight.z, uMaxDistance);
+  
+  float lightHeight = vLight.w;
+  float shadowStart = uMaxDistance; // Nearest start among casters on the world layer or in front of it
+  float shadowDepth = 128.0;        // Encoded layer depth of the caster that starts the shadow
+  float shadowFlags = 0.0;          // Encoded opacity and pass-over flag of that caster
+  vec2 shadowUV = vec2(0.0);        // Occluder map UV of that caster's pixel (tint rows)
+  float backStart = uMaxDistance;   // Same for casters on layers behind the world
+  float backDepth = 128.0;
+  float backFlags = 0.0;
+  vec2 backUV = vec2(0.0);
+  for (int i = 1; i <= 2048; i++) {
+    float distance = float(i);
+    if (distance > maxDistance || distance >= shadowStart) break; // Nothing further can start shadow sooner
+    
+    vec2 mapPos = (uWorldToView * vec3(vLight.xy + rayDir * distance, 1.0)).xy + uOccluderMapOffset;
+    if (mapPos.x < 0.0 || mapPos.y < 0.0 || mapPos.x > expandedMapSize.x || mapPos.y > expandedMapSize.y) {
+      continue; // Outside the expanded map - no casters there
+    }
+    
+    vec2 mapUV = mapPos / expandedMapSize;
+    vec4 occluder = texture2D(uOccluderMap, mapUV);
+    if (occluder.a > 0.5) {
+      float depthByte = floor(occluder.b / occluder.a * 255.0 + 0.5);
+      float normalizedHeight = occluder.r / occluder.a;
+      float casterHeight = normalizedHeight * OCCLUDER_HEIGHT_RANGE + (depthByte - 128.0) * LAYER_DEPTH_STEP;
+      bool blocksAll = normalizedHeight > 0.999 || casterHeight >= lightHeight;
+      float start = blocksAll ? distance : distance * lightHeight / (lightHeight - casterHeight);
+      float flags = floor(clamp(occluder.g / occluder.a, 0.0, 1.0) * 127.0 + 0.5) + (blocksAll ? 128.0 : 0.0);
+      if (depthByte >= 128.0) {
+        if (start < shadowStart) {
+          shadowStart = start;
+          shadowDepth = depthByte;
+          shadowFlags = flags;
+          shadowUV = mapUV;
+        }
+      } else if (start < backStart) {
+        backStart = start;
+        backDepth = depthByte;
+        backFlags = flags;
+        backUV = mapUV;
+      }
+    }
+  }
+  
+  if (shadowStart >= uMaxDistance) {
+    shadowStart = backStart;
+    shadowDepth = backDepth;
+    shadowFlags = backFlags;
+    shadowUV = backUV;
+  }
+  
+  if (vTintRow > 0.5) {
+    vec4 tint = texture2D(uTintMap, shadowUV);
+    gl_FragColor = vec4(shadowStart < uMaxDistance ? clamp(tint.rgb / max(tint.a, 0.001), 0.0, 1.0) : vec3(0.0), 1.0);
+    return;
+  }
+  
+  float encoded = floor(clamp(shadowStart, 0.0, uMaxDistance) / uMaxDistance * 65535.0 + 0.5);
+  float high = floor(encoded / 256.0);
+  gl_FragColor = vec4(high / 255.0, (encoded - high * 256.0) / 255.0, shadowDepth / 255.0, shadowFlags / 255.0);
+}
@@ -0,0 +1,20 @@
+// Shadow atlas pass vertex shader - one quad per rebuilt atlas row, light position/radius/height as a per-vertex attribute
+attribute vec2 aVertexPosition;
+attribute vec2 aTextureCoord;
+attribute vec4 aLight; // Light position.xy, radius, height (z)
+attribute float aTintRow; // 1 = tint row (caster absorbance instead of the shadow start)
+
+uniform mat3 projectionMatrix;
+uniform mat3 translationMatrix;
+
+varying vec2 vTextureCoord;
+varying vec4 vLight;
+varying float vTintRow;
+
+void main(void) {
+  vTextureCoord = aTextureCoord;
+  vLight = aLight;
+  vTintRow = aTintRow;
+  vec3 worldPos = translationMatrix * vec3(aVertexPosition, 1.0);
+  gl_Position = vec4((projectionMatrix * worldPos).xy, 0.0, 1.0);
+}
@@ -0,0 +1,16 @@
+attribute vec2 aVertexPosition;
+attribute vec2 aTextureCoord;
+
+uniform mat3 projectionMatrix;
+uniform mat3 translationMatrix;
+uniform mat3 uViewMatrix; // Camera world-to-view transform (lib/camera.ts)
+
+varying vec2 vTextureCoord;
+varying vec2 vWorldPos; // World position - lighting runs in world space, only the projection goes through the camera
+
+void main(void) {
+  vTextureCoord = aTextureCoord;
+  vec3 worldPos = translationMatrix * vec3(aVertexPosition, 1.0);
+  vWorldPos = worldPos.xy;
+  gl_Position = vec4((projectionMatrix * uViewMatrix * worldPos).xy, 0.0, 1.0);
+}
@@ -0,0 +1,101 @@
+// Screen-space reflection composite - draws the lit scene to the screen and blends in reflections on smooth sprites.
+// Each reflective pixel marches up the screen until it leaves its own sprite; the first pixel of another sprite
+// is the contact line, and the mirror image of the sprite above it is read back at the same distance past that line
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uSceneTexture; // Lit stage, premultiplied
+uniform sampler2D uSurfaceMap;   // ssrSurface.glsl output
+uniform vec2 uMapSize;
+uniform float uIntensity;
+uniform float uNormalInfluence;
+uniform float uBlur;
+
+const int MAX_STEPS = 128;             // Constant loop bound for WebGL1
+const float STEP_PIXELS = 2.0;         // March resolution - reflections reach MAX_STEPS * STEP_PIXELS pixels
+const float MIN_SMOOTHNESS = 0.05;     // Rougher surfaces skip the march entirely
+const float NORMAL_DISTORTION = 24.0;  // Pixels of mirror offset for a fully tilted normal at normalInfluence 1
+const float BLUR_SCALE = 0.25;         // Tap spacing per pixel of gap for a fully rough surface at blur 1
+const float EDGE_FADE_PIXELS = 32.0;   // Fade reflections that sample close to the top of the screen
+
+float surfaceDepth(vec2 uv) {
+  return texture2D(uSurfaceMap, uv).a;
+}
+
+// True when the texel belongs to a sprite other than the reflecting one (0 depth = no sprite)
+bool isOtherSurface(float depth, float ownDepth) {
+  return depth > 0.0 && abs(depth - ownDepth) > 0.5 / 255.0;
+}
+
+void main(void) {
+  vec2 uv = vTextureCoord;
+  vec4 scene = texture2D(uSceneTexture, uv);
+  vec4 surface = texture2D(uSurfaceMap, uv);
+
+  // Unpack smoothness (high nibble) and metallic (low nibble)
+  float material = floor(surface.b * 255.0 + 0.5);
+  float smoothness = floor(material / 16.0) / 15.0;
+  float metallic = (material - floor(material / 16.0) * 16.0) / 15.0;
+
+  if (surface.a <= 0.0 || smoothness < MIN_SMOOTHNESS || uIntensity <= 0.0) {
+    gl_FragColor = scene;
+    return;
+  }
+
+  vec2 texel = 1.0 / uMapSize;
+  float ownDepth = surface.a;
+
+  // March up to the contact line with the sprite being reflected
+  float gap = -1.0;
+  for (int i = 1; i <= MAX_STEPS; i++) {
+    float marchDistance = float(i) * STEP_PIXELS;
+    float probeY = uv.y - marchDistance * texel.y;
+    if (probeY < 0.0) break;
+    if (isOtherSurface(surfaceDepth(vec2(uv.x, probeY)), ownDepth)) {
+      gap = marchDistance;
+      break;
+    }
+  }
+
+  if (gap < 0.0) {
+    gl_FragColor = scene;
+    return;
+  }
+
+  // Mirror across the contact line, bent by the surface normal
+  vec2 normal = surface.rg * 2.0 - 1.0;
+  vec2 mirror = vec2(uv.x, uv.y - 2.0 * gap * texel.y) + normal * uNormalInfluence * NORMAL_DISTORTION * texel;
+
+  // Rough surfaces smear the reflection more the further it is from the contact line
+  float spread = (1.0 - smoothness) * uBlur * gap * BLUR_SCALE;
+  vec3 reflection = vec3(0.0);
+  float weightSum = 0.0;
+  for (int tap = -2; tap <= 2; tap++) {
+    vec2 tapUV = mirror + vec2(float(tap) * spread * texel.x, 0.0);
+    float weight = tap == 0 ? 6.0 : (tap == -1 || tap == 1 ? 4.0 : 1.0);
+    // Only the reflected sprites count - never sample the reflecting surface itself or empty background
+    if (tapUV.y >= 0.0 && isOtherSurface(surfaceDepth(tapUV), ownDepth)) {
+      reflection += texture2D(uSceneTexture, tapUV).rgb * weight;
+      weightSum += weight;
+    }
+  }
+
+  if (weightSum <= 0.0) {
+    gl_FragColor = scene;
+    return;
+  }
+  reflection /= weightSum;
+
+  float coverage = weightSum / 16.0;
+  float distanceFade = 1.0 - gap / (float(MAX_STEPS) * STEP_PIXELS);
+  float edgeFade = clamp(mirror.y * uMapSize.y / EDGE_FADE_PIXELS, 0.0, 1.0);
+  // Metals mirror strongly, smooth dielectrics (polished stone, lacquer) keep a weaker reflection
+  float strength = clamp(smoothness * mix(0.4, 1.0, metallic) * uIntensity * distanceFade * edgeFade * coverage, 0.0, 1.0);
+
+  gl_FragColor = vec4(mix(scene.rgb, reflection, strength), scene.a);
+}
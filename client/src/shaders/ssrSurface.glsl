@@ -0,0 +1,54 @@
+// Reflection surface pass - every opaque sprite pixel writes what the SSR composite needs to find and shade
+// reflections (layout in lib/reflections.ts). Drawn back to front without blending: the topmost sprite owns a texel
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uDiffuse;
+uniform sampler2D uNormal;
+uniform sampler2D uMetallic;
+uniform sampler2D uSmoothness;
+uniform vec4 uMetallicChannel;
+uniform vec4 uSmoothnessChannel;
+uniform bool uUseNormalMap;
+uniform float uMetallicValue;
+uniform float uSmoothnessValue;
+uniform float uRotation;
+uniform float uSurfaceDepth; // Back-to-front rank of this sprite / 255, 0 is reserved for "no sprite"
+uniform bool uPlanarReflector; // reflectiveSurface sprites - reflected by the planar pass, not the SSR march
+
+void main(void) {
+  vec2 uv = vTextureCoord;
+
+  // Same ownership rule as the G-buffer - soft edges below 50% coverage leave the sprite underneath
+  if (texture2D(uDiffuse, uv).a < 0.5) {
+    discard;
+  }
+
+  float metallic = clamp(uMetallicValue * dot(texture2D(uMetallic, uv), uMetallicChannel), 0.0, 1.0);
+  float smoothness = clamp(uSmoothnessValue * dot(texture2D(uSmoothness, uv), uSmoothnessChannel), 0.0, 1.0);
+
+  // Normal in screen space - reverse sprite rotation exactly like the forward shader
+  vec2 normal = vec2(0.0);
+  if (uUseNormalMap) {
+    vec2 normalMapSample = texture2D(uNormal, uv).xy * 2.0 - 1.0;
+    float cosR = cos(-uRotation);
+    float sinR = sin(-uRotation);
+    normal = vec2(
+      normalMapSample.x * cosR - normalMapSample.y * sinR,
+      normalMapSample.x * sinR + normalMapSample.y * cosR
+    );
+  }
+
+  // Smoothness (high nibble) and metallic (low nibble) share one byte - 16 levels each is plenty for a blend factor
+  // Planar reflectors write zero smoothness so the composite skips them instead of reflecting them twice
+  float material = floor(smoothness * 15.0 + 0.5) * 16.0 + floor(metallic * 15.0 + 0.5);
+  if (uPlanarReflector) {
+    material = 0.0;
+  }
+  gl_FragColor = vec4(normal * 0.5 + 0.5, material / 255.0, uSurfaceDepth);
+}
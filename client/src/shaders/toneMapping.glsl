@@ -0,0 +1,122 @@
+// Tone mapping resolve - draws the HDR scene target to the screen. Sprite shaders light in display (gamma) space,
+// so the scene is linearised first, exposed, tone mapped and gamma-encoded again. Operator 'none' at 0 EV
+// reproduces the plain 8-bit render exactly. Color grading (lib/colorGrading.ts) runs last, on the display-encoded result
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uHDRTexture;
+uniform sampler2D uAdaptedLuminance;  // 1×1 normalised log2 luminance (luminanceAdapt.glsl)
+uniform float uOperator;              // TONE_MAPPING_OPERATOR_CODES: 0 none, 1 Reinhard, 2 ACES, 3 AgX
+uniform float uExposure;              // Linear multiplier (2^EV)
+uniform bool uAutoExposure;
+
+uniform bool uColorGrading;
+uniform sampler2D uLUT;               // Strip LUT: size slices of size² texels, blue picks the slice
+uniform float uLUTSize;
+uniform float uLUTStrength;           // 0 with no LUT loaded
+uniform vec3 uLUTDomainMin;
+uniform vec3 uLUTDomainMax;
+uniform float uLift;
+uniform float uGamma;
+uniform float uGain;
+uniform float uSaturation;
+uniform float uContrast;
+
+const float GAMMA = 2.2;
+const float MIN_LOG_LUMINANCE = -12.0;  // Must match luminanceReduce.glsl
+const float MAX_LOG_LUMINANCE = 4.0;
+const float KEY_VALUE = 0.18;           // Auto exposure maps the average luminance to middle grey
+const float MIN_AUTO_EXPOSURE = 0.0625; // Auto exposure stays within ±4 stops
+const float MAX_AUTO_EXPOSURE = 16.0;
+
+// ACES filmic curve fit (Narkowicz 2015) - linear in, linear out
+vec3 acesFilmic(vec3 x) {
+  return clamp((x * (2.51 * x + 0.03)) / (x * (2.43 * x + 0.59) + 0.14), 0.0, 1.0);
+}
+
+// AgX base look (minimal fit by Wrensch) - linear in, display-encoded out
+vec3 agxContrast(vec3 x) {
+  vec3 x2 = x * x;
+  vec3 x4 = x2 * x2;
+  return 15.5 * x4 * x2 - 40.14 * x4 * x + 31.96 * x4 - 6.868 * x2 * x + 0.4298 * x2 + 0.1191 * x - 0.00232;
+}
+
+vec3 agx(vec3 color) {
+  const mat3 inset = mat3(
+    0.842479062253094, 0.0423282422610123, 0.0423756549057051,
+    0.0784335999999992, 0.878468636469772, 0.0784336,
+    0.0792237451477643, 0.0791661274605434, 0.879142973793104);
+  const mat3 outset = mat3(
+    1.19687900512017, -0.0528968517574562, -0.0529716355144438,
+    -0.0980208811401368, 1.15190312990417, -0.0980434501171241,
+    -0.0990297440797205, -0.0989611768448433, 1.15107367264116);
+  const float minEV = -12.47393;
+  const float maxEV = 4.026069;
+
+  vec3 encoded = clamp(log2(max(inset * color, vec3(1e-10))), minEV, maxEV);
+  encoded = agxContrast((encoded - minEV) / (maxEV - minEV));
+  return clamp(outset * encoded, 0.0, 1.0);
+}
+
+// Manual 3D lookup in the strip - red and green filter in hardware, blue lerps between the two nearest slices
+vec3 sampleLUT(vec3 color) {
+  vec3 scaled = clamp((color - uLUTDomainMin) / (uLUTDomainMax - uLUTDomainMin), 0.0, 1.0) * (uLUTSize - 1.0);
+  float slice = floor(scaled.b);
+  float nextSlice = min(slice + 1.0, uLUTSize - 1.0);
+  float stripWidth = uLUTSize * uLUTSize;
+
+  // Texel centres - red can never bleed into the neighbouring slice
+  float y = (scaled.g + 0.5) / uLUTSize;
+  vec3 low = texture2D(uLUT, vec2((slice * uLUTSize + scaled.r + 0.5) / stripWidth, y)).rgb;
+  vec3 high = texture2D(uLUT, vec2((nextSlice * uLUTSize + scaled.r + 0.5) / stripWidth, y)).rgb;
+  return mix(low, high, scaled.b - slice);
+}
+
+// Lift/gamma/gain, contrast around mid grey and saturation, then the LUT look on top - display-encoded in and out
+vec3 colorGrade(vec3 color) {
+  color = uGain * (color + uLift * (1.0 - color));
+  color = pow(max(color, vec3(0.0)), vec3(1.0 / max(uGamma, 0.01)));
+  color = (color - 0.5) * uContrast + 0.5;
+  float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  color = clamp(mix(vec3(luma), color, uSaturation), 0.0, 1.0);
+
+  if (uLUTStrength > 0.0) {
+    color = mix(color, sampleLUT(color), uLUTStrength);
+  }
+  return color;
+}
+
+void main(void) {
+  vec3 color = texture2D(uHDRTexture, vTextureCoord).rgb;
+  vec3 linearColor = pow(max(color, vec3(0.0)), vec3(GAMMA));
+
+  float exposure = uExposure;
+  if (uAutoExposure) {
+    float normalised = texture2D(uAdaptedLuminance, vec2(0.5)).r;
+    float averageLuminance = exp2(mix(MIN_LOG_LUMINANCE, MAX_LOG_LUMINANCE, normalised));
+    exposure *= clamp(KEY_VALUE / averageLuminance, MIN_AUTO_EXPOSURE, MAX_AUTO_EXPOSURE);
+  }
+  linearColor *= exposure;
+
+  vec3 display;
+  if (uOperator > 2.5) {
+    display = agx(linearColor);
+  } else if (uOperator > 1.5) {
+    display = pow(acesFilmic(linearColor), vec3(1.0 / GAMMA));
+  } else if (uOperator > 0.5) {
+    display = pow(linearColor / (1.0 + linearColor), vec3(1.0 / GAMMA));
+  } else {
+    display = pow(clamp(linearColor, 0.0, 1.0), vec3(1.0 / GAMMA));
+  }
+
+  if (uColorGrading) {
+    display = colorGrade(display);
+  }
+
+  gl_FragColor = vec4(display, 1.0);
+}
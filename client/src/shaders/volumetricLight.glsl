@@ -0,0 +1,98 @@
+// Volumetric light shafts - one fullscreen pass per light, added onto the lit scene (additive blend, alpha untouched).
+// Each pixel marches towards the light through the occluder map and sums the light scattered at every sample
+// (GPU Gems 3 radial light scattering): shadow-casting sprites blank their samples, so shafts are cut behind them
+#ifdef GL_FRAGMENT_PRECISION_HIGH
+precision highp float;
+#else
+precision mediump float;
+#endif
+
+varying vec2 vTextureCoord;
+
+uniform sampler2D uOccluderMap;   // Caster coverage in alpha, shadow opacity (premultiplied) in green
+uniform vec2 uOccluderMapOffset;  // Buffer zone around the canvas (SHADOW_BUFFER)
+uniform vec2 uCanvasSize;
+uniform float uLightType;         // LIGHT_TYPE_CODES: 0 point, 1 directional, 2 spotlight
+uniform vec3 uLightPosition;      // View pixels (+y down), z = height above the sprite plane scaled by the zoom
+uniform vec3 uLightDirection;     // View space (+y down) - spotlight axis, directional travel direction
+uniform vec3 uLightColor;         // Color × intensity
+uniform float uLightRadius;
+uniform float uConeAngle;         // Degrees
+uniform float uSoftness;
+uniform float uDensity;           // How much light the medium scatters
+uniform float uDecay;             // Per-sample falloff along the march, 1 = no falloff
+
+const int NUM_SAMPLES = 48;             // Constant loop bound for WebGL1
+const float LIGHT_TYPE_DIRECTIONAL = 1.0;
+const float LIGHT_TYPE_SPOTLIGHT = 2.0;
+const float DIRECTIONAL_REACH = 0.5;    // Directional march length in canvas diagonals
+const float MIN_CONTRIBUTION = 0.01;    // Pixels whose first lit sample has decayed below this skip the march
+
+// Light let through at a canvas position - translucent casters pass part of it, off-map positions are open
+float transmittance(vec2 position) {
+  vec2 expandedMapSize = uCanvasSize + 2.0 * uOccluderMapOffset;
+  vec2 mapUV = (position + uOccluderMapOffset) / expandedMapSize;
+  if (mapUV.x < 0.0 || mapUV.x > 1.0 || mapUV.y < 0.0 || mapUV.y > 1.0) {
+    return 1.0;
+  }
+  return 1.0 - clamp(texture2D(uOccluderMap, mapUV).g, 0.0, 1.0);
+}
+
+// Light reaching the medium on the sprite plane - same quadratic falloff and cone as the sprite shader
+float emission(vec2 position) {
+  if (abs(uLightType - LIGHT_TYPE_DIRECTIONAL) < 0.5) {
+    return 1.0;
+  }
+
+  vec3 toSample = vec3(position, 0.0) - uLightPosition;
+  float lightDistance = length(toSample);
+  float attenuation = 1.0 - clamp(lightDistance / uLightRadius, 0.0, 1.0);
+  attenuation *= attenuation;
+
+  if (abs(uLightType - LIGHT_TYPE_SPOTLIGHT) < 0.5) {
+    float cosAng = dot(toSample / max(lightDistance, 0.001), normalize(uLightDirection));
+    float outer = cos(radians(uConeAngle));
+    float inner = cos(radians(uConeAngle * (1.0 - uSoftness)));
+    attenuation *= smoothstep(outer, inner, cosAng);
+  }
+  return attenuation;
+}
+
+void main(void) {
+  vec2 pixel = vTextureCoord * uCanvasSize;
+
+  // Whole march from the pixel towards the light - directional light sits at infinity along its direction
+  vec2 march;
+  if (abs(uLightType - LIGHT_TYPE_DIRECTIONAL) < 0.5) {
+    if (length(uLightDirection.xy) < 0.001) {
+      gl_FragColor = vec4(0.0); // Straight down onto the plane - no shafts across the screen
+      return;
+    }
+    march = normalize(uLightDirection.xy) * length(uCanvasSize) * DIRECTIONAL_REACH;
+  } else {
+    march = uLightPosition.xy - pixel;
+
+    // Far from the light only the last samples are lit - skip pixels where those have decayed to nothing
+    float pixelDistance = length(march);
+    float firstLitSample = float(NUM_SAMPLES) * max(pixelDistance - uLightRadius, 0.0) / max(pixelDistance, 0.001);
+    if (pow(uDecay, firstLitSample) < MIN_CONTRIBUTION) {
+      gl_FragColor = vec4(0.0);
+      return;
+    }
+  }
+
+  // Interleaved gradient noise offsets the samples per pixel - thin casters dither instead of banding
+  vec2 stepVector = march / float(NUM_SAMPLES);
+  float jitter = fract(52.9829189 * fract(dot(gl_FragCoord.xy, vec2(0.06711056, 0.00583715))));
+  vec2 position = pixel + stepVector * jitter;
+
+  float scattered = 0.0;
+  float illuminationDecay = 1.0;
+  for (int i = 0; i < NUM_SAMPLES; i++) {
+    scattered += emission(position) * transmittance(position) * illuminationDecay;
+    illuminationDecay *= uDecay;
+    position += stepVector;
+  }
+
+  gl_FragColor = vec4(uLightColor * (scattered * uDensity / float(NUM_SAMPLES)), 0.0);
+}
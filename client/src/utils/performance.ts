@@ -10,6 +10,10 @@ export interface PerformanceSettings {
   enableAmbientOcclusion: boolean;
   enableNormalMapping: boolean;
   enableLightMasks: boolean;
+  enableTiledLighting: boolean; // Per-tile light lists - shader only evaluates lights touching the pixel's tile
+  enableReflections: boolean; // Reflection passes - screen-space (needs sceneConfig.reflectionConfig.enabled too) and planar reflectors
+  enableBloom: boolean; // Bloom post-process (needs sceneConfig.bloomConfig.enabled too)
+  renderingPath: 'forward' | 'deferred'; // Deferred = G-buffer + one fullscreen lighting pass (WebGL2 only, falls back to forward)
   textureScale: number;
   fpsTarget: number;
   capFpsTo60: boolean;
@@ -107,6 +111,10 @@ export const getOptimalSettings = (device: DeviceInfo): PerformanceSettings => {
       enableAmbientOcclusion: false,
       enableNormalMapping: false,
       enableLightMasks: false,
+      enableTiledLighting: true,
+      enableReflections: false,
+      enableBloom: false,
+      renderingPath: 'forward',
       textureScale: 0.5,
       fpsTarget: 30,
       capFpsTo60: true
@@ -121,6 +129,10 @@ export const getOptimalSettings = (device: DeviceInfo): PerformanceSettings => {
       enableAmbientOcclusion: false,
       enableNormalMapping: true,
       enableLightMasks: false,
+      enableTiledLighting: true,
+      enableReflections: false,
+      enableBloom: false,
+      renderingPath: 'forward',
       textureScale: 0.75,
       fpsTarget: 45,
       capFpsTo60: true
@@ -138,6 +150,10 @@ export const getOptimalSettings = (device: DeviceInfo): PerformanceSettings => {
         enableAmbientOcclusion: true,
         enableNormalMapping: true,
         enableLightMasks: true,
+        enableTiledLighting: true,
+        enableReflections: true,
+        enableBloom: true,
+        renderingPath: 'forward',
         textureScale: 1.0,
         fpsTarget: 60,
         capFpsTo60: true
@@ -152,6 +168,10 @@ export const getOptimalSettings = (device: DeviceInfo): PerformanceSettings => {
         enableAmbientOcclusion: false,
         enableNormalMapping: true,
         enableLightMasks: false,
+        enableTiledLighting: true,
+        enableReflections: false,
+        enableBloom: false,
+        renderingPath: 'forward',
         textureScale: 0.75,
         fpsTarget: 45,
         capFpsTo60: true
@@ -276,7 +296,9 @@ export class AdaptiveQuality {
         resolution: 0.75,
         maxLights: 4,
         enableAmbientOcclusion: false,
-        enableLightMasks: false
+        enableLightMasks: false,
+        enableReflections: false,
+        enableBloom: false
       };
     } else if (this.currentSettings.quality === 'medium') {
       this.currentSettings = {
@@ -314,7 +336,9 @@ export class AdaptiveQuality {
         resolution: 1.0,
         maxLights: 128, // Maximum realistic light count for high performance
         enableAmbientOcclusion: true,
-        enableLightMasks: true
+        enableLightMasks: true,
+        enableReflections: true,
+        enableBloom: true
       };
     }
     